@@ -13,6 +13,7 @@ import { KeyboardShortcutProvider } from "./contexts/KeyboardShortcutContext";
 import { useGlobalShortcuts } from "./hooks/useGlobalShortcuts";
 import { useDocumentHistory } from "./hooks/useDocumentHistory";
 import { useTuioIntegration } from "./hooks/useTuioIntegration";
+import { usePlayback } from "./hooks/usePlayback";
 import { useWorkspaceStore } from "./stores/workspaceStore";
 import { usePanelStore } from "./stores/panelStore";
 import { useSettingsStore } from "./stores/settingsStore";
@@ -118,6 +119,9 @@ function AppContent() {
   // Setup TUIO integration for tangible detection
   useTuioIntegration();
 
+  // Advance timeline playback while it is running
+  usePlayback();
+
   // Escape key to close property panels
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -19,6 +19,7 @@ interface Props {
   value: string[]; // Selected label IDs
   onChange: (labelIds: string[]) => void;
   scope: 'actors' | 'relations';
+  disabled?: boolean; // Show the labels without letting them change
 }
 
 // Convert HSL to Hex
@@ -41,7 +42,7 @@ const generateRandomColor = () => {
   return hslToHex(hue, 70, 65);
 };
 
-const AutocompleteLabelSelector = ({ value, onChange, scope }: Props) => {
+const AutocompleteLabelSelector = ({ value, onChange, scope, disabled = false }: Props) => {
   const labels = useGraphStore((state) => state.labels);
   const { addLabel } = useGraphWithHistory();
 
@@ -201,13 +202,15 @@ const AutocompleteLabelSelector = ({ value, onChange, scope }: Props) => {
                 color={label.color}
                 size="sm"
               />
-              <button
-                onClick={() => handleRemoveLabel(label.id)}
-                className="opacity-0 group-hover:opacity-100 transition-opacity -ml-1"
-                title="Remove label"
-              >
-                <CloseIcon sx={{ fontSize: 14 }} className="text-gray-500 hover:text-gray-700" />
-              </button>
+              {!disabled && (
+                <button
+                  onClick={() => handleRemoveLabel(label.id)}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity -ml-1"
+                  title="Remove label"
+                >
+                  <CloseIcon sx={{ fontSize: 14 }} className="text-gray-500 hover:text-gray-700" />
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -224,12 +227,13 @@ const AutocompleteLabelSelector = ({ value, onChange, scope }: Props) => {
         }}
         onFocus={() => setIsOpen(true)}
         onKeyDown={handleKeyDown}
+        disabled={disabled}
         placeholder="Type to search or create labels..."
-        className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
       />
 
       {/* Dropdown */}
-      {isOpen && (filteredLabels.length > 0 || showCreateOption) && (
+      {isOpen && !disabled && (filteredLabels.length > 0 || showCreateOption) && (
         <div
           ref={dropdownRef}
           className="absolute z-50 w-full mt-1 bg-white border border-gray-300 rounded shadow-lg max-h-48 overflow-y-auto"
@@ -9,9 +9,10 @@ interface CitationSelectorProps {
   value: string[];
   onChange: (citationIds: string[]) => void;
   onOpenBibliography?: () => void;
+  disabled?: boolean; // Show the citations without letting them change
 }
 
-const CitationSelector = ({ value, onChange, onOpenBibliography }: CitationSelectorProps) => {
+const CitationSelector = ({ value, onChange, onOpenBibliography, disabled = false }: CitationSelectorProps) => {
   const [inputValue, setInputValue] = useState('');
   const [isOpen, setIsOpen] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(0);
@@ -126,13 +127,15 @@ const CitationSelector = ({ value, onChange, onOpenBibliography }: CitationSelec
                   {formatShortCitation(ref)}
                 </div>
               </div>
-              <button
-                onClick={(e) => handleRemoveReference(ref.id, e)}
-                className="flex-shrink-0 p-0.5 text-gray-500 hover:text-red-600 transition-colors"
-                aria-label="Remove citation"
-              >
-                <CloseIcon sx={{ fontSize: 14 }} />
-              </button>
+              {!disabled && (
+                <button
+                  onClick={(e) => handleRemoveReference(ref.id, e)}
+                  className="flex-shrink-0 p-0.5 text-gray-500 hover:text-red-600 transition-colors"
+                  aria-label="Remove citation"
+                >
+                  <CloseIcon sx={{ fontSize: 14 }} />
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -149,12 +152,13 @@ const CitationSelector = ({ value, onChange, onOpenBibliography }: CitationSelec
         }}
         onFocus={() => setIsOpen(true)}
         onKeyDown={handleKeyDown}
+        disabled={disabled}
         placeholder="Type to search citations..."
-        className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
       />
 
       {/* Dropdown Menu */}
-      {isOpen && (
+      {isOpen && !disabled && (
         <div className="absolute z-50 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-64 flex flex-col">
           {/* Reference List */}
           <div className="flex-1 overflow-y-auto">
@@ -1,14 +1,88 @@
-import { useMemo } from 'react';
-import { Tooltip } from '@mui/material';
+import { useEffect, useMemo, useState } from 'react';
+import { Tooltip, ToggleButton, ToggleButtonGroup } from '@mui/material';
 import InfoIcon from '@mui/icons-material/Info';
 import BarChartIcon from '@mui/icons-material/BarChart';
-import { calculateGraphMetrics } from '../../utils/graphAnalysis';
-import type { Actor, Relation } from '../../types';
+import ArrowDropDownIcon from '@mui/icons-material/ArrowDropDown';
+import ArrowDropUpIcon from '@mui/icons-material/ArrowDropUp';
+import { useAnalysisStore } from '../../stores/analysisStore';
+import { getCategoricalColor } from '../../utils/colorUtils';
+import {
+  downloadCsv,
+  downloadJson,
+  homophilyReportToCsv,
+  structureReportToCsv,
+  structureReportToJson,
+} from '../../utils/reportExport';
+import { getNumericMetadataKeys, type NodeEncoding } from '../../utils/nodeEncoding';
+import { BROKERAGE_RANKINGS } from './brokerageRoles';
+import { CENTRALITY_MEASURES, MEASURE_ORDER } from './centralityMeasures';
+import { TRIAD_DESCRIPTIONS } from './triadTypes';
+import {
+  calculateGraphMetrics,
+  calculateHomophilyReport,
+  calculateStructureReport,
+  detectCommunities,
+  rankActorsBy,
+  rankBrokers,
+  TRIAD_TYPES,
+  type ActorBrokerage,
+  type ActorCentrality,
+  type ActorFlow,
+  type BrokerageRanking,
+  type CentralityMeasure,
+} from '../../utils/graphAnalysis';
+import type { Actor, Relation, EdgeTypeConfig, NodeTypeConfig, LabelConfig } from '../../types';
+
+type FlowColumn = 'in' | 'out' | 'all';
+
+const FLOW_COLUMNS: { column: FlowColumn; label: string; tooltip: string }[] = [
+  { column: 'in', label: 'In', tooltip: 'Relations pointing at the actor. Two-way and mutual relations count on both sides.' },
+  { column: 'out', label: 'Out', tooltip: 'Relations the actor points at others. Two-way and mutual relations count on both sides.' },
+  { column: 'all', label: 'All', tooltip: 'Every relation touching the actor, whatever its direction.' },
+];
+
+/** Value of a flow column in the unweighted (counted) or weighted (strength) view. */
+const flowValue = (flow: ActorFlow, column: FlowColumn, weighted: boolean, degree: number): number => {
+  if (column === 'in') return weighted ? flow.weightedInDegree : flow.inDegree;
+  if (column === 'out') return weighted ? flow.weightedOutDegree : flow.outDegree;
+  return weighted ? flow.weightedDegree : degree;
+};
+
+/** Preview colour for actors that share a community with nobody. */
+const UNGROUPED_COMMUNITY_COLOR = '#d1d5db';
+
+const formatCentrality = (actor: ActorCentrality, measure: CentralityMeasure): string =>
+  measure === 'degree' ? actor.degree.toString() : actor[measure].toFixed(measure === 'pageRank' ? 3 : 2);
+
+/** Reading of an E-I index or assortativity value, from -1 to 1 */
+const formatMixing = (value: number | null): string => (value === null ? '—' : value.toFixed(2));
+
+const formatBrokerage = (actor: ActorBrokerage, ranking: BrokerageRanking): string => {
+  if (ranking === 'constraint') return actor.constraint!.toFixed(2);
+  if (ranking === 'effectiveSize') return actor.effectiveSize.toFixed(1);
+  if (ranking === 'totalBrokerage') return actor.totalBrokerage.toString();
+  return actor.roles[ranking].toString();
+};
 
 interface GraphMetricsProps {
   nodes: Actor[];
   edges: Relation[];
+  edgeTypes?: EdgeTypeConfig[];
+  nodeTypes?: NodeTypeConfig[];
+  labels?: LabelConfig[];
+  /** Metric sizing/colouring actors on the canvas, saved with the document */
+  nodeEncoding?: NodeEncoding | null;
+  onNodeEncodingChange?: (encoding: NodeEncoding | null) => void;
   onActorClick?: (actorId: string) => void;
+  onRelationClick?: (relationId: string) => void;
+  /** Called with the communities to turn into groups, already limited to actors not yet in a group */
+  onCreateCommunityGroups?: (communities: CommunityGroupDraft[]) => void;
+}
+
+export interface CommunityGroupDraft {
+  label: string;
+  color: string; // Preview colour, as hex
+  actorIds: string[];
 }
 
 /**
@@ -17,11 +91,205 @@ interface GraphMetricsProps {
  * Shows when no node or edge is selected in the right panel.
  * Provides insights into graph structure, connectivity, and key actors.
  */
-const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
+const GraphMetrics = ({
+  nodes,
+  edges,
+  edgeTypes = [],
+  nodeTypes = [],
+  labels = [],
+  nodeEncoding = null,
+  onNodeEncodingChange,
+  onActorClick,
+  onRelationClick,
+  onCreateCommunityGroups,
+}: GraphMetricsProps) => {
   // Calculate all metrics (memoized for performance - auto-updates when nodes/edges change)
   const metrics = useMemo(() => {
-    return calculateGraphMetrics(nodes, edges);
-  }, [nodes, edges]);
+    return calculateGraphMetrics(nodes, edges, edgeTypes);
+  }, [nodes, edges, edgeTypes]);
+
+  // Numeric metadata fields can drive the canvas encoding too
+  const metadataKeys = useMemo(() => getNumericMetadataKeys(nodes), [nodes]);
+  const encodingValue = !nodeEncoding
+    ? ''
+    : nodeEncoding.metric === 'metadata'
+      ? `metadata:${nodeEncoding.metadataKey}`
+      : nodeEncoding.metric;
+
+  const handleEncodingMetricChange = (value: string) => {
+    if (!onNodeEncodingChange) return;
+    if (value === '') {
+      onNodeEncodingChange(null);
+      return;
+    }
+    const channels = nodeEncoding
+      ? { size: nodeEncoding.size, color: nodeEncoding.color }
+      : { size: true, color: true };
+    onNodeEncodingChange(
+      value.startsWith('metadata:')
+        ? { metric: 'metadata', metadataKey: value.slice('metadata:'.length), ...channels }
+        : { metric: value as CentralityMeasure, ...channels }
+    );
+  };
+
+  // Triad census, motifs and clustering
+  const structure = useMemo(
+    () => calculateStructureReport(nodes, edges, edgeTypes),
+    [nodes, edges, edgeTypes]
+  );
+  const [showTriadCensus, setShowTriadCensus] = useState(false);
+
+  // Who connects with their own kind: mixing by actor type and by label
+  const homophily = useMemo(
+    () => calculateHomophilyReport(nodes, edges, labels),
+    [nodes, edges, labels]
+  );
+  const typeName = (typeId: string) => nodeTypes.find((t) => t.id === typeId)?.label || typeId;
+  const labelName = (labelId: string) => labels.find((l) => l.id === labelId)?.name || labelId;
+
+  const handleExportHomophily = () => {
+    downloadCsv(homophilyReportToCsv(homophily, nodeTypes, labels), 'constellation-homophily');
+  };
+
+  // Communities of two or more actors; everyone else stands alone
+  const communityResult = useMemo(() => detectCommunities(nodes, edges), [nodes, edges]);
+  const communities = useMemo(
+    () => communityResult.communities.filter((community) => community.actorIds.length > 1),
+    [communityResult]
+  );
+
+  // Whether detected communities recolour the canvas
+  const [previewCommunities, setPreviewCommunities] = useState(false);
+  const setCommunityColors = useAnalysisStore((state) => state.setCommunityColors);
+
+  useEffect(() => {
+    if (!previewCommunities) {
+      setCommunityColors(null);
+      return;
+    }
+    const colors: Record<string, string> = {};
+    nodes.forEach((node) => {
+      colors[node.id] = UNGROUPED_COMMUNITY_COLOR;
+    });
+    communities.forEach((community, index) => {
+      community.actorIds.forEach((actorId) => {
+        colors[actorId] = getCategoricalColor(index);
+      });
+    });
+    setCommunityColors(colors);
+  }, [previewCommunities, communities, nodes, setCommunityColors]);
+
+  // Never leave the preview on the canvas once the panel is gone
+  useEffect(() => () => setCommunityColors(null), [setCommunityColors]);
+
+  // Actors already in a group stay where they are
+  const groupableCommunities = useMemo(() => {
+    const groupedActorIds = new Set(nodes.filter((node) => node.parentId).map((node) => node.id));
+    return communities
+      .map((community, index): CommunityGroupDraft => ({
+        label: `Community ${index + 1}`,
+        color: getCategoricalColor(index),
+        actorIds: community.actorIds.filter((actorId) => !groupedActorIds.has(actorId)),
+      }))
+      .filter((community) => community.actorIds.length > 1);
+  }, [communities, nodes]);
+
+  const actorLabels = useMemo(
+    () => new Map(nodes.map((node) => [node.id, node.data?.label || node.id])),
+    [nodes]
+  );
+
+  const criticalRelations = useMemo(() => {
+    const bridgeIds = new Set(metrics.criticalRelationIds);
+    return edges.filter((edge) => bridgeIds.has(edge.id));
+  }, [edges, metrics.criticalRelationIds]);
+
+  const innermostCoreSize = useMemo(
+    () =>
+      Array.from(metrics.coreNumbers.values()).filter((core) => core === metrics.maxCoreNumber).length,
+    [metrics.coreNumbers, metrics.maxCoreNumber]
+  );
+
+  const handleCreateCommunityGroups = () => {
+    onCreateCommunityGroups?.(groupableCommunities);
+    setPreviewCommunities(false);
+  };
+
+  // Count relations, or weigh each one by its strength
+  const [weighted, setWeighted] = useState(false);
+
+  // Measure the brokers list is ranked by
+  const [brokerRanking, setBrokerRanking] = useState<BrokerageRanking>('constraint');
+  const topBrokers = useMemo(
+    () => rankBrokers(metrics.actorBrokerage, brokerRanking, 5),
+    [metrics.actorBrokerage, brokerRanking]
+  );
+
+  // Column and direction the flows table is sorted by
+  const [flowSortColumn, setFlowSortColumn] = useState<FlowColumn | 'label'>('all');
+  const [flowSortAscending, setFlowSortAscending] = useState(false);
+
+  // Which measure the top-actors list ranks by
+  const [rankMeasure, setRankMeasure] = useState<CentralityMeasure>('degree');
+
+  // Column and direction the centrality table is sorted by
+  const [sortMeasure, setSortMeasure] = useState<CentralityMeasure | 'label'>('degree');
+  const [sortAscending, setSortAscending] = useState(false);
+
+  const topActors = useMemo(
+    () => rankActorsBy(metrics.actorCentralities, rankMeasure, 5),
+    [metrics.actorCentralities, rankMeasure]
+  );
+
+  const sortedCentralities = useMemo(() => {
+    // Labels come back A-Z, scores highest first; flip either when asked
+    const sorted =
+      sortMeasure === 'label'
+        ? [...metrics.actorCentralities].sort((a, b) => a.actorLabel.localeCompare(b.actorLabel))
+        : rankActorsBy(metrics.actorCentralities, sortMeasure);
+    return sortAscending === (sortMeasure === 'label') ? sorted : sorted.reverse();
+  }, [metrics.actorCentralities, sortMeasure, sortAscending]);
+
+  const sortedFlows = useMemo(() => {
+    const degrees = new Map(metrics.actorCentralities.map((actor) => [actor.actorId, actor.degree]));
+    const rows = metrics.actorFlows.map((flow) => ({
+      flow,
+      values: {
+        in: flowValue(flow, 'in', weighted, degrees.get(flow.actorId) || 0),
+        out: flowValue(flow, 'out', weighted, degrees.get(flow.actorId) || 0),
+        all: flowValue(flow, 'all', weighted, degrees.get(flow.actorId) || 0),
+      },
+    }));
+    rows.sort((a, b) =>
+      flowSortColumn === 'label'
+        ? a.flow.actorLabel.localeCompare(b.flow.actorLabel)
+        : a.values[flowSortColumn] - b.values[flowSortColumn] ||
+          b.flow.actorLabel.localeCompare(a.flow.actorLabel)
+    );
+    return flowSortAscending ? rows : rows.reverse();
+  }, [metrics.actorFlows, metrics.actorCentralities, weighted, flowSortColumn, flowSortAscending]);
+
+  const handleFlowSort = (column: FlowColumn | 'label') => {
+    if (column === flowSortColumn) {
+      setFlowSortAscending(!flowSortAscending);
+    } else {
+      setFlowSortColumn(column);
+      setFlowSortAscending(column === 'label');
+    }
+  };
+
+  const formatFlow = (value: number): string =>
+    weighted && !Number.isInteger(value) ? value.toFixed(1) : value.toString();
+
+  const handleSort = (column: CentralityMeasure | 'label') => {
+    if (column === sortMeasure) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortMeasure(column);
+      // Names read best A-Z, scores best highest first
+      setSortAscending(column === 'label');
+    }
+  };
 
   const formatNumber = (num: number, decimals: number = 2): string => {
     return num.toFixed(decimals);
@@ -35,6 +303,27 @@ const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
     <div className="h-full flex flex-col overflow-hidden">
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto overflow-x-hidden px-3 py-3 space-y-4">
+        {/* Weighting Toggle */}
+        {metrics.relationCount > 0 && (
+          <ToggleButtonGroup
+            value={weighted ? 'weighted' : 'unweighted'}
+            exclusive
+            onChange={(_, value) => {
+              if (value !== null) setWeighted(value === 'weighted');
+            }}
+            size="small"
+            fullWidth
+            aria-label="relation weighting"
+          >
+            <ToggleButton value="unweighted" sx={{ fontSize: '0.7rem', py: 0.25 }}>
+              Count relations
+            </ToggleButton>
+            <ToggleButton value="weighted" sx={{ fontSize: '0.7rem', py: 0.25 }}>
+              Weigh by strength
+            </ToggleButton>
+          </ToggleButtonGroup>
+        )}
+
         {/* Overview Section */}
         <div>
           <h3 className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
@@ -48,25 +337,119 @@ const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
               value={formatPercentage(metrics.density)}
               tooltip="Of every connection that could exist between your actors, this share does. Low is normal — dense constellations are the exception, not the goal."
             />
-            <MetricRow
-              label="Connections per actor"
-              value={formatNumber(metrics.averageConnections)}
-              tooltip="On average, how many relations each actor has. Compare actors against this to spot the unusually central and unusually peripheral."
-            />
+            {weighted ? (
+              <MetricRow
+                label="Strength per actor"
+                value={formatNumber(metrics.averageWeightedConnections)}
+                tooltip="On average, the summed strength of each actor's relations. Relations without a strength count as 1."
+              />
+            ) : (
+              <MetricRow
+                label="Connections per actor"
+                value={formatNumber(metrics.averageConnections)}
+                tooltip="On average, how many relations each actor has. Compare actors against this to spot the unusually central and unusually peripheral."
+              />
+            )}
+            {weighted && (
+              <MetricRow
+                label="Strength per relation"
+                value={formatNumber(metrics.averageStrength)}
+                tooltip="The average strength recorded on a relation. Relations without a strength count as 1."
+              />
+            )}
           </div>
         </div>
 
-        {/* Most Connected Actors Section */}
-        {metrics.mostConnectedActors.length > 0 && (
+        {/* Direction Section */}
+        {metrics.relationCount > 0 && (
           <div className="pt-3 border-t border-gray-200">
             <h3 className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
-              Most Connected Actors
+              Direction
             </h3>
+            <div className="space-y-2">
+              <MetricRow
+                label="How connected, by direction"
+                value={formatPercentage(metrics.directedDensity)}
+                tooltip="Like How connected, but A→B and B→A count as two separate links. A constellation drawn only with one-way relations tops out at 50%."
+              />
+              <MetricRow
+                label="Returned relations"
+                value={formatPercentage(metrics.reciprocity)}
+                tooltip="Of every one-way link from one actor to another, the share that is answered by a link back. Two-way and mutual relations always count as returned."
+              />
+            </div>
+            <table className="w-full text-xs mt-3">
+              <thead>
+                <tr className="text-gray-500">
+                  <SortableHeader
+                    label="Actor"
+                    active={flowSortColumn === 'label'}
+                    ascending={flowSortAscending}
+                    onClick={() => handleFlowSort('label')}
+                    align="left"
+                  />
+                  {FLOW_COLUMNS.map(({ column, label, tooltip }) => (
+                    <SortableHeader
+                      key={column}
+                      label={label}
+                      tooltip={weighted ? `${tooltip} Summed by strength.` : tooltip}
+                      active={flowSortColumn === column}
+                      ascending={flowSortAscending}
+                      onClick={() => handleFlowSort(column)}
+                      align="right"
+                    />
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedFlows.map(({ flow, values }) => (
+                  <tr
+                    key={flow.actorId}
+                    className={`border-t border-gray-100 ${
+                      onActorClick ? 'hover:bg-blue-50 cursor-pointer transition-colors' : ''
+                    }`}
+                    onClick={() => onActorClick?.(flow.actorId)}
+                  >
+                    <td className="py-1 pr-1 text-gray-700 truncate max-w-[120px]" title={flow.actorLabel}>
+                      {flow.actorLabel}
+                    </td>
+                    {FLOW_COLUMNS.map(({ column }) => (
+                      <td key={column} className="py-1 pl-1 text-right text-gray-600 tabular-nums">
+                        {formatFlow(values[column])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Top Actors Section */}
+        {topActors.length > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Top Actors
+              </h3>
+              <select
+                value={rankMeasure}
+                onChange={(e) => setRankMeasure(e.target.value as CentralityMeasure)}
+                className="text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                aria-label="Rank actors by"
+              >
+                {MEASURE_ORDER.map((measure) => (
+                  <option key={measure} value={measure}>
+                    {CENTRALITY_MEASURES[measure].label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <p className="text-xs text-gray-500 mb-2">
-              Most connected is not the same as most important — read it as a question, not a conclusion.
+              Most central is not the same as most important — read it as a question, not a conclusion.
             </p>
             <div className="space-y-1">
-              {metrics.mostConnectedActors.map((actor, index) => (
+              {topActors.map((actor, index) => (
                 <div
                   key={actor.actorId}
                   className={`flex items-center justify-between text-xs py-1 px-2 rounded ${
@@ -85,7 +468,9 @@ const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
                     </span>
                   </div>
                   <span className="text-gray-500 ml-2">
-                    {actor.degree} {actor.degree === 1 ? 'connection' : 'connections'}
+                    {rankMeasure === 'degree'
+                      ? `${actor.degree} ${actor.degree === 1 ? 'connection' : 'connections'}`
+                      : formatCentrality(actor, rankMeasure)}
                   </span>
                 </div>
               ))}
@@ -93,10 +478,168 @@ const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
           </div>
         )}
 
-        {/* Graph Structure Section */}
+        {/* Centrality Table Section */}
+        {sortedCentralities.length > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <h3 className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Centrality
+            </h3>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <SortableHeader
+                    label="Actor"
+                    active={sortMeasure === 'label'}
+                    ascending={sortAscending}
+                    onClick={() => handleSort('label')}
+                    align="left"
+                  />
+                  {MEASURE_ORDER.map((measure) => (
+                    <SortableHeader
+                      key={measure}
+                      label={CENTRALITY_MEASURES[measure].short}
+                      tooltip={`${CENTRALITY_MEASURES[measure].label}: ${CENTRALITY_MEASURES[measure].description}`}
+                      active={sortMeasure === measure}
+                      ascending={sortAscending}
+                      onClick={() => handleSort(measure)}
+                      align="right"
+                    />
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedCentralities.map((actor) => (
+                  <tr
+                    key={actor.actorId}
+                    className={`border-t border-gray-100 ${
+                      onActorClick ? 'hover:bg-blue-50 cursor-pointer transition-colors' : ''
+                    }`}
+                    onClick={() => onActorClick?.(actor.actorId)}
+                  >
+                    <td className="py-1 pr-1 text-gray-700 truncate max-w-[90px]" title={actor.actorLabel}>
+                      {actor.actorLabel}
+                    </td>
+                    {MEASURE_ORDER.map((measure) => (
+                      <td key={measure} className="py-1 pl-1 text-right text-gray-600 tabular-nums">
+                        {formatCentrality(actor, measure)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Canvas Encoding Section */}
+        {onNodeEncodingChange && metrics.actorCount > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Size &amp; Colour
+              </h3>
+              <select
+                value={encodingValue}
+                onChange={(e) => handleEncodingMetricChange(e.target.value)}
+                className="text-xs border border-gray-300 rounded px-1 py-0.5 max-w-[60%] focus:outline-none focus:ring-1 focus:ring-blue-500"
+                aria-label="Size and colour actors by"
+              >
+                <option value="">Off</option>
+                {MEASURE_ORDER.map((measure) => (
+                  <option key={measure} value={measure}>
+                    {CENTRALITY_MEASURES[measure].label}
+                  </option>
+                ))}
+                {metadataKeys.map((key) => (
+                  <option key={key} value={`metadata:${key}`}>
+                    {key}
+                  </option>
+                ))}
+                {nodeEncoding?.metric === 'metadata' &&
+                  !metadataKeys.includes(nodeEncoding.metadataKey || '') && (
+                    <option value={encodingValue}>{nodeEncoding.metadataKey}</option>
+                  )}
+              </select>
+            </div>
+            <div className="flex items-center space-x-4 text-xs text-gray-600">
+              <label className="flex items-center space-x-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={nodeEncoding?.size ?? false}
+                  disabled={!nodeEncoding}
+                  onChange={(e) => nodeEncoding && onNodeEncodingChange({ ...nodeEncoding, size: e.target.checked })}
+                />
+                <span>Size</span>
+              </label>
+              <label className="flex items-center space-x-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={nodeEncoding?.color ?? false}
+                  disabled={!nodeEncoding}
+                  onChange={(e) => nodeEncoding && onNodeEncodingChange({ ...nodeEncoding, color: e.target.checked })}
+                />
+                <span>Colour</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Scales and colours actors on the canvas, with a legend. Saved with the document, and shown in presentation mode and image exports.
+            </p>
+          </div>
+        )}
+
+        {/* Brokerage Section */}
+        {metrics.relationCount > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Brokers
+              </h3>
+              <select
+                value={brokerRanking}
+                onChange={(e) => setBrokerRanking(e.target.value as BrokerageRanking)}
+                className="text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                aria-label="Rank brokers by"
+              >
+                {(Object.keys(BROKERAGE_RANKINGS) as BrokerageRanking[]).map((ranking) => (
+                  <option key={ranking} value={ranking}>
+                    {BROKERAGE_RANKINGS[ranking].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">{BROKERAGE_RANKINGS[brokerRanking].description}</p>
+            {topBrokers.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">No actor brokers in this role.</p>
+            ) : (
+              <div className="space-y-1">
+                {topBrokers.map((actor, index) => (
+                  <div
+                    key={actor.actorId}
+                    className={`flex items-center justify-between text-xs py-1 px-2 rounded ${
+                      onActorClick ? 'hover:bg-blue-50 cursor-pointer transition-colors' : ''
+                    }`}
+                    onClick={() => onActorClick?.(actor.actorId)}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <span className="text-gray-500 font-medium w-4">{index + 1}.</span>
+                      <span className="text-gray-700 font-medium truncate max-w-[150px]">
+                        {actor.actorLabel}
+                      </span>
+                    </div>
+                    <span className="text-gray-500 ml-2 tabular-nums">
+                      {formatBrokerage(actor, brokerRanking)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Connectivity Section */}
         <div className="pt-3 border-t border-gray-200">
           <h3 className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
-            Graph Structure
+            Connectivity
           </h3>
           <div className="space-y-2">
             {/* No warning styling here: an actor with no relations is often a
@@ -121,6 +664,326 @@ const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
           </div>
         </div>
 
+        {/* Structure Section */}
+        {metrics.relationCount > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Structure
+              </h3>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => downloadCsv(structureReportToCsv(structure), 'constellation-structure')}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  CSV
+                </button>
+                <button
+                  onClick={() => downloadJson(structureReportToJson(structure), 'constellation-structure')}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  JSON
+                </button>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <MetricRow
+                label="Mutual pairs"
+                value={structure.dyadCensus.mutual.toString()}
+                tooltip="Pairs of actors tied both ways, by a two-way or mutual relation or by relations in both directions."
+              />
+              <MetricRow
+                label="One-way pairs"
+                value={structure.dyadCensus.asymmetric.toString()}
+                tooltip="Pairs of actors tied in one direction only."
+              />
+              <MetricRow
+                label="Feed-forward loops"
+                value={structure.feedForwardLoops.toString()}
+                tooltip="A→B, B→C and also A→C: A reaches C both directly and through B. Triad type 030T."
+              />
+              <MetricRow
+                label="Cycles"
+                value={structure.cycles.toString()}
+                tooltip="A→B→C→A, with nothing flowing back. Triad type 030C."
+              />
+              <MetricRow
+                label="Closed triads"
+                value={structure.closedTriads.toString()}
+                tooltip="Three actors all tied to each other, whatever the direction."
+              />
+              <MetricRow
+                label="Open triads"
+                value={structure.openTriads.toString()}
+                tooltip="Three actors where one is tied to both others, but those two are not tied to each other."
+              />
+              <MetricRow
+                label="Clustering (global)"
+                value={structure.globalClustering === null ? '—' : formatPercentage(structure.globalClustering)}
+                tooltip="Of all places where one actor links two others, the share where those two are linked as well. High values mean friends of friends tend to be friends."
+              />
+              <MetricRow
+                label="Clustering (average local)"
+                value={structure.averageLocalClustering === null ? '—' : formatPercentage(structure.averageLocalClustering)}
+                tooltip="For each actor with at least two neighbours, the share of its neighbours who are tied to each other — averaged over those actors."
+              />
+            </div>
+            <button
+              onClick={() => setShowTriadCensus(!showTriadCensus)}
+              className="flex items-center text-xs text-gray-600 hover:text-gray-800 mt-2"
+            >
+              {showTriadCensus ? (
+                <ArrowDropUpIcon sx={{ fontSize: 16 }} />
+              ) : (
+                <ArrowDropDownIcon sx={{ fontSize: 16 }} />
+              )}
+              Triad census
+            </button>
+            {showTriadCensus && (
+              <table className="w-full text-xs mt-1">
+                <tbody>
+                  {TRIAD_TYPES.map((type) => (
+                    <Tooltip key={type} title={TRIAD_DESCRIPTIONS[type]} placement="left">
+                      <tr className="border-t border-gray-100 cursor-help">
+                        <td className="py-0.5 pr-1 text-gray-600 font-mono">{type}</td>
+                        <td className="py-0.5 pl-1 text-right text-gray-800 tabular-nums">
+                          {structure.triadCensus[type]}
+                        </td>
+                      </tr>
+                    </Tooltip>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {/* Critical Points Section */}
+        {metrics.relationCount > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <h3 className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Critical Points
+            </h3>
+            <div className="space-y-2">
+              <MetricRow
+                label="Innermost core"
+                value={`${metrics.maxCoreNumber}-core · ${innermostCoreSize} ${innermostCoreSize === 1 ? 'actor' : 'actors'}`}
+                tooltip="The largest k for which a group exists where every member has at least k relations to other members. Its actors form the tightly knit centre of the constellation."
+              />
+            </div>
+            {metrics.criticalActors.length === 0 && criticalRelations.length === 0 ? (
+              <p className="text-xs text-gray-500 mt-2">
+                No single actor or relation holds the constellation together: removing any one of them leaves every island in one piece.
+              </p>
+            ) : (
+              <>
+                {metrics.criticalActors.length > 0 && (
+                  <div className="mt-3">
+                    <Tooltip title="Actors whose removal splits their island apart. Everything between the pieces has to pass through them." placement="left">
+                      <h4 className="text-xs font-medium text-gray-600 mb-1 cursor-help">
+                        Critical actors ({metrics.criticalActors.length})
+                      </h4>
+                    </Tooltip>
+                    <div className="space-y-1">
+                      {metrics.criticalActors.map((actor) => (
+                        <div
+                          key={actor.actorId}
+                          className={`flex items-center justify-between text-xs py-1 px-2 rounded ${
+                            onActorClick ? 'hover:bg-blue-50 cursor-pointer transition-colors' : ''
+                          }`}
+                          onClick={() => onActorClick?.(actor.actorId)}
+                        >
+                          <span className="text-gray-700 font-medium truncate max-w-[150px]">
+                            {actor.actorLabel}
+                          </span>
+                          <span className="text-gray-500 ml-2">splits into {actor.splitsInto}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {criticalRelations.length > 0 && (
+                  <div className="mt-3">
+                    <Tooltip title="Relations that are the only link between two parts of an island. Without them, the parts no longer reach each other." placement="left">
+                      <h4 className="text-xs font-medium text-gray-600 mb-1 cursor-help">
+                        Critical relations ({criticalRelations.length})
+                      </h4>
+                    </Tooltip>
+                    <div className="space-y-1">
+                      {criticalRelations.map((edge) => (
+                        <div
+                          key={edge.id}
+                          className={`flex items-center text-xs py-1 px-2 rounded ${
+                            onRelationClick ? 'hover:bg-blue-50 cursor-pointer transition-colors' : ''
+                          }`}
+                          onClick={() => onRelationClick?.(edge.id)}
+                        >
+                          <span className="text-gray-700 truncate">
+                            {actorLabels.get(edge.source)} — {actorLabels.get(edge.target)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Communities Section */}
+        {metrics.relationCount > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Communities
+              </h3>
+              {communities.length > 0 && (
+                <label className="flex items-center space-x-1 text-xs text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={previewCommunities}
+                    onChange={(e) => setPreviewCommunities(e.target.checked)}
+                  />
+                  <span>Show on canvas</span>
+                </label>
+              )}
+            </div>
+            <div className="space-y-2">
+              <MetricRow
+                label="Communities found"
+                value={communities.length.toString()}
+                tooltip="Clusters of actors more tightly linked to each other than to the rest, found with the Louvain method. Strength counts: strong relations pull actors together harder."
+              />
+              <MetricRow
+                label="How clearly separated"
+                value={formatNumber(communityResult.modularity)}
+                tooltip="Modularity: how much denser the communities are inside than chance would make them. Around 0.3 and above, the split is worth a look. Close to 0, the communities are barely there."
+              />
+            </div>
+            {communities.length > 0 && (
+              <div className="space-y-1 mt-2">
+                {communities.map((community, index) => (
+                  <div key={community.actorIds[0]} className="flex items-start space-x-2 text-xs py-1 px-2">
+                    <span
+                      className="w-3 h-3 rounded-full flex-shrink-0 mt-0.5"
+                      style={{ backgroundColor: getCategoricalColor(index) }}
+                    />
+                    <span className="text-gray-700">
+                      {community.actorIds.map((actorId, i) => (
+                        <span key={actorId}>
+                          {i > 0 && ', '}
+                          <span
+                            className={onActorClick ? 'hover:text-blue-600 cursor-pointer' : ''}
+                            onClick={() => onActorClick?.(actorId)}
+                          >
+                            {actorLabels.get(actorId)}
+                          </span>
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {onCreateCommunityGroups && communities.length > 0 && (
+              <>
+                <button
+                  onClick={handleCreateCommunityGroups}
+                  disabled={groupableCommunities.length === 0}
+                  className="w-full mt-2 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Create groups from communities
+                </button>
+                <p className="text-xs text-gray-500 mt-1">
+                  Actors already in a group stay where they are. One undo removes every new group.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Homophily Section */}
+        {homophily.mixingMatrix.types.length > 0 && edges.length > 0 && (
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                Homophily
+              </h3>
+              <button
+                onClick={handleExportHomophily}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Export CSV
+              </button>
+            </div>
+            <div className="overflow-x-auto mb-2">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="py-1 pr-1 text-left font-medium">
+                      <Tooltip title="Rows: type of the source actor. Columns: type of the target actor." placement="top">
+                        <span>From \ To</span>
+                      </Tooltip>
+                    </th>
+                    {homophily.mixingMatrix.types.map((type) => (
+                      <th key={type} className="py-1 pl-1 text-right font-medium truncate max-w-[4rem]" title={typeName(type)}>
+                        {typeName(type)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {homophily.mixingMatrix.types.map((rowType, i) => (
+                    <tr key={rowType} className="border-t border-gray-100">
+                      <td className="py-1 pr-1 text-gray-600 truncate max-w-[5rem]" title={typeName(rowType)}>
+                        {typeName(rowType)}
+                      </td>
+                      {homophily.mixingMatrix.counts[i].map((count, j) => (
+                        <td
+                          key={j}
+                          className={`py-1 pl-1 text-right ${
+                            i === j ? 'font-medium text-gray-800 bg-blue-50' : 'text-gray-600'
+                          }`}
+                        >
+                          {count}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="space-y-1">
+              <MetricRow
+                label="Assortativity"
+                value={formatMixing(homophily.assortativity)}
+                tooltip="1 means actors only relate within their own type, 0 means types mix as if by chance, negative values mean types seek each other out. Shown as — when it cannot be defined, e.g. with a single type."
+              />
+              <MetricRow
+                label="E-I index (types)"
+                value={formatMixing(homophily.typeEI.index)}
+                tooltip={`${homophily.typeEI.external} relations cross types, ${homophily.typeEI.internal} stay within one. -1: all within, +1: all across.`}
+              />
+            </div>
+            {homophily.labelEI.length > 0 && (
+              <div className="mt-2">
+                <div className="text-xs font-medium text-gray-600 mb-1">E-I index by label</div>
+                <div className="space-y-1">
+                  {homophily.labelEI.map((label) => (
+                    <MetricRow
+                      key={label.labelId}
+                      label={`${labelName(label.labelId)} (${label.memberCount})`}
+                      value={formatMixing(label.index)}
+                      tooltip={`${label.internal} relations among actors with this label, ${label.external} to actors without it. -1: a closed circle, +1: turned entirely outward.`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Actors by Type Section */}
         {metrics.actorsByType.size > 0 && (
           <div className="pt-3 border-t border-gray-200">
@@ -178,6 +1041,49 @@ const GraphMetrics = ({ nodes, edges, onActorClick }: GraphMetricsProps) => {
   );
 };
 
+/**
+ * SortableHeader - Clickable table column header with a sort indicator
+ */
+interface SortableHeaderProps {
+  label: string;
+  tooltip?: string;
+  active: boolean;
+  ascending: boolean;
+  onClick: () => void;
+  align: 'left' | 'right';
+}
+
+const SortableHeader = ({ label, tooltip, active, ascending, onClick, align }: SortableHeaderProps) => {
+  const header = (
+    <th
+      className={`py-1 font-medium cursor-pointer select-none hover:text-gray-800 ${
+        align === 'left' ? 'text-left pr-1' : 'text-right pl-1'
+      } ${active ? 'text-gray-800' : ''}`}
+      onClick={onClick}
+    >
+      <span className="inline-flex items-center">
+        {label}
+        {active &&
+          (ascending ? (
+            <ArrowDropUpIcon sx={{ fontSize: 14 }} />
+          ) : (
+            <ArrowDropDownIcon sx={{ fontSize: 14 }} />
+          ))}
+      </span>
+    </th>
+  );
+
+  if (tooltip) {
+    return (
+      <Tooltip title={tooltip} placement="top">
+        {header}
+      </Tooltip>
+    );
+  }
+
+  return header;
+};
+
 /**
  * MetricRow - Single metric display with label and value
  */
@@ -0,0 +1,54 @@
+import type { BrokerageRanking, BrokerageRole } from '../../utils/graphAnalysis';
+
+/**
+ * Display names and explanations for the brokerage measures, shared by the
+ * analysis panel ranking and the per-actor summary in the actor properties.
+ *
+ * In the role descriptions "camp" means actor type: the roles only say which
+ * types a broker stands between.
+ */
+
+export const BROKERAGE_ROLE_ORDER: BrokerageRole[] = [
+  'coordinator',
+  'itinerant',
+  'representative',
+  'gatekeeper',
+  'liaison',
+];
+
+export const BROKERAGE_RANKINGS: Record<BrokerageRanking, { label: string; description: string }> = {
+  constraint: {
+    label: 'Least constrained',
+    description:
+      'Burt’s constraint: how much the actor’s contacts are tied to each other. Low values mean the contacts do not know one another, leaving holes the actor can broker across.',
+  },
+  effectiveSize: {
+    label: 'Effective size',
+    description:
+      'How many contacts the actor has, minus how redundant they are with each other. Contacts who all know each other count for little more than one.',
+  },
+  totalBrokerage: {
+    label: 'All brokerage roles',
+    description: 'How often the actor is the only link from one actor to another, in any role.',
+  },
+  coordinator: {
+    label: 'Coordinator',
+    description: 'Links two actors of its own type. Brokering inside one camp.',
+  },
+  itinerant: {
+    label: 'Itinerant',
+    description: 'Links two actors of the same type, which is not its own. An outsider brokering inside a camp.',
+  },
+  representative: {
+    label: 'Representative',
+    description: 'Passes on from an actor of its own type to another type. Speaking for its camp.',
+  },
+  gatekeeper: {
+    label: 'Gatekeeper',
+    description: 'Passes on from another type to an actor of its own type. Controlling what gets into its camp.',
+  },
+  liaison: {
+    label: 'Liaison',
+    description: 'Links two actors of different types, neither of them its own. Brokering between camps it belongs to neither of.',
+  },
+};
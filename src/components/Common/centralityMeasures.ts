@@ -0,0 +1,37 @@
+import type { CentralityMeasure } from '../../utils/graphAnalysis';
+
+/**
+ * Display names for each centrality measure, shared by the analysis panel and
+ * the canvas encoding legend. `short` heads the table columns, where the panel
+ * has no room for the full name.
+ */
+
+export const CENTRALITY_MEASURES: Record<CentralityMeasure, { label: string; short: string; description: string }> = {
+  degree: {
+    label: 'Connections',
+    short: 'Deg',
+    description: 'How many relations the actor has.',
+  },
+  betweenness: {
+    label: 'Brokerage (betweenness)',
+    short: 'Btw',
+    description: 'How often the actor sits on the shortest path between two others. High values mark brokers and bottlenecks.',
+  },
+  closeness: {
+    label: 'Reach (closeness)',
+    short: 'Clo',
+    description: 'How few steps the actor needs to reach everyone else. High values spread information fastest.',
+  },
+  eigenvector: {
+    label: 'Influence (eigenvector)',
+    short: 'Eig',
+    description: 'Connected to actors who are themselves well connected. The best-placed actor scores 1.',
+  },
+  pageRank: {
+    label: 'PageRank',
+    short: 'PR',
+    description: 'Share of attention a random walk through the relations spends on the actor. All actors together add up to 1.',
+  },
+};
+
+export const MEASURE_ORDER: CentralityMeasure[] = ['degree', 'betweenness', 'closeness', 'eigenvector', 'pageRank'];
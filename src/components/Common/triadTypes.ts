@@ -0,0 +1,25 @@
+import type { TriadType } from '../../utils/graphAnalysis';
+
+/**
+ * Plain-language readings of the 16 triad types, for the triad census in the
+ * analysis panel. A, B and C are the three actors; ↔ is a tie both ways.
+ */
+
+export const TRIAD_DESCRIPTIONS: Record<TriadType, string> = {
+  '003': 'No ties at all',
+  '012': 'A single one-way tie: A→B',
+  '102': 'A single mutual tie: A↔B',
+  '021D': 'One actor points at both others: A←B→C',
+  '021U': 'Both point at the same actor: A→B←C',
+  '021C': 'A chain: A→B→C',
+  '111D': 'A mutual pair, and a third points into it: A↔B←C',
+  '111U': 'A mutual pair, and it points out to a third: A↔B→C',
+  '030T': 'Feed-forward loop: A→B, B→C and A→C',
+  '030C': 'Cycle: A→B→C→A',
+  '201': 'One actor in mutual ties with two who are not tied: A↔B↔C',
+  '120D': 'A mutual pair, both pointed at by a third',
+  '120U': 'A mutual pair, both pointing at a third',
+  '120C': 'A mutual pair with a chain through the third: A→B→C, A↔C',
+  '210': 'Two mutual ties and one one-way tie',
+  '300': 'Everyone tied both ways',
+};
@@ -6,11 +6,13 @@ import {
   useInternalNode,
 } from '@xyflow/react';
 import { useGraphStore } from '../../stores/graphStore';
+import { useAnalysisStore } from '../../stores/analysisStore';
 import { shallow } from 'zustand/shallow';
 import type { Relation } from '../../types';
 import LabelBadge from '../Common/LabelBadge';
 import { getFloatingEdgeParams } from '../../utils/edgeUtils';
 import { useActiveFilters, edgeMatchesFilters } from '../../hooks/useActiveFilters';
+import { DIFF_COLORS } from '../../utils/stateDiff';
 
 /**
  * CustomEdge - Represents a relation between actors in the constellation graph
@@ -22,6 +24,7 @@ import { useActiveFilters, edgeMatchesFilters } from '../../hooks/useActiveFilte
  * - Edge type badge
  * - Directional arrow markers (directed, bidirectional, undirected)
  * - Floating edges for minimized groups
+ * - Green or amber halo while comparing timeline states (added/changed)
  *
  * Usage: Automatically rendered by React Flow for edges with type='custom'
  */
@@ -43,6 +46,10 @@ const CustomEdge = ({
   // Get active filters based on mode (editing vs presentation)
   const filters = useActiveFilters();
 
+  // Status in a state comparison; removed relations are drawn as ghosts elsewhere
+  const diffStatus = useAnalysisStore((state) => state.stateDiff?.relationStatus[id]);
+  const diffColor = diffStatus === 'added' || diffStatus === 'changed' ? DIFF_COLORS[diffStatus] : undefined;
+
   // Hover state for parallel edge highlighting
   const [isHovered, setIsHovered] = useState(false);
 
@@ -167,15 +174,18 @@ const CustomEdge = ({
       data?.labels || [],
       data?.label || '',
       edgeTypeConfig?.label || '',
-      filters
+      filters,
+      id
     );
-  }, [data?.type, data?.labels, data?.label, edgeTypeConfig?.label, filters]);
+  }, [id, data?.type, data?.labels, data?.label, edgeTypeConfig?.label, filters]);
 
   // Determine if filters are active
   const hasActiveFilters =
     filters.searchText.trim() !== '' ||
     filters.selectedRelationTypes.length > 0 ||
-    filters.selectedLabels.length > 0;
+    filters.selectedLabels.length > 0 ||
+    filters.highlightedPath !== null ||
+    filters.egoNetwork !== null;
 
   // Calculate opacity based on visibility
   const edgeOpacity = hasActiveFilters && !isMatch ? 0.2 : 1.0;
@@ -229,6 +239,19 @@ const CustomEdge = ({
         </marker>
       </defs>
 
+      {/* Comparison halo, underneath the relation itself */}
+      {diffColor && (
+        <path
+          d={edgePath}
+          fill="none"
+          stroke={diffColor}
+          strokeWidth={strokeWidth + 6}
+          strokeOpacity={0.45}
+          opacity={edgeOpacity}
+          className="pointer-events-none"
+        />
+      )}
+
       <BaseEdge
         id={id}
         path={edgePath}
@@ -0,0 +1,148 @@
+import { useEffect, useMemo } from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useAnalysisStore, type EgoViewSettings } from '../../stores/analysisStore';
+import { findEgoNetwork } from '../../utils/graphAnalysis';
+
+/**
+ * EgoViewPanel - Floating bar focusing the canvas on one actor's neighbourhood
+ *
+ * Features:
+ * - Everyone within 1 to 3 hops of the actor, ignoring direction
+ * - Optionally follows only some relation types
+ * - Everything else is dimmed, through the same filter dimming the search
+ *   uses, or hidden altogether
+ *
+ * The view is temporary state in the analysis store: it is cleared when the
+ * bar closes and never touches the document or its history.
+ */
+
+interface Props {
+  view: EgoViewSettings;
+}
+
+const HOP_OPTIONS = [1, 2, 3];
+
+const EgoViewPanel = ({ view }: Props) => {
+  const { nodes, edges, edgeTypes } = useGraphWithHistory();
+  const setEgoView = useAnalysisStore((state) => state.setEgoView);
+  const setEgoNetwork = useAnalysisStore((state) => state.setEgoNetwork);
+
+  const ego = nodes.find((node) => node.id === view.actorId);
+
+  const network = useMemo(
+    () => findEgoNetwork(nodes, edges, view.actorId, view.hops, view.relationTypes),
+    [nodes, edges, view.actorId, view.hops, view.relationTypes]
+  );
+
+  useEffect(() => {
+    setEgoNetwork({ actorIds: network.actorIds, relationIds: network.relationIds });
+  }, [network, setEgoNetwork]);
+
+  // Never leave the canvas dimmed once the bar is gone
+  useEffect(
+    () => () => {
+      setEgoNetwork(null);
+      setEgoView(null);
+    },
+    [setEgoNetwork, setEgoView]
+  );
+
+  // Close when the actor goes away (deleted, or another state loaded)
+  useEffect(() => {
+    if (!ego) setEgoView(null);
+  }, [ego, setEgoView]);
+
+  const update = (changes: Partial<EgoViewSettings>) => setEgoView({ ...view, ...changes });
+
+  const toggleRelationType = (typeId: string) =>
+    update({
+      relationTypes: view.relationTypes.includes(typeId)
+        ? view.relationTypes.filter((id) => id !== typeId)
+        : [...view.relationTypes, typeId],
+    });
+
+  if (!ego) return null;
+
+  const others = network.actorIds.length - 1;
+
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 max-w-[60%] bg-white border border-gray-200 rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 space-x-3">
+        <h3 className="text-sm font-semibold text-gray-700 truncate">
+          Ego view: {ego.data?.label || ego.id}
+        </h3>
+        <Tooltip title="Close and show everything again">
+          <IconButton size="small" onClick={() => setEgoView(null)}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </div>
+
+      {/* Options */}
+      <div className="px-3 py-2 space-y-2 text-xs text-gray-600">
+        <div className="flex items-center justify-between space-x-4">
+          <label className="flex items-center space-x-1">
+            <span>Within</span>
+            <select
+              value={view.hops}
+              onChange={(e) => update({ hops: Number(e.target.value) })}
+              className="text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label="Hops from the actor"
+            >
+              {HOP_OPTIONS.map((hops) => (
+                <option key={hops} value={hops}>
+                  {hops} {hops === 1 ? 'hop' : 'hops'}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={view.hideOthers}
+              onChange={(e) => update({ hideOthers: e.target.checked })}
+            />
+            <span>Hide everyone else</span>
+          </label>
+          <span className="text-gray-500 whitespace-nowrap">
+            {others} {others === 1 ? 'actor' : 'actors'}, {network.relationIds.length}{' '}
+            {network.relationIds.length === 1 ? 'relation' : 'relations'}
+          </span>
+        </div>
+
+        {edgeTypes.length > 1 && (
+          <div className="flex flex-wrap gap-1">
+            {edgeTypes.map((edgeType) => {
+              const isSelected = view.relationTypes.includes(edgeType.id);
+              return (
+                <button
+                  key={edgeType.id}
+                  onClick={() => toggleRelationType(edgeType.id)}
+                  className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border transition-colors ${
+                    isSelected
+                      ? 'border-blue-300 bg-blue-50 text-gray-800'
+                      : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span
+                    className="inline-block w-2 h-2 rounded-full"
+                    style={{ backgroundColor: edgeType.color }}
+                  />
+                  <span>{edgeType.label}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {edgeTypes.length > 1 && view.relationTypes.length === 0 && (
+          <p className="text-gray-500">Following every relation type. Pick types to follow only those.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EgoViewPanel;
@@ -29,18 +29,36 @@ import { useActiveDocument } from "../../stores/workspace/useActiveDocument";
 import { useWorkspaceStore } from "../../stores/workspaceStore";
 import { useCreateDocument } from "../../hooks/useCreateDocument";
 import { useActiveFilters, nodeMatchesFilters } from "../../hooks/useActiveFilters";
+import { useNodeEncoding } from "../../hooks/useNodeEncoding";
+import { useAnalysisStore } from "../../stores/analysisStore";
+import { useTimelineStore } from "../../stores/timelineStore";
 import CustomNode from "../Nodes/CustomNode";
 import GroupNode from "../Nodes/GroupNode";
 import CustomEdge from "../Edges/CustomEdge";
 import ContextMenu from "./ContextMenu";
+import PathFinderPanel from "./PathFinderPanel";
+import NodeEncodingLegend from "./NodeEncodingLegend";
+import EgoViewPanel from "./EgoViewPanel";
+import LockedStateBanner from "./LockedStateBanner";
+import StateDiffPanel from "./StateDiffPanel";
+import StateDiffGhosts from "./StateDiffGhosts";
 import EmptyState from "../Common/EmptyState";
 import { createNode } from "../../utils/nodeUtils";
-import { groupParallelEdges, calculateEdgeOffsetMultiplier, generateEdgeId } from "../../utils/edgeUtils";
+import { calculateEncodingScale } from "../../utils/nodeEncoding";
+import { planStateTransition, easeInOutCubic, interpolatePosition, type StateTransitionPlan } from "../../utils/stateTransition";
+import {
+  groupParallelEdges,
+  calculateEdgeOffsetMultiplier,
+  generateEdgeId,
+  withUnshownRelations,
+} from "../../utils/edgeUtils";
 import DeleteIcon from "@mui/icons-material/Delete";
 import GroupWorkIcon from "@mui/icons-material/GroupWork";
 import UngroupIcon from "@mui/icons-material/CallSplit";
 import MinimizeIcon from "@mui/icons-material/UnfoldLess";
 import MaximizeIcon from "@mui/icons-material/UnfoldMore";
+import AltRouteIcon from "@mui/icons-material/AltRoute";
+import CenterFocusStrongIcon from "@mui/icons-material/CenterFocusStrong";
 import { useConfirm } from "../../hooks/useConfirm";
 import { useGraphExport } from "../../hooks/useGraphExport";
 import type { ExportOptions } from "../../utils/graphExport";
@@ -105,8 +123,12 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     deleteEdge,
     deleteGroup,
     toggleGroupMinimized,
+    lockedState,
   } = useGraphWithHistory();
 
+  // A locked timeline state can be looked at and selected, but not rearranged
+  const canEditGraph = isEditable && !lockedState;
+
   const { pushToHistory } = useDocumentHistory();
 
   const {
@@ -151,6 +173,20 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
   // React Flow state (synchronized with store)
   // Combine regular nodes and group nodes for ReactFlow
   // IMPORTANT: Parent nodes (groups) MUST appear BEFORE child nodes for React Flow to process correctly
+  // Ego view: with "hide everyone else", actors and relations outside the
+  // neighbourhood are hidden rather than dimmed
+  const egoView = useAnalysisStore((state) => state.egoView);
+  const setEgoView = useAnalysisStore((state) => state.setEgoView);
+  const egoNetwork = useAnalysisStore((state) => state.egoNetwork);
+  const stateComparison = useAnalysisStore((state) => state.stateComparison);
+  const egoHiddenFilter = useMemo(() => {
+    if (!egoView?.hideOthers || !egoNetwork) return null;
+    return {
+      actorIds: new Set(egoNetwork.actorIds),
+      relationIds: new Set(egoNetwork.relationIds),
+    };
+  }, [egoView?.hideOthers, egoNetwork]);
+
   const allNodes = useMemo(() => {
     // Get IDs of minimized groups
     const minimizedGroupIds = new Set(
@@ -161,7 +197,9 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     // This prevents React Flow from losing track of them
     const visibleNodes = storeNodes.map((node) => {
       const nodeWithParent = node as Actor & { parentId?: string };
-      const shouldHide = !!(nodeWithParent.parentId && minimizedGroupIds.has(nodeWithParent.parentId));
+      const shouldHide =
+        !!(nodeWithParent.parentId && minimizedGroupIds.has(nodeWithParent.parentId)) ||
+        (egoHiddenFilter !== null && !egoHiddenFilter.actorIds.has(node.id));
 
       // Always explicitly set hidden (true or false) to ensure state is cleared when maximizing
       return {
@@ -171,7 +209,7 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     });
 
     return [...(storeGroups as Node[]), ...(visibleNodes as Node[])];
-  }, [storeNodes, storeGroups]);
+  }, [storeNodes, storeGroups, egoHiddenFilter]);
 
   const [nodes, setNodesState, onNodesChange] = useNodesState(allNodes);
 
@@ -207,6 +245,11 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     // Reroute edges: if source or target is in a minimized group, redirect to the group
     // Filter out edges that are internal to a minimized group (both source and target in same group)
     (storeEdges as Edge[]).forEach((edge) => {
+      // Hidden by the ego view
+      if (egoHiddenFilter && !egoHiddenFilter.relationIds.has(edge.id)) {
+        return;
+      }
+
       const newSource = actorToMinimizedGroup.get(edge.source) || edge.source;
       const newTarget = actorToMinimizedGroup.get(edge.target) || edge.target;
 
@@ -348,7 +391,7 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
       }
       return edge;
     });
-  }, [storeEdges, storeGroups, storeNodes]);
+  }, [storeEdges, storeGroups, storeNodes, egoHiddenFilter]);
 
   const [edges, setEdgesState, onEdgesChange] = useEdgesState(
     visibleEdges,
@@ -371,6 +414,101 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     target?: Node | Edge;
   } | null>(null);
 
+  // Path finder state: open from an actor's context menu, target picked later
+  const [pathFinder, setPathFinder] = useState<{
+    sourceId: string;
+    targetId: string | null;
+  } | null>(null);
+
+  const handleClosePathFinder = useCallback(() => setPathFinder(null), []);
+
+  // Metric-driven size/colour of actors: computed once here, read by each CustomNode
+  const { encoding: nodeEncoding } = useNodeEncoding();
+  const setActorEncoding = useAnalysisStore((state) => state.setActorEncoding);
+  const isEncodingActive = nodeEncoding !== null && (nodeEncoding.size || nodeEncoding.color);
+  const encodingScale = useMemo(
+    () => (nodeEncoding && isEncodingActive ? calculateEncodingScale(storeNodes, storeEdges, nodeEncoding) : null),
+    [storeNodes, storeEdges, nodeEncoding, isEncodingActive]
+  );
+
+  useEffect(() => {
+    setActorEncoding(
+      nodeEncoding && encodingScale
+        ? { size: nodeEncoding.size, color: nodeEncoding.color, positions: encodingScale.positions }
+        : null
+    );
+  }, [nodeEncoding, encodingScale, setActorEncoding]);
+
+  useEffect(() => () => setActorEncoding(null), [setActorEncoding]);
+
+  // Animated timeline state switches. The state on screen is remembered, so
+  // the sync below can tell a switch from any other change of the graph. Read
+  // through refs: a switch is only acted on once its graph has arrived.
+  const stateTransitionDuration = useSettingsStore((state) => state.stateTransitionDuration);
+  const currentStateId = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId)?.currentStateId : undefined
+  );
+  const switchTargetRef = useRef({ documentId: activeDocumentId, stateId: currentStateId, duration: stateTransitionDuration });
+  switchTargetRef.current = { documentId: activeDocumentId, stateId: currentStateId, duration: stateTransitionDuration };
+  const shownStateRef = useRef<{ documentId: string | null; stateId: string | undefined }>({
+    documentId: null,
+    stateId: undefined,
+  });
+
+  // Running transition: animation frame, the removed actors, groups and
+  // relations kept on screen while they fade out, and where the moving ones
+  // are headed. Neither the fading elements nor half-way positions are ever
+  // synced back.
+  const transitionRef = useRef<{
+    frame: number;
+    leavingIds: Set<string>;
+    moves: StateTransitionPlan<Node>["moves"];
+  } | null>(null);
+  const withoutLeaving = useCallback(<T extends { id: string }>(items: T[]): T[] => {
+    const leavingIds = transitionRef.current?.leavingIds;
+    return leavingIds ? items.filter((item) => !leavingIds.has(item.id)) : items;
+  }, []);
+
+  // Which actors the store hides (those in minimized groups). The ego view
+  // hides more on screen, but that is a view, not an edit, so syncing back
+  // takes `hidden` from here rather than from React Flow.
+  const storeHidden = useMemo(
+    () => new Map(storeNodes.map((node) => [node.id, (node as Node).hidden])),
+    [storeNodes]
+  );
+  const storeHiddenRef = useRef(storeHidden);
+  storeHiddenRef.current = storeHidden;
+
+  // The ego view and minimized groups leave relations off the canvas;
+  // syncing back takes those from here, so hiding them never deletes them
+  const storeEdgesRef = useRef(storeEdges);
+  storeEdgesRef.current = storeEdges;
+
+  // Nodes as the store should have them
+  const settledNodes = useCallback((items: Node[]): Node[] => {
+    const moves = transitionRef.current?.moves;
+    return withoutLeaving(items).map((node) => {
+      const move = moves?.get(node.id);
+      const hidden = storeHiddenRef.current.get(node.id);
+      const settled: Node = { ...node, position: move ? move.to : node.position };
+      if (hidden === undefined) {
+        delete settled.hidden;
+      } else {
+        settled.hidden = hidden;
+      }
+      return settled;
+    });
+  }, [withoutLeaving]);
+
+  useEffect(() => () => {
+    if (transitionRef.current) cancelAnimationFrame(transitionRef.current.frame);
+  }, []);
+
+  const latestEdgesRef = useRef(edges);
+  useEffect(() => {
+    latestEdgesRef.current = edges;
+  }, [edges]);
+
   // Sync store changes to React Flow state
   // IMPORTANT: Preserve selection state, unless we have a pending selection (new item added)
   useEffect(() => {
@@ -378,6 +516,21 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     const pendingType = pendingSelectionRef.current?.type;
     const pendingId = pendingSelectionRef.current?.id;
 
+    // Whatever changed, a running state transition is over
+    const previousLeavingIds = transitionRef.current?.leavingIds ?? new Set<string>();
+    if (transitionRef.current) {
+      cancelAnimationFrame(transitionRef.current.frame);
+      transitionRef.current = null;
+    }
+
+    const target = switchTargetRef.current;
+    const shown = shownStateRef.current;
+    const isStateSwitch =
+      shown.stateId !== undefined &&
+      shown.documentId === target.documentId &&
+      shown.stateId !== target.stateId;
+    shownStateRef.current = { documentId: target.documentId, stateId: target.stateId };
+
     // IMPORTANT: Directly set the nodes array to avoid React Flow processing intermediate states
     // Using setNodesState with a callback can cause React Flow to process stale state
 
@@ -386,6 +539,110 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
       latestNodesRef.current.map((node) => [node.id, node.selected])
     );
 
+    const toFlowEdge = (edge: Edge, selected: boolean): Edge => {
+      const { sourceHandle, targetHandle, ...edgeWithoutHandles } = edge;
+      return {
+        ...edgeWithoutHandles,
+        selected,
+        // Only include handles if they exist and are not null
+        ...(sourceHandle !== undefined && sourceHandle !== null ? { sourceHandle } : {}),
+        ...(targetHandle !== undefined && targetHandle !== null ? { targetHandle } : {}),
+      };
+    };
+
+    const prefersReducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+    if (isStateSwitch && !hasPendingSelection && target.duration > 0 && !prefersReducedMotion) {
+      const previousNodes = latestNodesRef.current.filter((node) => !previousLeavingIds.has(node.id));
+      const previousEdges = latestEdgesRef.current.filter((edge) => !previousLeavingIds.has(edge.id));
+      const nodePlan = planStateTransition(previousNodes, allNodes);
+      const nextEdgeIds = new Set(visibleEdges.map((edge) => edge.id));
+      const previousEdgeIds = new Set(previousEdges.map((edge) => edge.id));
+      const enteringEdgeIds = new Set(
+        visibleEdges.filter((edge) => !previousEdgeIds.has(edge.id)).map((edge) => edge.id)
+      );
+
+      const leavingNodes = nodePlan.leaving.map((node) => ({
+        ...node,
+        className: 'state-leaving',
+        selected: false,
+        selectable: false,
+        draggable: false,
+        connectable: false,
+      }));
+      const leavingEdges = previousEdges.filter((edge) => !nextEdgeIds.has(edge.id)).map((edge) => ({
+        ...edge,
+        className: 'state-leaving',
+        selected: false,
+        selectable: false,
+      }));
+
+      // Groups before their actors, as always; removed actors go last so a
+      // group they shared with the new state comes first
+      setNodesState([
+        ...leavingNodes.filter((node) => node.type === 'group'),
+        ...allNodes.map((node) => ({
+          ...node,
+          selected: selectionMap.get(node.id) || false,
+          position: nodePlan.moves.get(node.id)?.from ?? node.position,
+          className: nodePlan.enteringIds.has(node.id) ? 'state-entering' : node.className,
+        })),
+        ...leavingNodes.filter((node) => node.type !== 'group'),
+      ]);
+
+      const edgeSelectionMap = new Map(latestEdgesRef.current.map((edge) => [edge.id, edge.selected]));
+      setEdgesState([
+        ...visibleEdges.map((edge) => ({
+          ...toFlowEdge(edge, edgeSelectionMap.get(edge.id) || false),
+          className: enteringEdgeIds.has(edge.id) ? 'state-entering' : edge.className,
+        })),
+        ...leavingEdges,
+      ]);
+
+      const leavingIds = new Set([...leavingNodes, ...leavingEdges].map((item) => item.id));
+      const startTime = performance.now();
+
+      const step = (now: number) => {
+        const progress = Math.min(1, (now - startTime) / target.duration);
+
+        if (progress < 1) {
+          const eased = easeInOutCubic(progress);
+          setNodesState((currentNodes) =>
+            currentNodes.map((node) => {
+              const move = nodePlan.moves.get(node.id);
+              return move ? { ...node, position: interpolatePosition(move.from, move.to, eased) } : node;
+            })
+          );
+          transitionRef.current = { frame: requestAnimationFrame(step), leavingIds, moves: nodePlan.moves };
+          return;
+        }
+
+        // Done: drop what faded out, and settle everything else
+        transitionRef.current = null;
+        setNodesState((currentNodes) =>
+          currentNodes
+            .filter((node) => !leavingIds.has(node.id))
+            .map((node) => {
+              const move = nodePlan.moves.get(node.id);
+              if (!move && !nodePlan.enteringIds.has(node.id)) return node;
+              return {
+                ...node,
+                position: move ? move.to : node.position,
+                className: nodePlan.enteringIds.has(node.id) ? undefined : node.className,
+              };
+            })
+        );
+        setEdgesState((currentEdges) =>
+          currentEdges
+            .filter((edge) => !leavingIds.has(edge.id))
+            .map((edge) => (enteringEdgeIds.has(edge.id) ? { ...edge, className: undefined } : edge))
+        );
+      };
+
+      transitionRef.current = { frame: requestAnimationFrame(step), leavingIds, moves: nodePlan.moves };
+      return;
+    }
+
     if (hasPendingSelection) {
       const pendingNodeId = pendingType === 'node' || pendingType === 'group' ? pendingId : null;
 
@@ -411,16 +668,7 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
       if (hasPendingSelection) {
         const pendingEdgeId = pendingType === 'edge' ? pendingId : null;
 
-        const newEdges = visibleEdges.map((edge) => {
-          const { sourceHandle, targetHandle, ...edgeWithoutHandles } = edge;
-          return {
-            ...edgeWithoutHandles,
-            selected: edge.id === pendingEdgeId,
-            // Only include handles if they exist and are not null
-            ...(sourceHandle !== undefined && sourceHandle !== null ? { sourceHandle } : {}),
-            ...(targetHandle !== undefined && targetHandle !== null ? { targetHandle } : {}),
-          };
-        });
+        const newEdges = visibleEdges.map((edge) => toFlowEdge(edge, edge.id === pendingEdgeId));
 
         // Clear pending selection after applying it to both nodes and edges
         pendingSelectionRef.current = null;
@@ -433,16 +681,7 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
         currentEdges.map((edge) => [edge.id, edge.selected])
       );
 
-      return visibleEdges.map((edge) => {
-        const { sourceHandle, targetHandle, ...edgeWithoutHandles } = edge;
-        return {
-          ...edgeWithoutHandles,
-          selected: selectionMap.get(edge.id) || false,
-          // Only include handles if they exist and are not null
-          ...(sourceHandle !== undefined && sourceHandle !== null ? { sourceHandle } : {}),
-          ...(targetHandle !== undefined && targetHandle !== null ? { targetHandle } : {}),
-        };
-      });
+      return visibleEdges.map((edge) => toFlowEdge(edge, selectionMap.get(edge.id) || false));
     });
   }, [allNodes, visibleEdges, setNodesState, setEdgesState]);
 
@@ -489,6 +728,35 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     return () => window.removeEventListener('closeAllMenus', handleCloseAllMenus);
   }, []);
 
+  // Listen for requests from outside the canvas (e.g. the analysis panel) to
+  // select an actor or relation and bring it into view
+  useEffect(() => {
+    const handleFocusElement = (event: Event) => {
+      const { type, id } = (event as CustomEvent<{ type: 'node' | 'edge'; id: string }>).detail;
+
+      const edge = type === 'edge' ? storeEdges.find((e) => e.id === id) : undefined;
+      const focusIds = edge ? [edge.source, edge.target] : [id];
+
+      setNodesState((currentNodes) =>
+        currentNodes.map((node) => ({ ...node, selected: type === 'node' && node.id === id }))
+      );
+      setEdgesState((currentEdges) =>
+        currentEdges.map((e) => ({ ...e, selected: type === 'edge' && e.id === id }))
+      );
+
+      fitView({
+        nodes: focusIds.map((nodeId) => ({ id: nodeId })),
+        padding: 0.5,
+        duration: 300,
+        maxZoom: 1.2,
+        minZoom: MIN_ZOOM,
+      });
+    };
+
+    window.addEventListener('focusGraphElement', handleFocusElement);
+    return () => window.removeEventListener('focusGraphElement', handleFocusElement);
+  }, [storeEdges, setNodesState, setEdgesState, fitView]);
+
   // Auto-zoom to filtered results when search/filter changes
   useEffect(() => {
     // Skip if auto-zoom is disabled
@@ -501,9 +769,11 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
     const hasSearchText = filters.searchText.trim() !== '';
     const hasTypeFilters = filters.selectedActorTypes.length > 0;
     const hasLabelFilters = filters.selectedLabels.length > 0;
+    const hasHighlightedPath = filters.highlightedPath !== null;
+    const hasEgoNetwork = filters.egoNetwork !== null;
 
     // Skip if no filters are active
-    if (!hasSearchText && !hasTypeFilters && !hasLabelFilters) return;
+    if (!hasSearchText && !hasTypeFilters && !hasLabelFilters && !hasHighlightedPath && !hasEgoNetwork) return;
 
     // Debounce to avoid excessive viewport changes while typing
     const timeoutId = setTimeout(() => {
@@ -520,7 +790,8 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
             actor.data?.label || '',
             actor.data?.description || '',
             nodeTypeConfig?.label || '',
-            filters
+            filters,
+            node.id
           );
         })
         .map((node) => node.id);
@@ -631,7 +902,17 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
   // Sync React Flow state back to store when nodes/edges change
   // IMPORTANT: This handler tracks drag operations for undo/redo
   const handleNodesChange = useCallback(
-    (changes: NodeChange[]) => {
+    (allChanges: NodeChange[]) => {
+      // A locked state keeps its layout: dragging is off, so moves and
+      // resizes can only come from a group's resizer, and are dropped
+      const changes = lockedState
+        ? allChanges.filter(
+            (change) =>
+              change.type !== "position" &&
+              !("resizing" in change && change.resizing !== undefined),
+          )
+        : allChanges;
+
       // Check if a drag operation just started (dragging: true)
       const dragStartChanges = changes.filter(
         (change) =>
@@ -689,8 +970,9 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
           // Sync to store - use callback to get fresh state
           setNodesState((currentNodes) => {
             // Sync both groups and actors (groups can be dragged too!)
-            const groupNodes = currentNodes.filter((node) => node.type === 'group');
-            const actorNodes = currentNodes.filter((node) => node.type !== 'group');
+            const storedNodes = settledNodes(currentNodes);
+            const groupNodes = storedNodes.filter((node) => node.type === 'group');
+            const actorNodes = storedNodes.filter((node) => node.type !== 'group');
 
             setGroups(groupNodes as Group[]);
             setNodes(actorNodes as Actor[]);
@@ -705,8 +987,9 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
         setTimeout(() => {
           setNodesState((currentNodes) => {
             // Sync groups (which can be resized) to store
-            const groupNodes = currentNodes.filter((node) => node.type === 'group');
-            const actorNodes = currentNodes.filter((node) => node.type !== 'group');
+            const storedNodes = settledNodes(currentNodes);
+            const groupNodes = storedNodes.filter((node) => node.type === 'group');
+            const actorNodes = storedNodes.filter((node) => node.type !== 'group');
 
             // Update groups in store with new dimensions
             setGroups(groupNodes as Group[]);
@@ -730,7 +1013,7 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
           setTimeout(() => {
             setNodesState((currentNodes) => {
               // Filter out groups - they're stored separately
-              const actorNodes = currentNodes.filter((node) => node.type !== 'group');
+              const actorNodes = settledNodes(currentNodes).filter((node) => node.type !== 'group');
               setNodes(actorNodes as Actor[]);
               return currentNodes;
             });
@@ -738,7 +1021,7 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
         }
       }
     },
-    [onNodesChange, setNodesState, setNodes, setGroups, pushToHistory],
+    [onNodesChange, setNodesState, setNodes, setGroups, pushToHistory, settledNodes, lockedState],
   );
 
   const handleEdgesChange = useCallback(
@@ -753,13 +1036,13 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
         // Debounce store updates to avoid loops
         setTimeout(() => {
           setEdgesState((currentEdges) => {
-            setEdges(currentEdges as Relation[]);
+            setEdges(withUnshownRelations(withoutLeaving(currentEdges) as Relation[], storeEdgesRef.current));
             return currentEdges;
           });
         }, 0);
       }
     },
-    [onEdgesChange, setEdgesState, setEdges],
+    [onEdgesChange, setEdgesState, setEdges, withoutLeaving],
   );
 
   // Handle new edge connections
@@ -845,9 +1128,21 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
   );
 
   // Handle node click - ReactFlow handles selection automatically
-  const handleNodeClick = useCallback(() => {
-    setContextMenu(null); // Close context menu if open
-  }, []);
+  const handleNodeClick = useCallback(
+    (_event: React.MouseEvent, node: Node) => {
+      setContextMenu(null); // Close context menu if open
+
+      // While the path finder is open, clicking another actor picks the target
+      if (node.type !== 'group') {
+        setPathFinder((current) =>
+          current && current.sourceId !== node.id
+            ? { ...current, targetId: node.id }
+            : current
+        );
+      }
+    },
+    [],
+  );
 
   // Handle node double-click - maximize minimized groups
   const handleNodeDoubleClick = useCallback(
@@ -1093,15 +1388,18 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
   }
 
   return (
-    <div className="w-full h-full bg-gray-50 relative">
+    <div
+      className="w-full h-full bg-gray-50 relative"
+      style={{ '--state-transition-duration': `${stateTransitionDuration}ms` } as React.CSSProperties}
+    >
       <ReactFlow
         nodes={nodes}
         edges={edges}
         onNodesChange={handleNodesChange}
         onEdgesChange={handleEdgesChange}
-        onConnect={isEditable ? handleConnect : undefined}
-        onNodesDelete={isEditable ? handleNodesDelete : undefined}
-        onEdgesDelete={isEditable ? handleEdgesDelete : undefined}
+        onConnect={canEditGraph ? handleConnect : undefined}
+        onNodesDelete={canEditGraph ? handleNodesDelete : undefined}
+        onEdgesDelete={canEditGraph ? handleEdgesDelete : undefined}
         onNodeClick={handleNodeClick}
         onNodeDoubleClick={isEditable ? handleNodeDoubleClick : undefined}
         onEdgeClick={handleEdgeClick}
@@ -1113,15 +1411,16 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         connectionMode={ConnectionMode.Loose}
-        connectOnClick={isEditable}
+        connectOnClick={canEditGraph}
         isValidConnection={() => true}
         snapToGrid={snapToGrid}
         snapGrid={[gridSize, gridSize]}
         panOnDrag={true}
         zoomOnScroll={true}
         panOnScroll={presentationMode ? true : undefined}
-        nodesDraggable={isEditable}
-        nodesConnectable={isEditable}
+        nodesDraggable={canEditGraph}
+        nodesConnectable={canEditGraph}
+        deleteKeyCode={canEditGraph ? "Backspace" : null}
         elementsSelectable={isEditable}
         minZoom={MIN_ZOOM}
         maxZoom={MAX_ZOOM}
@@ -1151,8 +1450,39 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
           pannable={isEditable}
           zoomable={isEditable}
         />
+
+        {/* Removed actors and relations of a state comparison */}
+        {stateComparison && isEditable && <StateDiffGhosts />}
       </ReactFlow>
 
+      {/* Metric encoding legend - also drawn into image exports */}
+      {nodeEncoding && encodingScale && storeNodes.length > 0 && (
+        <NodeEncodingLegend
+          encoding={nodeEncoding}
+          scale={encodingScale}
+          actorCount={storeNodes.length}
+        />
+      )}
+
+      {/* Locked timeline state */}
+      {lockedState && isEditable && <LockedStateBanner state={lockedState} />}
+
+      {/* Ego View */}
+      {egoView && isEditable && <EgoViewPanel view={egoView} />}
+
+      {/* State Comparison */}
+      {stateComparison && isEditable && <StateDiffPanel comparison={stateComparison} />}
+
+      {/* Path Finder */}
+      {pathFinder && isEditable && (
+        <PathFinderPanel
+          sourceId={pathFinder.sourceId}
+          targetId={pathFinder.targetId}
+          onTargetChange={(targetId) => setPathFinder({ ...pathFinder, targetId })}
+          onClose={handleClosePathFinder}
+        />
+      )}
+
       {/* Context Menu - Pane */}
       {contextMenu && contextMenu.type === "pane" && (
         <ContextMenu
@@ -1232,6 +1562,27 @@ const GraphEditor = ({ presentationMode = false, onNodeSelect, onEdgeSelect, onG
             ],
           });
         } else {
+          sections.push({
+            actions: [
+              {
+                label: "Find path to…",
+                icon: <AltRouteIcon fontSize="small" />,
+                onClick: () => {
+                  setPathFinder({ sourceId: targetNode.id, targetId: null });
+                  setContextMenu(null);
+                },
+              },
+              {
+                label: "Ego view",
+                icon: <CenterFocusStrongIcon fontSize="small" />,
+                onClick: () => {
+                  setEgoView({ actorId: targetNode.id, hops: 1, relationTypes: [], hideOthers: false });
+                  setContextMenu(null);
+                },
+              },
+            ],
+          });
+
           // For regular actor nodes, add "Create Group" option if multiple nodes are selected
           if (canCreateGroup) {
             sections.push({
@@ -0,0 +1,50 @@
+import LockIcon from '@mui/icons-material/Lock';
+import { useGraphStore } from '../../stores/graphStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import type { ConstellationState } from '../../types/timeline';
+
+/**
+ * LockedStateBanner - Floating bar telling the user the state on screen is locked
+ *
+ * Graph edits are refused while a locked state is current (see
+ * useGraphWithHistory). The bar offers the way forward: a copy of the state
+ * as its next step, which starts out unlocked and is switched to at once.
+ */
+
+interface Props {
+  state: ConstellationState;
+}
+
+const LockedStateBanner = ({ state }: Props) => {
+  const saveCurrentGraph = useTimelineStore((store) => store.saveCurrentGraph);
+  const duplicateStateAsChild = useTimelineStore((store) => store.duplicateStateAsChild);
+  const switchToState = useTimelineStore((store) => store.switchToState);
+
+  const handleDuplicate = () => {
+    // Copy the graph as it is on screen, which the snapshot may not have caught up with
+    const { nodes, edges, groups } = useGraphStore.getState();
+    saveCurrentGraph({ nodes, edges, groups } as unknown as ConstellationState['graph']);
+
+    const childId = duplicateStateAsChild(state.id);
+    if (childId) switchToState(childId);
+  };
+
+  return (
+    <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-3 px-3 py-1.5 bg-white border border-gray-200 rounded-lg shadow-lg text-xs text-gray-600">
+      <span className="flex items-center space-x-1 min-w-0">
+        <LockIcon sx={{ fontSize: 14 }} className="text-gray-500 flex-shrink-0" />
+        <span className="truncate">
+          “{state.label}” is locked
+        </span>
+      </span>
+      <button
+        onClick={handleDuplicate}
+        className="px-2 py-1 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded whitespace-nowrap focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+      >
+        Duplicate as Child to Edit
+      </button>
+    </div>
+  );
+};
+
+export default LockedStateBanner;
@@ -0,0 +1,89 @@
+import { CENTRALITY_MEASURES } from '../Common/centralityMeasures';
+import {
+  ENCODING_GRADIENT,
+  ENCODING_SIZE_RANGE,
+  type EncodingScale,
+  type NodeEncoding,
+} from '../../utils/nodeEncoding';
+
+/**
+ * NodeEncodingLegend - Canvas overlay explaining the metric encoding
+ *
+ * Shows which metric drives actor size and/or colour, with the range it
+ * spans. The `node-encoding-legend` class lets image exports find it and
+ * draw it below the graph.
+ */
+
+interface Props {
+  encoding: NodeEncoding;
+  scale: EncodingScale;
+  actorCount: number;
+}
+
+const formatValue = (value: number): string =>
+  Number.isInteger(value) ? value.toString() : value.toFixed(Math.abs(value) < 1 ? 3 : 2);
+
+const NodeEncodingLegend = ({ encoding, scale, actorCount }: Props) => {
+  const metricLabel =
+    encoding.metric === 'metadata'
+      ? encoding.metadataKey || 'Metadata'
+      : CENTRALITY_MEASURES[encoding.metric].label;
+  const withValue = Object.keys(scale.positions).length;
+  const withoutValue = actorCount - withValue;
+  const [smallest, largest] = ENCODING_SIZE_RANGE;
+
+  return (
+    <div className="node-encoding-legend absolute top-3 right-3 z-10 w-48 px-3 py-2 bg-white border border-gray-200 rounded-lg shadow-lg text-xs text-gray-600">
+      <div className="font-semibold text-gray-700 mb-1 truncate" title={metricLabel}>
+        {metricLabel}
+      </div>
+
+      {withValue === 0 ? (
+        <p className="text-gray-500">No actor has a value.</p>
+      ) : (
+        <>
+          {encoding.color && (
+            <div className="mb-1">
+              <div
+                className="h-2 rounded"
+                style={{ background: `linear-gradient(to right, ${ENCODING_GRADIENT.join(', ')})` }}
+              />
+              <div className="flex justify-between mt-0.5 text-gray-500">
+                <span>{formatValue(scale.min)}</span>
+                <span>{formatValue(scale.max)}</span>
+              </div>
+            </div>
+          )}
+          {encoding.size && (
+            <div className="flex items-end justify-between mb-1">
+              <span className="flex items-end space-x-1">
+                <span
+                  className="inline-block rounded-full bg-gray-400"
+                  style={{ width: 10 * smallest, height: 10 * smallest }}
+                />
+                <span className="text-gray-500">{formatValue(scale.min)}</span>
+              </span>
+              <span className="flex items-end space-x-1">
+                <span className="text-gray-500">{formatValue(scale.max)}</span>
+                <span
+                  className="inline-block rounded-full bg-gray-400"
+                  style={{ width: 10 * largest, height: 10 * largest }}
+                />
+              </span>
+            </div>
+          )}
+        </>
+      )}
+
+      {withoutValue > 0 && withValue > 0 && (
+        <p className="text-gray-500">
+          {withoutValue === 1
+            ? '1 actor has no value and keeps its usual look.'
+            : `${withoutValue} actors have no value and keep their usual look.`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NodeEncodingLegend;
@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useState } from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useAnalysisStore } from '../../stores/analysisStore';
+import { findAllPaths, findShortestPath, type ActorPath } from '../../utils/graphAnalysis';
+
+/**
+ * PathFinderPanel - Floating panel answering "how does A reach B?"
+ *
+ * Features:
+ * - Pick the target from a list, or by clicking an actor on the canvas
+ * - Shortest path plus every simple path up to a length limit
+ * - Follows relation direction by default; can prefer strong relations
+ * - The chosen path is highlighted and everything else dimmed, through the
+ *   same filter dimming the search uses
+ *
+ * The highlight is temporary view state: it is cleared when the panel closes
+ * and never touches the document or its history.
+ */
+
+interface Props {
+  sourceId: string;
+  targetId: string | null;
+  onTargetChange: (actorId: string | null) => void;
+  onClose: () => void;
+}
+
+const LENGTH_LIMITS = [2, 3, 4, 5, 6, 8];
+
+const pathKey = (path: ActorPath) => path.relationIds.join('|');
+
+const PathFinderPanel = ({ sourceId, targetId, onTargetChange, onClose }: Props) => {
+  const { nodes, edges, edgeTypes } = useGraphWithHistory();
+  const setHighlightedPath = useAnalysisStore((state) => state.setHighlightedPath);
+
+  const [followDirection, setFollowDirection] = useState(true);
+  const [preferStrong, setPreferStrong] = useState(false);
+  const [maxLength, setMaxLength] = useState(4);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const actorLabels = useMemo(
+    () => new Map(nodes.map((node) => [node.id, node.data?.label || node.id])),
+    [nodes]
+  );
+
+  const targetOptions = useMemo(
+    () =>
+      nodes
+        .filter((node) => node.id !== sourceId)
+        .sort((a, b) => (a.data?.label || '').localeCompare(b.data?.label || '')),
+    [nodes, sourceId]
+  );
+
+  const { shortest, paths, truncated } = useMemo(() => {
+    if (!targetId) return { shortest: null, paths: [], truncated: false };
+    const options = { edgeTypes, followDirection, preferStrong };
+    const shortestPath = findShortestPath(nodes, edges, sourceId, targetId, options);
+    const result = findAllPaths(nodes, edges, sourceId, targetId, { ...options, maxLength });
+
+    // The shortest path may be longer than the limit; list it anyway
+    const listed = result.paths;
+    if (shortestPath && !listed.some((path) => pathKey(path) === pathKey(shortestPath))) {
+      listed.unshift(shortestPath);
+    }
+    return { shortest: shortestPath, paths: listed, truncated: result.truncated };
+  }, [nodes, edges, edgeTypes, sourceId, targetId, followDirection, preferStrong, maxLength]);
+
+  // Fall back to the shortest path whenever the chosen one disappears
+  const selectedPath =
+    paths.find((path) => pathKey(path) === selectedKey) || shortest;
+
+  useEffect(() => {
+    setHighlightedPath(
+      selectedPath ? { actorIds: selectedPath.actorIds, relationIds: selectedPath.relationIds } : null
+    );
+  }, [selectedPath, setHighlightedPath]);
+
+  // Never leave the canvas dimmed once the panel is gone
+  useEffect(() => () => setHighlightedPath(null), [setHighlightedPath]);
+
+  // Close when the source actor goes away (deleted, or another state loaded)
+  useEffect(() => {
+    if (!actorLabels.has(sourceId)) onClose();
+  }, [actorLabels, sourceId, onClose]);
+
+  const formatCost = (path: ActorPath) => {
+    const steps = `${path.relationIds.length} ${path.relationIds.length === 1 ? 'step' : 'steps'}`;
+    return preferStrong ? `${steps} · cost ${path.cost.toFixed(2)}` : steps;
+  };
+
+  return (
+    <div className="absolute top-3 left-3 z-10 w-80 max-h-[75%] flex flex-col bg-white border border-gray-200 rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-700">Find Path</h3>
+        <Tooltip title="Close and clear the highlight">
+          <IconButton size="small" onClick={onClose}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </div>
+
+      {/* Endpoints and options */}
+      <div className="px-3 py-2 space-y-2 border-b border-gray-200">
+        <div className="text-xs text-gray-600">
+          From <span className="font-medium text-gray-800">{actorLabels.get(sourceId)}</span>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+          <select
+            value={targetId || ''}
+            onChange={(e) => {
+              onTargetChange(e.target.value || null);
+              setSelectedKey(null);
+            }}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Pick an actor, or click one on the canvas</option>
+            {targetOptions.map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.data?.label || node.id}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <label className="flex items-center space-x-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={followDirection}
+              onChange={(e) => setFollowDirection(e.target.checked)}
+            />
+            <span>Follow direction</span>
+          </label>
+          <label className="flex items-center space-x-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preferStrong}
+              onChange={(e) => setPreferStrong(e.target.checked)}
+            />
+            <span>Prefer strong relations</span>
+          </label>
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>List paths up to</span>
+          <select
+            value={maxLength}
+            onChange={(e) => setMaxLength(Number(e.target.value))}
+            className="text-xs border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label="Maximum path length"
+          >
+            {LENGTH_LIMITS.map((limit) => (
+              <option key={limit} value={limit}>
+                {limit} steps
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto px-3 py-2">
+        {!targetId ? (
+          <p className="text-xs text-gray-500">Choose where the path should end.</p>
+        ) : paths.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            {followDirection
+              ? `No path leads from ${actorLabels.get(sourceId)} to ${actorLabels.get(targetId)}. Try without following direction.`
+              : `${actorLabels.get(sourceId)} and ${actorLabels.get(targetId)} are not connected.`}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {paths.map((path) => {
+              const key = pathKey(path);
+              const isSelected = selectedPath !== null && pathKey(selectedPath) === key;
+              const isShortest = shortest !== null && pathKey(shortest) === key;
+              return (
+                <button
+                  key={key}
+                  onClick={() => setSelectedKey(key)}
+                  className={`w-full text-left text-xs px-2 py-1.5 rounded border transition-colors ${
+                    isSelected
+                      ? 'border-blue-300 bg-blue-50'
+                      : 'border-transparent hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="text-gray-700 break-words">
+                    {path.actorIds.map((actorId) => actorLabels.get(actorId)).join(' → ')}
+                  </div>
+                  <div className="text-gray-500 mt-0.5">
+                    {formatCost(path)}
+                    {isShortest && <span className="ml-1 font-medium text-blue-600">· shortest</span>}
+                  </div>
+                </button>
+              );
+            })}
+            {truncated && (
+              <p className="text-xs text-gray-500 pt-1">
+                Only the {paths.length} cheapest paths are listed. Lower the step limit to see fewer, shorter ones.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PathFinderPanel;
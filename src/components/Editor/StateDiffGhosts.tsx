@@ -0,0 +1,79 @@
+import { ViewportPortal } from '@xyflow/react';
+import { useGraphStore } from '../../stores/graphStore';
+import { useDiffGhosts } from '../../hooks/useDiffGhosts';
+import { DIFF_COLORS } from '../../utils/stateDiff';
+
+/**
+ * StateDiffGhosts - Red ghosts of what a state comparison found removed
+ *
+ * Drawn in flow coordinates above the graph, and never part of it: they
+ * cannot be selected, dragged or saved.
+ */
+
+const StateDiffGhosts = () => {
+  const { actors, relations } = useDiffGhosts();
+  const nodeTypes = useGraphStore((state) => state.nodeTypes);
+  const edgeTypes = useGraphStore((state) => state.edgeTypes);
+
+  if (actors.length === 0 && relations.length === 0) return null;
+
+  const color = DIFF_COLORS.removed;
+
+  return (
+    <ViewportPortal>
+      <svg
+        className="absolute overflow-visible pointer-events-none"
+        style={{ left: 0, top: 0, width: 1, height: 1 }}
+      >
+        {relations.map((relation) => (
+          <g key={relation.id} opacity={0.7}>
+            <line
+              x1={relation.from.x}
+              y1={relation.from.y}
+              x2={relation.to.x}
+              y2={relation.to.y}
+              stroke={color}
+              strokeWidth={2}
+              strokeDasharray="6,4"
+            />
+            <text
+              x={(relation.from.x + relation.to.x) / 2}
+              y={(relation.from.y + relation.to.y) / 2 - 6}
+              textAnchor="middle"
+              fontSize={11}
+              fill={color}
+            >
+              {relation.label || edgeTypes.find((type) => type.id === relation.type)?.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {actors.map((actor) => (
+        <div
+          key={actor.id}
+          className="absolute flex flex-col items-center justify-center px-2 rounded-lg border-2 border-dashed pointer-events-none text-center"
+          style={{
+            left: actor.x,
+            top: actor.y,
+            width: actor.width,
+            height: actor.height,
+            borderColor: color,
+            color,
+            backgroundColor: 'rgba(254, 226, 226, 0.6)',
+            opacity: 0.8,
+          }}
+        >
+          <div className="text-sm font-bold leading-tight truncate max-w-full line-through">
+            {actor.label}
+          </div>
+          <div className="text-xs leading-tight opacity-80">
+            {nodeTypes.find((type) => type.id === actor.type)?.label || 'Removed'}
+          </div>
+        </div>
+      ))}
+    </ViewportPortal>
+  );
+};
+
+export default StateDiffGhosts;
@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useReactFlow } from '@xyflow/react';
+import { IconButton, Tooltip } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useDiffGhosts } from '../../hooks/useDiffGhosts';
+import { useAnalysisStore, type StateComparison } from '../../stores/analysisStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import {
+  diffGraphs,
+  DIFF_COLORS,
+  type DiffActor,
+  type DiffEntry,
+  type DiffRelation,
+  type DiffStatus,
+} from '../../utils/stateDiff';
+
+/**
+ * StateDiffPanel - Side list of what changed between two timeline states
+ *
+ * Features:
+ * - The later state is the one in the editor; the earlier one is overlaid
+ * - Added actors and relations are outlined green, changed ones amber, and
+ *   removed ones are drawn as red ghosts where they used to be
+ * - Clicking a difference selects it on the canvas and brings it into view
+ * - Swapping makes the other state the one in the editor
+ *
+ * The comparison is temporary state in the analysis store: it ends when the
+ * panel closes or another state is opened, and never touches the document.
+ */
+
+interface Props {
+  comparison: StateComparison;
+}
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+const StateDiffPanel = ({ comparison }: Props) => {
+  const { nodes, edges, nodeTypes, edgeTypes, labels } = useGraphWithHistory();
+  const setStateComparison = useAnalysisStore((state) => state.setStateComparison);
+  const setStateDiff = useAnalysisStore((state) => state.setStateDiff);
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const switchToState = useTimelineStore((state) => state.switchToState);
+  const { fitBounds } = useReactFlow();
+  const { ghostBounds } = useDiffGhosts();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const fromState = timeline?.states.get(comparison.fromStateId);
+  const toState = timeline?.states.get(comparison.toStateId);
+  const isShowingLaterState = timeline?.currentStateId === comparison.toStateId;
+
+  const diff = useMemo(
+    () => (fromState ? diffGraphs(fromState.graph, { nodes, edges }) : null),
+    [fromState, nodes, edges]
+  );
+
+  useEffect(() => {
+    setStateDiff(diff);
+  }, [diff, setStateDiff]);
+
+  // Never leave the overlay behind once the panel is gone
+  useEffect(
+    () => () => {
+      setStateDiff(null);
+      setStateComparison(null);
+    },
+    [setStateDiff, setStateComparison]
+  );
+
+  // End the comparison when either state goes away or another one is opened
+  useEffect(() => {
+    if (!fromState || !toState || !isShowingLaterState) setStateComparison(null);
+  }, [fromState, toState, isShowingLaterState, setStateComparison]);
+
+  // Labels of actors in either state, for naming relations
+  const actorLabels = useMemo(() => {
+    const map = new Map<string, string>();
+    fromState?.graph.nodes.forEach((node) => map.set(node.id, node.data?.label || node.id));
+    nodes.forEach((node) => map.set(node.id, node.data?.label || node.id));
+    return map;
+  }, [fromState, nodes]);
+
+  if (!diff || !fromState || !toState) return null;
+
+  const nodeTypeLabel = (id: string) => nodeTypes.find((type) => type.id === id)?.label || id;
+  const edgeTypeLabel = (id?: string) => edgeTypes.find((type) => type.id === id)?.label || id || '';
+  const labelNames = (ids: string[] = []) =>
+    ids.length === 0
+      ? 'none'
+      : ids.map((id) => labels.find((label) => label.id === id)?.name || id).join(', ');
+
+  const describeActorChanges = (entry: DiffEntry<DiffActor>): string[] =>
+    entry.changes.map((field) =>
+      field === 'type'
+        ? `Type: ${nodeTypeLabel(entry.previous!.data.type)} → ${nodeTypeLabel(entry.element.data.type)}`
+        : `Labels: ${labelNames(entry.previous!.data.labels)} → ${labelNames(entry.element.data.labels)}`
+    );
+
+  const describeRelationChanges = (entry: DiffEntry<DiffRelation>): string[] =>
+    entry.changes.map((field) => {
+      const before = entry.previous!.data;
+      const after = entry.element.data;
+      if (field === 'type') return `Type: ${edgeTypeLabel(before?.type)} → ${edgeTypeLabel(after?.type)}`;
+      if (field === 'labels') return `Labels: ${labelNames(before?.labels)} → ${labelNames(after?.labels)}`;
+      return `Strength: ${before?.strength ?? 'unset'} → ${after?.strength ?? 'unset'}`;
+    });
+
+  const select = (type: 'node' | 'edge', entry: DiffEntry<DiffActor> | DiffEntry<DiffRelation>) => {
+    setSelectedId(entry.id);
+    if (entry.status === 'removed') {
+      const bounds = ghostBounds(entry.id);
+      if (bounds) fitBounds(bounds, { padding: 0.5, duration: 300 });
+      return;
+    }
+    window.dispatchEvent(new CustomEvent('focusGraphElement', { detail: { type, id: entry.id } }));
+  };
+
+  const swap = () => {
+    setSelectedId(null);
+    setStateComparison({ fromStateId: comparison.toStateId, toStateId: comparison.fromStateId });
+    switchToState(comparison.fromStateId);
+  };
+
+  const renderEntry = (
+    type: 'node' | 'edge',
+    entry: DiffEntry<DiffActor> | DiffEntry<DiffRelation>,
+    name: string,
+    details: string[]
+  ) => (
+    <button
+      key={entry.id}
+      onClick={() => select(type, entry)}
+      className={`w-full text-left text-xs px-2 py-1.5 rounded border transition-colors ${
+        selectedId === entry.id ? 'border-blue-300 bg-blue-50' : 'border-transparent hover:bg-gray-50'
+      }`}
+    >
+      <div className="flex items-center space-x-1.5">
+        <span
+          className="inline-block w-2 h-2 rounded-full flex-shrink-0"
+          style={{ backgroundColor: DIFF_COLORS[entry.status] }}
+        />
+        <span className={`text-gray-700 truncate ${entry.status === 'removed' ? 'line-through' : ''}`}>
+          {name}
+        </span>
+        <span className="text-gray-400 flex-shrink-0">{STATUS_LABELS[entry.status]}</span>
+      </div>
+      {details.map((detail) => (
+        <div key={detail} className="text-gray-500 mt-0.5 pl-3.5 break-words">
+          {detail}
+        </div>
+      ))}
+    </button>
+  );
+
+  const total = diff.actors.length + diff.relations.length;
+
+  return (
+    <div className="absolute top-3 left-3 z-10 w-72 max-h-[75%] flex flex-col bg-white border border-gray-200 rounded-lg shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-700">Compare States</h3>
+        <div className="flex items-center">
+          <Tooltip title={`Open "${fromState.label}" and compare the other way round`}>
+            <IconButton size="small" onClick={swap}>
+              <SwapHorizIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Close and clear the overlay">
+            <IconButton size="small" onClick={() => setStateComparison(null)}>
+              <CloseIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </div>
+      </div>
+
+      {/* States and legend */}
+      <div className="px-3 py-2 space-y-1.5 border-b border-gray-200 text-xs text-gray-600">
+        <div className="break-words">
+          From <span className="font-medium text-gray-800">{fromState.label}</span> to{' '}
+          <span className="font-medium text-gray-800">{toState.label}</span>
+        </div>
+        <div className="flex items-center space-x-3">
+          {(Object.keys(STATUS_LABELS) as DiffStatus[]).map((status) => (
+            <span key={status} className="flex items-center space-x-1">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: DIFF_COLORS[status] }} />
+              <span>{STATUS_LABELS[status]}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Differences */}
+      <div className="flex-1 overflow-y-auto px-3 py-2">
+        {total === 0 ? (
+          <p className="text-xs text-gray-500">
+            No actor or relation was added, removed, or changed its type, labels or strength.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {diff.actors.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-1">Actors ({diff.actors.length})</div>
+                {diff.actors.map((entry) =>
+                  renderEntry('node', entry, entry.element.data?.label || entry.id, describeActorChanges(entry))
+                )}
+              </div>
+            )}
+            {diff.relations.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-1">Relations ({diff.relations.length})</div>
+                {diff.relations.map((entry) =>
+                  renderEntry(
+                    'edge',
+                    entry,
+                    `${actorLabels.get(entry.element.source) ?? entry.element.source} → ${
+                      actorLabels.get(entry.element.target) ?? entry.element.target
+                    }`,
+                    [
+                      ...(entry.status === 'changed' ? [] : [edgeTypeLabel(entry.element.data?.type)]),
+                      ...describeRelationChanges(entry),
+                    ]
+                  )
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StateDiffPanel;
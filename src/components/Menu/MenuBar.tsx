@@ -13,6 +13,9 @@ import TuioConnectionConfig from '../Config/TuioConnectionConfig';
 import BibliographyConfigModal from '../Config/BibliographyConfig';
 import InputDialog from '../Common/InputDialog';
 import ConceptIndex from '../Help/ConceptIndex';
+import ExportGexfDialog from '../Timeline/ExportGexfDialog';
+import CsvImportDialog from '../Workspace/CsvImportDialog';
+import ExportDataDialog from '../Workspace/ExportDataDialog';
 import { useConfirm } from '../../hooks/useConfirm';
 import { useShortcutLabels } from '../../hooks/useShortcutLabels';
 import type { ExportOptions } from '../../utils/graphExport';
@@ -45,6 +48,9 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
   const [showNewDocDialog, setShowNewDocDialog] = useState(false);
   const [showNewFromTemplateDialog, setShowNewFromTemplateDialog] = useState(false);
   const [showConceptIndex, setShowConceptIndex] = useState(false);
+  const [showGexfExport, setShowGexfExport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showDataExport, setShowDataExport] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const { confirm, ConfirmDialogComponent } = useConfirm();
   const { getShortcutLabel } = useShortcutLabels();
@@ -163,6 +169,11 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
     closeMenu();
   }, [importDocumentFromFile, switchToDocument, closeMenu]);
 
+  const handleImportCsv = useCallback(() => {
+    setShowCsvImport(true);
+    closeMenu();
+  }, [closeMenu]);
+
   const handleExport = useCallback(() => {
     if (activeDocumentId) {
       exportDocument(activeDocumentId);
@@ -170,6 +181,25 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
     closeMenu();
   }, [activeDocumentId, exportDocument, closeMenu]);
 
+  const handleExportGraphML = useCallback(() => {
+    if (activeDocumentId) {
+      exportDocument(activeDocumentId, 'graphml');
+    }
+    closeMenu();
+  }, [activeDocumentId, exportDocument, closeMenu]);
+
+  const handleExportHTML = useCallback(() => {
+    if (activeDocumentId) {
+      exportDocument(activeDocumentId, 'html');
+    }
+    closeMenu();
+  }, [activeDocumentId, exportDocument, closeMenu]);
+
+  const handleExportGexf = useCallback(() => {
+    setShowGexfExport(true);
+    closeMenu();
+  }, [closeMenu]);
+
   const handleExportAll = useCallback(() => {
     exportAllDocumentsAsZip();
     closeMenu();
@@ -269,6 +299,11 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
     }
   }, [onExport, closeMenu]);
 
+  const handleExportData = useCallback(() => {
+    setShowDataExport(true);
+    closeMenu();
+  }, [closeMenu]);
+
   return (
     <>
       <div ref={menuRef} className="bg-white border-b border-gray-200 shadow-sm">
@@ -335,7 +370,14 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
                   className="w-full text-left px-4 py-1.5 hover:bg-gray-100"
                 >
                   <span className="block text-sm text-gray-700">Import Document…</span>
-                  <span className="block text-xs text-gray-500">Opens a .json file as a new document</span>
+                  <span className="block text-xs text-gray-500">Opens a .json or .graphml file as a new document</span>
+                </button>
+                <button
+                  onClick={handleImportCsv}
+                  className="w-full text-left px-4 py-1.5 hover:bg-gray-100"
+                >
+                  <span className="block text-sm text-gray-700">Import from CSV…</span>
+                  <span className="block text-xs text-gray-500">Actors and relations from spreadsheet files</span>
                 </button>
                 <button
                   onClick={handleExport}
@@ -344,6 +386,28 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
                   <span className="block text-sm text-gray-700">Export Document (JSON)</span>
                   <span className="block text-xs text-gray-500">All states — for backup or sharing</span>
                 </button>
+                <button
+                  onClick={handleExportGraphML}
+                  className="w-full text-left px-4 py-1.5 hover:bg-gray-100"
+                >
+                  <span className="block text-sm text-gray-700">Export as GraphML</span>
+                  <span className="block text-xs text-gray-500">All states — for Gephi, yEd or NetworkX</span>
+                </button>
+                <button
+                  onClick={handleExportGexf}
+                  className="w-full text-left px-4 py-1.5 hover:bg-gray-100 disabled:opacity-40"
+                  disabled={!activeDocumentId}
+                >
+                  <span className="block text-sm text-gray-700">Export as GEXF (dynamic)…</span>
+                  <span className="block text-xs text-gray-500">States over time — to play in Gephi’s timeline</span>
+                </button>
+                <button
+                  onClick={handleExportHTML}
+                  className="w-full text-left px-4 py-1.5 hover:bg-gray-100"
+                >
+                  <span className="block text-sm text-gray-700">Export as Interactive HTML</span>
+                  <span className="block text-xs text-gray-500">Read-only viewer — opens in any browser, offline</span>
+                </button>
                 <button
                   onClick={handleExportPNG}
                   className="w-full text-left px-4 py-1.5 hover:bg-gray-100 disabled:opacity-40"
@@ -360,6 +424,14 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
                   <span className="block text-sm text-gray-700">Export as SVG Vector</span>
                   <span className="block text-xs text-gray-500">Scalable picture — not re-importable</span>
                 </button>
+                <button
+                  onClick={handleExportData}
+                  className="w-full text-left px-4 py-1.5 hover:bg-gray-100 disabled:opacity-40"
+                  disabled={!activeDocumentId}
+                >
+                  <span className="block text-sm text-gray-700">Export Data (Excel/CSV)…</span>
+                  <span className="block text-xs text-gray-500">Actor and relation tables, adjacency matrix — for R or Excel</span>
+                </button>
 
                 <hr className="my-1 border-gray-200" />
 
@@ -617,6 +689,9 @@ const MenuBar: React.FC<MenuBarProps> = ({ onOpenHelp, onFitView, onExport }) =>
         isOpen={showConceptIndex}
         onClose={() => setShowConceptIndex(false)}
       />
+      {showGexfExport && <ExportGexfDialog onClose={() => setShowGexfExport(false)} />}
+      {showCsvImport && <CsvImportDialog onClose={() => setShowCsvImport(false)} />}
+      {showDataExport && <ExportDataDialog onClose={() => setShowDataExport(false)} />}
 
       {/* Input Dialogs */}
       <InputDialog
@@ -1,12 +1,15 @@
 import { memo, useMemo } from "react";
 import { Handle, Position, NodeProps } from "@xyflow/react";
 import { useGraphStore } from "../../stores/graphStore";
+import { useAnalysisStore } from "../../stores/analysisStore";
 import { shallow } from "zustand/shallow";
 import {
   getContrastColor,
   adjustColorBrightness,
 } from "../../utils/colorUtils";
 import { getIconComponent } from "../../utils/iconUtils";
+import { getEncodedColor, getEncodedSize } from "../../utils/nodeEncoding";
+import { DIFF_COLORS } from "../../utils/stateDiff";
 import type { Actor } from "../../types";
 import NodeShapeRenderer from "./Shapes/NodeShapeRenderer";
 import LabelBadge from "../Common/LabelBadge";
@@ -23,19 +26,55 @@ import {
  * - Easy-connect: whole node is connectable, edges auto-route to nearest border point
  * - Label display
  * - Type badge
+ * - Optional size and colour driven by a metric (see NodeEncodingLegend)
+ * - Green or amber outline while comparing timeline states (added/changed)
  *
  * Usage: Automatically rendered by React Flow for nodes with type='custom'
  */
-const CustomNode = ({ data, selected }: NodeProps<Actor>) => {
+const CustomNode = ({ id, data, selected }: NodeProps<Actor>) => {
   const nodeTypes = useGraphStore((state) => state.nodeTypes, shallow);
   const labels = useGraphStore((state) => state.labels, shallow);
 
+  // Community preview from the analysis panel overrides the type colour
+  const communityColor = useAnalysisStore(
+    (state) => state.communityColors?.[id],
+  );
+
+  // Metric encoding; actors without a value keep their usual size and colour
+  const encodingPosition = useAnalysisStore(
+    (state) => state.actorEncoding?.positions[id],
+  );
+  const encodeSize = useAnalysisStore(
+    (state) => state.actorEncoding?.size ?? false,
+  );
+  const encodeColor = useAnalysisStore(
+    (state) => state.actorEncoding?.color ?? false,
+  );
+  const encodedColor =
+    encodeColor && encodingPosition !== undefined
+      ? getEncodedColor(encodingPosition)
+      : undefined;
+  const sizeFactor =
+    encodeSize && encodingPosition !== undefined
+      ? getEncodedSize(encodingPosition)
+      : 1;
+
+  // Status in a state comparison; removed actors are drawn as ghosts elsewhere
+  const diffStatus = useAnalysisStore(
+    (state) => state.stateDiff?.actorStatus[id],
+  );
+  const diffColor =
+    diffStatus === "added" || diffStatus === "changed"
+      ? DIFF_COLORS[diffStatus]
+      : undefined;
+
   // Get active filters based on mode (editing vs presentation)
   const filters = useActiveFilters();
 
   // Find the node type configuration
   const nodeTypeConfig = nodeTypes.find((nt) => nt.id === data.type);
-  const nodeColor = nodeTypeConfig?.color || "#6b7280";
+  const nodeColor =
+    communityColor || encodedColor || nodeTypeConfig?.color || "#6b7280";
   const nodeLabel = nodeTypeConfig?.label || "Unknown";
   const nodeShape = nodeTypeConfig?.shape || "rectangle";
   const IconComponent = getIconComponent(nodeTypeConfig?.icon);
@@ -55,8 +94,10 @@ const CustomNode = ({ data, selected }: NodeProps<Actor>) => {
       data.description || "",
       nodeLabel,
       filters,
+      id,
     );
   }, [
+    id,
     data.type,
     data.labels,
     data.label,
@@ -69,7 +110,9 @@ const CustomNode = ({ data, selected }: NodeProps<Actor>) => {
   const hasActiveFilters =
     filters.searchText.trim() !== "" ||
     filters.selectedActorTypes.length > 0 ||
-    filters.selectedLabels.length > 0;
+    filters.selectedLabels.length > 0 ||
+    filters.highlightedPath !== null ||
+    filters.egoNetwork !== null;
 
   // Calculate opacity based on match status
   const nodeOpacity = hasActiveFilters && !isMatch ? 0.2 : 1.0;
@@ -80,6 +123,12 @@ const CustomNode = ({ data, selected }: NodeProps<Actor>) => {
       className="relative"
       style={{
         opacity: nodeOpacity,
+        // zoom (unlike transform) changes layout size, so React Flow measures
+        // the scaled node and relations still meet its border
+        zoom: sizeFactor !== 1 ? sizeFactor : undefined,
+        outline: diffColor ? `3px solid ${diffColor}` : undefined,
+        outlineOffset: diffColor ? 4 : undefined,
+        borderRadius: diffColor ? 8 : undefined,
       }}
     >
       {/* Invisible handles positioned around edges - center remains free for dragging */}
@@ -0,0 +1,160 @@
+import { useMemo } from 'react';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useTimelineStatesWithLiveGraph } from '../../hooks/useTimelineStatesWithLiveGraph';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { actorHistory, hasChanges, type ActorHistoryRelation } from '../../utils/actorHistory';
+
+/**
+ * ActorHistory - One actor across every timeline state
+ *
+ * Lists each state that contains the actor with its type, labels, degree
+ * and relations there. Whatever differs from the closest earlier state on
+ * the same branch is highlighted: amber for changed, green for added, red
+ * for removed. Clicking a state opens it.
+ */
+
+interface Props {
+  actorId: string;
+}
+
+const ActorHistory = ({ actorId }: Props) => {
+  const { nodes, nodeTypes, edgeTypes, labels } = useGraphWithHistory();
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const switchToState = useTimelineStore((state) => state.switchToState);
+  const states = useTimelineStatesWithLiveGraph();
+
+  const history = useMemo(() => {
+    if (!timeline) return [];
+    return actorHistory(states, timeline.rootStateId, actorId);
+  }, [timeline, states, actorId]);
+
+  if (!timeline) return null;
+
+  // Actors may be gone from the current state, so look names up everywhere
+  const actorLabel = (id: string): string => {
+    const actor =
+      nodes.find((node) => node.id === id) ??
+      Array.from(timeline.states.values())
+        .flatMap((state) => state.graph.nodes)
+        .find((node) => node.id === id);
+    return actor?.data.label || id;
+  };
+
+  const describeRelation = (relation: ActorHistoryRelation): string => {
+    const typeLabel = edgeTypes.find((type) => type.id === relation.type)?.label ?? relation.type;
+    return `${relation.direction === 'outgoing' ? '→' : '←'} ${typeLabel} ${actorLabel(relation.otherActorId)}`;
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto overflow-x-hidden px-3 py-3">
+      <p className="text-xs text-gray-500 mb-3">
+        {history.length === 1
+          ? 'This actor is only in this state.'
+          : `In ${history.length} of ${timeline.states.size} states. Each is compared with the state before it on its branch.`}
+      </p>
+      <div className="space-y-2">
+        {history.map((entry) => {
+          const state = timeline.states.get(entry.stateId)!;
+          const isCurrent = entry.stateId === timeline.currentStateId;
+          const changes = entry.changes;
+          const typeConfig = nodeTypes.find((type) => type.id === entry.type);
+          const previous = entry.previousStateId ? timeline.states.get(entry.previousStateId) : undefined;
+
+          return (
+            <button
+              key={entry.stateId}
+              onClick={() => switchToState(entry.stateId)}
+              className={`w-full text-left rounded border px-2 py-2 text-xs transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {/* State */}
+              <div className="flex items-baseline justify-between gap-2 mb-1">
+                <span className="font-semibold text-gray-800 truncate">{state.label}</span>
+                <span className="flex-shrink-0 text-gray-400">
+                  {isCurrent
+                    ? 'current'
+                    : !changes
+                      ? 'first appears'
+                      : hasChanges(changes)
+                        ? `changed since “${previous?.label}”`
+                        : 'unchanged'}
+                </span>
+              </div>
+
+              {/* Type and label */}
+              <div className="flex items-center space-x-1 mb-1">
+                <span
+                  className="inline-block w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: typeConfig?.color || '#6b7280' }}
+                />
+                <span className={changes?.type ? 'text-amber-700 font-medium' : 'text-gray-700'}>
+                  {typeConfig?.label || entry.type}
+                </span>
+                {changes?.label && (
+                  <span className="text-amber-700 truncate">· renamed “{entry.label}”</span>
+                )}
+              </div>
+
+              {/* Labels */}
+              {(entry.labels.length > 0 || (changes?.labelsRemoved.length ?? 0) > 0) && (
+                <div className="flex flex-wrap gap-1 mb-1">
+                  {entry.labels.map((id) => (
+                    <span
+                      key={id}
+                      className={`px-1.5 py-0.5 rounded ${
+                        changes?.labelsAdded.includes(id) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {labels.find((label) => label.id === id)?.name ?? id}
+                    </span>
+                  ))}
+                  {changes?.labelsRemoved.map((id) => (
+                    <span key={id} className="px-1.5 py-0.5 rounded bg-red-50 text-red-700 line-through">
+                      {labels.find((label) => label.id === id)?.name ?? id}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {/* Relations */}
+              <div className="text-gray-600">
+                Degree {entry.degree}
+                {!!changes?.degreeChange && (
+                  <span className={changes.degreeChange > 0 ? 'text-green-700' : 'text-red-700'}>
+                    {' '}({changes.degreeChange > 0 ? '+' : '−'}{Math.abs(changes.degreeChange)})
+                  </span>
+                )}
+              </div>
+              {(entry.relations.length > 0 || (changes?.relationsRemoved.length ?? 0) > 0) && (
+                <ul className="mt-0.5 space-y-0.5">
+                  {entry.relations.map((relation, index) => (
+                    <li
+                      key={`${relation.key}:${index}`}
+                      className={`truncate ${
+                        changes?.relationsAdded.includes(relation.key) ? 'text-green-700' : 'text-gray-600'
+                      }`}
+                    >
+                      {describeRelation(relation)}
+                    </li>
+                  ))}
+                  {changes?.relationsRemoved.map((relation, index) => (
+                    <li key={`removed:${relation.key}:${index}`} className="truncate text-red-700 line-through">
+                      {describeRelation(relation)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ActorHistory;
@@ -16,6 +16,7 @@ import BibliographyConfigModal from '../Config/BibliographyConfig';
 import AutocompleteLabelSelector from '../Common/AutocompleteLabelSelector';
 import CitationSelector from '../Common/CitationSelector';
 import FieldHint from '../Help/FieldHint';
+import PropagateEditButton from './PropagateEditButton';
 import { useTypeUsage, describeTypeUsage } from '../../hooks/useTypeUsage';
 import type { Relation, EdgeDirectionality } from '../../types';
 
@@ -25,7 +26,8 @@ interface EdgeEditorPanelProps {
 }
 
 const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
-  const { nodes, edges, nodeTypes, edgeTypes, updateEdge, deleteEdge, setEdges } = useGraphWithHistory();
+  const { nodes, edges, nodeTypes, edgeTypes, updateEdge, deleteEdge, setEdges, lockedState } = useGraphWithHistory();
+  const isLocked = !!lockedState;
   const { pushToHistory } = useDocumentHistory();
   const { confirm, ConfirmDialogComponent } = useConfirm();
 
@@ -35,6 +37,7 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
   const [relationLabels, setRelationLabels] = useState<string[]>([]);
   const [relationCitations, setRelationCitations] = useState<string[]>([]);
   const [relationDirectionality, setRelationDirectionality] = useState<EdgeDirectionality>('directed');
+  const [relationStrength, setRelationStrength] = useState('');
 
   // Track if user has made changes
   const [hasEdgeChanges, setHasEdgeChanges] = useState(false);
@@ -60,6 +63,7 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
       setRelationCitations(selectedEdge.data.citations || []);
       const edgeTypeConfig = edgeTypes.find((et) => et.id === selectedEdge.data?.type);
       setRelationDirectionality(selectedEdge.data.directionality || edgeTypeConfig?.defaultDirectionality || 'directed');
+      setRelationStrength(selectedEdge.data.strength !== undefined ? String(selectedEdge.data.strength) : '');
       setHasEdgeChanges(false);
     }
   }, [selectedEdge, edgeTypes]);
@@ -67,15 +71,17 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
   // Live update edge properties (debounced)
   const updateEdgeProperties = useCallback(() => {
     if (!hasEdgeChanges) return;
+    const strength = parseFloat(relationStrength);
     updateEdge(selectedEdge.id, {
       type: relationType,
       label: relationLabel.trim() || undefined,
       directionality: relationDirectionality,
       labels: relationLabels.length > 0 ? relationLabels : undefined,
       citations: relationCitations.length > 0 ? relationCitations : undefined,
+      strength: Number.isFinite(strength) ? strength : undefined,
     });
     setHasEdgeChanges(false);
-  }, [selectedEdge.id, relationType, relationLabel, relationDirectionality, relationLabels, relationCitations, hasEdgeChanges, updateEdge]);
+  }, [selectedEdge.id, relationType, relationLabel, relationDirectionality, relationLabels, relationCitations, relationStrength, hasEdgeChanges, updateEdge]);
 
   // Debounce live updates
   useEffect(() => {
@@ -203,7 +209,8 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
                 citations: relationCitations.length > 0 ? relationCitations : undefined,
               });
             }}
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={isLocked}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
           >
             {edgeTypes.map((edgeType) => (
               <option key={edgeType.id} value={edgeType.id}>
@@ -230,13 +237,37 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
               setHasEdgeChanges(true);
             }}
             placeholder={selectedEdgeTypeConfig?.label || 'Enter label'}
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={isLocked}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
           />
           <p className="text-xs text-gray-500 mt-1">
             Leave empty to use default type label
           </p>
         </div>
 
+        {/* Strength */}
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Strength (optional)
+          </label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={relationStrength}
+            onChange={(e) => {
+              setRelationStrength(e.target.value);
+              setHasEdgeChanges(true);
+            }}
+            placeholder="1"
+            disabled={isLocked}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+          />
+          <FieldHint className="mt-1">
+            How much this relation weighs in the analysis. Leave empty to count it as 1
+          </FieldHint>
+        </div>
+
         {/* Labels */}
         <div>
           <div className="flex items-center justify-between mb-1">
@@ -260,6 +291,7 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
               setHasEdgeChanges(true);
             }}
             scope="relations"
+            disabled={isLocked}
           />
         </div>
 
@@ -275,6 +307,7 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
               setHasEdgeChanges(true);
             }}
             onOpenBibliography={() => setShowBibliographyModal(true)}
+            disabled={isLocked}
           />
         </div>
 
@@ -301,6 +334,7 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
             }}
             size="small"
             fullWidth
+            disabled={isLocked}
             aria-label="relationship directionality"
           >
             <ToggleButton value="directed" aria-label="directed relationship">
@@ -339,7 +373,7 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
             <label className="text-xs font-medium text-gray-700">
               Connection
             </label>
-            {relationDirectionality === 'directed' && (
+            {relationDirectionality === 'directed' && !isLocked && (
               <Tooltip title="Reverse Direction">
                 <IconButton size="small" onClick={handleReverseDirection}>
                   <SwapHorizIcon fontSize="small" />
@@ -358,9 +392,11 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
 
       {/* Footer with actions */}
       <div className="px-3 py-3 border-t border-gray-200 bg-gray-50">
+        <PropagateEditButton kind="relation" elementId={selectedEdge.id} pending={hasEdgeChanges} className="mb-2" />
         <button
           onClick={handleDeleteEdge}
-          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+          disabled={isLocked}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <DeleteIcon fontSize="small" />
           <span>Delete Relation</span>
@@ -370,6 +406,11 @@ const EdgeEditorPanel = ({ selectedEdge, onClose }: EdgeEditorPanelProps) => {
             Saving changes...
           </p>
         )}
+        {lockedState && (
+          <p className="text-xs text-gray-500 mt-2 text-center italic">
+            “{lockedState.label}” is locked. Duplicate it as a child to edit.
+          </p>
+        )}
       </div>
       {ConfirmDialogComponent}
       <EdgeTypeConfigModal
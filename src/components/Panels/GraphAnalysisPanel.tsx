@@ -1,13 +1,78 @@
-import GraphMetrics from '../Common/GraphMetrics';
-import type { Actor, Relation } from '../../types';
+import { useCallback } from 'react';
+import GraphMetrics, { type CommunityGroupDraft } from '../Common/GraphMetrics';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useNodeEncoding } from '../../hooks/useNodeEncoding';
+import { hexToRgba } from '../../utils/colorUtils';
+import type { Actor, Relation, EdgeTypeConfig, Group } from '../../types';
 
 interface GraphAnalysisPanelProps {
   nodes: Actor[];
   edges: Relation[];
+  edgeTypes: EdgeTypeConfig[];
 }
 
-const GraphAnalysisPanel = ({ nodes, edges }: GraphAnalysisPanelProps) => {
-  return <GraphMetrics nodes={nodes} edges={edges} />;
+const GraphAnalysisPanel = ({ nodes, edges, edgeTypes }: GraphAnalysisPanelProps) => {
+  const { nodeTypes, labels, createGroupsWithActors } = useGraphWithHistory();
+  const { encoding: nodeEncoding, setEncoding: setNodeEncoding } = useNodeEncoding();
+
+  // Select the element on the canvas and centre it; GraphEditor owns the viewport
+  const focusElement = useCallback((type: 'node' | 'edge', id: string) => {
+    window.dispatchEvent(new CustomEvent('focusGraphElement', { detail: { type, id } }));
+  }, []);
+
+  // Turn detected communities into groups drawn around their current members
+  const handleCreateCommunityGroups = useCallback(
+    (communities: CommunityGroupDraft[]) => {
+      const timestamp = Date.now();
+      const padding = 40;
+
+      const entries = communities.map((community, index) => {
+        const members = nodes.filter((node) => community.actorIds.includes(node.id));
+        const minX = Math.min(...members.map((n) => n.position.x));
+        const minY = Math.min(...members.map((n) => n.position.y));
+        const maxX = Math.max(...members.map((n) => n.position.x + (n.width || 150)));
+        const maxY = Math.max(...members.map((n) => n.position.y + (n.height || 100)));
+
+        const group: Group = {
+          id: `group_${timestamp}_${index}`,
+          type: 'group',
+          position: { x: minX - padding, y: minY - padding },
+          data: {
+            label: community.label,
+            color: hexToRgba(community.color, 0.08),
+            actorIds: [],
+          },
+          style: {
+            width: maxX - minX + padding * 2,
+            height: maxY - minY + padding * 2,
+          },
+        };
+
+        return { group, actorIds: community.actorIds };
+      });
+
+      createGroupsWithActors(
+        entries,
+        `Create ${entries.length} ${entries.length === 1 ? 'Group' : 'Groups'} from Communities`
+      );
+    },
+    [nodes, createGroupsWithActors]
+  );
+
+  return (
+    <GraphMetrics
+      nodes={nodes}
+      edges={edges}
+      edgeTypes={edgeTypes}
+      nodeTypes={nodeTypes}
+      labels={labels}
+      nodeEncoding={nodeEncoding}
+      onNodeEncodingChange={setNodeEncoding}
+      onActorClick={(actorId) => focusElement('node', actorId)}
+      onRelationClick={(relationId) => focusElement('edge', relationId)}
+      onCreateCommunityGroups={handleCreateCommunityGroups}
+    />
+  );
 };
 
 export default GraphAnalysisPanel;
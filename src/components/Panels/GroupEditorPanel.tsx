@@ -7,6 +7,7 @@ import MaximizeIcon from '@mui/icons-material/UnfoldMore';
 import { useNodes } from '@xyflow/react';
 import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
 import { useConfirm } from '../../hooks/useConfirm';
+import PropagateEditButton from './PropagateEditButton';
 import type { Group } from '../../types';
 
 /**
@@ -35,9 +36,20 @@ const DEFAULT_GROUP_COLORS = [
 ];
 
 const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
-  const { updateGroup, deleteGroup, removeActorFromGroup, toggleGroupMinimized, nodes, nodeTypes, setGroups, groups } = useGraphWithHistory();
+  const {
+    updateGroup,
+    deleteGroup,
+    removeActorFromGroup,
+    toggleGroupMinimized,
+    nodes,
+    nodeTypes,
+    setGroups,
+    groups,
+    lockedState,
+  } = useGraphWithHistory();
   const { confirm, ConfirmDialogComponent } = useConfirm();
   const reactFlowNodes = useNodes();
+  const isLocked = !!lockedState;
 
   // Get the current group from store to ensure we have the latest state
   const currentGroup = groups.find(g => g.id === selectedGroup.id) || selectedGroup;
@@ -166,7 +178,8 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
           type="text"
           value={label}
           onChange={(e) => handleLabelChange(e.target.value)}
-          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isLocked}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
           placeholder="Enter group name"
         />
       </div>
@@ -179,7 +192,8 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
         <textarea
           value={description}
           onChange={(e) => handleDescriptionChange(e.target.value)}
-          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+          disabled={isLocked}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500 resize-none"
           rows={3}
           placeholder="Enter description"
         />
@@ -195,7 +209,8 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
             <button
               key={c}
               onClick={() => handleColorChange(c)}
-              className={`w-10 h-10 rounded border-2 transition-all ${
+              disabled={isLocked}
+              className={`w-10 h-10 rounded border-2 transition-all disabled:cursor-not-allowed ${
                 color === c ? 'border-blue-500 scale-110' : 'border-gray-300 hover:border-gray-400'
               }`}
               style={{ backgroundColor: c }}
@@ -233,6 +248,7 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
                     <IconButton
                       size="small"
                       onClick={() => handleRemoveActor(actor.id)}
+                      disabled={isLocked}
                       sx={{ padding: '2px' }}
                     >
                       <CloseIcon sx={{ fontSize: 14 }} />
@@ -248,6 +264,7 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
 
       {/* Footer with actions */}
       <div className="px-3 py-3 border-t border-gray-200 bg-gray-50 space-y-2">
+        <PropagateEditButton kind="group" elementId={selectedGroup.id} />
         <button
           onClick={() => {
             // Sync current React Flow dimensions before toggling
@@ -267,7 +284,8 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
               toggleGroupMinimized(currentGroup.id);
             }, 0);
           }}
-          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          disabled={isLocked}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {currentGroup.data.minimized ? (
             <>
@@ -283,17 +301,24 @@ const GroupEditorPanel = ({ selectedGroup, onClose }: Props) => {
         </button>
         <button
           onClick={handleUngroup}
-          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          disabled={isLocked}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <span>Ungroup (Keep Actors)</span>
         </button>
         <button
           onClick={handleDeleteGroup}
-          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+          disabled={isLocked}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <DeleteIcon fontSize="small" />
           <span>Delete Group & Actors</span>
         </button>
+        {lockedState && (
+          <p className="text-xs text-gray-500 text-center italic">
+            “{lockedState.label}” is locked. Duplicate it as a child to edit.
+          </p>
+        )}
       </div>
 
       {ConfirmDialogComponent}
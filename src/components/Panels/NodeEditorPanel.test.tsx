@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import NodeEditorPanel from './NodeEditorPanel';
+import { useGraphStore } from '../../stores/graphStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { resetWorkspaceStore } from '../../test-utils/test-helpers';
+import { createMockActor, createMockState, mockEdgeTypes, mockNodeTypes } from '../../test-utils/mocks';
+import type { Actor } from '../../types';
+
+const actor = createMockActor('actor-1', { label: 'Acme' }) as Actor;
+
+function openState(locked: boolean) {
+  useWorkspaceStore.setState({ activeDocumentId: 'doc-1' });
+  useTimelineStore.setState({
+    timelines: new Map([
+      [
+        'doc-1',
+        {
+          states: new Map([['state-1', createMockState('state-1', { nodes: [actor] }, { label: 'Signed', locked })]]),
+          currentStateId: 'state-1',
+          rootStateId: 'state-1',
+        },
+      ],
+    ]),
+    activeDocumentId: 'doc-1',
+  });
+  useGraphStore.setState({ nodes: [actor], edges: [], groups: [], nodeTypes: mockNodeTypes, edgeTypes: mockEdgeTypes });
+}
+
+describe('NodeEditorPanel', () => {
+  beforeEach(() => {
+    resetWorkspaceStore();
+  });
+
+  it('is read-only while the state on screen is locked', () => {
+    openState(true);
+    render(<NodeEditorPanel selectedNode={actor} onClose={vi.fn()} />);
+
+    expect(screen.getByPlaceholderText('Enter actor name')).toBeDisabled();
+    expect(screen.getByPlaceholderText('Add a description')).toBeDisabled();
+    expect(screen.getByRole('combobox')).toBeDisabled();
+    expect(screen.getByPlaceholderText(/search or create labels/)).toBeDisabled();
+    expect(screen.getByRole('button', { name: /delete actor/i })).toBeDisabled();
+    expect(screen.getByText('“Signed” is locked. Duplicate it as a child to edit.')).toBeInTheDocument();
+  });
+
+  it('can be edited in an unlocked state', () => {
+    openState(false);
+    render(<NodeEditorPanel selectedNode={actor} onClose={vi.fn()} />);
+
+    const label = screen.getByPlaceholderText('Enter actor name');
+    fireEvent.change(label, { target: { value: 'ACME' } });
+
+    expect(label).toBeEnabled();
+    expect(label).toHaveValue('ACME');
+    expect(screen.getByRole('button', { name: /delete actor/i })).toBeEnabled();
+    expect(screen.queryByText(/is locked/)).not.toBeInTheDocument();
+  });
+});
@@ -1,9 +1,11 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { IconButton, Tooltip } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import EditIcon from '@mui/icons-material/Edit';
+import CenterFocusStrongIcon from '@mui/icons-material/CenterFocusStrong';
 import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
 import { useConfirm } from '../../hooks/useConfirm';
+import { useAnalysisStore } from '../../stores/analysisStore';
 import ConnectionDisplay from '../Common/ConnectionDisplay';
 import NodeTypeConfigModal from '../Config/NodeTypeConfig';
 import LabelConfigModal from '../Config/LabelConfig';
@@ -11,7 +13,11 @@ import BibliographyConfigModal from '../Config/BibliographyConfig';
 import AutocompleteLabelSelector from '../Common/AutocompleteLabelSelector';
 import CitationSelector from '../Common/CitationSelector';
 import FieldHint from '../Help/FieldHint';
+import PropagateEditButton from './PropagateEditButton';
+import ActorHistory from './ActorHistory';
 import { useTypeUsage, describeTypeUsage } from '../../hooks/useTypeUsage';
+import { calculateActorBrokerage } from '../../utils/graphAnalysis';
+import { BROKERAGE_RANKINGS, BROKERAGE_ROLE_ORDER } from '../Common/brokerageRoles';
 import type { Actor } from '../../types';
 
 interface NodeEditorPanelProps {
@@ -20,8 +26,10 @@ interface NodeEditorPanelProps {
 }
 
 const NodeEditorPanel = ({ selectedNode, onClose }: NodeEditorPanelProps) => {
-  const { nodes, edges, nodeTypes, edgeTypes, updateNode, deleteNode } = useGraphWithHistory();
+  const { nodes, edges, nodeTypes, edgeTypes, updateNode, deleteNode, lockedState } = useGraphWithHistory();
   const { confirm, ConfirmDialogComponent } = useConfirm();
+  const setEgoView = useAnalysisStore((state) => state.setEgoView);
+  const isLocked = !!lockedState;
 
   // Node property states
   const [actorType, setActorType] = useState('');
@@ -45,6 +53,9 @@ const NodeEditorPanel = ({ selectedNode, onClose }: NodeEditorPanelProps) => {
   // Bibliography modal state
   const [showBibliographyModal, setShowBibliographyModal] = useState(false);
 
+  // Properties of this actor, or how it changes across timeline states
+  const [activeTab, setActiveTab] = useState<'properties' | 'history'>('properties');
+
   // The `selectedNode` prop is captured at selection time and does not
   // update when the store changes (e.g. via undo/redo), so we read the
   // canonical data from the live `nodes` array exposed by useGraphWithHistory.
@@ -138,6 +149,13 @@ const NodeEditorPanel = ({ selectedNode, onClose }: NodeEditorPanelProps) => {
   };
 
   const connections = getNodeConnections();
+
+  // Brokerage depends on the whole network, not just this actor's relations
+  const brokerage = useMemo(
+    () => calculateActorBrokerage(nodes, edges, edgeTypes).find((actor) => actor.actorId === selectedNode.id),
+    [nodes, edges, edgeTypes, selectedNode.id]
+  );
+
   const selectedNodeTypeConfig = nodeTypes.find((nt) => nt.id === actorType);
 
   // Actor types are global to the document, so editing one reaches every actor
@@ -146,219 +164,310 @@ const NodeEditorPanel = ({ selectedNode, onClose }: NodeEditorPanelProps) => {
 
   return (
     <>
-      {/* Scrollable content */}
-      <div className="flex-1 overflow-y-auto overflow-x-hidden px-3 py-3 space-y-4">
-        {/* Actor Type */}
-        <div>
-          <div className="flex items-center justify-between mb-1">
-            <label className="block text-xs font-medium text-gray-700">
-              Actor Type
-            </label>
-            <Tooltip title={`Edit this actor type — ${describeTypeUsage('actor', typeUsage).toLowerCase()}`}>
-              <IconButton
-                size="small"
-                onClick={handleEditActorType}
-                sx={{ padding: '2px' }}
-              >
-                <EditIcon sx={{ fontSize: 14 }} />
-              </IconButton>
-            </Tooltip>
-          </div>
-          <select
-            value={actorType}
-            onChange={(e) => {
-              const newType = e.target.value;
-              setActorType(newType);
-              // Apply actor type change instantly (no debounce)
-              updateNode(selectedNode.id, {
-                data: {
-                  type: newType,
-                  label: actorLabel,
-                  description: actorDescription || undefined,
-                  showDescriptionInNode: actorShowDescriptionInNode || undefined,
-                  labels: actorLabels.length > 0 ? actorLabels : undefined,
-                  citations: actorCitations.length > 0 ? actorCitations : undefined,
-                },
-              });
-            }}
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+      {/* Tabs */}
+      <div className="flex border-b border-gray-200 px-3">
+        {(['properties', 'history'] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-3 py-2 -mb-px text-xs font-medium border-b-2 transition-colors focus:outline-none ${
+              activeTab === tab
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
           >
-            {nodeTypes.map((nodeType) => (
-              <option key={nodeType.id} value={nodeType.id}>
-                {nodeType.label}
-              </option>
-            ))}
-          </select>
-          {selectedNodeTypeConfig && (
-            <div
-              className="mt-2 h-8 rounded border-2 flex items-center justify-center text-xs font-medium text-white"
-              style={{
-                backgroundColor: selectedNodeTypeConfig.color,
-                borderColor: selectedNodeTypeConfig.color,
-              }}
-            >
-              {selectedNodeTypeConfig.label}
-            </div>
-          )}
-          <FieldHint className="mt-1">
-            Switching type only affects this actor
-          </FieldHint>
-        </div>
-
-        {/* Actor Label */}
-        <div>
-          <label className="block text-xs font-medium text-gray-700 mb-1">
-            Label *
-          </label>
-          <input
-            ref={labelInputRef}
-            type="text"
-            value={actorLabel}
-            onChange={(e) => {
-              setActorLabel(e.target.value);
-              setHasNodeChanges(true);
-            }}
-            placeholder="Enter actor name"
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-        </div>
+            {tab === 'properties' ? 'Properties' : 'History'}
+          </button>
+        ))}
+      </div>
 
-        {/* Description */}
-        <div>
-          <label className="block text-xs font-medium text-gray-700 mb-1">
-            Description (optional)
-          </label>
-          <textarea
-            value={actorDescription}
-            onChange={(e) => {
-              setActorDescription(e.target.value);
-              setHasNodeChanges(true);
-            }}
-            placeholder="Add a description"
-            rows={3}
-            className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-          />
-          <label className="mt-2 flex items-center gap-2 text-xs text-gray-700 cursor-pointer select-none">
-            <input
-              type="checkbox"
-              checked={actorShowDescriptionInNode}
+      {activeTab === 'history' ? (
+        <ActorHistory actorId={selectedNode.id} />
+      ) : (
+        /* Scrollable content */
+        <div className="flex-1 overflow-y-auto overflow-x-hidden px-3 py-3 space-y-4">
+          {/* Actor Type */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs font-medium text-gray-700">
+                Actor Type
+              </label>
+              <Tooltip title={`Edit this actor type — ${describeTypeUsage('actor', typeUsage).toLowerCase()}`}>
+                <IconButton
+                  size="small"
+                  onClick={handleEditActorType}
+                  sx={{ padding: '2px' }}
+                >
+                  <EditIcon sx={{ fontSize: 14 }} />
+                </IconButton>
+              </Tooltip>
+            </div>
+            <select
+              value={actorType}
               onChange={(e) => {
-                const checked = e.target.checked;
-                setActorShowDescriptionInNode(checked);
-                // Commit the toggle instantly (no debounce) and flush any
-                // pending text edits along with it so they aren't lost.
+                const newType = e.target.value;
+                setActorType(newType);
+                // Apply actor type change instantly (no debounce)
                 updateNode(selectedNode.id, {
                   data: {
-                    type: actorType,
+                    type: newType,
                     label: actorLabel,
                     description: actorDescription || undefined,
-                    showDescriptionInNode: checked || undefined,
+                    showDescriptionInNode: actorShowDescriptionInNode || undefined,
                     labels: actorLabels.length > 0 ? actorLabels : undefined,
                     citations: actorCitations.length > 0 ? actorCitations : undefined,
                   },
                 });
-                setHasNodeChanges(false);
               }}
-              className="h-3.5 w-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={isLocked}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+            >
+              {nodeTypes.map((nodeType) => (
+                <option key={nodeType.id} value={nodeType.id}>
+                  {nodeType.label}
+                </option>
+              ))}
+            </select>
+            {selectedNodeTypeConfig && (
+              <div
+                className="mt-2 h-8 rounded border-2 flex items-center justify-center text-xs font-medium text-white"
+                style={{
+                  backgroundColor: selectedNodeTypeConfig.color,
+                  borderColor: selectedNodeTypeConfig.color,
+                }}
+              >
+                {selectedNodeTypeConfig.label}
+              </div>
+            )}
+            <FieldHint className="mt-1">
+              Switching type only affects this actor
+            </FieldHint>
+          </div>
+
+          {/* Actor Label */}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Label *
+            </label>
+            <input
+              ref={labelInputRef}
+              type="text"
+              value={actorLabel}
+              onChange={(e) => {
+                setActorLabel(e.target.value);
+                setHasNodeChanges(true);
+              }}
+              placeholder="Enter actor name"
+              disabled={isLocked}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
             />
-            <span>Show description in node</span>
-          </label>
-        </div>
+          </div>
 
-        {/* Labels */}
-        <div>
-          <div className="flex items-center justify-between mb-1">
-            <label className="block text-xs font-medium text-gray-700">
-              Labels (optional)
+          {/* Description */}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Description (optional)
+            </label>
+            <textarea
+              value={actorDescription}
+              onChange={(e) => {
+                setActorDescription(e.target.value);
+                setHasNodeChanges(true);
+              }}
+              placeholder="Add a description"
+              rows={3}
+              disabled={isLocked}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500 resize-none"
+            />
+            <label className="mt-2 flex items-center gap-2 text-xs text-gray-700 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={actorShowDescriptionInNode}
+                disabled={isLocked}
+                onChange={(e) => {
+                  const checked = e.target.checked;
+                  setActorShowDescriptionInNode(checked);
+                  // Commit the toggle instantly (no debounce) and flush any
+                  // pending text edits along with it so they aren't lost.
+                  updateNode(selectedNode.id, {
+                    data: {
+                      type: actorType,
+                      label: actorLabel,
+                      description: actorDescription || undefined,
+                      showDescriptionInNode: checked || undefined,
+                      labels: actorLabels.length > 0 ? actorLabels : undefined,
+                      citations: actorCitations.length > 0 ? actorCitations : undefined,
+                    },
+                  });
+                  setHasNodeChanges(false);
+                }}
+                className="h-3.5 w-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Show description in node</span>
             </label>
-            <Tooltip title="Manage Labels">
-              <IconButton
-                size="small"
-                onClick={() => setShowLabelModal(true)}
-                sx={{ padding: '2px' }}
-              >
-                <EditIcon sx={{ fontSize: 14 }} />
-              </IconButton>
-            </Tooltip>
           </div>
-          <AutocompleteLabelSelector
-            value={actorLabels}
-            onChange={(newLabels) => {
-              setActorLabels(newLabels);
-              setHasNodeChanges(true);
-            }}
-            scope="actors"
-          />
-        </div>
 
-        {/* Citations */}
-        <div>
-          <label className="block text-xs font-medium text-gray-700 mb-1">
-            Citations (optional)
-          </label>
-          <CitationSelector
-            value={actorCitations}
-            onChange={(newCitations) => {
-              setActorCitations(newCitations);
-              setHasNodeChanges(true);
-            }}
-            onOpenBibliography={() => setShowBibliographyModal(true)}
-          />
-        </div>
+          {/* Labels */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs font-medium text-gray-700">
+                Labels (optional)
+              </label>
+              <Tooltip title="Manage Labels">
+                <IconButton
+                  size="small"
+                  onClick={() => setShowLabelModal(true)}
+                  sx={{ padding: '2px' }}
+                >
+                  <EditIcon sx={{ fontSize: 14 }} />
+                </IconButton>
+              </Tooltip>
+            </div>
+            <AutocompleteLabelSelector
+              value={actorLabels}
+              onChange={(newLabels) => {
+                setActorLabels(newLabels);
+                setHasNodeChanges(true);
+              }}
+              scope="actors"
+              disabled={isLocked}
+            />
+          </div>
 
-        {/* Connections */}
-        <div className="pt-3 border-t border-gray-200">
-          <h3 className="text-xs font-semibold text-gray-700 mb-2">
-            Connections ({connections.length})
-          </h3>
-          {connections.length === 0 ? (
-            <p className="text-xs text-gray-500 italic">No connections</p>
-          ) : (
-            <div className="space-y-3">
-              {connections.map((edge) => {
-                const edgeConfig = edgeTypes.find((et) => et.id === edge.data?.type);
-                const sourceNode = nodes.find(n => n.id === edge.source);
-                const targetNode = nodes.find(n => n.id === edge.target);
-                const edgeDirectionality = edge.data?.directionality || edgeConfig?.defaultDirectionality || 'directed';
-
-                return (
-                  <div key={edge.id} className="space-y-1">
-                    {/* Edge Type Badge */}
-                    <div className="flex items-center space-x-1">
-                      <span
-                        className="inline-block w-2 h-2 rounded-full"
-                        style={{ backgroundColor: edgeConfig?.color || '#6b7280' }}
+          {/* Citations */}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Citations (optional)
+            </label>
+            <CitationSelector
+              value={actorCitations}
+              onChange={(newCitations) => {
+                setActorCitations(newCitations);
+                setHasNodeChanges(true);
+              }}
+              onOpenBibliography={() => setShowBibliographyModal(true)}
+              disabled={isLocked}
+            />
+          </div>
+
+          {/* Connections */}
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-gray-700">
+                Connections ({connections.length})
+              </h3>
+              {connections.length > 0 && (
+                <Tooltip title="Ego view: show only this actor's neighbourhood">
+                  <IconButton
+                    size="small"
+                    onClick={() =>
+                      setEgoView({ actorId: selectedNode.id, hops: 1, relationTypes: [], hideOthers: false })
+                    }
+                    sx={{ padding: '2px' }}
+                  >
+                    <CenterFocusStrongIcon sx={{ fontSize: 14 }} />
+                  </IconButton>
+                </Tooltip>
+              )}
+            </div>
+            {connections.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">No connections</p>
+            ) : (
+              <div className="space-y-3">
+                {connections.map((edge) => {
+                  const edgeConfig = edgeTypes.find((et) => et.id === edge.data?.type);
+                  const sourceNode = nodes.find(n => n.id === edge.source);
+                  const targetNode = nodes.find(n => n.id === edge.target);
+                  const edgeDirectionality = edge.data?.directionality || edgeConfig?.defaultDirectionality || 'directed';
+
+                  return (
+                    <div key={edge.id} className="space-y-1">
+                      {/* Edge Type Badge */}
+                      <div className="flex items-center space-x-1">
+                        <span
+                          className="inline-block w-2 h-2 rounded-full"
+                          style={{ backgroundColor: edgeConfig?.color || '#6b7280' }}
+                        />
+                        <span className="text-xs font-medium text-gray-700">
+                          {edgeConfig?.label || 'Unknown'}
+                        </span>
+                        {edge.data?.label && edge.data.label !== edgeConfig?.label && (
+                          <span className="text-xs text-gray-500">
+                            ({edge.data.label})
+                          </span>
+                        )}
+                      </div>
+                      {/* Connection Display */}
+                      <ConnectionDisplay
+                        sourceNode={sourceNode}
+                        targetNode={targetNode}
+                        nodeTypes={nodeTypes}
+                        directionality={edgeDirectionality}
                       />
-                      <span className="text-xs font-medium text-gray-700">
-                        {edgeConfig?.label || 'Unknown'}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Brokerage */}
+          {brokerage && connections.length > 0 && (
+            <div className="pt-3 border-t border-gray-200">
+              <h3 className="text-xs font-semibold text-gray-700 mb-2">
+                Brokerage
+              </h3>
+              <div className="space-y-1 text-xs">
+                {(['constraint', 'effectiveSize'] as const).map((measure) => (
+                  <Tooltip key={measure} title={BROKERAGE_RANKINGS[measure].description} placement="left">
+                    <div className="flex items-center justify-between cursor-help">
+                      <span className="text-gray-600">
+                        {measure === 'constraint' ? 'Constraint' : BROKERAGE_RANKINGS[measure].label}
+                      </span>
+                      <span className="font-medium text-gray-800 tabular-nums">
+                        {measure === 'constraint'
+                          ? brokerage.constraint?.toFixed(2) ?? '—'
+                          : brokerage.effectiveSize.toFixed(1)}
                       </span>
-                      {edge.data?.label && edge.data.label !== edgeConfig?.label && (
-                        <span className="text-xs text-gray-500">
-                          ({edge.data.label})
-                        </span>
-                      )}
                     </div>
-                    {/* Connection Display */}
-                    <ConnectionDisplay
-                      sourceNode={sourceNode}
-                      targetNode={targetNode}
-                      nodeTypes={nodeTypes}
-                      directionality={edgeDirectionality}
-                    />
-                  </div>
-                );
-              })}
+                  </Tooltip>
+                ))}
+              </div>
+              <h4 className="text-xs font-medium text-gray-600 mt-3 mb-1">
+                Brokerage roles, by actor type
+              </h4>
+              <div className="space-y-1 text-xs">
+                {BROKERAGE_ROLE_ORDER.map((role) => (
+                  <Tooltip key={role} title={BROKERAGE_RANKINGS[role].description} placement="left">
+                    <div className="flex items-center justify-between cursor-help">
+                      <span className="text-gray-600">{BROKERAGE_RANKINGS[role].label}</span>
+                      <span
+                        className={`tabular-nums ${
+                          brokerage.roles[role] > 0 ? 'font-medium text-gray-800' : 'text-gray-400'
+                        }`}
+                      >
+                        {brokerage.roles[role]}
+                      </span>
+                    </div>
+                  </Tooltip>
+                ))}
+              </div>
+              <FieldHint className="mt-1.5">
+                Counts how often this actor is the only link from one actor to another
+              </FieldHint>
             </div>
           )}
-        </div>
 
-      </div>
+        </div>
+      )}
 
       {/* Footer with actions */}
       <div className="px-3 py-3 border-t border-gray-200 bg-gray-50">
+        <PropagateEditButton kind="actor" elementId={selectedNode.id} pending={hasNodeChanges} className="mb-2" />
         <button
           onClick={handleDeleteNode}
-          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+          disabled={isLocked}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           <DeleteIcon fontSize="small" />
           <span>Delete Actor</span>
@@ -368,6 +477,11 @@ const NodeEditorPanel = ({ selectedNode, onClose }: NodeEditorPanelProps) => {
             Saving changes...
           </p>
         )}
+        {lockedState && (
+          <p className="text-xs text-gray-500 mt-2 text-center italic">
+            “{lockedState.label}” is locked. Duplicate it as a child to edit.
+          </p>
+        )}
       </div>
       {ConfirmDialogComponent}
       <NodeTypeConfigModal
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Tooltip } from '@mui/material';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useToastStore } from '../../stores/toastStore';
+import { editedFields, planPropagation, PROPAGATED_FIELDS, type PropagatedElementKind } from '../../utils/propagateEdit';
+import { childStates, descendantStates } from '../../utils/timelineTree';
+import type { StateId } from '../../types/timeline';
+
+/**
+ * PropagateEditButton - Push an actor, relation or group to later states
+ *
+ * Each state keeps its own copy of the graph, so a fix made in one state
+ * does not reach the states duplicated from it. This button copies chosen
+ * details of the element (never its position) into the descendant states
+ * that still contain it.
+ *
+ * Features:
+ * - Only shown when a descendant state contains the element
+ * - Choose which details to copy; those edited since the parent state are
+ *   ticked to begin with, so per-state differences elsewhere survive
+ * - Choose which branches below the current state to update
+ * - Preview of the affected states and what changes in each
+ * - The whole push is one undo step
+ */
+
+interface Props {
+  kind: PropagatedElementKind;
+  elementId: string;
+  pending?: boolean; // Edits not yet saved to the element; wait for them first
+  className?: string;
+}
+
+const FIELD_NAMES: Record<string, string> = {
+  type: 'type',
+  label: 'label',
+  description: 'description',
+  showDescriptionInNode: 'description in node',
+  labels: 'labels',
+  citations: 'citations',
+  directionality: 'direction',
+  strength: 'strength',
+  color: 'colour',
+};
+
+const PropagateEditButton = ({ kind, elementId, pending = false, className = '' }: Props) => {
+  const { nodes, edges, groups } = useGraphWithHistory();
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const propagateElementToStates = useTimelineStore((state) => state.propagateElementToStates);
+  const showToast = useToastStore((state) => state.showToast);
+
+  const [open, setOpen] = useState(false);
+  const [excludedBranches, setExcludedBranches] = useState<Set<StateId>>(new Set());
+  const [fields, setFields] = useState<Set<string>>(new Set());
+
+  // The element as it is in the editor
+  const data = useMemo(() => {
+    const list = kind === 'actor' ? nodes : kind === 'relation' ? edges : groups;
+    return list.find((element) => element.id === elementId)?.data;
+  }, [kind, elementId, nodes, edges, groups]);
+
+  // What was edited in this state, judged against the parent state
+  const edited = useMemo(() => {
+    if (!timeline) return [];
+    const parentStateId = timeline.states.get(timeline.currentStateId)?.parentStateId;
+    return editedFields(parentStateId ? timeline.states.get(parentStateId) : undefined, kind, elementId, data);
+  }, [timeline, kind, elementId, data]);
+
+  // One entry per branch below the current state that contains the element;
+  // locked states are left as they are
+  const branches = useMemo(() => {
+    if (!timeline) return [];
+    const states = Array.from(timeline.states.values());
+    return childStates(states, timeline.currentStateId)
+      .map((child) => ({
+        child,
+        targets: planPropagation(
+          [child, ...descendantStates(states, child.id)].filter((state) => !state.locked),
+          kind,
+          elementId,
+          data,
+          Array.from(fields)
+        ),
+      }))
+      .filter((branch) => branch.targets.length > 0);
+  }, [timeline, kind, elementId, data, fields]);
+
+  // Start with every branch selected whenever the dialog opens
+  useEffect(() => {
+    if (open) setExcludedBranches(new Set());
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setOpen(false);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  if (!timeline || branches.length === 0) return null;
+
+  const selectedTargets = branches
+    .filter((branch) => !excludedBranches.has(branch.child.id))
+    .flatMap((branch) => branch.targets);
+  const toUpdate = selectedTargets.filter((target) => target.fields.length > 0);
+  const name = kind; // 'actor', 'relation' or 'group' read fine in prose
+
+  const toggleBranch = (stateId: StateId) => {
+    setExcludedBranches((current) => {
+      const next = new Set(current);
+      if (next.has(stateId)) {
+        next.delete(stateId);
+      } else {
+        next.add(stateId);
+      }
+      return next;
+    });
+  };
+
+  const toggleField = (field: string) => {
+    setFields((current) => {
+      const next = new Set(current);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  };
+
+  const handleOpen = () => {
+    setFields(new Set(edited));
+    setOpen(true);
+  };
+
+  const handleApply = () => {
+    const updated = propagateElementToStates(
+      kind,
+      elementId,
+      toUpdate.map((target) => target.stateId),
+      Array.from(fields)
+    );
+    if (updated > 0) {
+      showToast(`Updated the ${name} in ${updated} later ${updated === 1 ? 'state' : 'states'}`, 'success');
+    }
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Tooltip
+        title={
+          pending
+            ? 'Wait until your changes are saved'
+            : `Copy this ${name}'s edited details into the later states that contain it`
+        }
+      >
+        <span className={`block ${className}`}>
+          <button
+            onClick={handleOpen}
+            disabled={pending}
+            className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CallMergeIcon fontSize="small" />
+            <span>Apply to Later States…</span>
+          </button>
+        </span>
+      </Tooltip>
+
+      {open && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setOpen(false)}
+        >
+          <div
+            className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4 max-h-[80vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6 overflow-y-auto">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Apply to Later States</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Copies the ticked details of this {name} as they are now into the states that follow “
+                {timeline.states.get(timeline.currentStateId)?.label}”. Other details, positions
+                {kind === 'group' ? ' and members' : ''} stay as each state has them.
+              </p>
+
+              {/* Fields */}
+              <div className="mb-4">
+                <div className="text-xs font-medium text-gray-700 mb-1">Details to copy</div>
+                <div className="grid grid-cols-2 gap-1">
+                  {PROPAGATED_FIELDS[kind].map((field) => (
+                    <label key={field} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={fields.has(field)}
+                        onChange={() => toggleField(field)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="truncate">{FIELD_NAMES[field] ?? field}</span>
+                      {edited.includes(field) && <span className="text-xs text-amber-700 flex-shrink-0">edited</span>}
+                    </label>
+                  ))}
+                </div>
+                {edited.length === 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Nothing differs from the previous state, so nothing is ticked. Tick what you changed.
+                  </p>
+                )}
+              </div>
+
+              {/* Branches */}
+              {branches.length > 1 && (
+                <div className="mb-4">
+                  <div className="text-xs font-medium text-gray-700 mb-1">Branches</div>
+                  <div className="space-y-1">
+                    {branches.map((branch) => (
+                      <label key={branch.child.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={!excludedBranches.has(branch.child.id)}
+                          onChange={() => toggleBranch(branch.child.id)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <span className="truncate">
+                          From “{branch.child.label}”
+                        </span>
+                        <span className="text-xs text-gray-400 flex-shrink-0">
+                          {branch.targets.length} {branch.targets.length === 1 ? 'state' : 'states'}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Preview */}
+              <div className="text-xs font-medium text-gray-700 mb-1">Affected states</div>
+              {selectedTargets.length === 0 ? (
+                <p className="text-xs text-gray-500 italic">No branch selected</p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {selectedTargets.map((target) => (
+                    <li key={target.stateId} className="flex items-baseline justify-between gap-2">
+                      <span className="text-gray-800 truncate">{timeline.states.get(target.stateId)?.label}</span>
+                      <span className={`flex-shrink-0 ${target.fields.length > 0 ? 'text-amber-700' : 'text-gray-400'}`}>
+                        {target.fields.length > 0
+                          ? target.fields.map((field) => FIELD_NAMES[field] ?? field).join(', ')
+                          : 'already up to date'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex justify-end space-x-3">
+              <button
+                onClick={() => setOpen(false)}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={toUpdate.length === 0}
+                className={`px-4 py-2 text-white text-sm font-medium rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                  toUpdate.length === 0
+                    ? 'bg-blue-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+                }`}
+              >
+                {toUpdate.length === 0
+                  ? 'Nothing to Update'
+                  : `Update ${toUpdate.length} ${toUpdate.length === 1 ? 'State' : 'States'}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PropagateEditButton;
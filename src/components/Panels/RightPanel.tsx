@@ -74,7 +74,7 @@ const RightPanel = ({
     expandRightPanel,
   } = usePanelStore();
 
-  const { nodes, edges } = useGraphWithHistory();
+  const { nodes, edges, edgeTypes } = useGraphWithHistory();
 
   // Calculate total multi-selection count
   const totalMultiSelect =
@@ -184,7 +184,7 @@ const RightPanel = ({
       style={{ width: `${rightPanelWidth}px` }}
     >
       <PanelHeader title="Graph Analysis" onCollapse={collapseRightPanel} concept="reading-analysis" />
-      <GraphAnalysisPanel nodes={nodes} edges={edges} />
+      <GraphAnalysisPanel nodes={nodes} edges={edges} edgeTypes={edgeTypes} />
     </div>
   );
 };
@@ -1,25 +1,36 @@
 import React, { useEffect, useRef } from 'react';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { useTimelineStore } from '../../stores/timelineStore';
+import { usePlaybackStore } from '../../stores/playbackStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { stepInSequence } from '../../utils/playbackSequence';
 
 /**
  * PresentationTimelineOverlay Component
  *
  * Floating timeline control for navigating between constellation states
  * in presentation mode. Positioned like ReactFlow controls at the bottom center.
+ * The arrows and the play button follow the playback sequence set up in the
+ * timeline panel, so an exhibit can run without anyone at the controls.
  */
 
 const PresentationTimelineOverlay: React.FC = () => {
   const { activeDocumentId } = useWorkspaceStore();
   const { timelines, getAllStates, switchToState } = useTimelineStore();
+  const { isPlaying, getSequence, play, pause, step } = usePlaybackStore();
+  const { playbackLoop } = useSettingsStore();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const timeline = activeDocumentId ? timelines.get(activeDocumentId) : null;
   const states = getAllStates();
   const currentStateId = timeline?.currentStateId;
-  const currentIndex = states.findIndex(s => s.id === currentStateId);
+  const sequence = getSequence();
+  const canStepBack = stepInSequence(sequence, currentStateId, -1, playbackLoop) !== null;
+  const canStepForward = stepInSequence(sequence, currentStateId, 1, playbackLoop) !== null;
 
   // Auto-scroll to current state on mount or when current state changes
   useEffect(() => {
@@ -38,15 +49,11 @@ const PresentationTimelineOverlay: React.FC = () => {
   }, [currentStateId]);
 
   const handlePrevious = () => {
-    if (currentIndex > 0) {
-      switchToState(states[currentIndex - 1].id);
-    }
+    step(-1);
   };
 
   const handleNext = () => {
-    if (currentIndex < states.length - 1) {
-      switchToState(states[currentIndex + 1].id);
-    }
+    step(1);
   };
 
   // Don't show anything if only one state (no navigation needed)
@@ -59,9 +66,9 @@ const PresentationTimelineOverlay: React.FC = () => {
           {/* Previous Button */}
           <button
             onClick={handlePrevious}
-            disabled={currentIndex === 0}
+            disabled={!canStepBack}
             className={`px-3 py-2 rounded-l-lg touch-manipulation transition-colors flex items-center justify-center ${
-              currentIndex === 0
+              !canStepBack
                 ? 'text-gray-300 cursor-not-allowed'
                 : 'text-gray-700 hover:bg-gray-100'
             }`}
@@ -70,6 +77,17 @@ const PresentationTimelineOverlay: React.FC = () => {
             <ChevronLeftIcon sx={{ fontSize: 28 }} />
           </button>
 
+          {/* Play/Pause Button */}
+          <button
+            onClick={isPlaying ? pause : play}
+            className={`px-3 py-2 touch-manipulation transition-colors flex items-center justify-center border-r border-gray-200 ${
+              isPlaying ? 'text-blue-600 hover:bg-blue-50' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            aria-label={isPlaying ? 'Pause Playback' : 'Play States'}
+          >
+            {isPlaying ? <PauseIcon sx={{ fontSize: 28 }} /> : <PlayArrowIcon sx={{ fontSize: 28 }} />}
+          </button>
+
           {/* State List - Horizontal Scrollable */}
           <div
             ref={scrollContainerRef}
@@ -106,9 +124,9 @@ const PresentationTimelineOverlay: React.FC = () => {
           {/* Next Button */}
           <button
             onClick={handleNext}
-            disabled={currentIndex === states.length - 1}
+            disabled={!canStepForward}
             className={`px-3 py-2 rounded-r-lg touch-manipulation transition-colors flex items-center justify-center ${
-              currentIndex === states.length - 1
+              !canStepForward
                 ? 'text-gray-300 cursor-not-allowed'
                 : 'text-gray-700 hover:bg-gray-100'
             }`}
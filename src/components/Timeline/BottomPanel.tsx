@@ -4,11 +4,26 @@ import { IconButton, Tooltip, Divider } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import AddIcon from '@mui/icons-material/Add';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
+import ShowChartIcon from '@mui/icons-material/ShowChart';
 import TimelineView from './TimelineView';
 import CreateStateDialog from './CreateStateDialog';
+import MetricTrendsDialog from './MetricTrendsDialog';
+import PlaybackControls from './PlaybackControls';
 import ConceptButton from '../Help/ConceptButton';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { useTimelineStore } from '../../stores/timelineStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+
+// Choices for the animation between states, in ms
+const TRANSITION_DURATIONS = [
+  { value: 0, label: 'Instant' },
+  { value: 300, label: '0.3 s' },
+  { value: 600, label: '0.6 s' },
+  { value: 1000, label: '1 s' },
+  { value: 2000, label: '2 s' },
+];
 
 /**
  * BottomPanel - Timeline visualization and state management
@@ -20,13 +35,17 @@ const BottomPanel: React.FC = () => {
     setBottomPanelHeight,
     collapseBottomPanel,
     expandBottomPanel,
+    timelineLayout,
+    setTimelineLayout,
   } = usePanelStore();
 
   const { activeDocumentId } = useWorkspaceStore();
   const { timelines, getAllStates } = useTimelineStore();
+  const { stateTransitionDuration, setStateTransitionDuration } = useSettingsStore();
 
   const [isResizing, setIsResizing] = useState(false);
   const [showCreateState, setShowCreateState] = useState(false);
+  const [showTrends, setShowTrends] = useState(false);
 
   const hasTimeline = activeDocumentId ? timelines.has(activeDocumentId) : false;
   const currentState = hasTimeline ? getAllStates().find(s => {
@@ -117,6 +136,54 @@ const BottomPanel: React.FC = () => {
           {/* Timeline Controls - Only show when expanded */}
           {!bottomPanelCollapsed && activeDocumentId && hasTimeline && (
             <>
+              <PlaybackControls />
+
+              <Divider orientation="vertical" flexItem sx={{ mx: 0.5 }} />
+
+              <Tooltip title="How long switching states animates: actors glide to their new place, new ones fade in, removed ones fade out" arrow>
+                <label className="flex items-center space-x-1 mr-1 text-xs text-gray-500">
+                  <span className="hidden md:inline">Transition</span>
+                  <select
+                    value={stateTransitionDuration}
+                    onChange={(e) => setStateTransitionDuration(Number(e.target.value))}
+                    className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    aria-label="State transition duration"
+                  >
+                    {/* Keep a duration set elsewhere selectable */}
+                    {!TRANSITION_DURATIONS.some((option) => option.value === stateTransitionDuration) && (
+                      <option value={stateTransitionDuration}>{stateTransitionDuration / 1000} s</option>
+                    )}
+                    {TRANSITION_DURATIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </Tooltip>
+
+              <Tooltip
+                title={timelineLayout === 'calendar' ? 'Show Branches' : 'Show on Calendar (by state date)'}
+                arrow
+              >
+                <IconButton
+                  onClick={() => setTimelineLayout(timelineLayout === 'calendar' ? 'branches' : 'calendar')}
+                  size="small"
+                >
+                  {timelineLayout === 'calendar' ? (
+                    <AccountTreeIcon fontSize="small" />
+                  ) : (
+                    <CalendarMonthIcon fontSize="small" />
+                  )}
+                </IconButton>
+              </Tooltip>
+
+              <Tooltip title="Trends: how the network measures change across states" arrow>
+                <IconButton onClick={() => setShowTrends(true)} size="small">
+                  <ShowChartIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+
               <Tooltip title="Create New State" arrow>
                 <IconButton onClick={() => setShowCreateState(true)} size="small">
                   <AddIcon fontSize="small" />
@@ -145,6 +212,9 @@ const BottomPanel: React.FC = () => {
         onClose={() => setShowCreateState(false)}
       />
 
+      {/* Trends Dialog */}
+      {showTrends && <MetricTrendsDialog onClose={() => setShowTrends(false)} />}
+
       {/* Content - Only show when not collapsed */}
       {!bottomPanelCollapsed && (
         <div className="flex-1 overflow-hidden">
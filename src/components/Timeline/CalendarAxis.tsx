@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { useStore, useViewport, ViewportPortal } from '@xyflow/react';
+import { calendarTicks, DAY_MS, CALENDAR_NODE_WIDTH, type CalendarLayout } from '../../utils/calendarLayout';
+
+/**
+ * CalendarAxis - Time axis behind the calendar layout of the timeline
+ *
+ * Ticks are drawn in screen space, so labels keep their size at any zoom;
+ * they switch between days, months and years as the view or the time scale
+ * zooms. Must be rendered inside the timeline's React Flow.
+ */
+
+interface Props {
+  layout: CalendarLayout;
+  hasDatedStates: boolean;
+}
+
+const CalendarAxis = ({ layout, hasDatedStates }: Props) => {
+  const { x: panX, zoom } = useViewport();
+  const width = useStore((state) => state.width);
+
+  const ticks = useMemo(() => {
+    if (!hasDatedStates) return [];
+    const toTime = (flowX: number) => layout.origin + (flowX / layout.pxPerDay) * DAY_MS;
+    const start = toTime(-panX / zoom);
+    const end = toTime((width - panX) / zoom);
+    return calendarTicks(start, end, layout.pxPerDay * zoom);
+  }, [layout, hasDatedStates, panX, zoom, width]);
+
+  return (
+    <>
+      {ticks.length > 0 && (
+        <div className="absolute inset-0 pointer-events-none overflow-hidden">
+          {ticks.map((tick) => {
+            const screenX = panX + ((tick.time - layout.origin) / DAY_MS) * layout.pxPerDay * zoom;
+            return (
+              <div key={tick.time} className="absolute top-0 bottom-0" style={{ left: screenX }}>
+                <div className="absolute top-0 bottom-0 border-l border-gray-200" />
+                <div className="absolute top-1 left-1 text-[10px] text-gray-500 whitespace-nowrap bg-white/80 px-0.5 rounded">
+                  {tick.label}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Undated lane label, in flow coordinates next to the lane */}
+      {layout.undatedLaneY !== null && (
+        <ViewportPortal>
+          <div
+            className="absolute text-[10px] font-medium uppercase tracking-wide text-gray-400 whitespace-nowrap pointer-events-none"
+            style={{ transform: `translate(${-CALENDAR_NODE_WIDTH / 2}px, ${layout.undatedLaneY - 16}px)` }}
+          >
+            No date
+          </div>
+        </ViewportPortal>
+      )}
+    </>
+  );
+};
+
+export default CalendarAxis;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import AddCircleIcon from '@mui/icons-material/AddCircle';
 import { useTimelineStore } from '../../stores/timelineStore';
+import StateTagsAndColorFields from './StateTagsAndColorFields';
 
 interface CreateStateDialogProps {
   open: boolean;
@@ -13,6 +14,9 @@ interface CreateStateDialogProps {
 const CreateStateDialog: React.FC<CreateStateDialogProps> = ({ open, onClose }) => {
   const [label, setLabel] = useState('');
   const [description, setDescription] = useState('');
+  const [date, setDate] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [color, setColor] = useState<string | undefined>(undefined);
   const [cloneFromCurrent, setCloneFromCurrent] = useState(true);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -30,11 +34,21 @@ const CreateStateDialog: React.FC<CreateStateDialogProps> = ({ open, onClose })
   const handleCreate = () => {
     if (!label.trim()) return;
 
-    createState(label.trim(), description.trim() || undefined, cloneFromCurrent);
+    createState(
+      label.trim(),
+      description.trim() || undefined,
+      cloneFromCurrent,
+      date || tags.length > 0 || color
+        ? { date: date || undefined, tags: tags.length > 0 ? tags : undefined, color }
+        : undefined
+    );
 
     // Reset form
     setLabel('');
     setDescription('');
+    setDate('');
+    setTags([]);
+    setColor(undefined);
     setCloneFromCurrent(true);
     onClose();
   };
@@ -43,6 +57,9 @@ const CreateStateDialog: React.FC<CreateStateDialogProps> = ({ open, onClose })
     // Reset form on cancel
     setLabel('');
     setDescription('');
+    setDate('');
+    setTags([]);
+    setColor(undefined);
     setCloneFromCurrent(true);
     onClose();
   };
@@ -63,7 +80,7 @@ const CreateStateDialog: React.FC<CreateStateDialogProps> = ({ open, onClose })
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [open, label, description, cloneFromCurrent]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [open, label, description, date, tags, color, cloneFromCurrent]); // eslint-disable-line react-hooks/exhaustive-deps
 
   if (!open) return null;
 
@@ -116,6 +133,29 @@ const CreateStateDialog: React.FC<CreateStateDialogProps> = ({ open, onClose })
                   </p>
                 </div>
 
+                {/* Date */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Date (optional)
+                  </label>
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Places the state on the calendar view of the timeline
+                  </p>
+                </div>
+
+                <StateTagsAndColorFields
+                  tags={tags}
+                  onTagsChange={setTags}
+                  color={color}
+                  onColorChange={setColor}
+                />
+
                 {/* Description */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
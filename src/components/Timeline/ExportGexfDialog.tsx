@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import TimelineIcon from '@mui/icons-material/Timeline';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useTimelineStatesWithLiveGraph } from '../../hooks/useTimelineStatesWithLiveGraph';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { timelineToGEXF } from '../../utils/gexf';
+import { parseStateDate } from '../../utils/calendarLayout';
+import { playbackSequence, resolvePlaybackLeaf, type PlaybackOrder } from '../../utils/playbackSequence';
+import { leafStates } from '../../utils/timelineTree';
+import { downloadTextFile } from '../../utils/reportExport';
+import type { ConstellationState, StateId } from '../../types/timeline';
+
+interface ExportGexfDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Dialog exporting the timeline as one dynamic GEXF graph for Gephi
+ *
+ * The same choice of states as the trends and playback: one branch from the
+ * first state, or every state by date. Says up front whether Gephi's
+ * timeline will run on the states' dates or on their order.
+ */
+const ExportGexfDialog: React.FC<ExportGexfDialogProps> = ({ onClose }) => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const title = useWorkspaceStore((state) =>
+    activeDocumentId ? state.documentMetadata.get(activeDocumentId)?.title : undefined
+  );
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const { nodeTypes, edgeTypes, labels } = useGraphWithHistory();
+  const states = useTimelineStatesWithLiveGraph();
+
+  const [order, setOrder] = useState<PlaybackOrder>('path');
+  const [leafStateId, setLeafStateId] = useState<StateId | null>(null);
+
+  const leafId = timeline ? resolvePlaybackLeaf(states, leafStateId, timeline.currentStateId) : '';
+
+  const sequence = useMemo(() => {
+    const byId = new Map(states.map((state) => [state.id, state]));
+    return playbackSequence(states, order, leafId)
+      .map((id) => byId.get(id))
+      .filter((state): state is ConstellationState => !!state);
+  }, [states, order, leafId]);
+
+  const allDated = sequence.every((state) => parseStateDate(state.metadata?.date) !== null);
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  if (!timeline) return null;
+
+  const handleExport = () => {
+    const gexf = timelineToGEXF(sequence, { nodeTypes, edgeTypes, labels, title });
+    const fileName = (title || 'constellation-analysis').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadTextFile([gexf], fileName, 'gexf', 'application/gexf+xml');
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Content */}
+        <div className="p-6">
+          <div className="flex items-center space-x-3 mb-4">
+            <TimelineIcon className="text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Export as GEXF</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            The states become one dynamic graph, which Gephi’s timeline can play from start to end.
+          </p>
+
+          {/* Which states */}
+          <div className="flex flex-wrap gap-4 mb-4 text-xs text-gray-700">
+            <label>
+              <span className="block font-medium mb-1">States</span>
+              <select
+                value={order}
+                onChange={(e) => setOrder(e.target.value as PlaybackOrder)}
+                className="border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="path">Along a branch, from the first state</option>
+                <option value="chronological">All states, by date</option>
+              </select>
+            </label>
+            {order === 'path' && (
+              <label>
+                <span className="block font-medium mb-1">Up to</span>
+                <select
+                  value={leafId}
+                  onChange={(e) => setLeafStateId(e.target.value)}
+                  className="border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {leafStates(states).map((leaf) => (
+                    <option key={leaf.id} value={leaf.id}>
+                      {leaf.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div className="text-xs text-gray-500">
+            {sequence.length} {sequence.length === 1 ? 'state' : 'states'}:{' '}
+            {sequence.map((state) => state.label).join(' → ')}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {allDated
+              ? 'Time runs on the states’ dates, if each is later than the one before.'
+              : 'Not every state has a date, so time counts the states: 0, 1, 2, …'}
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={sequence.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportGexfDialog;
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import MergeTypeIcon from '@mui/icons-material/MergeType';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useTimelineStatesWithLiveGraph } from '../../hooks/useTimelineStatesWithLiveGraph';
+import { mergeGraphs, resolveMerge, type MergeConflict, type MergeSide } from '../../utils/stateMerge';
+import { commonAncestor } from '../../utils/timelineTree';
+import type { StateId } from '../../types/timeline';
+
+interface MergeStatesDialogProps {
+  stateId: StateId; // The merge becomes a child of this state ("ours")
+  mergedFromStateId: StateId; // The state merged into it ("theirs")
+  onClose: () => void;
+}
+
+const FIELD_NAMES: Record<string, string> = {
+  position: 'Position',
+  parentId: 'Group',
+  source: 'Source',
+  target: 'Target',
+  'data.label': 'Label',
+  'data.type': 'Type',
+  'data.description': 'Description',
+  'data.labels': 'Labels',
+  'data.citations': 'Citations',
+  'data.strength': 'Strength',
+  'data.directionality': 'Direction',
+  'data.color': 'Colour',
+  'data.actorIds': 'Members',
+  'data.minimized': 'Minimized',
+};
+
+const KIND_NAMES: Record<MergeConflict['kind'], string> = {
+  actor: 'Actor',
+  relation: 'Relation',
+  group: 'Group',
+};
+
+/**
+ * Dialog for merging two timeline states into a new child state
+ *
+ * Both states are compared with the latest state they share. Changes made
+ * on only one side are combined automatically; properties changed
+ * differently on both sides, and elements deleted on one side but changed
+ * on the other, are listed here to pick a side for.
+ */
+const MergeStatesDialog: React.FC<MergeStatesDialogProps> = ({ stateId, mergedFromStateId, onClose }) => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const createMergedState = useTimelineStore((state) => state.createMergedState);
+  const { nodeTypes, edgeTypes } = useGraphWithHistory();
+  const states = useTimelineStatesWithLiveGraph();
+
+  const ours = timeline?.states.get(stateId);
+  const theirs = timeline?.states.get(mergedFromStateId);
+
+  const [label, setLabel] = useState(ours && theirs ? `${ours.label} + ${theirs.label}` : '');
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  const merge = useMemo(() => {
+    if (!timeline || !ours || !theirs) return null;
+
+    const graphs = new Map(states.map((state) => [state.id, state.graph]));
+    const ancestorId = commonAncestor(states, ours.id, theirs.id);
+    const base = (ancestorId && graphs.get(ancestorId)) || { nodes: [], edges: [], groups: [] };
+    return mergeGraphs(base, graphs.get(ours.id)!, graphs.get(theirs.id)!, ancestorId);
+  }, [timeline, ours, theirs, states]);
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  if (!timeline || !ours || !theirs || !merge) return null;
+
+  const ancestor = merge.ancestorId ? timeline.states.get(merge.ancestorId) : undefined;
+
+  const actorLabel = (id: string) => {
+    const actor =
+      merge.draft.nodes.find((node) => node.id === id) ??
+      ours.graph.nodes.find((node) => node.id === id) ??
+      theirs.graph.nodes.find((node) => node.id === id);
+    return actor?.data.label || id;
+  };
+
+  const describeElement = (conflict: MergeConflict) => {
+    const element = conflict.ours ?? conflict.theirs;
+    if (conflict.kind === 'relation') {
+      return `${actorLabel(String(element?.source))} → ${actorLabel(String(element?.target))}`;
+    }
+    return String(element?.data?.label ?? conflict.id);
+  };
+
+  const formatValue = (conflict: MergeConflict, field: string, side: MergeSide): string => {
+    const element = side === 'ours' ? conflict.ours : conflict.theirs;
+    const value = field.startsWith('data.') ? element?.data?.[field.slice(5)] : element?.[field];
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'data.type') {
+      const types = conflict.kind === 'actor' ? nodeTypes : edgeTypes;
+      return types.find((type) => type.id === value)?.label ?? String(value);
+    }
+    if (field === 'position' && typeof value === 'object') {
+      const { x, y } = value as { x: number; y: number };
+      return `${Math.round(x)}, ${Math.round(y)}`;
+    }
+    if (Array.isArray(value)) return value.length === 0 ? '—' : `${value.length} selected`;
+    if (typeof value === 'object') return 'changed';
+    return String(value);
+  };
+
+  const describeConflict = (conflict: MergeConflict): string => {
+    if (conflict.reason === 'deleted') {
+      return conflict.ours
+        ? `Deleted in “${theirs.label}”, changed in “${ours.label}”`
+        : `Deleted in “${ours.label}”, changed in “${theirs.label}”`;
+    }
+    return conflict.reason === 'added' ? 'Added in both, differently' : 'Changed in both, differently';
+  };
+
+  const sideLabel = (conflict: MergeConflict, side: MergeSide): string => {
+    const state = side === 'ours' ? ours : theirs;
+    const element = side === 'ours' ? conflict.ours : conflict.theirs;
+    if (!element) return `Delete, as in “${state.label}”`;
+    if (conflict.reason === 'deleted') return `Keep, as in “${state.label}”`;
+    return `As in “${state.label}”: ${conflict.fields
+      .map((field) => `${FIELD_NAMES[field] ?? field.replace(/^data\./, '')} ${formatValue(conflict, field, side)}`)
+      .join(', ')}`;
+  };
+
+  const handleCreate = () => {
+    if (!label.trim()) return;
+    createMergedState(ours.id, theirs.id, resolveMerge(merge, choices), label.trim());
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          <div className="flex items-start space-x-4">
+            {/* Icon */}
+            <div className="flex-shrink-0">
+              <MergeTypeIcon className="text-blue-600" sx={{ fontSize: 48 }} />
+            </div>
+
+            {/* Text Content */}
+            <div className="flex-1 min-w-0 pt-1">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                Merge States
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Combines “{theirs.label}” into a new state after “{ours.label}”.{' '}
+                {ancestor
+                  ? `Both are compared with “${ancestor.label}”, where they split: what changed on only one side is taken from that side.`
+                  : 'They share no earlier state, so everything in either one is kept.'}{' '}
+                Neither state is changed.
+              </p>
+
+              {/* State Label */}
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                State Label
+              </label>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mb-4"
+              />
+
+              {/* Conflicts */}
+              {merge.conflicts.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No conflicts: every change combines without a choice to make.
+                </p>
+              ) : (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-2">
+                    {merge.conflicts.length} {merge.conflicts.length === 1 ? 'conflict' : 'conflicts'} to resolve
+                  </div>
+                  <div className="space-y-3">
+                    {merge.conflicts.map((conflict) => (
+                      <div key={conflict.key} className="border border-amber-200 bg-amber-50 rounded p-2 text-xs">
+                        <div className="font-medium text-gray-800 break-words">
+                          {KIND_NAMES[conflict.kind]}: {describeElement(conflict)}
+                        </div>
+                        <div className="text-amber-800 mb-1">{describeConflict(conflict)}</div>
+                        {(['ours', 'theirs'] as MergeSide[]).map((side) => (
+                          <label key={side} className="flex items-start space-x-2 py-0.5 text-gray-700 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={conflict.key}
+                              checked={(choices[conflict.key] ?? 'ours') === side}
+                              onChange={() => setChoices((current) => ({ ...current, [conflict.key]: side }))}
+                              className="mt-0.5"
+                            />
+                            <span className="break-words">{sideLabel(conflict, side)}</span>
+                          </label>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!label.trim()}
+            className={`px-4 py-2 text-white text-sm font-medium rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+              !label.trim()
+                ? 'bg-blue-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+            }`}
+          >
+            Create Merged State
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeStatesDialog;
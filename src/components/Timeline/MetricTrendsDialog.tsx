@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ShowChartIcon from '@mui/icons-material/ShowChart';
+import { useTimelineStatesWithLiveGraph } from '../../hooks/useTimelineStatesWithLiveGraph';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useToastStore } from '../../stores/toastStore';
+import { metricTrends, trendsToCsv, TREND_METRICS } from '../../utils/metricTrends';
+import { playbackSequence, resolvePlaybackLeaf, type PlaybackOrder } from '../../utils/playbackSequence';
+import { leafStates } from '../../utils/timelineTree';
+import { downloadCsv } from '../../utils/reportExport';
+import { exportElementAsPNG } from '../../utils/graphExport';
+import { getCategoricalColor } from '../../utils/colorUtils';
+import TrendChart from './TrendChart';
+import type { ConstellationState, StateId } from '../../types/timeline';
+
+interface MetricTrendsDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Dialog charting network measures across timeline states
+ *
+ * Follows one branch from the first state, or every state by date, and
+ * charts how the network grows: actors, relations, density, islands, and the
+ * degree of chosen actors. Exports as CSV for spreadsheets or as an image.
+ */
+const MetricTrendsDialog: React.FC<MetricTrendsDialogProps> = ({ onClose }) => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const states = useTimelineStatesWithLiveGraph();
+  const showToast = useToastStore((state) => state.showToast);
+
+  const [order, setOrder] = useState<PlaybackOrder>('path');
+  const [leafStateId, setLeafStateId] = useState<StateId | null>(null);
+  const [actorIds, setActorIds] = useState<string[]>([]);
+  const chartsRef = useRef<HTMLDivElement>(null);
+
+  const leafId = timeline ? resolvePlaybackLeaf(states, leafStateId, timeline.currentStateId) : '';
+
+  const sequence = useMemo(() => {
+    const byId = new Map(states.map((state) => [state.id, state]));
+    return playbackSequence(states, order, leafId)
+      .map((id) => byId.get(id))
+      .filter((state): state is ConstellationState => !!state);
+  }, [states, order, leafId]);
+
+  // Every actor in any state of the sequence, named as it was last seen
+  const actors = useMemo(() => {
+    const byId = new Map<string, string>();
+    sequence.forEach((state) => state.graph.nodes.forEach((node) => byId.set(node.id, node.data.label || node.id)));
+    return Array.from(byId, ([id, label]) => ({ id, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [sequence]);
+
+  const chosenActors = actors.filter((actor) => actorIds.includes(actor.id));
+  const points = useMemo(() => metricTrends(sequence, actorIds), [sequence, actorIds]);
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  if (!timeline) return null;
+
+  const stateLabels = points.map((point) => point.label);
+
+  const toggleActor = (id: string) => {
+    setActorIds((current) => (current.includes(id) ? current.filter((other) => other !== id) : [...current, id]));
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(trendsToCsv(points, chosenActors), 'constellation-trends');
+  };
+
+  const handleExportImage = async () => {
+    if (!chartsRef.current) return;
+    try {
+      await exportElementAsPNG(chartsRef.current, { fileName: 'constellation-trends', quality: 2 });
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to export chart', 'error');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          <div className="flex items-center space-x-3 mb-4">
+            <ShowChartIcon className="text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Trends across States</h3>
+          </div>
+
+          {/* Which states */}
+          <div className="flex flex-wrap gap-4 mb-4 text-xs text-gray-700">
+            <label>
+              <span className="block font-medium mb-1">States</span>
+              <select
+                value={order}
+                onChange={(e) => setOrder(e.target.value as PlaybackOrder)}
+                className="border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="path">Along a branch, from the first state</option>
+                <option value="chronological">All states, by date</option>
+              </select>
+            </label>
+            {order === 'path' && (
+              <label>
+                <span className="block font-medium mb-1">Up to</span>
+                <select
+                  value={leafId}
+                  onChange={(e) => setLeafStateId(e.target.value)}
+                  className="border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {leafStates(states).map((leaf) => (
+                    <option key={leaf.id} value={leaf.id}>
+                      {leaf.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div className="flex gap-6">
+            {/* Charts */}
+            <div ref={chartsRef} className="flex-1 min-w-0 bg-white">
+              <div className="text-xs text-gray-500 mb-3">
+                {sequence.length} {sequence.length === 1 ? 'state' : 'states'}:{' '}
+                {sequence.map((state) => state.label).join(' → ')}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {TREND_METRICS.map((metric) => (
+                  <TrendChart
+                    key={metric.id}
+                    title={metric.label}
+                    description={metric.description}
+                    stateLabels={stateLabels}
+                    series={[
+                      {
+                        id: metric.id,
+                        label: metric.label,
+                        color: '#3b82f6',
+                        values: points.map((point) => point[metric.id]),
+                      },
+                    ]}
+                    formatValue={metric.id === 'density' ? (value) => value.toFixed(2) : undefined}
+                  />
+                ))}
+              </div>
+              {chosenActors.length > 0 && (
+                <div className="mt-4">
+                  <TrendChart
+                    title="Degree of chosen actors"
+                    description="Number of relations each actor has; the line breaks where an actor is not in a state"
+                    stateLabels={stateLabels}
+                    series={chosenActors.map((actor) => ({
+                      id: actor.id,
+                      label: actor.label,
+                      color: getCategoricalColor(actorIds.indexOf(actor.id)),
+                      values: points.map((point) => point.degrees[actor.id]),
+                    }))}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Actors to follow */}
+            <div className="w-48 flex-shrink-0">
+              <div className="text-xs font-medium text-gray-700 mb-1">Follow the degree of</div>
+              {actors.length === 0 ? (
+                <p className="text-xs text-gray-500 italic">No actors in these states</p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto space-y-1">
+                  {actors.map((actor) => (
+                    <label key={actor.id} className="flex items-center space-x-2 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={actorIds.includes(actor.id)}
+                        onChange={() => toggleActor(actor.id)}
+                        className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="truncate">{actor.label}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex justify-end space-x-3">
+          <button
+            onClick={handleExportCsv}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={handleExportImage}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            Export Image
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetricTrendsDialog;
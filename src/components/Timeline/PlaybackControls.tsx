@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import SkipPreviousIcon from '@mui/icons-material/SkipPrevious';
+import SkipNextIcon from '@mui/icons-material/SkipNext';
+import TuneIcon from '@mui/icons-material/Tune';
+import { usePlaybackStore } from '../../stores/playbackStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { resolvePlaybackLeaf, stepInSequence, type PlaybackOrder } from '../../utils/playbackSequence';
+import { leafStates } from '../../utils/timelineTree';
+
+/**
+ * PlaybackControls - Play, pause and step through timeline states
+ *
+ * Features:
+ * - Step buttons and a position readout for the playback sequence
+ * - Settings popover: order (branch path or chronological), the leaf state
+ *   the path leads to, how long each state stays on screen, and looping
+ *
+ * The timer itself runs in usePlayback, so playback carries on when the
+ * timeline panel is collapsed or presentation mode takes over.
+ */
+
+// Choices for how long each state stays on screen, in ms
+const DWELL_TIMES = [
+  { value: 2000, label: '2 s' },
+  { value: 5000, label: '5 s' },
+  { value: 10000, label: '10 s' },
+  { value: 20000, label: '20 s' },
+  { value: 30000, label: '30 s' },
+  { value: 60000, label: '1 min' },
+];
+
+const PlaybackControls: React.FC = () => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const { isPlaying, leafStateId, setLeafStateId, getSequence, play, pause, step } = usePlaybackStore();
+  const {
+    playbackOrder,
+    setPlaybackOrder,
+    playbackDwellTime,
+    setPlaybackDwellTime,
+    playbackLoop,
+    setPlaybackLoop,
+  } = useSettingsStore();
+
+  const [showSettings, setShowSettings] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close settings on click outside
+  useEffect(() => {
+    if (!showSettings) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (!popoverRef.current?.contains(target) && !buttonRef.current?.contains(target)) {
+        setShowSettings(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showSettings]);
+
+  if (!timeline || timeline.states.size < 2) return null;
+
+  const states = Array.from(timeline.states.values());
+  const leaves = leafStates(states);
+  const playbackLeafId = resolvePlaybackLeaf(states, leafStateId, timeline.currentStateId);
+  const sequence = getSequence();
+  const position = sequence.indexOf(timeline.currentStateId);
+  const canStepBack = stepInSequence(sequence, timeline.currentStateId, -1, playbackLoop) !== null;
+  const canStepForward = stepInSequence(sequence, timeline.currentStateId, 1, playbackLoop) !== null;
+
+  return (
+    <div className="relative flex items-center">
+      <Tooltip title="Previous State in Playback" arrow>
+        <span>
+          <IconButton onClick={() => step(-1)} disabled={!canStepBack} size="small">
+            <SkipPreviousIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title={isPlaying ? 'Pause Playback' : 'Play States One After Another'} arrow>
+        <IconButton onClick={isPlaying ? pause : play} size="small" color={isPlaying ? 'primary' : 'default'}>
+          {isPlaying ? <PauseIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Next State in Playback" arrow>
+        <span>
+          <IconButton onClick={() => step(1)} disabled={!canStepForward} size="small">
+            <SkipNextIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <span className="text-xs text-gray-500 tabular-nums mx-1 min-w-[2.5rem] text-center">
+        {position === -1 ? '–' : position + 1}/{sequence.length}
+      </span>
+      <Tooltip title="Playback Settings" arrow>
+        <IconButton ref={buttonRef} onClick={() => setShowSettings(!showSettings)} size="small">
+          <TuneIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+
+      {/* Settings Popover */}
+      {showSettings && (
+        <div
+          ref={popoverRef}
+          className="absolute right-0 bottom-full mb-2 z-50 w-64 p-3 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg text-xs text-gray-700"
+        >
+          <label className="block">
+            <span className="block font-medium mb-1">Order</span>
+            <select
+              value={playbackOrder}
+              onChange={(e) => setPlaybackOrder(e.target.value as PlaybackOrder)}
+              className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="path">Along a branch, from the first state</option>
+              <option value="chronological">All states, by date</option>
+            </select>
+          </label>
+
+          {playbackOrder === 'path' && (
+            <label className="block">
+              <span className="block font-medium mb-1">Play to</span>
+              <select
+                value={playbackLeafId}
+                onChange={(e) => setLeafStateId(e.target.value)}
+                className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {leaves.map((leaf) => (
+                  <option key={leaf.id} value={leaf.id}>
+                    {leaf.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="block">
+            <span className="block font-medium mb-1">Each state stays for</span>
+            <select
+              value={playbackDwellTime}
+              onChange={(e) => setPlaybackDwellTime(Number(e.target.value))}
+              className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {/* Keep a dwell time set elsewhere selectable */}
+              {!DWELL_TIMES.some((option) => option.value === playbackDwellTime) && (
+                <option value={playbackDwellTime}>{playbackDwellTime / 1000} s</option>
+              )}
+              {DWELL_TIMES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={playbackLoop}
+              onChange={(e) => setPlaybackLoop(e.target.checked)}
+              className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>Loop: start over after the last state</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -1,11 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
 import EditIcon from '@mui/icons-material/Edit';
+import StateTagsAndColorFields from './StateTagsAndColorFields';
 
 interface RenameStateDialogProps {
   open: boolean;
   currentLabel: string;
+  currentDate?: string;
+  currentTags?: string[];
+  currentColor?: string;
   onClose: () => void;
-  onRename: (newLabel: string) => void;
+  onRename: (newLabel: string, details: { date?: string; tags: string[]; color?: string }) => void;
 }
 
 /**
@@ -14,17 +18,34 @@ interface RenameStateDialogProps {
 const RenameStateDialog: React.FC<RenameStateDialogProps> = ({
   open,
   currentLabel,
+  currentDate,
+  currentTags,
+  currentColor,
   onClose,
   onRename,
 }) => {
+  // The date picker works on plain dates, so a full ISO timestamp is cut to its day
+  const initialDate = currentDate?.slice(0, 10) ?? '';
   const [label, setLabel] = useState(currentLabel);
+  const [date, setDate] = useState(initialDate);
+  const [tags, setTags] = useState(currentTags ?? []);
+  const [color, setColor] = useState(currentColor);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Update label when currentLabel changes
+  // Update the fields when the state being edited changes
   useEffect(() => {
     setLabel(currentLabel);
   }, [currentLabel]);
 
+  useEffect(() => {
+    setDate(initialDate);
+  }, [initialDate]);
+
+  useEffect(() => {
+    setTags(currentTags ?? []);
+    setColor(currentColor);
+  }, [currentTags, currentColor]);
+
   // Focus input when dialog opens
   useEffect(() => {
     if (open) {
@@ -37,13 +58,16 @@ const RenameStateDialog: React.FC<RenameStateDialogProps> = ({
 
   const handleRename = () => {
     if (label.trim()) {
-      onRename(label.trim());
+      onRename(label.trim(), { date: date || undefined, tags, color });
       onClose();
     }
   };
 
   const handleCancel = () => {
     setLabel(currentLabel); // Reset to original
+    setDate(initialDate);
+    setTags(currentTags ?? []);
+    setColor(currentColor);
     onClose();
   };
 
@@ -63,7 +87,7 @@ const RenameStateDialog: React.FC<RenameStateDialogProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [open, label]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [open, label, date, tags, color]); // eslint-disable-line react-hooks/exhaustive-deps
 
   if (!open) return null;
 
@@ -90,7 +114,7 @@ const RenameStateDialog: React.FC<RenameStateDialogProps> = ({
                 Rename State
               </h3>
               <p className="text-sm text-gray-600 mb-3">
-                Enter a new name for this timeline state
+                Enter a new name and, optionally, a date, tags and a colour for this timeline state
               </p>
 
               {/* Input Field */}
@@ -102,6 +126,26 @@ const RenameStateDialog: React.FC<RenameStateDialogProps> = ({
                 placeholder="Enter state label"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               />
+
+              {/* Date Field */}
+              <label className="block text-sm font-medium text-gray-700 mt-3 mb-1">
+                Date (optional)
+              </label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              />
+
+              <div className="space-y-3 mt-3">
+                <StateTagsAndColorFields
+                  tags={tags}
+                  onTagsChange={setTags}
+                  color={color}
+                  onColorChange={setColor}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -1,11 +1,15 @@
 import React from "react";
 import { Handle, Position, NodeProps, Node } from "@xyflow/react";
 import type { ConstellationState } from "../../types/timeline";
+import { hexToRgba } from "../../utils/colorUtils";
+import LockIcon from "@mui/icons-material/Lock";
 
 interface StateNodeData extends Record<string, unknown> {
   state: ConstellationState;
   isCurrent: boolean;
   onRename?: (stateId: string) => void;
+  compareRole?: "from" | "to"; // Part of a state comparison
+  dimmed?: boolean; // Outside the timeline's tag filter
 }
 
 type StateNode = Node<StateNodeData>;
@@ -14,7 +18,7 @@ type StateNode = Node<StateNodeData>;
  * StateNode - Custom node for timeline visualization
  */
 const StateNodeComponent: React.FC<NodeProps<StateNode>> = ({ data, selected }) => {
-  const { state, isCurrent } = data;
+  const { state, isCurrent, compareRole, dimmed } = data;
 
   // Format date if present
   const dateStr = state.metadata?.date
@@ -22,25 +26,32 @@ const StateNodeComponent: React.FC<NodeProps<StateNode>> = ({ data, selected })
         month: "short",
         day: "numeric",
         year: "numeric",
+        timeZone: "UTC",
       })
     : null;
 
-  // Get custom color or default
-  const color = state.metadata?.color || "#3b82f6";
+  // Get custom color or default; a custom one also tints the node
+  const customColor = state.metadata?.color;
+  const color = customColor || "#3b82f6";
 
   return (
     <div
       className={`
-        px-2 py-1.5 rounded-lg border-2 bg-white shadow-sm
+        relative px-2 py-1.5 rounded-lg border-2 bg-white shadow-sm
         transition-all cursor-pointer
         ${selected ? "border-blue-500 shadow-md" : "border-gray-300"}
         ${isCurrent ? "ring-2 ring-green-400" : ""}
+        ${dimmed ? "opacity-30" : ""}
         hover:shadow-lg
       `}
       style={{
         minWidth: "100px",
         maxWidth: "180px",
-        borderColor: selected ? "#3b82f6" : isCurrent ? "#10b981" : "#d1d5db",
+        borderColor: selected ? "#3b82f6" : isCurrent ? "#10b981" : customColor || "#d1d5db",
+        // Tint over the white background, so the canvas dots stay hidden
+        ...(customColor && {
+          backgroundImage: `linear-gradient(${hexToRgba(customColor, 0.12)}, ${hexToRgba(customColor, 0.12)})`,
+        }),
       }}
     >
       {/* Handles for connections */}
@@ -55,11 +66,28 @@ const StateNodeComponent: React.FC<NodeProps<StateNode>> = ({ data, selected })
         style={{ background: color }}
       />
 
+      {/* Comparison badge */}
+      {compareRole && (
+        <span
+          className="absolute -top-2 -right-2 px-1 rounded text-[10px] font-semibold text-white bg-amber-500"
+          title={compareRole === "from" ? "Compared from this state" : "Compared to this state"}
+        >
+          {compareRole === "from" ? "From" : "To"}
+        </span>
+      )}
+
       {/* Content */}
       <div className="flex items-center gap-1.5">
         <div className="flex-1 min-w-0">
-          <div className="font-semibold text-xs truncate" title={state.label}>
-            {state.label}
+          <div className="flex items-center gap-0.5">
+            {state.locked && (
+              <span className="flex-shrink-0 text-gray-500" title="Locked: duplicate it as a child to edit">
+                <LockIcon sx={{ fontSize: 11 }} />
+              </span>
+            )}
+            <div className="font-semibold text-xs truncate" title={state.label}>
+              {state.label}
+            </div>
           </div>
           {dateStr && (
             <div className="text-[10px] text-gray-500">{dateStr}</div>
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import CloseIcon from '@mui/icons-material/Close';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { CATEGORICAL_COLORS } from '../../utils/colorUtils';
+import { addTag, allStateTags } from '../../utils/stateTags';
+
+interface StateTagsAndColorFieldsProps {
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+  color?: string;
+  onColorChange: (color: string | undefined) => void;
+}
+
+/**
+ * Tag and colour fields shared by the create and rename state dialogs
+ *
+ * Tags already used elsewhere in the timeline are offered as suggestions,
+ * so the same kind of state is tagged the same way.
+ */
+const StateTagsAndColorFields: React.FC<StateTagsAndColorFieldsProps> = ({
+  tags,
+  onTagsChange,
+  color,
+  onColorChange,
+}) => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const [draft, setDraft] = useState('');
+
+  const suggestions = useMemo(
+    () => (timeline ? allStateTags(Array.from(timeline.states.values())) : []),
+    [timeline]
+  );
+
+  const commitDraft = () => {
+    onTagsChange(addTag(tags, draft));
+    setDraft('');
+  };
+
+  return (
+    <>
+      {/* Tags */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Tags (optional)
+        </label>
+        <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500">
+          {tags.map((tag) => (
+            <span key={tag} className="flex items-center text-xs bg-blue-100 text-blue-700 pl-1.5 pr-0.5 rounded">
+              {tag}
+              <button
+                onClick={() => onTagsChange(tags.filter((other) => other !== tag))}
+                className="ml-0.5 text-blue-500 hover:text-blue-800"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <CloseIcon sx={{ fontSize: 12 }} />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={draft}
+            list="state-tag-suggestions"
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter adds the tag; only an empty field lets it reach the dialog
+              if ((e.key === 'Enter' || e.key === ',') && draft.trim()) {
+                e.preventDefault();
+                e.stopPropagation();
+                commitDraft();
+              } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+                onTagsChange(tags.slice(0, -1));
+              }
+            }}
+            onBlur={commitDraft}
+            placeholder={tags.length === 0 ? "e.g., 'observed' or 'scenario'" : ''}
+            className="flex-1 min-w-[6rem] text-sm focus:outline-none"
+          />
+          <datalist id="state-tag-suggestions">
+            {suggestions
+              .filter((tag) => !tags.includes(tag))
+              .map((tag) => (
+                <option key={tag} value={tag} />
+              ))}
+          </datalist>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Show or highlight states by tag in the timeline
+        </p>
+      </div>
+
+      {/* Colour */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Colour (optional)
+        </label>
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => onColorChange(undefined)}
+            className={`w-6 h-6 rounded border-2 bg-white text-gray-400 text-xs leading-none ${
+              !color ? 'border-blue-500' : 'border-gray-300'
+            }`}
+            title="No colour"
+          >
+            ∅
+          </button>
+          {CATEGORICAL_COLORS.map((swatch) => (
+            <button
+              key={swatch}
+              onClick={() => onColorChange(swatch)}
+              className={`w-6 h-6 rounded border-2 ${
+                color === swatch ? 'border-gray-800' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: swatch }}
+              title={swatch}
+            />
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default StateTagsAndColorFields;
@@ -10,17 +10,32 @@ import {
   useEdgesState,
   BackgroundVariant,
   ReactFlowProvider,
+  useReactFlow,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { useTimelineStore } from "../../stores/timelineStore";
 import { useWorkspaceStore } from "../../stores/workspaceStore";
+import { useAnalysisStore } from "../../stores/analysisStore";
+import { usePanelStore } from "../../stores/panelStore";
+import { layoutCalendar, parseStateDate } from "../../utils/calendarLayout";
+import { allStateTags, bridgeHiddenStates, hasTag } from "../../utils/stateTags";
 import StateNode from "./StateNode";
+import CalendarAxis from "./CalendarAxis";
 import ContextMenu from "../Editor/ContextMenu";
 import RenameStateDialog from "./RenameStateDialog";
+import MergeStatesDialog from "./MergeStatesDialog";
 import EditIcon from "@mui/icons-material/Edit";
 import FileCopyIcon from "@mui/icons-material/FileCopy";
 import CallSplitIcon from "@mui/icons-material/CallSplit";
 import DeleteIcon from "@mui/icons-material/Delete";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+import MergeTypeIcon from "@mui/icons-material/MergeType";
+import ZoomInIcon from "@mui/icons-material/ZoomIn";
+import ZoomOutIcon from "@mui/icons-material/ZoomOut";
+import LocalOfferIcon from "@mui/icons-material/LocalOffer";
+import LockIcon from "@mui/icons-material/Lock";
+import LockOpenIcon from "@mui/icons-material/LockOpen";
+import { IconButton, Tooltip } from "@mui/material";
 import type { ConstellationState, StateId } from "../../types/timeline";
 
 /**
@@ -120,11 +135,29 @@ function layoutStates(
         },
       });
     }
+    // A merged state also continues from the state merged into it
+    if (state.mergedFromStateId && states.some((s) => s.id === state.mergedFromStateId)) {
+      edges.push({
+        id: `merge-${state.mergedFromStateId}-${state.id}`,
+        source: state.mergedFromStateId,
+        target: state.id,
+        type: "smoothstep",
+        style: {
+          strokeWidth: 2,
+          stroke: "#9ca3af",
+          strokeDasharray: "6 4",
+        },
+      });
+    }
   });
 
   return { nodes, edges };
 }
 
+// Bounds of the calendar's time zoom (how far apart the same dates are drawn)
+const MIN_TIME_ZOOM = 1 / 16;
+const MAX_TIME_ZOOM = 64;
+
 /**
  * TimelineViewInner - Inner component with React Flow
  */
@@ -136,11 +169,32 @@ const TimelineViewInner: React.FC = () => {
     updateState,
     duplicateState,
     duplicateStateAsChild,
+    setStateLocked,
     deleteState,
   } = useTimelineStore();
 
   const timeline = activeDocumentId ? timelines.get(activeDocumentId) : null;
 
+  // Branches (the state tree) or calendar (states placed by their date)
+  const timelineLayout = usePanelStore((state) => state.timelineLayout);
+  const [timeZoom, setTimeZoom] = useState(1);
+  const { fitView } = useReactFlow();
+
+  // Comparing or merging two states: the first state is picked from the
+  // context menu, the second by clicking it. A comparison opens the second
+  // one in the editor; a merge asks how to combine them first.
+  const stateComparison = useAnalysisStore((state) => state.stateComparison);
+  const setStateComparison = useAnalysisStore((state) => state.setStateComparison);
+  const [picking, setPicking] = useState<{
+    action: "compare" | "merge";
+    stateId: StateId;
+  } | null>(null);
+  const compareFromId = picking?.action === "compare" ? picking.stateId : null;
+  const [mergeDialog, setMergeDialog] = useState<{
+    stateId: StateId;
+    mergedFromStateId: StateId;
+  } | null>(null);
+
   // Context menu state
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -152,8 +206,15 @@ const TimelineViewInner: React.FC = () => {
   const [renameDialog, setRenameDialog] = useState<{
     stateId: string;
     currentLabel: string;
+    currentDate?: string;
+    currentTags?: string[];
+    currentColor?: string;
   } | null>(null);
 
+  // Tag filter: highlight the states with a tag, or show only those
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [tagFilterMode, setTagFilterMode] = useState<"highlight" | "only">("highlight");
+
   // Get all states
   const states = useMemo(() => {
     if (!timeline) return [];
@@ -169,12 +230,28 @@ const TimelineViewInner: React.FC = () => {
         setRenameDialog({
           stateId: stateId,
           currentLabel: state.label,
+          currentDate: state.metadata?.date,
+          currentTags: state.metadata?.tags,
+          currentColor: state.metadata?.color,
         });
       }
     },
     [timeline],
   );
 
+  // A tag that no state carries any more filters nothing
+  const stateTags = useMemo(() => allStateTags(states), [states]);
+  const activeTag = tagFilter && stateTags.includes(tagFilter) ? tagFilter : null;
+
+  const calendar = useMemo(
+    () => (timelineLayout === "calendar" ? layoutCalendar(states, timeZoom) : null),
+    [timelineLayout, states, timeZoom],
+  );
+  const hasDatedStates = useMemo(
+    () => states.some((state) => parseStateDate(state.metadata?.date) !== null),
+    [states],
+  );
+
   // Layout nodes and edges
   const { nodes: layoutNodes, edges: layoutEdges } = useMemo(() => {
     if (!timeline || states.length === 0) {
@@ -187,17 +264,73 @@ const TimelineViewInner: React.FC = () => {
       timeline.rootStateId,
     );
 
-    // Add rename handler to each node's data
+    // States outside the tag filter are dimmed, or hidden along with their
+    // links; the state on screen always stays
+    const shownIds = new Set(
+      states
+        .filter((state) => !activeTag || hasTag(state, activeTag) || state.id === timeline.currentStateId)
+        .map((state) => state.id),
+    );
+    const hideOthers = activeTag !== null && tagFilterMode === "only";
+
+    // Add rename handler and comparison role to each node's data; on the
+    // calendar, states are centred on their date
     const nodesWithRename = nodes.map((node) => ({
       ...node,
+      hidden: hideOthers && !shownIds.has(node.id),
+      ...(calendar && {
+        position: calendar.positions.get(node.id) ?? node.position,
+        origin: [0.5, 0] as [number, number],
+      }),
       data: {
         ...node.data,
         onRename: handleRenameRequest,
+        compareRole:
+          node.id === (compareFromId ?? stateComparison?.fromStateId)
+            ? "from"
+            : !compareFromId && node.id === stateComparison?.toStateId
+              ? "to"
+              : undefined,
+        dimmed: !hideOthers && !shownIds.has(node.id),
       },
     }));
 
-    return { nodes: nodesWithRename, edges };
-  }, [states, timeline, handleRenameRequest]);
+    if (!hideOthers) {
+      return { nodes: nodesWithRename, edges };
+    }
+
+    // Keep the shown states joined up across the hidden ones
+    const bridges: Edge[] = bridgeHiddenStates(states, shownIds).map(({ source, target }) => ({
+      id: `bridge-${source}-${target}`,
+      source,
+      target,
+      type: "smoothstep",
+      style: {
+        strokeWidth: 2,
+        stroke: "#d1d5db",
+        strokeDasharray: "2 4",
+      },
+    }));
+    return {
+      nodes: nodesWithRename,
+      edges: [
+        ...edges.map((edge) => ({
+          ...edge,
+          hidden: !shownIds.has(edge.source) || !shownIds.has(edge.target),
+        })),
+        ...bridges,
+      ],
+    };
+  }, [
+    states,
+    timeline,
+    calendar,
+    handleRenameRequest,
+    compareFromId,
+    stateComparison,
+    activeTag,
+    tagFilterMode,
+  ]);
 
   // React Flow state
   const [nodes, setNodes, onNodesChange] = useNodesState(layoutNodes);
@@ -209,6 +342,12 @@ const TimelineViewInner: React.FC = () => {
     setEdges(layoutEdges);
   }, [layoutNodes, layoutEdges, setNodes, setEdges]);
 
+  // Bring every state into view when switching layouts
+  React.useEffect(() => {
+    const frame = requestAnimationFrame(() => fitView({ duration: 300 }));
+    return () => cancelAnimationFrame(frame);
+  }, [timelineLayout, fitView]);
+
   // Listen for custom event to close all menus (including context menus)
   React.useEffect(() => {
     const handleCloseAllMenus = (event: Event) => {
@@ -224,14 +363,23 @@ const TimelineViewInner: React.FC = () => {
       window.removeEventListener("closeAllMenus", handleCloseAllMenus);
   }, []);
 
-  // Handle node click - switch to state
+  // Handle node click - switch to state, or pick the second state to compare or merge
   const handleNodeClick = useCallback(
     (_event: React.MouseEvent, node: Node) => {
       console.log("Single click on node:", node.id);
-      switchToState(node.id);
       setContextMenu(null); // Close context menu if open
+      if (picking) {
+        if (node.id === picking.stateId) return;
+        setPicking(null);
+        if (picking.action === "merge") {
+          setMergeDialog({ stateId: picking.stateId, mergedFromStateId: node.id });
+          return;
+        }
+        setStateComparison({ fromStateId: picking.stateId, toStateId: node.id });
+      }
+      switchToState(node.id);
     },
-    [switchToState],
+    [switchToState, picking, setStateComparison],
   );
 
   // Handle node click - switch to state
@@ -244,11 +392,12 @@ const TimelineViewInner: React.FC = () => {
     [handleRenameRequest],
   );
 
-  // Handle pane click - close context menu
+  // Handle pane click - close context menu and stop picking a second state
   const handlePaneClick = useCallback(() => {
     if (contextMenu) {
       setContextMenu(null);
     }
+    setPicking(null);
     // Close all menus (menu bar dropdowns and context menus) when clicking on the timeline canvas
     window.dispatchEvent(new Event("closeAllMenus"));
   }, [contextMenu]);
@@ -282,6 +431,9 @@ const TimelineViewInner: React.FC = () => {
       setRenameDialog({
         stateId: contextMenu.stateId,
         currentLabel: state.label,
+        currentDate: state.metadata?.date,
+        currentTags: state.metadata?.tags,
+        currentColor: state.metadata?.color,
       });
     }
     setContextMenu(null);
@@ -294,6 +446,15 @@ const TimelineViewInner: React.FC = () => {
     setContextMenu(null);
   }, [contextMenu, duplicateState]);
 
+  const handleToggleLockFromMenu = useCallback(() => {
+    if (!contextMenu) return;
+    const state = timeline?.states.get(contextMenu.stateId);
+    if (state) {
+      setStateLocked(state.id, !state.locked);
+    }
+    setContextMenu(null);
+  }, [contextMenu, timeline, setStateLocked]);
+
   // Duplicate (Series): Creates child state with original as parent
   const handleDuplicateSeriesFromMenu = useCallback(() => {
     if (!contextMenu) return;
@@ -301,6 +462,18 @@ const TimelineViewInner: React.FC = () => {
     setContextMenu(null);
   }, [contextMenu, duplicateStateAsChild]);
 
+  const handleCompareFromMenu = useCallback(() => {
+    if (!contextMenu) return;
+    setPicking({ action: "compare", stateId: contextMenu.stateId });
+    setContextMenu(null);
+  }, [contextMenu]);
+
+  const handleMergeFromMenu = useCallback(() => {
+    if (!contextMenu) return;
+    setPicking({ action: "merge", stateId: contextMenu.stateId });
+    setContextMenu(null);
+  }, [contextMenu]);
+
   const handleDeleteFromMenu = useCallback(() => {
     if (!contextMenu) return;
     deleteState(contextMenu.stateId);
@@ -323,11 +496,23 @@ const TimelineViewInner: React.FC = () => {
     [timeline],
   );
 
-  // Rename dialog actions
+  // Rename dialog actions; metadata is only touched where it changed
   const handleRename = useCallback(
-    (newLabel: string) => {
+    (newLabel: string, { date, tags, color }: { date?: string; tags: string[]; color?: string }) => {
       if (renameDialog) {
-        updateState(renameDialog.stateId, { label: newLabel });
+        const dateChanged =
+          (date || undefined) !== (renameDialog.currentDate?.slice(0, 10) || undefined);
+        const tagsChanged = tags.join("\n") !== (renameDialog.currentTags ?? []).join("\n");
+        const colorChanged = color !== renameDialog.currentColor;
+        const metadata = {
+          ...(dateChanged && { date: date || undefined }),
+          ...(tagsChanged && { tags: tags.length > 0 ? tags : undefined }),
+          ...(colorChanged && { color }),
+        };
+        updateState(renameDialog.stateId, {
+          label: newLabel,
+          ...(Object.keys(metadata).length > 0 && { metadata }),
+        });
       }
     },
     [renameDialog, updateState],
@@ -363,7 +548,24 @@ const TimelineViewInner: React.FC = () => {
   }
 
   return (
-    <div className="w-full h-full" onClick={(e) => e.stopPropagation()}>
+    <div className="w-full h-full relative" onClick={(e) => e.stopPropagation()}>
+      {/* Picking the second state of a comparison or merge */}
+      {picking && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-2 px-3 py-1 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800 shadow-sm">
+          <span>
+            {picking.action === "compare"
+              ? `Click the state to compare with “${timeline.states.get(picking.stateId)?.label}”`
+              : `Click the state to merge into “${timeline.states.get(picking.stateId)?.label}”`}
+          </span>
+          <button
+            onClick={() => setPicking(null)}
+            className="font-medium underline hover:text-amber-900"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
       <ReactFlow
         nodes={nodes}
         edges={edges}
@@ -392,9 +594,69 @@ const TimelineViewInner: React.FC = () => {
         proOptions={{ hideAttribution: true }}
       >
         <Background variant={BackgroundVariant.Dots} gap={16} size={1} />
+        {calendar && <CalendarAxis layout={calendar} hasDatedStates={hasDatedStates} />}
         <Controls showInteractive={false} />
       </ReactFlow>
 
+      {/* Tag filter */}
+      {stateTags.length > 0 && (
+        <div className="absolute top-2 left-2 z-10 flex items-center space-x-1 px-2 py-1 bg-white border border-gray-200 rounded shadow-sm text-xs text-gray-600">
+          <LocalOfferIcon sx={{ fontSize: 14 }} />
+          <select
+            value={activeTag ?? ""}
+            onChange={(e) => setTagFilter(e.target.value || null)}
+            className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label="Filter states by tag"
+          >
+            <option value="">All states</option>
+            {stateTags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+          {activeTag && (
+            <select
+              value={tagFilterMode}
+              onChange={(e) => setTagFilterMode(e.target.value as "highlight" | "only")}
+              className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label="How to filter"
+            >
+              <option value="highlight">Highlight</option>
+              <option value="only">Show only</option>
+            </select>
+          )}
+        </div>
+      )}
+
+      {/* Time zoom: spreads or squeezes the dates, keeping the view zoom */}
+      {calendar && hasDatedStates && (
+        <div className="absolute top-2 right-2 z-10 flex items-center bg-white border border-gray-200 rounded shadow-sm">
+          <Tooltip title="Squeeze dates together">
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => setTimeZoom((zoom) => Math.max(MIN_TIME_ZOOM, zoom / 2))}
+                disabled={timeZoom <= MIN_TIME_ZOOM}
+              >
+                <ZoomOutIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Spread dates apart">
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => setTimeZoom((zoom) => Math.min(MAX_TIME_ZOOM, zoom * 2))}
+                disabled={timeZoom >= MAX_TIME_ZOOM}
+              >
+                <ZoomInIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </div>
+      )}
+
       {/* Context Menu */}
       {contextMenu && (
         <ContextMenu
@@ -408,6 +670,17 @@ const TimelineViewInner: React.FC = () => {
                   icon: <EditIcon fontSize="small" />,
                   onClick: handleRenameFromMenu,
                 },
+                timeline?.states.get(contextMenu.stateId)?.locked
+                  ? {
+                      label: "Unlock",
+                      icon: <LockOpenIcon fontSize="small" />,
+                      onClick: handleToggleLockFromMenu,
+                    }
+                  : {
+                      label: "Lock",
+                      icon: <LockIcon fontSize="small" />,
+                      onClick: handleToggleLockFromMenu,
+                    },
               ],
             },
             {
@@ -425,6 +698,20 @@ const TimelineViewInner: React.FC = () => {
                 },
               ],
             },
+            {
+              actions: [
+                {
+                  label: "Compare with…",
+                  icon: <CompareArrowsIcon fontSize="small" />,
+                  onClick: handleCompareFromMenu,
+                },
+                {
+                  label: "Merge with…",
+                  icon: <MergeTypeIcon fontSize="small" />,
+                  onClick: handleMergeFromMenu,
+                },
+              ],
+            },
             {
               actions: [
                 {
@@ -445,10 +732,22 @@ const TimelineViewInner: React.FC = () => {
         <RenameStateDialog
           open={true}
           currentLabel={renameDialog.currentLabel}
+          currentDate={renameDialog.currentDate}
+          currentTags={renameDialog.currentTags}
+          currentColor={renameDialog.currentColor}
           onClose={() => setRenameDialog(null)}
           onRename={handleRename}
         />
       )}
+
+      {/* Merge Dialog */}
+      {mergeDialog && (
+        <MergeStatesDialog
+          stateId={mergeDialog.stateId}
+          mergedFromStateId={mergeDialog.mergedFromStateId}
+          onClose={() => setMergeDialog(null)}
+        />
+      )}
     </div>
   );
 };
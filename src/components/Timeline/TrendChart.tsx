@@ -0,0 +1,141 @@
+import React from 'react';
+
+/**
+ * TrendChart - Line chart of values across timeline states
+ *
+ * Plain SVG, so it looks the same on screen and in an exported image. The
+ * value axis starts at zero; gaps (null) break a line, for actors missing
+ * from a state.
+ */
+
+export interface TrendSeries {
+  id: string;
+  label: string;
+  color: string;
+  values: (number | null)[];
+}
+
+interface TrendChartProps {
+  title: string;
+  description?: string;
+  stateLabels: string[];
+  series: TrendSeries[];
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 360;
+const HEIGHT = 150;
+const MARGIN = { top: 8, right: 12, bottom: 28, left: 36 };
+
+// At most this many state labels along the bottom, so they do not overlap
+const MAX_X_LABELS = 8;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+const TrendChart: React.FC<TrendChartProps> = ({
+  title,
+  description,
+  stateLabels,
+  series,
+  formatValue = (value) => String(Math.round(value * 100) / 100),
+}) => {
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+  const allValues = series.flatMap((s) => s.values).filter((value): value is number => value !== null);
+  const maxValue = Math.max(0, ...allValues) || 1;
+
+  const x = (index: number) =>
+    MARGIN.left + (stateLabels.length === 1 ? plotWidth / 2 : (index / (stateLabels.length - 1)) * plotWidth);
+  const y = (value: number) => MARGIN.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const labelEvery = Math.ceil(stateLabels.length / MAX_X_LABELS);
+
+  // One path per unbroken run of values
+  const pathFor = (values: (number | null)[]) =>
+    values
+      .map((value, index) => {
+        if (value === null) return '';
+        const command = index === 0 || values[index - 1] === null ? 'M' : 'L';
+        return `${command}${x(index).toFixed(1)},${y(value).toFixed(1)}`;
+      })
+      .join(' ');
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <h4 className="text-xs font-semibold text-gray-700" title={description}>
+          {title}
+        </h4>
+        {series.length > 1 && (
+          <div className="flex flex-wrap justify-end gap-x-2 text-[10px] text-gray-600">
+            {series.map((s) => (
+              <span key={s.id} className="flex items-center space-x-1">
+                <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+                <span>{truncate(s.label, 18)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {/* Value axis: zero, middle and top */}
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+              stroke={fraction === 0 ? '#9ca3af' : '#e5e7eb'}
+              strokeWidth={1}
+            />
+            <text
+              x={MARGIN.left - 4}
+              y={y(maxValue * fraction)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={9}
+              fill="#6b7280"
+            >
+              {formatValue(maxValue * fraction)}
+            </text>
+          </g>
+        ))}
+
+        {/* State axis */}
+        {stateLabels.map((label, index) =>
+          index % labelEvery === 0 ? (
+            <text
+              key={index}
+              x={x(index)}
+              y={HEIGHT - MARGIN.bottom + 12}
+              textAnchor="middle"
+              fontSize={9}
+              fill="#6b7280"
+            >
+              <title>{label}</title>
+              {truncate(label, 12)}
+            </text>
+          ) : null
+        )}
+
+        {/* Lines and points */}
+        {series.map((s) => (
+          <g key={s.id}>
+            <path d={pathFor(s.values)} fill="none" stroke={s.color} strokeWidth={2} />
+            {s.values.map((value, index) =>
+              value === null ? null : (
+                <circle key={index} cx={x(index)} cy={y(value)} r={2.5} fill={s.color}>
+                  <title>{`${stateLabels[index]}: ${formatValue(value)}`}</title>
+                </circle>
+              )
+            )}
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,481 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import TableChartIcon from '@mui/icons-material/TableChart';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useToastStore } from '../../stores/toastStore';
+import {
+  buildCsvImport,
+  guessActorMapping,
+  guessRelationMapping,
+  parseCsv,
+  type ActorColumnMapping,
+  type CsvTable,
+  type RelationColumnMapping,
+} from '../../utils/csvImport';
+
+interface CsvImportDialogProps {
+  onClose: () => void;
+}
+
+type Step = 'files' | 'columns' | 'review';
+type Target = 'new' | 'current';
+
+interface LoadedFile {
+  name: string;
+  table: CsvTable;
+}
+
+const ACTOR_FIELDS: { field: Exclude<keyof ActorColumnMapping, 'metadata'>; label: string }[] = [
+  { field: 'label', label: 'Name' },
+  { field: 'id', label: 'ID (what relations refer to)' },
+  { field: 'type', label: 'Type' },
+  { field: 'description', label: 'Description' },
+  { field: 'labels', label: 'Labels' },
+];
+
+const RELATION_FIELDS: { field: keyof RelationColumnMapping; label: string }[] = [
+  { field: 'source', label: 'Source' },
+  { field: 'target', label: 'Target' },
+  { field: 'type', label: 'Type' },
+  { field: 'directionality', label: 'Directionality' },
+  { field: 'strength', label: 'Strength' },
+  { field: 'label', label: 'Label' },
+  { field: 'labels', label: 'Labels' },
+];
+
+// Rows shown in the preview of each file
+const PREVIEW_ROWS = 3;
+
+// Skipped rows listed before the rest are only counted
+const SKIPPED_SHOWN = 8;
+
+/**
+ * Dialog importing actors and relations from spreadsheet files
+ *
+ * Three steps: pick a node list and/or an edge list and where they go, map
+ * their columns to actor and relation fields, then review what will be
+ * created. Into the current state the import is one undo step; otherwise it
+ * opens as a new document.
+ */
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ onClose }) => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const settings = useWorkspaceStore((state) => state.settings);
+  const createDocumentFromImport = useWorkspaceStore((state) => state.createDocumentFromImport);
+  const switchToDocument = useWorkspaceStore((state) => state.switchToDocument);
+  const { nodes, nodeTypes, edgeTypes, labels, importGraph, lockedState } = useGraphWithHistory();
+  const showToast = useToastStore((state) => state.showToast);
+
+  const [step, setStep] = useState<Step>('files');
+  const [actorFile, setActorFile] = useState<LoadedFile | null>(null);
+  const [relationFile, setRelationFile] = useState<LoadedFile | null>(null);
+  const [actorMapping, setActorMapping] = useState<ActorColumnMapping>({ metadata: [] });
+  const [relationMapping, setRelationMapping] = useState<RelationColumnMapping>({});
+  const [error, setError] = useState<string | null>(null);
+  const [target, setTarget] = useState<Target>('new');
+  const [title, setTitle] = useState('');
+
+  const actorInputRef = useRef<HTMLInputElement>(null);
+  const relationInputRef = useRef<HTMLInputElement>(null);
+
+  const canImportIntoCurrent = !!activeDocumentId && !lockedState;
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const result = useMemo(() => {
+    if (step !== 'review') return null;
+    const context =
+      target === 'current'
+        ? { nodeTypes, edgeTypes, labels, actors: nodes }
+        : { nodeTypes: settings.defaultNodeTypes, edgeTypes: settings.defaultEdgeTypes, labels: [], actors: [] };
+    return buildCsvImport(
+      {
+        actors: actorFile ? { table: actorFile.table, mapping: actorMapping } : undefined,
+        relations: relationFile ? { table: relationFile.table, mapping: relationMapping } : undefined,
+      },
+      context
+    );
+  }, [step, target, nodes, nodeTypes, edgeTypes, labels, settings, actorFile, actorMapping, relationFile, relationMapping]);
+
+  const readFile = async (file: File, kind: 'actors' | 'relations') => {
+    setError(null);
+    try {
+      const table = parseCsv(await file.text());
+      const loaded = { name: file.name, table };
+      if (kind === 'actors') {
+        setActorFile(loaded);
+        setActorMapping(guessActorMapping(table.headers));
+        if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+      } else {
+        setRelationFile(loaded);
+        setRelationMapping(guessRelationMapping(table.headers));
+        if (!title && !actorFile) setTitle(file.name.replace(/\.[^.]+$/, ''));
+      }
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'Failed to read file'}`);
+    }
+  };
+
+  const handleFileChange = (kind: 'actors' | 'relations') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Choosing the same file again should read it again
+    if (file) readFile(file, kind);
+  };
+
+  const columnsReady =
+    (!actorFile || actorMapping.label !== undefined || actorMapping.id !== undefined) &&
+    (!relationFile || (relationMapping.source !== undefined && relationMapping.target !== undefined));
+
+  const handleImport = () => {
+    if (!result) return;
+    if (target === 'current') {
+      importGraph(result, 'Import from CSV');
+      showToast(
+        `Imported ${result.actors.length} ${result.actors.length === 1 ? 'actor' : 'actors'} and ${result.relations.length} ${result.relations.length === 1 ? 'relation' : 'relations'}`,
+        'success'
+      );
+    } else {
+      const documentId = createDocumentFromImport(title.trim() || 'Imported Analysis', result);
+      switchToDocument(documentId);
+    }
+    onClose();
+  };
+
+  const columnOptions = (table: CsvTable) =>
+    table.headers.map((header, index) => (
+      <option key={index} value={index}>
+        {header || `Column ${index + 1}`}
+      </option>
+    ));
+
+  const preview = (table: CsvTable) => (
+    <div className="overflow-x-auto border border-gray-200 rounded mb-3">
+      <table className="text-xs text-gray-700 w-full">
+        <thead className="bg-gray-50">
+          <tr>
+            {table.headers.map((header, index) => (
+              <th key={index} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                {header || `Column ${index + 1}`}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-t border-gray-100">
+              {table.headers.map((_, index) => (
+                <td key={index} className="px-2 py-1 whitespace-nowrap max-w-[10rem] truncate">
+                  {row[index]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const selectClassName =
+    'w-full border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  const fileSlot = (kind: 'actors' | 'relations', file: LoadedFile | null, description: string) => (
+    <div className="border border-gray-200 rounded-md p-3">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-gray-700">
+            {kind === 'actors' ? 'Actors (node list)' : 'Relations (edge list)'}
+          </div>
+          <div className="text-xs text-gray-500 truncate">
+            {file ? `${file.name} — ${file.table.rows.length} rows` : description}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0 ml-3">
+          {file && (
+            <button
+              onClick={() => (kind === 'actors' ? setActorFile(null) : setRelationFile(null))}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Remove
+            </button>
+          )}
+          <button
+            onClick={() => (kind === 'actors' ? actorInputRef : relationInputRef).current?.click()}
+            className="px-3 py-1 bg-white border border-gray-300 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-50 transition-colors"
+          >
+            {file ? 'Replace…' : 'Choose File…'}
+          </button>
+        </div>
+      </div>
+      <input
+        ref={kind === 'actors' ? actorInputRef : relationInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt"
+        className="hidden"
+        onChange={handleFileChange(kind)}
+      />
+    </div>
+  );
+
+  const renderFiles = () => (
+    <>
+      <p className="text-sm text-gray-600 mb-4">
+        One row per actor, one row per relation. Either file works alone: actors named in the relations but not
+        in the node list are created.
+      </p>
+      <div className="space-y-3 mb-4">
+        {fileSlot('actors', actorFile, 'Name, type, description, labels, …')}
+        {fileSlot('relations', relationFile, 'Source, target, type, strength, …')}
+      </div>
+      {error && <p className="text-xs text-red-600 mb-4">{error}</p>}
+
+      <div className="text-sm font-medium text-gray-700 mb-2">Import into</div>
+      <div className="space-y-2 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <input
+            type="radio"
+            checked={target === 'new'}
+            onChange={() => setTarget('new')}
+            className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300"
+          />
+          <span>A new document</span>
+        </label>
+        {target === 'new' && (
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Imported Analysis"
+            className="ml-6 w-[calc(100%-1.5rem)] px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        )}
+        <label className={`flex items-center space-x-2 ${canImportIntoCurrent ? '' : 'opacity-50'}`}>
+          <input
+            type="radio"
+            checked={target === 'current'}
+            disabled={!canImportIntoCurrent}
+            onChange={() => setTarget('current')}
+            className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300"
+          />
+          <span>
+            The current state{lockedState ? ` (“${lockedState.label}” is locked)` : ''}
+          </span>
+        </label>
+      </div>
+    </>
+  );
+
+  const renderColumns = () => (
+    <div className="space-y-6">
+      {actorFile && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">Actors — {actorFile.name}</h4>
+          {preview(actorFile.table)}
+          <div className="grid grid-cols-2 gap-3 text-xs text-gray-700">
+            {ACTOR_FIELDS.map(({ field, label }) => (
+              <label key={field}>
+                <span className="block font-medium mb-1">{label}</span>
+                <select
+                  value={actorMapping[field] ?? ''}
+                  onChange={(e) =>
+                    setActorMapping((mapping) => {
+                      const index = e.target.value === '' ? undefined : Number(e.target.value);
+                      return {
+                        ...mapping,
+                        [field]: index,
+                        metadata: mapping.metadata.filter((column) => column !== index),
+                      };
+                    })
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">—</option>
+                  {columnOptions(actorFile.table)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="mt-3 text-xs text-gray-700">
+            <div className="font-medium mb-1">Keep as metadata</div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {actorFile.table.headers.map((header, index) =>
+                ACTOR_FIELDS.some(({ field }) => actorMapping[field] === index) ? null : (
+                  <label key={index} className="flex items-center space-x-1">
+                    <input
+                      type="checkbox"
+                      checked={actorMapping.metadata.includes(index)}
+                      onChange={() =>
+                        setActorMapping((mapping) => ({
+                          ...mapping,
+                          metadata: mapping.metadata.includes(index)
+                            ? mapping.metadata.filter((column) => column !== index)
+                            : [...mapping.metadata, index],
+                        }))
+                      }
+                      className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span>{header || `Column ${index + 1}`}</span>
+                  </label>
+                )
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {relationFile && (
+        <section>
+          <h4 className="text-sm font-semibold text-gray-800 mb-2">Relations — {relationFile.name}</h4>
+          {preview(relationFile.table)}
+          <div className="grid grid-cols-2 gap-3 text-xs text-gray-700">
+            {RELATION_FIELDS.map(({ field, label }) => (
+              <label key={field}>
+                <span className="block font-medium mb-1">{label}</span>
+                <select
+                  value={relationMapping[field] ?? ''}
+                  onChange={(e) =>
+                    setRelationMapping((mapping) => ({
+                      ...mapping,
+                      [field]: e.target.value === '' ? undefined : Number(e.target.value),
+                    }))
+                  }
+                  className={selectClassName}
+                >
+                  <option value="">—</option>
+                  {columnOptions(relationFile.table)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Source and target are matched against the actors’ IDs, then their names.
+          </p>
+        </section>
+      )}
+
+      {!columnsReady && (
+        <p className="text-xs text-red-600">
+          Choose a column for the actors’ names or IDs, and for the relations’ source and target.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderReview = () => {
+    if (!result) return null;
+    const created = [
+      ...result.nodeTypes.map((type) => `actor type “${type.label}”`),
+      ...result.edgeTypes.map((type) => `relation type “${type.label}”`),
+      ...result.labels.map((label) => `label “${label.name}”`),
+    ];
+    return (
+      <div className="text-sm text-gray-700 space-y-3">
+        <p>
+          {result.actors.length} {result.actors.length === 1 ? 'actor' : 'actors'} and {result.relations.length}{' '}
+          {result.relations.length === 1 ? 'relation' : 'relations'} will be added to{' '}
+          {target === 'current' ? 'the current state' : `a new document, “${title.trim() || 'Imported Analysis'}”`}.
+        </p>
+        {created.length > 0 && (
+          <div>
+            <div className="font-medium mb-1">Also created</div>
+            <p className="text-xs text-gray-600">{created.join(', ')}</p>
+          </div>
+        )}
+        {result.skipped.length > 0 && (
+          <div>
+            <div className="font-medium mb-1">
+              {result.skipped.length} {result.skipped.length === 1 ? 'row' : 'rows'} left out
+            </div>
+            <ul className="text-xs text-gray-600 list-disc pl-5">
+              {result.skipped.slice(0, SKIPPED_SHOWN).map((reason) => (
+                <li key={reason}>{reason}</li>
+              ))}
+              {result.skipped.length > SKIPPED_SHOWN && <li>and {result.skipped.length - SKIPPED_SHOWN} more</li>}
+            </ul>
+          </div>
+        )}
+        {target === 'current' && <p className="text-xs text-gray-500">One undo takes the whole import back out.</p>}
+      </div>
+    );
+  };
+
+  const secondaryButtonClassName =
+    'px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500';
+  const primaryButtonClassName =
+    'px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          <div className="flex items-center space-x-3 mb-4">
+            <TableChartIcon className="text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Import from CSV</h3>
+            <span className="text-xs text-gray-500">
+              Step {step === 'files' ? 1 : step === 'columns' ? 2 : 3} of 3
+            </span>
+          </div>
+
+          {step === 'files' && renderFiles()}
+          {step === 'columns' && renderColumns()}
+          {step === 'review' && renderReview()}
+        </div>
+
+        {/* Actions */}
+        <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex justify-end space-x-3">
+          <button onClick={onClose} className={secondaryButtonClassName}>
+            Cancel
+          </button>
+          {step !== 'files' && (
+            <button
+              onClick={() => setStep(step === 'review' ? 'columns' : 'files')}
+              className={secondaryButtonClassName}
+            >
+              Back
+            </button>
+          )}
+          {step === 'files' && (
+            <button
+              onClick={() => setStep('columns')}
+              disabled={!actorFile && !relationFile}
+              className={primaryButtonClassName}
+            >
+              Next
+            </button>
+          )}
+          {step === 'columns' && (
+            <button onClick={() => setStep('review')} disabled={!columnsReady} className={primaryButtonClassName}>
+              Next
+            </button>
+          )}
+          {step === 'review' && (
+            <button
+              onClick={handleImport}
+              disabled={!result || (result.actors.length === 0 && result.relations.length === 0)}
+              className={primaryButtonClassName}
+            >
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import GridOnIcon from '@mui/icons-material/GridOn';
+import { useGraphWithHistory } from '../../hooks/useGraphWithHistory';
+import { useTimelineStatesWithLiveGraph } from '../../hooks/useTimelineStatesWithLiveGraph';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useToastStore } from '../../stores/toastStore';
+import { dataTables, downloadDataTables, type DataExportFormat } from '../../utils/dataExport';
+import { chronologicalOrder } from '../../utils/playbackSequence';
+
+interface ExportDataDialogProps {
+  onClose: () => void;
+}
+
+type Scope = 'current' | 'all';
+
+/**
+ * Dialog exporting the network as tables for R or Excel
+ *
+ * Actors, relations and the adjacency matrix of the current state or of every
+ * state, as CSV files in a ZIP or as one Excel workbook.
+ */
+const ExportDataDialog: React.FC<ExportDataDialogProps> = ({ onClose }) => {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const title = useWorkspaceStore((state) =>
+    activeDocumentId ? state.documentMetadata.get(activeDocumentId)?.title : undefined
+  );
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const { nodeTypes, edgeTypes, labels } = useGraphWithHistory();
+  const states = useTimelineStatesWithLiveGraph();
+  const showToast = useToastStore((state) => state.showToast);
+
+  const [scope, setScope] = useState<Scope>('current');
+  const [format, setFormat] = useState<DataExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Handle keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  if (!timeline) return null;
+
+  const stateCount = timeline.states.size;
+
+  const handleExport = async () => {
+    const byId = new Map(states.map((state) => [state.id, state]));
+    const exported =
+      scope === 'current'
+        ? [byId.get(timeline.currentStateId)!]
+        : chronologicalOrder(states).map((id) => byId.get(id)!);
+    const fileName = `${(title || 'constellation-analysis').toLowerCase().replace(/[^a-z0-9]+/g, '-')}-data`;
+
+    setIsExporting(true);
+    try {
+      await downloadDataTables(dataTables(exported, { nodeTypes, edgeTypes, labels }), format, fileName);
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to export data', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const radioClassName = 'h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Content */}
+        <div className="p-6">
+          <div className="flex items-center space-x-3 mb-4">
+            <GridOnIcon className="text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Export Data</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            A table of actors, a table of relations and an adjacency matrix weighted by strength, with type and
+            label names, citation keys and metadata written out.
+          </p>
+
+          <div className="text-sm font-medium text-gray-700 mb-2">States</div>
+          <div className="space-y-2 text-sm text-gray-700 mb-4">
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={scope === 'current'} onChange={() => setScope('current')} className={radioClassName} />
+              <span>The current state</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} className={radioClassName} />
+              <span>
+                All {stateCount} states, by date — one table with a State column, a matrix for each
+              </span>
+            </label>
+          </div>
+
+          <div className="text-sm font-medium text-gray-700 mb-2">Format</div>
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} className={radioClassName} />
+              <span>Excel workbook (.xlsx), a sheet per table</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={format === 'csv'} onChange={() => setFormat('csv')} className={radioClassName} />
+              <span>CSV files in a .zip, a file per table</span>
+            </label>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDataDialog;
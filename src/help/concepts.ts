@@ -119,6 +119,8 @@ export const concepts: Record<ConceptId, Concept> = {
       'New relations take whatever is selected under _New relations will be_ in the Tools panel. Change it there before you draw, or change any relation afterwards.',
       'You can run several relations between the same two actors. They fan out so each one stays clickable.',
       'Use the reverse button in Relation Properties to flip a direction without redrawing anything.',
+      'To see how one actor reaches another, right-click it and choose _Find path to…_. Paths follow one-way relations only forwards, so a missing path can just mean the arrows point the other way.',
+      'To see one actor’s neighbourhood, right-click it and choose _Ego view_, or use the button next to its _Connections_. Everyone within one to three steps stays visible, whichever way the relations point; pick relation types to follow only those, and tick _Hide everyone else_ to clear the rest away. Closing the view changes nothing in the document.',
     ],
     whichToChoose: {
       intro: 'Direction is a claim about the world, not a drawing style. Pick it by what you are asserting.',
@@ -215,8 +217,18 @@ export const concepts: Record<ConceptId, Concept> = {
     howItWorks: [
       'The timeline along the bottom shows every state. Click one to switch the canvas to it.',
       'States branch, so one starting point can lead to several alternatives.',
+      'Give a state a date when you create or rename it, and the calendar button in the timeline header lays states out by date instead of by branch. Zoom the dates apart or together with the buttons in its corner; states without a date wait in their own lane below.',
+      'Tags and a colour, set when you create or rename a state, sort states into kinds, such as “observed” and “scenario”. Pick a tag in the corner of the timeline to highlight the states that carry it, or to show only those; the state you are on always stays in view.',
       'Your work is kept automatically when you switch away. You do not have to do anything first.',
+      'Right-click a state and choose _Lock_ to keep it as recorded. While a locked state is on screen, actors, relations and groups cannot be added, changed, moved or deleted, and _Apply to Later States…_ passes it by. Choose _Duplicate as Child to Edit_ at the bottom of the canvas to carry on from it in an unlocked copy. Tangibles still switch to locked states.',
+      'Switching animates, so an audience can follow along: actors in both states glide to their new place, new ones fade in and removed ones fade out. Set how long it takes, or turn it off, with _Transition_ in the timeline header. The same animation plays when a tangible switches the state.',
+      'Play states one after another with the play button in the timeline header, or in the presentation controls. Under its settings, choose whether playback follows one branch from the first state to the state you pick, or goes through all states by date, how long each state stays on screen, and whether it starts over at the end. Playback keeps running with nobody at the controls, which suits exhibits.',
       'Actors, relations and groups belong to one state each. Actor types, relation types, labels, the bibliography and tangibles are shared by all of them.',
+      'Each state keeps its own copy of every actor, relation and group, so fixing a typo in one state leaves the states after it as they were. To carry a fix forward, select the element and choose _Apply to Later States…_ in its properties. Only the details you tick are copied; those you changed since the previous state are ticked for you, so a later state’s own type or labels stay as they are. You see which later states change, and can leave out whole branches. One undo takes the lot back.',
+      'To see what changed between two states, right-click the first and choose _Compare with…_, then click the second. The canvas opens the second state: added actors and relations are outlined green, ones whose type, labels or strength changed are amber, and removed ones stay behind as red ghosts. Click any entry in the list of differences to find it on the canvas.',
+      'To follow one actor through the timeline, select it and open the _History_ tab in its properties. Every state the actor appears in is listed with its type, labels and relations there; what changed since the state before it on the same branch is highlighted. Click a state to open it.',
+      'The chart button in the timeline header shows how the network develops: the number of actors and relations, density and islands, state by state along one branch or across all states by date. Tick actors to follow how many relations each has over time. _Export CSV_ gives the numbers for a spreadsheet, _Export Image_ the charts.',
+      'Two branches can be brought back together. Right-click one state and choose _Merge with…_, then click a state on another branch. What changed on only one side since the branches split is combined automatically; where both sides changed the same thing differently, you pick which to keep. The result is a new state after the first one, joined to the second by a dashed line. Neither branch is changed.',
     ],
     whichToChoose: {
       intro: 'Duplicating a state asks you where the copy should sit.',
@@ -249,7 +261,16 @@ export const concepts: Record<ConceptId, Concept> = {
       'Connections per actor — the average. It is most useful as a baseline: compare individual actors against it to find the unusually central and the unusually isolated.',
       'Unconnected actors — actors you have not linked to anything.',
       'Separate islands — clusters with no path between them. More than one means your constellation is split into parts that do not reach each other.',
-      'Most connected actors — ranked by how many relations each one has.',
+      'Top actors — ranked by whichever measure you pick. Connections counts relations. Brokerage finds actors sitting between others. Reach finds actors a few steps from everyone. Influence and PageRank find actors tied to other well-tied actors.',
+      'Centrality — every actor against every measure, in one table. Click a column heading to sort by it.',
+      'Size & Colour — pick a measure, or a numeric metadata field, to scale and shade actors on the canvas. Bigger and darker means a higher value; a legend in the corner gives the range. The choice is saved with the document and carries into presentation mode and PNG/SVG exports.',
+      'Direction — the same questions with direction taken into account. How connected, by direction, counts A→B and B→A as separate links. Returned relations is the share of one-way links answered by a link back. The table splits each actor’s relations into incoming and outgoing.',
+      'Weigh by strength — switch this on to sum the strength you recorded on each relation instead of counting relations. Set strength in the Relation Properties panel. A relation without one counts as 1.',
+      'Brokers — who stands between others. Least constrained finds actors whose contacts do not know each other. Effective size counts contacts minus their overlap. The roles say which actor types a broker links: inside its own type (coordinator), inside another type (itinerant), from its type outwards (representative), from outside into its type (gatekeeper), or between two other types (liaison). Each actor’s own figures are in its properties panel.',
+      'Critical points — the actors and relations holding an island together. Take away a critical actor or a critical relation and the island falls apart. The innermost core is the largest group in which everyone has at least that many relations inside the group. Click any entry to find it on the canvas.',
+      'Structure — small patterns that add up to the whole. Mutual and one-way pairs count how often ties are returned. A feed-forward loop is A→B→C with a shortcut A→C; a cycle runs A→B→C→A. Closed triads are three actors all tied to each other, open ones miss a tie. Clustering says how often two actors with a shared contact are tied themselves. _Triad census_ sorts every group of three into one of 16 types, and _CSV_ or _JSON_ take the whole report to a statistics tool.',
+      'Communities — clusters of actors linked more tightly to each other than to everyone else. Tick _Show on canvas_ to colour each actor by its community. _Create groups from communities_ draws a group around each one. A single undo takes them all away again.',
+      'Homophily — do actors seek out their own kind? The mixing matrix counts relations from each actor type to each other type. _Assortativity_ runs from 1 (only within a type) through 0 (as if by chance) to negative (across types). The _E-I index_ does the same for each label: -1 is a closed circle, +1 faces entirely outward. _Export CSV_ saves the whole report.',
     ],
     guard:
       'The most connected actor is not automatically the most important one. Counting relations measures how busy an actor is in your map, and your map reflects your own mapping decisions at least as much as it reflects the world. Treat a high count as a question worth asking, not an answer. It runs the other way too: an actor with no relations is often the finding itself, not a gap you forgot to fill in.',
@@ -296,15 +317,24 @@ export const concepts: Record<ConceptId, Concept> = {
     howItWorks: [
       'Everything lives in this browser, on this computer. Nothing is sent anywhere.',
       'Export Document writes one document, with all its states, to a .json file you can import again later.',
+      'Export as GraphML writes the same document for Gephi, yEd, Cytoscape or NetworkX. Each state is its own graph, the current one first, since most of those tools read only the first. Actors and relations carry their type and label names, which is how types and labels come back when you import a .graphml file; icons, citations and tangibles stay behind.',
+      'Import from CSV brings in spreadsheet data: a node list with one row per actor, an edge list with one row per relation, or both. You choose which column holds the name, type, labels and so on. Types and labels missing from the document are created, and the whole import is one undo step when it goes into the current state.',
+      'Export as GEXF turns a run of states, one branch or all of them by date, into a single graph that changes over time. Gephi’s timeline then plays how the constellation developed. When every state has a date the timeline runs on those dates, otherwise on the order of the states. GEXF is for looking and analysing; it does not import back.',
+      'Export as Interactive HTML writes a single web page with the document inside it, for people who do not have the app. It opens in any browser, offline, straight from the file. They can pan and zoom, hover over actors and relations for details, filter by type and label, search actors and switch between states, but not change anything. It does not import back; send the .json file as well if they should be able to edit.',
       'Export All as ZIP writes every document as its own file inside one archive.',
       'Export Workspace writes every document plus your tabs and settings as a single file.',
       'PNG and SVG give you a picture of the current state. Good for a report. You cannot import them back.',
+      'Export Data writes tables for statistics in R or Excel: one row per actor, one row per relation, and an adjacency matrix in which each cell adds up the strength of the relations between two actors. Types and labels appear by name, citations by their keys, and every metadata key gets its own column. Choose the current state, or every state in one long table with a State column.',
     ],
     whichToChoose: {
       intro: 'Which export you want depends on what you are going to do with it.',
       options: [
         { option: 'Export Document', when: 'Sending one analysis to someone, or backing it up on its own.' },
+        { option: 'Export as GraphML', when: 'Analysing the network further in another tool, such as Gephi or NetworkX.' },
+        { option: 'Export as Interactive HTML', when: 'Letting stakeholders without the app explore the constellation themselves.' },
+        { option: 'Export as GEXF', when: 'Watching the constellation change over time in Gephi.' },
         { option: 'Export Workspace', when: 'Moving everything to another computer, or taking a full backup.' },
+        { option: 'Export Data', when: 'Running your own statistics on the actors and relations in R or Excel.' },
         { option: 'PNG or SVG', when: 'Putting the constellation into a slide, a paper or a report.' },
       ],
     },
@@ -4,6 +4,7 @@ import { useActiveFilters, nodeMatchesFilters, edgeMatchesFilters } from './useA
 import { useSearchStore } from '../stores/searchStore';
 import { useTuioStore } from '../stores/tuioStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { useAnalysisStore } from '../stores/analysisStore';
 
 describe('useActiveFilters', () => {
   beforeEach(() => {
@@ -34,6 +35,8 @@ describe('useActiveFilters', () => {
       autoZoomEnabled: true,
       fullscreenMode: false,
     });
+
+    useAnalysisStore.setState({ highlightedPath: null, egoNetwork: null });
   });
 
   describe('useActiveFilters hook', () => {
@@ -54,6 +57,8 @@ describe('useActiveFilters', () => {
         selectedActorTypes: ['person'],
         selectedRelationTypes: ['knows'],
         combineMode: 'AND',
+        highlightedPath: null,
+        egoNetwork: null,
       });
     });
 
@@ -84,6 +89,8 @@ describe('useActiveFilters', () => {
         selectedActorTypes: ['organization'],
         selectedRelationTypes: ['employs'],
         combineMode: 'OR',
+        highlightedPath: null,
+        egoNetwork: null,
       });
     });
 
@@ -696,4 +703,75 @@ describe('useActiveFilters', () => {
       expect(result).toBe(true);
     });
   });
+
+  describe('Highlighted path', () => {
+    const filters = {
+      searchText: 'nobody',
+      selectedLabels: [],
+      selectedActorTypes: ['organization'],
+      selectedRelationTypes: [],
+      combineMode: 'AND' as const,
+      highlightedPath: { actorIds: ['a', 'b'], relationIds: ['a-b'] },
+    };
+
+    it('should be returned in both modes', () => {
+      useAnalysisStore.setState({ highlightedPath: filters.highlightedPath });
+
+      const { result, rerender } = renderHook(() => useActiveFilters());
+      expect(result.current.highlightedPath).toEqual(filters.highlightedPath);
+
+      useSettingsStore.setState({ presentationMode: true });
+      rerender();
+      expect(result.current.highlightedPath).toEqual(filters.highlightedPath);
+    });
+
+    it('should match only nodes on the path, whatever the other filters say', () => {
+      expect(nodeMatchesFilters('person', [], 'John', '', 'Person', filters, 'a')).toBe(true);
+      expect(nodeMatchesFilters('organization', [], 'nobody', '', 'Org', filters, 'c')).toBe(false);
+    });
+
+    it('should match only edges on the path', () => {
+      expect(edgeMatchesFilters('knows', [], '', 'Knows', filters, 'a-b')).toBe(true);
+      expect(edgeMatchesFilters('knows', [], '', 'Knows', filters, 'b-c')).toBe(false);
+    });
+  });
+
+  describe('Ego view', () => {
+    const filters = {
+      searchText: 'nobody',
+      selectedLabels: [],
+      selectedActorTypes: ['organization'],
+      selectedRelationTypes: [],
+      combineMode: 'AND' as const,
+      highlightedPath: null,
+      egoNetwork: { actorIds: ['a', 'b', 'c'], relationIds: ['a-b', 'a-c'] },
+    };
+
+    it('should be returned in both modes', () => {
+      useAnalysisStore.setState({ egoNetwork: filters.egoNetwork });
+
+      const { result, rerender } = renderHook(() => useActiveFilters());
+      expect(result.current.egoNetwork).toEqual(filters.egoNetwork);
+
+      useSettingsStore.setState({ presentationMode: true });
+      rerender();
+      expect(result.current.egoNetwork).toEqual(filters.egoNetwork);
+    });
+
+    it('should match only nodes in the neighbourhood, whatever the other filters say', () => {
+      expect(nodeMatchesFilters('person', [], 'John', '', 'Person', filters, 'c')).toBe(true);
+      expect(nodeMatchesFilters('organization', [], 'nobody', '', 'Org', filters, 'd')).toBe(false);
+    });
+
+    it('should match only edges in the neighbourhood', () => {
+      expect(edgeMatchesFilters('knows', [], '', 'Knows', filters, 'a-c')).toBe(true);
+      expect(edgeMatchesFilters('knows', [], '', 'Knows', filters, 'c-d')).toBe(false);
+    });
+
+    it('should give way to a highlighted path', () => {
+      const withPath = { ...filters, highlightedPath: { actorIds: ['d'], relationIds: [] } };
+      expect(nodeMatchesFilters('person', [], 'John', '', 'Person', withPath, 'a')).toBe(false);
+      expect(nodeMatchesFilters('person', [], 'John', '', 'Person', withPath, 'd')).toBe(true);
+    });
+  });
 });
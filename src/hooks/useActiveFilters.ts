@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import { useSearchStore } from '../stores/searchStore';
 import { useTuioStore } from '../stores/tuioStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { useAnalysisStore } from '../stores/analysisStore';
 
 /**
  * Hook to get the currently active filters based on mode.
@@ -10,6 +11,10 @@ import { useSettingsStore } from '../stores/settingsStore';
  * - In presentation mode: Returns filters from tuioStore.presentationFilters
  *
  * This ensures that presentation mode and editing mode have separate filter states.
+ *
+ * A path highlighted by the path finder applies in both modes and takes
+ * precedence over every other filter while it is shown. An ego view comes
+ * next: while it is open, only its neighbourhood matches.
  */
 export function useActiveFilters() {
   const { presentationMode } = useSettingsStore();
@@ -25,6 +30,12 @@ export function useActiveFilters() {
   // Presentation mode filters (tuioStore)
   const presentationFilters = useTuioStore((state) => state.presentationFilters);
 
+  // Path finder highlight (both modes)
+  const highlightedPath = useAnalysisStore((state) => state.highlightedPath);
+
+  // Ego view neighbourhood (both modes)
+  const egoNetwork = useAnalysisStore((state) => state.egoNetwork);
+
   return useMemo(() => {
     if (presentationMode) {
       // Use presentation filters from tangibles
@@ -34,6 +45,8 @@ export function useActiveFilters() {
         selectedActorTypes: presentationFilters.actorTypes,
         selectedRelationTypes: presentationFilters.relationTypes,
         combineMode: presentationFilters.combineMode,
+        highlightedPath,
+        egoNetwork,
       };
     } else {
       // Use editing mode filters
@@ -43,6 +56,8 @@ export function useActiveFilters() {
         selectedActorTypes: editSelectedActorTypes,
         selectedRelationTypes: editSelectedRelationTypes,
         combineMode: 'AND' as const, // Editing mode always uses AND
+        highlightedPath,
+        egoNetwork,
       };
     }
   }, [
@@ -52,6 +67,8 @@ export function useActiveFilters() {
     editSelectedActorTypes,
     editSelectedRelationTypes,
     presentationFilters,
+    highlightedPath,
+    egoNetwork,
   ]);
 }
 
@@ -64,6 +81,7 @@ export function useActiveFilters() {
  * @param nodeDescription - The node's description for text search
  * @param nodeTypeName - The node type's display name for text search
  * @param filters - The active filters from useActiveFilters()
+ * @param nodeId - The node's ID, checked against a highlighted path or ego view
  * @returns true if the node matches the filters
  */
 export function nodeMatchesFilters(
@@ -72,8 +90,19 @@ export function nodeMatchesFilters(
   nodeName: string,
   nodeDescription: string,
   nodeTypeName: string,
-  filters: ReturnType<typeof useActiveFilters>
+  filters: ReturnType<typeof useActiveFilters>,
+  nodeId?: string
 ): boolean {
+  // A highlighted path overrides every other filter
+  if (filters.highlightedPath && nodeId !== undefined) {
+    return filters.highlightedPath.actorIds.includes(nodeId);
+  }
+
+  // So does an ego view, after the path
+  if (filters.egoNetwork && nodeId !== undefined) {
+    return filters.egoNetwork.actorIds.includes(nodeId);
+  }
+
   const {
     searchText,
     selectedLabels,
@@ -130,6 +159,7 @@ export function nodeMatchesFilters(
  * @param edgeName - The edge's name/label for text search
  * @param edgeTypeName - The edge type's display name for text search
  * @param filters - The active filters from useActiveFilters()
+ * @param edgeId - The edge's ID, checked against a highlighted path or ego view
  * @returns true if the edge matches the filters
  */
 export function edgeMatchesFilters(
@@ -137,8 +167,19 @@ export function edgeMatchesFilters(
   edgeLabels: string[],
   edgeName: string,
   edgeTypeName: string,
-  filters: ReturnType<typeof useActiveFilters>
+  filters: ReturnType<typeof useActiveFilters>,
+  edgeId?: string
 ): boolean {
+  // A highlighted path overrides every other filter
+  if (filters.highlightedPath && edgeId !== undefined) {
+    return filters.highlightedPath.relationIds.includes(edgeId);
+  }
+
+  // So does an ego view, after the path
+  if (filters.egoNetwork && edgeId !== undefined) {
+    return filters.egoNetwork.relationIds.includes(edgeId);
+  }
+
   const {
     searchText,
     selectedLabels,
@@ -0,0 +1,153 @@
+import { useCallback, useMemo } from 'react';
+import { useNodes, useReactFlow } from '@xyflow/react';
+import { useAnalysisStore } from '../stores/analysisStore';
+import { useTimelineStore } from '../stores/timelineStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+
+/**
+ * Hook laying out the red ghosts of a state comparison.
+ *
+ * Removed actors are no longer nodes of the graph, so React Flow knows
+ * nothing about them: they are drawn where they stood in the earlier state
+ * (group offsets included), with a fixed size. Removed relations run between
+ * the border of whichever actors they connected, ghost or live.
+ *
+ * Must be used inside the React Flow provider of the editor.
+ */
+
+export interface GhostRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GhostActor extends GhostRect {
+  id: string;
+  label: string;
+  type: string;
+}
+
+export interface GhostRelation {
+  id: string;
+  label?: string;
+  type: string;
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+export const GHOST_WIDTH = 140;
+export const GHOST_HEIGHT = 48;
+
+// Size assumed for live actors React Flow has not measured yet
+const FALLBACK_WIDTH = 150;
+const FALLBACK_HEIGHT = 60;
+
+/**
+ * Point where the line from the centre of a rectangle towards a point
+ * leaves the rectangle
+ */
+function borderPoint(rect: GhostRect, towards: { x: number; y: number }) {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  const dx = towards.x - cx;
+  const dy = towards.y - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : rect.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : rect.height / 2 / Math.abs(dy)
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+const center = (rect: GhostRect) => ({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+
+export function useDiffGhosts() {
+  const stateComparison = useAnalysisStore((state) => state.stateComparison);
+  const stateDiff = useAnalysisStore((state) => state.stateDiff);
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const fromState = useTimelineStore((state) =>
+    activeDocumentId && stateComparison
+      ? state.timelines.get(activeDocumentId)?.states.get(stateComparison.fromStateId)
+      : undefined
+  );
+
+  // Re-lay out whenever live actors move or get measured
+  const nodes = useNodes();
+  const { getInternalNode } = useReactFlow();
+
+  const actors = useMemo<GhostActor[]>(() => {
+    if (!stateDiff || !fromState) return [];
+    const groups = new Map((fromState.graph.groups || []).map((group) => [group.id, group]));
+
+    return stateDiff.actors
+      .filter((entry) => entry.status === 'removed')
+      .map(({ element }) => {
+        const group = element.parentId ? groups.get(element.parentId) : undefined;
+        return {
+          id: element.id,
+          label: element.data?.label || element.id,
+          type: element.data?.type,
+          x: element.position.x + (group?.position.x ?? 0),
+          y: element.position.y + (group?.position.y ?? 0),
+          width: GHOST_WIDTH,
+          height: GHOST_HEIGHT,
+        };
+      });
+  }, [stateDiff, fromState]);
+
+  const relations = useMemo<GhostRelation[]>(() => {
+    if (!stateDiff) return [];
+    const ghostRects = new Map(actors.map((actor) => [actor.id, actor as GhostRect]));
+    const visibleIds = new Set(nodes.filter((node) => !node.hidden).map((node) => node.id));
+
+    const rectOf = (actorId: string): GhostRect | undefined => {
+      const ghost = ghostRects.get(actorId);
+      if (ghost) return ghost;
+      const internal = visibleIds.has(actorId) ? getInternalNode(actorId) : undefined;
+      if (!internal) return undefined;
+      return {
+        ...internal.internals.positionAbsolute,
+        width: internal.measured.width ?? FALLBACK_WIDTH,
+        height: internal.measured.height ?? FALLBACK_HEIGHT,
+      };
+    };
+
+    return stateDiff.relations
+      .filter((entry) => entry.status === 'removed')
+      .flatMap(({ element }) => {
+        const source = rectOf(element.source);
+        const target = rectOf(element.target);
+        if (!source || !target) return [];
+        return [{
+          id: element.id,
+          label: element.data?.label,
+          type: element.data?.type || '',
+          from: borderPoint(source, center(target)),
+          to: borderPoint(target, center(source)),
+        }];
+      });
+  }, [stateDiff, actors, getInternalNode, nodes]);
+
+  // Area to bring into view when a removed actor or relation is picked
+  const ghostBounds = useCallback(
+    (id: string): GhostRect | null => {
+      const actor = actors.find((ghost) => ghost.id === id);
+      if (actor) return actor;
+      const relation = relations.find((ghost) => ghost.id === id);
+      if (!relation) return null;
+      const x = Math.min(relation.from.x, relation.to.x);
+      const y = Math.min(relation.from.y, relation.to.y);
+      return {
+        x,
+        y,
+        width: Math.max(relation.from.x, relation.to.x) - x,
+        height: Math.max(relation.from.y, relation.to.y) - y,
+      };
+    },
+    [actors, relations]
+  );
+
+  return { actors, relations, ghostBounds };
+}
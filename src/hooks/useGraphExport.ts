@@ -3,11 +3,15 @@ import { useReactFlow } from '@xyflow/react';
 import { exportGraphAsPNG, exportGraphAsSVG } from '../utils/graphExport';
 import type { ExportOptions } from '../utils/graphExport';
 
+/** The metric encoding legend, when it is shown on the canvas */
+const findLegend = () => document.querySelector('.node-encoding-legend') as HTMLElement | null;
+
 /**
  * useGraphExport Hook
  *
  * Provides convenient methods for exporting the current React Flow graph
- * as PNG or SVG images.
+ * as PNG or SVG images. A metric encoding legend shown on the canvas is
+ * drawn below the graph.
  *
  * Usage:
  * ```tsx
@@ -41,7 +45,7 @@ export function useGraphExport() {
 
       const nodes = getNodes();
 
-      await exportGraphAsPNG(viewportElement, nodes, options);
+      await exportGraphAsPNG(viewportElement, nodes, { legend: findLegend(), ...options });
     },
     [getNodes]
   );
@@ -64,7 +68,7 @@ export function useGraphExport() {
 
       const nodes = getNodes();
 
-      await exportGraphAsSVG(viewportElement, nodes, options);
+      await exportGraphAsSVG(viewportElement, nodes, { legend: findLegend(), ...options });
     },
     [getNodes]
   );
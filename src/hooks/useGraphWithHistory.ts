@@ -1,8 +1,11 @@
 import { useCallback, useRef, useEffect } from 'react';
 import { useGraphStore } from '../stores/graphStore';
 import { useWorkspaceStore } from '../stores/workspaceStore';
+import { useTimelineStore } from '../stores/timelineStore';
+import { useToastStore } from '../stores/toastStore';
 import { useDocumentHistory } from './useDocumentHistory';
 import type { Actor, Relation, Group, NodeTypeConfig, EdgeTypeConfig, LabelConfig, TangibleConfig, RelationData, GroupData } from '../types';
+import type { ImportedGraph } from '../utils/csvImport';
 
 /**
  * useGraphWithHistory Hook
@@ -19,11 +22,15 @@ import type { Actor, Relation, Group, NodeTypeConfig, EdgeTypeConfig, LabelConfi
  * History-tracked operations (saved to document-level history):
  * - Node operations: addNode, updateNode, deleteNode
  * - Edge operations: addEdge, updateEdge, deleteEdge
- * - Group operations: addGroup, updateGroup, deleteGroup, addActorToGroup, removeActorFromGroup
+ * - Group operations: addGroup, updateGroup, deleteGroup, addActorToGroup, removeActorFromGroup, createGroupsWithActors
  * - Type operations: addNodeType, updateNodeType, deleteNodeType, addEdgeType, updateEdgeType, deleteEdgeType
  * - Label operations: addLabel, updateLabel, deleteLabel
  * - Tangible operations: addTangible, updateTangible, deleteTangible
- * - Utility: clearGraph
+ * - Utility: clearGraph, importGraph
+ *
+ * While the current timeline state is locked, node, edge and group operations
+ * and clearGraph are refused with a toast (undo/redo still restores them).
+ * Types, labels and tangibles belong to the whole document and stay editable.
  *
  * Read-only pass-through operations (no history):
  * - setNodes, setEdges, setGroups, setLabels, setTangibles (used for bulk updates during undo/redo/document loading)
@@ -56,6 +63,21 @@ export function useGraphWithHistory() {
   const updateTangibleInDocument = useWorkspaceStore((state) => state.updateTangibleInDocument);
   const deleteTangibleFromDocument = useWorkspaceStore((state) => state.deleteTangibleFromDocument);
   const { pushToHistory } = useDocumentHistory();
+  const showToast = useToastStore((state) => state.showToast);
+
+  // The current timeline state, when it is locked against edits
+  const lockedState = useTimelineStore((state) => {
+    const timeline = activeDocumentId ? state.timelines.get(activeDocumentId) : undefined;
+    const current = timeline?.states.get(timeline.currentStateId);
+    return current?.locked ? current : null;
+  });
+
+  // Returns true, after telling the user why, when the graph may not be edited
+  const refuseIfLocked = useCallback(() => {
+    if (!lockedState) return false;
+    showToast(`“${lockedState.label}” is locked. Duplicate it as a child to edit.`, 'warning');
+    return true;
+  }, [lockedState, showToast]);
 
   // Track if we're currently restoring from history to prevent recursive history pushes
   const isRestoringRef = useRef(false);
@@ -106,11 +128,12 @@ export function useGraphWithHistory() {
         graphStore.addNode(node);
         return;
       }
+      if (refuseIfLocked()) return;
       const nodeType = graphStore.nodeTypes.find((nt) => nt.id === node.data.type);
       pushToHistory(`Add ${nodeType?.label || 'Actor'}`); // Synchronous push BEFORE mutation
       graphStore.addNode(node);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const updateNode = useCallback(
@@ -119,6 +142,7 @@ export function useGraphWithHistory() {
         graphStore.updateNode(id, updates);
         return;
       }
+      if (refuseIfLocked()) return;
       // Check if this is a position update (node move)
       if (updates.position) {
         scheduleHistoryPush('Move Actor', 500); // Debounced for dragging
@@ -128,7 +152,7 @@ export function useGraphWithHistory() {
         graphStore.updateNode(id, updates);
       }
     },
-    [graphStore, scheduleHistoryPush, pushToHistory]
+    [graphStore, scheduleHistoryPush, pushToHistory, refuseIfLocked]
   );
 
   const deleteNode = useCallback(
@@ -137,12 +161,13 @@ export function useGraphWithHistory() {
         graphStore.deleteNode(id);
         return;
       }
+      if (refuseIfLocked()) return;
       const node = graphStore.nodes.find((n) => n.id === id);
       const nodeType = graphStore.nodeTypes.find((nt) => nt.id === node?.data.type);
       pushToHistory(`Delete ${nodeType?.label || 'Actor'}`); // Synchronous push BEFORE mutation
       graphStore.deleteNode(id);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const addEdge = useCallback(
@@ -151,11 +176,12 @@ export function useGraphWithHistory() {
         graphStore.addEdge(edge);
         return;
       }
+      if (refuseIfLocked()) return;
       const edgeType = graphStore.edgeTypes.find((et) => et.id === edge.data?.type);
       pushToHistory(`Add ${edgeType?.label || 'Relation'}`); // Synchronous push BEFORE mutation
       graphStore.addEdge(edge);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const updateEdge = useCallback(
@@ -164,10 +190,11 @@ export function useGraphWithHistory() {
         graphStore.updateEdge(id, data);
         return;
       }
+      if (refuseIfLocked()) return;
       pushToHistory('Update Relation'); // Synchronous push BEFORE mutation
       graphStore.updateEdge(id, data);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const deleteEdge = useCallback(
@@ -176,12 +203,13 @@ export function useGraphWithHistory() {
         graphStore.deleteEdge(id);
         return;
       }
+      if (refuseIfLocked()) return;
       const edge = graphStore.edges.find((e) => e.id === id);
       const edgeType = graphStore.edgeTypes.find((et) => et.id === edge?.data?.type);
       pushToHistory(`Delete ${edgeType?.label || 'Relation'}`); // Synchronous push BEFORE mutation
       graphStore.deleteEdge(id);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const addNodeType = useCallback(
@@ -288,10 +316,11 @@ export function useGraphWithHistory() {
         graphStore.clearGraph();
         return;
       }
+      if (refuseIfLocked()) return;
       pushToHistory('Clear Graph'); // Synchronous push BEFORE mutation
       graphStore.clearGraph();
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const addLabel = useCallback(
@@ -402,10 +431,11 @@ export function useGraphWithHistory() {
         graphStore.addGroup(group);
         return;
       }
+      if (refuseIfLocked()) return;
       pushToHistory(`Create Group: ${group.data.label}`); // Synchronous push BEFORE mutation
       graphStore.addGroup(group);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const updateGroup = useCallback(
@@ -414,6 +444,7 @@ export function useGraphWithHistory() {
         graphStore.updateGroup(id, updates);
         return;
       }
+      if (refuseIfLocked()) return;
       // Check if this is a position update (group move)
       if ('collapsed' in updates) {
         const group = graphStore.groups.find((g) => g.id === id);
@@ -425,7 +456,7 @@ export function useGraphWithHistory() {
       }
       graphStore.updateGroup(id, updates);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const deleteGroup = useCallback(
@@ -434,11 +465,12 @@ export function useGraphWithHistory() {
         graphStore.deleteGroup(id, ungroupActors);
         return;
       }
+      if (refuseIfLocked()) return;
       const group = graphStore.groups.find((g) => g.id === id);
       pushToHistory(ungroupActors ? `Ungroup: ${group?.data.label}` : `Delete Group: ${group?.data.label}`);
       graphStore.deleteGroup(id, ungroupActors);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const addActorToGroup = useCallback(
@@ -447,11 +479,12 @@ export function useGraphWithHistory() {
         graphStore.addActorToGroup(actorId, groupId);
         return;
       }
+      if (refuseIfLocked()) return;
       const group = graphStore.groups.find((g) => g.id === groupId);
       pushToHistory(`Add Actor to Group: ${group?.data.label}`);
       graphStore.addActorToGroup(actorId, groupId);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const removeActorFromGroup = useCallback(
@@ -460,11 +493,12 @@ export function useGraphWithHistory() {
         graphStore.removeActorFromGroup(actorId, groupId);
         return;
       }
+      if (refuseIfLocked()) return;
       const group = graphStore.groups.find((g) => g.id === groupId);
       pushToHistory(`Remove Actor from Group: ${group?.data.label}`);
       graphStore.removeActorFromGroup(actorId, groupId);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   const toggleGroupMinimized = useCallback(
@@ -473,12 +507,13 @@ export function useGraphWithHistory() {
         graphStore.toggleGroupMinimized(groupId);
         return;
       }
+      if (refuseIfLocked()) return;
       const group = graphStore.groups.find((g) => g.id === groupId);
       const action = group?.data.minimized ? 'Maximize' : 'Minimize';
       pushToHistory(`${action} Group: ${group?.data.label}`);
       graphStore.toggleGroupMinimized(groupId);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
   );
 
   /**
@@ -507,6 +542,7 @@ export function useGraphWithHistory() {
         graphStore.setNodes(updatedNodes as Actor[]);
         return;
       }
+      if (refuseIfLocked()) return;
 
       // ✅ Push history BEFORE making changes (consistent with other operations)
       // This captures the state WITHOUT the group, so undo will correctly restore it
@@ -524,7 +560,68 @@ export function useGraphWithHistory() {
       // Update nodes in store
       graphStore.setNodes(updatedNodes as Actor[]);
     },
-    [graphStore, pushToHistory]
+    [graphStore, pushToHistory, refuseIfLocked]
+  );
+
+  /**
+   * createGroupsWithActors - Atomic operation to create several groups at once
+   *
+   * Each group is added with addGroup and filled with addActorToGroup, which
+   * converts the actors to positions relative to the group and grows the group
+   * around them. The whole batch is one history snapshot, so a single undo
+   * removes every group again.
+   *
+   * Actors must not already belong to a group.
+   *
+   * @param entries - Groups to create, each with the IDs of the actors to put in it
+   * @param description - History description for the batch
+   */
+  const createGroupsWithActors = useCallback(
+    (entries: { group: Group; actorIds: string[] }[], description: string) => {
+      if (entries.length === 0) return;
+
+      if (!isRestoringRef.current) {
+        if (refuseIfLocked()) return;
+        pushToHistory(description);
+      }
+
+      entries.forEach(({ group, actorIds }) => {
+        // Start empty: addActorToGroup records each actor as it goes
+        graphStore.addGroup({ ...group, data: { ...group.data, actorIds: [] } });
+        actorIds.forEach((actorId) => graphStore.addActorToGroup(actorId, group.id));
+      });
+    },
+    [graphStore, pushToHistory, refuseIfLocked]
+  );
+
+  /**
+   * importGraph - Atomic operation to add imported actors and relations
+   *
+   * Adds the types and labels the import brought along to the document, and
+   * the actors and relations to the current state, as one history snapshot,
+   * so a single undo takes the whole import back out.
+   *
+   * @param graph - Elements to add, with the types and labels the document lacks
+   * @param description - History description for the import
+   */
+  const importGraph = useCallback(
+    (graph: ImportedGraph, description: string) => {
+      if (!activeDocumentId) {
+        console.warn('No active document');
+        return;
+      }
+      if (!isRestoringRef.current) {
+        if (refuseIfLocked()) return;
+        pushToHistory(description); // Synchronous push BEFORE mutation
+      }
+
+      graph.nodeTypes.forEach((nodeType) => addNodeTypeToDocument(activeDocumentId, nodeType));
+      graph.edgeTypes.forEach((edgeType) => addEdgeTypeToDocument(activeDocumentId, edgeType));
+      graph.labels.forEach((label) => addLabelToDocument(activeDocumentId, label));
+      graph.actors.forEach((actor) => graphStore.addNode(actor));
+      graph.relations.forEach((relation) => graphStore.addEdge(relation));
+    },
+    [activeDocumentId, graphStore, pushToHistory, refuseIfLocked, addNodeTypeToDocument, addEdgeTypeToDocument, addLabelToDocument]
   );
 
   return {
@@ -542,6 +639,7 @@ export function useGraphWithHistory() {
     removeActorFromGroup,
     toggleGroupMinimized,
     createGroupWithActors,
+    createGroupsWithActors,
     addNodeType,
     updateNodeType,
     deleteNodeType,
@@ -555,6 +653,7 @@ export function useGraphWithHistory() {
     updateTangible,
     deleteTangible,
     clearGraph,
+    importGraph,
 
     // Pass through read-only operations
     nodes: graphStore.nodes,
@@ -576,6 +675,9 @@ export function useGraphWithHistory() {
     // NOTE: exportToFile and importFromFile have been removed
     // Import/export is now handled by the workspace-level system (useWorkspaceStore)
 
+    // The current timeline state when it is locked against graph edits, else null
+    lockedState,
+
     // Expose flag for detecting restore operations
     isRestoringRef,
   };
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { NodeEncoding } from '../utils/nodeEncoding';
+
+/**
+ * Hook to read and change the metric encoding of the active document.
+ *
+ * The encoding is a view setting saved in the document, so it travels with
+ * exports: it applies in editing and presentation mode alike, and never
+ * creates history entries.
+ */
+export function useNodeEncoding() {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const encoding = useWorkspaceStore((state) =>
+    state.activeDocumentId
+      ? state.documents.get(state.activeDocumentId)?.nodeEncoding ?? null
+      : null
+  );
+  const setDocumentNodeEncoding = useWorkspaceStore((state) => state.setDocumentNodeEncoding);
+
+  const setEncoding = useCallback(
+    (next: NodeEncoding | null) => {
+      if (activeDocumentId) setDocumentNodeEncoding(activeDocumentId, next);
+    },
+    [activeDocumentId, setDocumentNodeEncoding]
+  );
+
+  return { encoding, setEncoding };
+}
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { usePlaybackStore } from '../stores/playbackStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useTimelineStore } from '../stores/timelineStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+
+/**
+ * Playback Hook
+ * Drives timeline playback while the playback store says it is playing
+ *
+ * Behavior:
+ * - Each state stays on screen for the dwell time, counted after its
+ *   transition animation has finished
+ * - Any switch restarts the count, so stepping or clicking a state while
+ *   playing carries on from there
+ * - Stops at the end of the sequence unless looping, and when another
+ *   document is opened
+ */
+export function usePlayback() {
+  const isPlaying = usePlaybackStore((state) => state.isPlaying);
+  const step = usePlaybackStore((state) => state.step);
+  const pause = usePlaybackStore((state) => state.pause);
+  const dwellTime = useSettingsStore((state) => state.playbackDwellTime);
+  const transitionDuration = useSettingsStore((state) => state.stateTransitionDuration);
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const currentStateId = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId)?.currentStateId : undefined
+  );
+
+  useEffect(() => {
+    pause();
+  }, [activeDocumentId, pause]);
+
+  useEffect(() => {
+    if (!isPlaying || !currentStateId) return;
+
+    const timer = window.setTimeout(() => {
+      if (!step(1)) pause();
+    }, transitionDuration + dwellTime);
+
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, currentStateId, dwellTime, transitionDuration, step, pause]);
+}
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useGraphStore } from '../stores/graphStore';
+import { useTimelineStore } from '../stores/timelineStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import { serializeActors, serializeGroups, serializeRelations } from '../stores/workspace/documentUtils';
+import type { ConstellationState } from '../types/timeline';
+
+/**
+ * Hook listing the timeline states of the active document, with the state on
+ * screen holding the graph as the editor has it.
+ *
+ * The snapshot of the current state only catches up with the editor after
+ * the graph sync, so anything reading every state (comparisons, histories,
+ * exports) should read them through here.
+ */
+export function useTimelineStatesWithLiveGraph(): ConstellationState[] {
+  const activeDocumentId = useWorkspaceStore((state) => state.activeDocumentId);
+  const timeline = useTimelineStore((state) =>
+    activeDocumentId ? state.timelines.get(activeDocumentId) : undefined
+  );
+  const nodes = useGraphStore((state) => state.nodes);
+  const edges = useGraphStore((state) => state.edges);
+  const groups = useGraphStore((state) => state.groups);
+
+  return useMemo(() => {
+    if (!timeline) return [];
+    const graph: ConstellationState['graph'] = {
+      nodes: serializeActors(nodes),
+      edges: serializeRelations(edges),
+      groups: serializeGroups(groups),
+    };
+    return Array.from(timeline.states.values()).map((state) =>
+      state.id === timeline.currentStateId ? { ...state, graph } : state
+    );
+  }, [timeline, nodes, edges, groups]);
+}
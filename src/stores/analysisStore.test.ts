@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useAnalysisStore } from './analysisStore';
+
+describe('analysisStore', () => {
+  beforeEach(() => {
+    useAnalysisStore.setState({ communityColors: null, highlightedPath: null, actorEncoding: null, egoView: null, egoNetwork: null, stateComparison: null, stateDiff: null });
+  });
+
+  it('should start without a community preview', () => {
+    expect(useAnalysisStore.getState().communityColors).toBeNull();
+  });
+
+  it('should set and clear community colours', () => {
+    const { setCommunityColors } = useAnalysisStore.getState();
+
+    setCommunityColors({ a: '#3b82f6', b: '#10b981' });
+    expect(useAnalysisStore.getState().communityColors).toEqual({ a: '#3b82f6', b: '#10b981' });
+
+    setCommunityColors(null);
+    expect(useAnalysisStore.getState().communityColors).toBeNull();
+  });
+
+  it('should set and clear the highlighted path', () => {
+    const { setHighlightedPath } = useAnalysisStore.getState();
+
+    setHighlightedPath({ actorIds: ['a', 'b'], relationIds: ['a-b'] });
+    expect(useAnalysisStore.getState().highlightedPath?.relationIds).toEqual(['a-b']);
+
+    setHighlightedPath(null);
+    expect(useAnalysisStore.getState().highlightedPath).toBeNull();
+  });
+
+  it('should set and clear the actor encoding', () => {
+    const { setActorEncoding } = useAnalysisStore.getState();
+
+    setActorEncoding({ size: true, color: false, positions: { a: 0, b: 1 } });
+    expect(useAnalysisStore.getState().actorEncoding?.positions).toEqual({ a: 0, b: 1 });
+
+    setActorEncoding(null);
+    expect(useAnalysisStore.getState().actorEncoding).toBeNull();
+  });
+
+  it('should set and clear the ego view', () => {
+    const { setEgoView, setEgoNetwork } = useAnalysisStore.getState();
+
+    setEgoView({ actorId: 'a', hops: 2, relationTypes: [], hideOthers: true });
+    setEgoNetwork({ actorIds: ['a', 'b'], relationIds: ['a-b'] });
+    expect(useAnalysisStore.getState().egoView?.hops).toBe(2);
+    expect(useAnalysisStore.getState().egoNetwork?.actorIds).toEqual(['a', 'b']);
+
+    setEgoView(null);
+    setEgoNetwork(null);
+    expect(useAnalysisStore.getState().egoView).toBeNull();
+    expect(useAnalysisStore.getState().egoNetwork).toBeNull();
+  });
+
+  it('should set and clear the state comparison', () => {
+    const { setStateComparison, setStateDiff } = useAnalysisStore.getState();
+
+    setStateComparison({ fromStateId: 's1', toStateId: 's2' });
+    setStateDiff({ actors: [], relations: [], actorStatus: { a: 'added' }, relationStatus: {} });
+    expect(useAnalysisStore.getState().stateComparison?.toStateId).toBe('s2');
+    expect(useAnalysisStore.getState().stateDiff?.actorStatus).toEqual({ a: 'added' });
+
+    setStateComparison(null);
+    setStateDiff(null);
+    expect(useAnalysisStore.getState().stateComparison).toBeNull();
+    expect(useAnalysisStore.getState().stateDiff).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { create } from 'zustand';
+import type { StateDiff } from '../utils/stateDiff';
+
+/**
+ * AnalysisStore - Temporary canvas overlays driven by the analysis panel
+ *
+ * Nothing here is part of the document: it is not saved, not versioned in
+ * states, and never creates history entries.
+ *
+ * Features:
+ * - Community preview: recolours actors by detected community
+ * - Highlighted path: dims everything off a path found by the path finder
+ * - Ego view: dims or hides everything outside one actor's neighbourhood
+ * - Actor encoding: per-actor positions on the metric scale chosen for the
+ *   document (the choice itself is saved with the document metadata; only the
+ *   computed values live here)
+ * - State comparison: overlays the differences between two timeline states
+ */
+
+export interface HighlightedPath {
+  actorIds: string[];
+  relationIds: string[];
+}
+
+export interface EgoViewSettings {
+  actorId: string;
+  hops: number; // 1 to 3
+  relationTypes: string[]; // Relation types to follow (empty = all)
+  hideOthers: boolean; // Hide actors outside the neighbourhood instead of dimming them
+}
+
+export interface ActorEncoding {
+  size: boolean;
+  color: boolean;
+  positions: Record<string, number>; // Actor ID -> 0..1 on the metric scale
+}
+
+export interface StateComparison {
+  fromStateId: string; // Earlier state, the baseline
+  toStateId: string; // Later state, shown in the editor
+}
+
+interface AnalysisStore {
+  // Actor ID -> preview colour while communities are previewed (null = off)
+  communityColors: Record<string, string> | null;
+  setCommunityColors: (colors: Record<string, string> | null) => void;
+
+  // Path shown on the canvas; everything else is dimmed (null = off)
+  highlightedPath: HighlightedPath | null;
+  setHighlightedPath: (path: HighlightedPath | null) => void;
+
+  // Ego view settings, opened from the canvas or the actor properties (null = off)
+  egoView: EgoViewSettings | null;
+  setEgoView: (view: EgoViewSettings | null) => void;
+
+  // Actors and relations inside the ego view, computed by the ego view panel
+  egoNetwork: HighlightedPath | null;
+  setEgoNetwork: (network: HighlightedPath | null) => void;
+
+  // Size/colour of actors driven by a metric (null = off)
+  actorEncoding: ActorEncoding | null;
+  setActorEncoding: (encoding: ActorEncoding | null) => void;
+
+  // Two timeline states picked for comparison (null = off)
+  stateComparison: StateComparison | null;
+  setStateComparison: (comparison: StateComparison | null) => void;
+
+  // Differences between them, computed by the comparison panel
+  stateDiff: StateDiff | null;
+  setStateDiff: (diff: StateDiff | null) => void;
+}
+
+export const useAnalysisStore = create<AnalysisStore>((set) => ({
+  communityColors: null,
+  highlightedPath: null,
+  egoView: null,
+  egoNetwork: null,
+  actorEncoding: null,
+  stateComparison: null,
+  stateDiff: null,
+
+  setCommunityColors: (colors: Record<string, string> | null) =>
+    set({ communityColors: colors }),
+
+  setHighlightedPath: (path: HighlightedPath | null) =>
+    set({ highlightedPath: path }),
+
+  setEgoView: (view: EgoViewSettings | null) =>
+    set({ egoView: view }),
+
+  setEgoNetwork: (network: HighlightedPath | null) =>
+    set({ egoNetwork: network }),
+
+  setActorEncoding: (encoding: ActorEncoding | null) =>
+    set({ actorEncoding: encoding }),
+
+  setStateComparison: (comparison: StateComparison | null) =>
+    set({ stateComparison: comparison }),
+
+  setStateDiff: (diff: StateDiff | null) =>
+    set({ stateDiff: diff }),
+}));
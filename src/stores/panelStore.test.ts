@@ -26,6 +26,7 @@ describe('panelStore', () => {
       bottomPanelVisible: true,
       bottomPanelHeight: PANEL_CONSTANTS.DEFAULT_BOTTOM_HEIGHT,
       bottomPanelCollapsed: false,
+      timelineLayout: 'branches',
     });
   });
 
@@ -44,6 +45,7 @@ describe('panelStore', () => {
       expect(state.bottomPanelVisible).toBe(true);
       expect(state.bottomPanelHeight).toBe(200);
       expect(state.bottomPanelCollapsed).toBe(false);
+      expect(state.timelineLayout).toBe('branches');
     });
 
     it('should have correct default section states', () => {
@@ -206,6 +208,16 @@ describe('panelStore', () => {
         expandBottomPanel();
         expect(usePanelStore.getState().bottomPanelCollapsed).toBe(false);
       });
+
+      it('should switch the timeline layout', () => {
+        const { setTimelineLayout } = usePanelStore.getState();
+
+        setTimelineLayout('calendar');
+        expect(usePanelStore.getState().timelineLayout).toBe('calendar');
+
+        setTimelineLayout('branches');
+        expect(usePanelStore.getState().timelineLayout).toBe('branches');
+      });
     });
   });
 
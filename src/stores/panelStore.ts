@@ -9,8 +9,11 @@ import { persist } from 'zustand/middleware';
  * - Right panel (properties) visibility and width
  * - Panel state persistence to localStorage
  * - Collapsed section state within panels
+ * - Timeline layout (branches or calendar)
  */
 
+export type TimelineLayout = 'branches' | 'calendar';
+
 interface PanelState {
   // Left Panel
   leftPanelVisible: boolean;
@@ -35,6 +38,7 @@ interface PanelState {
   bottomPanelVisible: boolean;
   bottomPanelHeight: number;
   bottomPanelCollapsed: boolean;
+  timelineLayout: TimelineLayout; // Branch structure, or states placed by date
 
   // Actions
   toggleLeftPanel: () => void;
@@ -49,6 +53,7 @@ interface PanelState {
   expandRightPanel: () => void;
   collapseBottomPanel: () => void;
   expandBottomPanel: () => void;
+  setTimelineLayout: (layout: TimelineLayout) => void;
 }
 
 const DEFAULT_LEFT_WIDTH = 280;
@@ -87,6 +92,7 @@ export const usePanelStore = create<PanelState>()(
       bottomPanelVisible: true, // Timeline panel is always visible (can be collapsed but not hidden)
       bottomPanelHeight: DEFAULT_BOTTOM_HEIGHT,
       bottomPanelCollapsed: false,
+      timelineLayout: 'branches',
 
       // Actions
       toggleLeftPanel: () =>
@@ -151,6 +157,11 @@ export const usePanelStore = create<PanelState>()(
         set(() => ({
           bottomPanelCollapsed: false,
         })),
+
+      setTimelineLayout: (layout: TimelineLayout) =>
+        set(() => ({
+          timelineLayout: layout,
+        })),
     }),
     {
       name: 'constellation-panel-state',
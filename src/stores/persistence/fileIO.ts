@@ -2,19 +2,30 @@ import type { Actor, Relation, NodeTypeConfig, EdgeTypeConfig } from '../../type
 import type { ConstellationDocument } from './types';
 import { createDocument, serializeActors, serializeRelations } from '../workspace/documentUtils';
 import { validateDocument } from '../workspace/documentUtils';
+import { documentToGraphML, graphMLToDocument } from '../../utils/graphml';
+import { documentToHTML } from '../../utils/htmlViewer';
 
 /**
  * File I/O - Export and import ConstellationDocument to/from files
+ *
+ * Documents are exported as the app's own JSON or as GraphML (see
+ * utils/graphml), which Gephi, yEd and NetworkX read. Both import again.
+ * An HTML export wraps the document in a read-only viewer (see
+ * utils/htmlViewer) for people without the app; it does not import back.
  */
 
+export type DocumentFileFormat = 'json' | 'graphml' | 'html';
+
 /**
- * Export a complete ConstellationDocument to a JSON file
- * Includes all timeline states and metadata
+ * Download text as a file named after the document and today's date
  */
-export function exportDocumentToFile(document: ConstellationDocument): void {
-  // Convert to JSON with pretty formatting
-  const jsonString = JSON.stringify(document, null, 2);
-  const blob = new Blob([jsonString], { type: 'application/json' });
+function downloadDocumentFile(
+  document: ConstellationDocument,
+  content: string,
+  mimeType: string,
+  extension: string
+): void {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
 
   // Create download link
@@ -23,7 +34,7 @@ export function exportDocumentToFile(document: ConstellationDocument): void {
   const dateStr = new Date().toISOString().slice(0, 10);
   const title = document.metadata.title || 'constellation-analysis';
   const sanitizedTitle = title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-  link.download = `${sanitizedTitle}-${dateStr}.json`;
+  link.download = `${sanitizedTitle}-${dateStr}.${extension}`;
 
   // Trigger download
   window.document.body.appendChild(link);
@@ -34,6 +45,29 @@ export function exportDocumentToFile(document: ConstellationDocument): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Export a complete ConstellationDocument to a JSON file
+ * Includes all timeline states and metadata
+ */
+export function exportDocumentToFile(document: ConstellationDocument): void {
+  // Convert to JSON with pretty formatting
+  downloadDocumentFile(document, JSON.stringify(document, null, 2), 'application/json', 'json');
+}
+
+/**
+ * Export a ConstellationDocument to a GraphML file, one graph per timeline state
+ */
+export function exportDocumentToGraphML(document: ConstellationDocument): void {
+  downloadDocumentFile(document, documentToGraphML(document), 'application/graphml+xml', 'graphml');
+}
+
+/**
+ * Export a ConstellationDocument as a standalone HTML viewer
+ */
+export function exportDocumentToHTML(document: ConstellationDocument): void {
+  downloadDocumentFile(document, documentToHTML(document), 'text/html', 'html');
+}
+
 /**
  * Export current graph state to a JSON file
  * Creates a new document with a single "Initial State"
@@ -56,7 +90,7 @@ export function exportGraphToFile(
 }
 
 /**
- * Import graph state from a JSON file
+ * Import graph state from a JSON or GraphML file
  * Returns the full document with timeline preserved, not just the current graph state
  */
 export function importGraphFromFile(
@@ -68,8 +102,15 @@ export function importGraphFromFile(
 
   reader.onload = (event) => {
     try {
-      const jsonString = event.target?.result as string;
-      const parsed = JSON.parse(jsonString);
+      const text = event.target?.result as string;
+
+      // GraphML files are converted, and named after the file
+      if (/\.(graphml|xml)$/i.test(file.name)) {
+        onSuccess(graphMLToDocument(text, file.name.replace(/\.[^.]+$/, '')));
+        return;
+      }
+
+      const parsed = JSON.parse(text);
 
       // Validate using the existing loader validation
       if (!validateDocument(parsed)) {
@@ -101,7 +142,7 @@ export function selectFileForImport(
 ): void {
   const input = document.createElement('input');
   input.type = 'file';
-  input.accept = '.json';
+  input.accept = '.json,.graphml,.xml';
 
   input.onchange = (event) => {
     const file = (event.target as HTMLInputElement).files?.[0];
@@ -1,6 +1,7 @@
 import type { ActorData, RelationData, GroupData, NodeTypeConfig, EdgeTypeConfig, LabelConfig, TangibleConfig } from '../../types';
 import type { ConstellationState } from '../../types/timeline';
 import type { Bibliography } from '../../types/bibliography';
+import type { NodeEncoding } from '../../utils/nodeEncoding';
 
 /**
  * Persistence Types
@@ -72,6 +73,8 @@ export interface ConstellationDocument {
   bibliography?: Bibliography;
   // Global tangibles for the entire document (optional for backward compatibility)
   tangibles?: TangibleConfig[];
+  // Metric sizing/colouring actors on the canvas (optional, off when absent)
+  nodeEncoding?: NodeEncoding;
   // Timeline with multiple states - every document has this
   // The graph is stored within each state (nodes and edges only, not types)
   timeline: {
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { usePlaybackStore } from './playbackStore';
+import { useSettingsStore } from './settingsStore';
+import type { Timeline } from '../types/timeline';
+import { createMockDocument, createMockState } from '../test-utils/mocks';
+
+const mockSwitchToState = vi.fn();
+const mockPushAction = vi.fn();
+
+// root ─ a ─ a1
+//      └ b
+const mockTimeline: Timeline = {
+  states: new Map(
+    [
+      createMockState('root'),
+      createMockState('a', {}, { parentStateId: 'root', createdAt: '2024-01-02T00:00:00.000Z' }),
+      createMockState('b', {}, { parentStateId: 'root', createdAt: '2024-01-03T00:00:00.000Z' }),
+      createMockState('a1', {}, { parentStateId: 'a', createdAt: '2024-01-04T00:00:00.000Z' }),
+    ].map((s) => [s.id, s])
+  ),
+  currentStateId: 'root',
+  rootStateId: 'root',
+};
+
+vi.mock('./timelineStore', () => ({
+  useTimelineStore: {
+    getState: () => ({
+      timelines: new Map([['doc-1', mockTimeline]]),
+      activeDocumentId: 'doc-1',
+      switchToState: (stateId: string, _fromTangible?: boolean, options?: { recordHistory?: boolean }) => {
+        mockSwitchToState(stateId, options);
+        mockTimeline.currentStateId = stateId;
+      },
+    }),
+  },
+}));
+
+vi.mock('./workspaceStore', () => ({
+  useWorkspaceStore: {
+    getState: () => ({ documents: new Map([['doc-1', createMockDocument()]]) }),
+  },
+}));
+
+vi.mock('./graphStore', () => ({
+  useGraphStore: {
+    getState: () => ({ nodes: [], edges: [], groups: [] }),
+  },
+}));
+
+vi.mock('./historyStore', () => ({
+  useHistoryStore: {
+    getState: () => ({ pushAction: mockPushAction }),
+  },
+}));
+
+describe('playbackStore', () => {
+  beforeEach(() => {
+    mockSwitchToState.mockClear();
+    mockPushAction.mockClear();
+    mockTimeline.currentStateId = 'root';
+    usePlaybackStore.setState({ isPlaying: false, leafStateId: null });
+    useSettingsStore.setState({ playbackOrder: 'path', playbackLoop: false });
+  });
+
+  it('should play along the path to the first leaf by default', () => {
+    expect(usePlaybackStore.getState().getSequence()).toEqual(['root', 'a', 'a1']);
+  });
+
+  it('should play to a chosen leaf', () => {
+    usePlaybackStore.getState().setLeafStateId('b');
+
+    expect(usePlaybackStore.getState().getSequence()).toEqual(['root', 'b']);
+  });
+
+  it('should play every state in chronological order', () => {
+    useSettingsStore.setState({ playbackOrder: 'chronological' });
+
+    expect(usePlaybackStore.getState().getSequence()).toEqual(['root', 'a', 'b', 'a1']);
+  });
+
+  describe('play', () => {
+    it('should start playing from the state on screen when it is on the way', () => {
+      mockTimeline.currentStateId = 'a';
+
+      usePlaybackStore.getState().play();
+
+      expect(usePlaybackStore.getState().isPlaying).toBe(true);
+      expect(mockSwitchToState).not.toHaveBeenCalled();
+    });
+
+    it('should start over from the beginning at the end of the sequence', () => {
+      mockTimeline.currentStateId = 'a1';
+
+      usePlaybackStore.getState().play();
+
+      expect(mockSwitchToState).toHaveBeenCalledWith('root', { recordHistory: false });
+    });
+
+    it('should settle on the leaf when starting', () => {
+      usePlaybackStore.getState().play();
+
+      expect(usePlaybackStore.getState().leafStateId).toBe('a1');
+    });
+
+    it('should stop on pause', () => {
+      usePlaybackStore.getState().play();
+      usePlaybackStore.getState().pause();
+
+      expect(usePlaybackStore.getState().isPlaying).toBe(false);
+    });
+
+    it('should switch states without recording history while playing', () => {
+      usePlaybackStore.getState().play();
+      usePlaybackStore.getState().step(1);
+
+      expect(mockSwitchToState).toHaveBeenLastCalledWith('a', { recordHistory: false });
+      expect(mockPushAction).not.toHaveBeenCalled();
+    });
+
+    it('should record the whole run as one undo step when it stops', () => {
+      usePlaybackStore.getState().play();
+      usePlaybackStore.getState().step(1);
+      usePlaybackStore.getState().step(1);
+      usePlaybackStore.getState().pause();
+
+      expect(mockPushAction).toHaveBeenCalledTimes(1);
+      expect(mockPushAction).toHaveBeenCalledWith(
+        'doc-1',
+        expect.objectContaining({
+          description: 'Play to State: a1',
+          documentState: expect.objectContaining({ timeline: expect.objectContaining({ currentStateId: 'root' }) }),
+        })
+      );
+    });
+
+    it('should record nothing when it stops where it started', () => {
+      usePlaybackStore.getState().play();
+      usePlaybackStore.getState().pause();
+
+      expect(mockPushAction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('step', () => {
+    it('should switch to the next and previous state', () => {
+      expect(usePlaybackStore.getState().step(1)).toBe(true);
+      expect(mockSwitchToState).toHaveBeenLastCalledWith('a', { recordHistory: true });
+
+      expect(usePlaybackStore.getState().step(-1)).toBe(true);
+      expect(mockSwitchToState).toHaveBeenLastCalledWith('root', { recordHistory: true });
+    });
+
+    it('should stop at the end unless looping', () => {
+      usePlaybackStore.getState().setLeafStateId('a1');
+      mockTimeline.currentStateId = 'a1';
+
+      expect(usePlaybackStore.getState().step(1)).toBe(false);
+
+      useSettingsStore.setState({ playbackLoop: true });
+      expect(usePlaybackStore.getState().step(1)).toBe(true);
+      expect(mockSwitchToState).toHaveBeenLastCalledWith('root', { recordHistory: true });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { useTimelineStore } from './timelineStore';
+import { useSettingsStore } from './settingsStore';
+import { useHistoryStore, type DocumentSnapshot } from './historyStore';
+import { useWorkspaceStore } from './workspaceStore';
+import { useGraphStore } from './graphStore';
+import { createDocumentSnapshot } from './workspace/documentUtils';
+import {
+  playbackSequence,
+  resolvePlaybackLeaf,
+  stepInSequence,
+} from '../utils/playbackSequence';
+import type { StateId } from '../types/timeline';
+
+/**
+ * PlaybackStore - Walks the active document's timeline state by state
+ *
+ * Meant for unattended exhibits: once started, usePlayback advances to the
+ * next state after the dwell time until the sequence ends (or forever, when
+ * looping). Order, dwell time and looping are persisted settings; whether
+ * playback runs is not, so a reload never starts switching states on its own.
+ *
+ * Features:
+ * - Play/pause, and stepping by hand whether playing or not
+ * - Path order plays from the root to the chosen leaf state; without a
+ *   choice, to the first leaf below the state on screen
+ * - A whole run is one undo step: states switch without history while
+ *   playing, and stopping records the way back to where playback started
+ */
+
+interface PlaybackStore {
+  isPlaying: boolean;
+
+  // End of the path played in path order (null = first leaf below the current state)
+  leafStateId: StateId | null;
+  setLeafStateId: (stateId: StateId | null) => void;
+
+  // State IDs playback walks through, in order
+  getSequence: () => StateId[];
+
+  play: () => void;
+  pause: () => void;
+
+  // Switch one state forward or back; false when there is nowhere to go
+  step: (direction: 1 | -1) => boolean;
+}
+
+// The document as it was when playback started, kept until it stops
+let start: { documentId: string; stateId: StateId; snapshot: DocumentSnapshot } | null = null;
+
+function activeTimeline() {
+  const { timelines, activeDocumentId } = useTimelineStore.getState();
+  return activeDocumentId ? timelines.get(activeDocumentId) : undefined;
+}
+
+export const usePlaybackStore = create<PlaybackStore>((set, get) => ({
+  isPlaying: false,
+  leafStateId: null,
+
+  setLeafStateId: (stateId: StateId | null) => set({ leafStateId: stateId }),
+
+  getSequence: () => {
+    const timeline = activeTimeline();
+    if (!timeline) return [];
+    const states = Array.from(timeline.states.values());
+    const leafId = resolvePlaybackLeaf(states, get().leafStateId, timeline.currentStateId);
+    return playbackSequence(states, useSettingsStore.getState().playbackOrder, leafId);
+  },
+
+  play: () => {
+    const timeline = activeTimeline();
+    if (!timeline || timeline.states.size < 2) return;
+
+    // Settle on a leaf now, so the path does not change as playback moves along it
+    const states = Array.from(timeline.states.values());
+    set({ leafStateId: resolvePlaybackLeaf(states, get().leafStateId, timeline.currentStateId) });
+
+    const sequence = get().getSequence();
+    if (sequence.length < 2) return;
+
+    if (!get().isPlaying) {
+      const documentId = useTimelineStore.getState().activeDocumentId!;
+      const document = useWorkspaceStore.getState().documents.get(documentId);
+      const snapshot = document && createDocumentSnapshot(documentId, document, timeline, useGraphStore.getState());
+      start = snapshot ? { documentId, stateId: timeline.currentStateId, snapshot } : null;
+    }
+
+    // Start from the beginning unless the state on screen is on the way
+    const currentIndex = sequence.indexOf(timeline.currentStateId);
+    if (currentIndex === -1 || currentIndex === sequence.length - 1) {
+      useTimelineStore.getState().switchToState(sequence[0], false, { recordHistory: false });
+    }
+    set({ isPlaying: true });
+  },
+
+  pause: () => {
+    if (start) {
+      const { documentId, stateId, snapshot } = start;
+      start = null;
+      const timeline = useTimelineStore.getState().timelines.get(documentId);
+      const current = timeline?.states.get(timeline.currentStateId);
+      if (current && current.id !== stateId) {
+        useHistoryStore.getState().pushAction(documentId, {
+          description: `Play to State: ${current.label}`,
+          timestamp: Date.now(),
+          documentState: snapshot,
+        });
+      }
+    }
+    set({ isPlaying: false });
+  },
+
+  step: (direction: 1 | -1) => {
+    const timeline = activeTimeline();
+    if (!timeline) return false;
+    const next = stepInSequence(
+      get().getSequence(),
+      timeline.currentStateId,
+      direction,
+      useSettingsStore.getState().playbackLoop
+    );
+    if (!next || next === timeline.currentStateId) return false;
+    // While playing, stopping records the whole run instead
+    useTimelineStore.getState().switchToState(next, false, { recordHistory: !get().isPlaying });
+    return true;
+  },
+}));
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useSettingsStore } from './settingsStore';
+import { useSettingsStore, MIN_PLAYBACK_DWELL_TIME } from './settingsStore';
 import { useToastStore } from './toastStore';
 
 describe('settingsStore', () => {
@@ -11,6 +11,10 @@ describe('settingsStore', () => {
     useSettingsStore.setState({
       autoZoomEnabled: true,
       presentationMode: false,
+      stateTransitionDuration: 600,
+      playbackOrder: 'path',
+      playbackDwellTime: 5000,
+      playbackLoop: false,
     });
   });
 
@@ -20,6 +24,10 @@ describe('settingsStore', () => {
 
       expect(state.autoZoomEnabled).toBe(true);
       expect(state.presentationMode).toBe(false);
+      expect(state.stateTransitionDuration).toBe(600);
+      expect(state.playbackOrder).toBe('path');
+      expect(state.playbackDwellTime).toBe(5000);
+      expect(state.playbackLoop).toBe(false);
     });
   });
 
@@ -144,6 +152,52 @@ describe('settingsStore', () => {
     });
   });
 
+  describe('setStateTransitionDuration', () => {
+    it('should change the transition duration', () => {
+      useSettingsStore.getState().setStateTransitionDuration(1200);
+
+      expect(useSettingsStore.getState().stateTransitionDuration).toBe(1200);
+    });
+
+    it('should allow turning transitions off but not below zero', () => {
+      const { setStateTransitionDuration } = useSettingsStore.getState();
+
+      setStateTransitionDuration(0);
+      expect(useSettingsStore.getState().stateTransitionDuration).toBe(0);
+
+      setStateTransitionDuration(-100);
+      expect(useSettingsStore.getState().stateTransitionDuration).toBe(0);
+    });
+
+    it('should persist the duration to localStorage', () => {
+      useSettingsStore.getState().setStateTransitionDuration(300);
+
+      const parsed = JSON.parse(localStorage.getItem('constellation-settings')!);
+      expect(parsed.state.stateTransitionDuration).toBe(300);
+    });
+  });
+
+  describe('Playback settings', () => {
+    it('should set order, dwell time and looping', () => {
+      const { setPlaybackOrder, setPlaybackDwellTime, setPlaybackLoop } = useSettingsStore.getState();
+
+      setPlaybackOrder('chronological');
+      setPlaybackDwellTime(10000);
+      setPlaybackLoop(true);
+
+      const state = useSettingsStore.getState();
+      expect(state.playbackOrder).toBe('chronological');
+      expect(state.playbackDwellTime).toBe(10000);
+      expect(state.playbackLoop).toBe(true);
+    });
+
+    it('should keep each state on screen for at least the minimum dwell time', () => {
+      useSettingsStore.getState().setPlaybackDwellTime(10);
+
+      expect(useSettingsStore.getState().playbackDwellTime).toBe(MIN_PLAYBACK_DWELL_TIME);
+    });
+  });
+
   describe('setPresentationMode', () => {
     it('should enable presentation mode', () => {
       const { setPresentationMode } = useSettingsStore.getState();
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { PlaybackOrder } from '../utils/playbackSequence';
 
 /**
  * Settings Store - Global application settings with localStorage persistence
@@ -20,12 +21,29 @@ interface SettingsState {
   presentationMode: boolean;
   setPresentationMode: (enabled: boolean) => void;
 
+  // Timeline Settings
+  // Length of the animation between timeline states in ms (0 = switch instantly).
+  // Applies however the switch happens: timeline, presentation controls or tangibles.
+  stateTransitionDuration: number;
+  setStateTransitionDuration: (duration: number) => void;
+
+  // Playback Settings (the walk through states for unattended presentations)
+  playbackOrder: PlaybackOrder;
+  setPlaybackOrder: (order: PlaybackOrder) => void;
+  playbackDwellTime: number; // How long each state stays on screen, in ms
+  setPlaybackDwellTime: (dwellTime: number) => void;
+  playbackLoop: boolean; // Start over after the last state instead of stopping
+  setPlaybackLoop: (loop: boolean) => void;
+
   // Future settings can be added here
   // Example:
   // theme: 'light' | 'dark';
   // setTheme: (theme: 'light' | 'dark') => void;
 }
 
+// Shortest time a state stays on screen during playback, in ms
+export const MIN_PLAYBACK_DWELL_TIME = 1000;
+
 export const useSettingsStore = create<SettingsState>()(
   persist(
     (set) => ({
@@ -63,6 +81,22 @@ export const useSettingsStore = create<SettingsState>()(
         }
       },
 
+      // Timeline Settings
+      stateTransitionDuration: 600,
+      setStateTransitionDuration: (duration: number) =>
+        set({ stateTransitionDuration: Math.max(0, duration) }),
+
+      // Playback Settings
+      playbackOrder: 'path',
+      setPlaybackOrder: (order: PlaybackOrder) =>
+        set({ playbackOrder: order }),
+      playbackDwellTime: 5000,
+      setPlaybackDwellTime: (dwellTime: number) =>
+        set({ playbackDwellTime: Math.max(MIN_PLAYBACK_DWELL_TIME, dwellTime) }),
+      playbackLoop: false,
+      setPlaybackLoop: (loop: boolean) =>
+        set({ playbackLoop: loop }),
+
       // Future settings implementations go here
     }),
     {
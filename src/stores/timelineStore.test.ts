@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { useTimelineStore } from './timelineStore';
 import type { Timeline, ConstellationState } from '../types/timeline';
 import type { Actor, Relation, Group, NodeTypeConfig, EdgeTypeConfig, LabelConfig } from '../types';
@@ -8,6 +8,7 @@ const mockShowToast = vi.fn();
 const mockMarkDocumentDirty = vi.fn();
 const mockLoadGraphState = vi.fn();
 const mockPushToHistory = vi.fn();
+const mockDocuments = new Map<string, unknown>();
 
 // Create a mutable mock state for graphStore
 const mockGraphState: {
@@ -39,7 +40,7 @@ vi.mock('./toastStore', () => ({
 vi.mock('./workspaceStore', () => ({
   useWorkspaceStore: {
     getState: () => ({
-      documents: new Map(),
+      documents: mockDocuments,
       markDocumentDirty: mockMarkDocumentDirty,
     }),
   },
@@ -271,6 +272,16 @@ describe('timelineStore', () => {
       expect(newState?.graph.edges).toHaveLength(0);
     });
 
+    it('should store metadata such as a date with the new state', () => {
+      const { createState } = useTimelineStore.getState();
+
+      const newStateId = createState('Dated', undefined, true, { date: '2024-03-01' });
+
+      const newState = useTimelineStore.getState().timelines.get(TEST_DOC_ID)?.states.get(newStateId);
+
+      expect(newState?.metadata).toEqual({ date: '2024-03-01' });
+    });
+
     it('should set parentStateId to current state', () => {
       const { createState, getAllStates } = useTimelineStore.getState();
 
@@ -415,6 +426,24 @@ describe('timelineStore', () => {
       const timeline2 = useTimelineStore.getState().timelines.get(TEST_DOC_ID);
       expect(timeline2?.currentStateId).toBe(currentStateId);
     });
+
+    it('should leave history to the caller when asked not to record it', () => {
+      const { switchToState, getAllStates } = useTimelineStore.getState();
+
+      // History is only recorded for open documents
+      mockDocuments.set(TEST_DOC_ID, {});
+      const [first, second] = getAllStates();
+
+      switchToState(first.id);
+      expect(mockPushToHistory).toHaveBeenCalledTimes(1);
+
+      mockPushToHistory.mockClear();
+      switchToState(second.id, false, { recordHistory: false });
+
+      expect(useTimelineStore.getState().timelines.get(TEST_DOC_ID)?.currentStateId).toBe(second.id);
+      expect(mockPushToHistory).not.toHaveBeenCalled();
+      mockDocuments.delete(TEST_DOC_ID);
+    });
   });
 
   describe('Update State', () => {
@@ -482,6 +511,34 @@ describe('timelineStore', () => {
     });
   });
 
+  describe('Lock State', () => {
+    let stateId: string;
+
+    beforeEach(() => {
+      const { initializeTimeline, createState } = useTimelineStore.getState();
+      initializeTimeline(TEST_DOC_ID, { nodes: [], edges: [], groups: [] });
+      stateId = createState('Baseline');
+    });
+
+    it('should lock and unlock a state', () => {
+      const { setStateLocked, getState } = useTimelineStore.getState();
+
+      setStateLocked(stateId, true);
+      expect(getState(stateId)?.locked).toBe(true);
+
+      setStateLocked(stateId, false);
+      expect(getState(stateId)?.locked).toBeUndefined();
+    });
+
+    it('should leave copies of a locked state unlocked', () => {
+      const { setStateLocked, duplicateState, duplicateStateAsChild, getState } = useTimelineStore.getState();
+      setStateLocked(stateId, true);
+
+      expect(getState(duplicateState(stateId))?.locked).toBeUndefined();
+      expect(getState(duplicateStateAsChild(stateId))?.locked).toBeUndefined();
+    });
+  });
+
   describe('Delete State', () => {
     let state1Id: string;
     let state2Id: string;
@@ -648,6 +705,142 @@ describe('timelineStore', () => {
     });
   });
 
+  describe('Create Merged State', () => {
+    let firstId: string;
+    let secondId: string;
+
+    beforeEach(() => {
+      const { initializeTimeline, createState, duplicateState } = useTimelineStore.getState();
+      initializeTimeline(TEST_DOC_ID, { nodes: [], edges: [], groups: [] });
+      firstId = createState('Scenario A');
+      secondId = duplicateState(firstId, 'Scenario B');
+      mockLoadGraphState.mockClear();
+    });
+
+    it('should create a child of the first state that remembers the second', () => {
+      const { createMergedState, getState } = useTimelineStore.getState();
+      const graph = {
+        nodes: [{ id: 'node-1', type: 'custom', position: { x: 0, y: 0 }, data: { label: 'Merged', type: 'person' } }],
+        edges: [],
+        groups: [],
+      };
+
+      const mergedId = createMergedState(firstId, secondId, graph, 'A + B');
+
+      const merged = getState(mergedId);
+      expect(merged?.label).toBe('A + B');
+      expect(merged?.parentStateId).toBe(firstId);
+      expect(merged?.mergedFromStateId).toBe(secondId);
+      expect(merged?.graph).toEqual(graph);
+      expect(merged?.graph).not.toBe(graph); // Deep copy
+    });
+
+    it('should switch to the merged state', () => {
+      const mergedId = useTimelineStore.getState().createMergedState(firstId, secondId, { nodes: [], edges: [] }, 'A + B');
+
+      expect(useTimelineStore.getState().timelines.get(TEST_DOC_ID)?.currentStateId).toBe(mergedId);
+      expect(mockLoadGraphState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse unknown states', () => {
+      const mergedId = useTimelineStore.getState().createMergedState(firstId, 'missing', { nodes: [], edges: [] }, 'A + ?');
+
+      expect(mergedId).toBe('');
+      expect(useTimelineStore.getState().timelines.get(TEST_DOC_ID)?.states.size).toBe(3);
+    });
+  });
+
+  describe('Propagate Element to States', () => {
+    const edited = ['label', 'description'];
+    let parentId: string;
+    let childIds: string[];
+
+    beforeEach(() => {
+      const { initializeTimeline, createState, duplicateStateAsChild } = useTimelineStore.getState();
+      initializeTimeline(TEST_DOC_ID, { nodes: [], edges: [], groups: [] });
+      mockGraphState.nodes = [{ id: 'node-1', type: 'custom', position: { x: 0, y: 0 }, data: { label: 'Acme', type: 'person', description: 'Typo' } }];
+      parentId = createState('Parent');
+      childIds = [duplicateStateAsChild(parentId), duplicateStateAsChild(parentId)];
+
+      // Each child has moved the actor somewhere else
+      childIds.forEach((id, index) => {
+        useTimelineStore.getState().getState(id)!.graph.nodes[0].position = { x: 100 * (index + 1), y: 0 };
+      });
+
+      // The fix, made in the editor on the parent state
+      mockGraphState.nodes = [{ id: 'node-1', type: 'custom', position: { x: 0, y: 0 }, data: { label: 'ACME Corp', type: 'person' } }];
+
+      // History is only recorded for open documents
+      mockDocuments.set(TEST_DOC_ID, {});
+      mockPushToHistory.mockClear();
+    });
+
+    afterEach(() => {
+      mockDocuments.clear();
+    });
+
+    it('should copy the element content into the given states', () => {
+      const { propagateElementToStates, getState } = useTimelineStore.getState();
+
+      const updated = propagateElementToStates('actor', 'node-1', childIds, edited);
+
+      expect(updated).toBe(2);
+      childIds.forEach((id, index) => {
+        const actor = getState(id)!.graph.nodes[0];
+        expect(actor.data.label).toBe('ACME Corp');
+        expect(actor.data.description).toBeUndefined();
+        expect(actor.position).toEqual({ x: 100 * (index + 1), y: 0 }); // Positions stay
+      });
+    });
+
+    it('should leave fields that were not chosen as each state has them', () => {
+      const { propagateElementToStates, getState } = useTimelineStore.getState();
+      getState(childIds[0])!.graph.nodes[0].data.type = 'organisation';
+
+      propagateElementToStates('actor', 'node-1', childIds, ['label']);
+
+      expect(getState(childIds[0])!.graph.nodes[0].data).toEqual({
+        label: 'ACME Corp',
+        type: 'organisation',
+        description: 'Typo',
+      });
+    });
+
+    it('should record the whole push as one undo step', () => {
+      useTimelineStore.getState().propagateElementToStates('actor', 'node-1', childIds, edited);
+
+      expect(mockPushToHistory).toHaveBeenCalledTimes(1);
+      expect(mockPushToHistory.mock.calls[0][1]).toBe('Apply Actor Change to 2 States');
+    });
+
+    it('should skip states without the element, and the current state', () => {
+      const { propagateElementToStates, getState } = useTimelineStore.getState();
+      const rootStateId = useTimelineStore.getState().timelines.get(TEST_DOC_ID)!.rootStateId;
+
+      const updated = propagateElementToStates('actor', 'node-1', [rootStateId, parentId, childIds[0]], edited);
+
+      expect(updated).toBe(1);
+      expect(getState(parentId)!.graph.nodes[0].data.label).toBe('Acme');
+    });
+
+    it('should skip locked states', () => {
+      const { propagateElementToStates, setStateLocked, getState } = useTimelineStore.getState();
+      setStateLocked(childIds[0], true);
+
+      expect(propagateElementToStates('actor', 'node-1', childIds, edited)).toBe(1);
+      expect(getState(childIds[0])!.graph.nodes[0].data.label).toBe('Acme');
+    });
+
+    it('should do nothing when the states are already up to date', () => {
+      const { propagateElementToStates } = useTimelineStore.getState();
+      propagateElementToStates('actor', 'node-1', childIds, edited);
+      mockPushToHistory.mockClear();
+
+      expect(propagateElementToStates('actor', 'node-1', childIds, edited)).toBe(0);
+      expect(mockPushToHistory).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Get Operations', () => {
     let rootStateId: string;
     let childStateId: string;
@@ -11,6 +11,11 @@ import { useGraphStore } from "./graphStore";
 import { useWorkspaceStore } from "./workspaceStore";
 import { useHistoryStore } from "./historyStore";
 import { useTuioStore } from "./tuioStore";
+import {
+  applyElementData,
+  planPropagation,
+  type PropagatedElementKind,
+} from "../utils/propagateEdit";
 
 /**
  * Timeline Store
@@ -162,6 +167,7 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
       label: string,
       description?: string,
       cloneFromCurrent: boolean = true,
+      metadata?: ConstellationState["metadata"],
     ) => {
       const state = get();
       const { activeDocumentId } = state;
@@ -207,6 +213,7 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
         label,
         description,
         parentStateId: timeline.currentStateId, // Branch from current
+        metadata,
         graph: JSON.parse(JSON.stringify(graphToClone)), // Deep copy
         createdAt: now,
         updatedAt: now,
@@ -252,7 +259,11 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
       return newStateId;
     },
 
-    switchToState: (stateId: StateId, fromTangible: boolean = false) => {
+    switchToState: (
+      stateId: StateId,
+      fromTangible: boolean = false,
+      { recordHistory = true }: { recordHistory?: boolean } = {},
+    ) => {
       const state = get();
       const { activeDocumentId } = state;
 
@@ -278,8 +289,8 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
         useTuioStore.getState().clearActiveStateTangibles();
       }
 
-      // Don't push history if already on this state
-      if (timeline.currentStateId !== stateId) {
+      // Don't push history if already on this state, or if the caller records it
+      if (recordHistory && timeline.currentStateId !== stateId) {
         // Push to history BEFORE making changes
         pushDocumentHistory(activeDocumentId, `Switch to State: ${targetState.label}`);
       }
@@ -398,6 +409,49 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
       }, 1000);
     },
 
+    setStateLocked: (stateId: StateId, locked: boolean) => {
+      const state = get();
+      const { activeDocumentId } = state;
+
+      if (!activeDocumentId) return;
+
+      const timeline = state.timelines.get(activeDocumentId);
+      if (!timeline) return;
+
+      const stateToUpdate = timeline.states.get(stateId);
+      if (!stateToUpdate) {
+        console.error(`State ${stateId} not found`);
+        return;
+      }
+
+      if (!!stateToUpdate.locked === locked) return;
+
+      // Push to history BEFORE making changes
+      pushDocumentHistory(activeDocumentId, `${locked ? "Lock" : "Unlock"} State: ${stateToUpdate.label}`);
+
+      set((state) => {
+        const newTimelines = new Map(state.timelines);
+        const timeline = newTimelines.get(activeDocumentId)!;
+        const newStates = new Map(timeline.states);
+
+        newStates.set(stateId, {
+          ...stateToUpdate,
+          locked: locked || undefined, // Unlocked states drop the flag when saved
+          updatedAt: new Date().toISOString(),
+        });
+
+        newTimelines.set(activeDocumentId, {
+          ...timeline,
+          states: newStates,
+        });
+
+        return { timelines: newTimelines };
+      });
+
+      // Mark document as dirty
+      useWorkspaceStore.getState().markDocumentDirty(activeDocumentId);
+    },
+
     deleteState: (stateId: StateId) => {
       const state = get();
       const { activeDocumentId } = state;
@@ -531,6 +585,7 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
         label,
         parentStateId: stateToDuplicate.parentStateId, // Same parent as original (parallel)
         graph: JSON.parse(JSON.stringify(stateToDuplicate.graph)), // Deep copy
+        locked: undefined, // A copy is made to be edited
         createdAt: now,
         updatedAt: now,
       };
@@ -590,6 +645,7 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
         label,
         parentStateId: stateId, // Original state becomes parent (series)
         graph: JSON.parse(JSON.stringify(stateToDuplicate.graph)), // Deep copy
+        locked: undefined, // A copy is made to be edited
         createdAt: now,
         updatedAt: now,
       };
@@ -615,6 +671,160 @@ export const useTimelineStore = create<TimelineStore & TimelineActions>(
       return newStateId;
     },
 
+    createMergedState: (
+      stateId: StateId,
+      mergedFromStateId: StateId,
+      graph: ConstellationState["graph"],
+      label: string,
+    ) => {
+      const state = get();
+      const { activeDocumentId } = state;
+
+      if (!activeDocumentId) {
+        console.error("No active document");
+        return "";
+      }
+
+      const timeline = state.timelines.get(activeDocumentId);
+      if (!timeline) {
+        console.error("No timeline for active document");
+        return "";
+      }
+
+      const parentState = timeline.states.get(stateId);
+      const otherState = timeline.states.get(mergedFromStateId);
+      if (!parentState || !otherState) {
+        console.error(`Cannot merge: state ${parentState ? mergedFromStateId : stateId} not found`);
+        return "";
+      }
+
+      // Push to history BEFORE making changes
+      pushDocumentHistory(activeDocumentId, `Merge States: ${parentState.label} + ${otherState.label}`);
+
+      const newStateId = generateStateId();
+      const now = new Date().toISOString();
+
+      const newState: ConstellationState = {
+        id: newStateId,
+        label,
+        parentStateId: stateId,
+        mergedFromStateId,
+        graph: JSON.parse(JSON.stringify(graph)), // Deep copy
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      set((state) => {
+        const newTimelines = new Map(state.timelines);
+        const timeline = newTimelines.get(activeDocumentId)!;
+
+        const newStates = new Map(timeline.states);
+        newStates.set(newStateId, newState);
+
+        newTimelines.set(activeDocumentId, {
+          ...timeline,
+          states: newStates,
+          currentStateId: newStateId, // Switch to the merge
+        });
+
+        return { timelines: newTimelines };
+      });
+
+      // Load the merge into the editor in one go, as createState does
+      const graphStore = useGraphStore.getState();
+      graphStore.loadGraphState({
+        nodes: newState.graph.nodes as unknown as Actor[],
+        edges: newState.graph.edges as unknown as Relation[],
+        groups: (newState.graph.groups || []) as unknown as Group[],
+        nodeTypes: graphStore.nodeTypes,
+        edgeTypes: graphStore.edgeTypes,
+        labels: graphStore.labels,
+      });
+
+      // Mark document as dirty
+      useWorkspaceStore.getState().markDocumentDirty(activeDocumentId);
+
+      return newStateId;
+    },
+
+    propagateElementToStates: (
+      kind: PropagatedElementKind,
+      elementId: string,
+      stateIds: StateId[],
+      fields: string[],
+    ) => {
+      const state = get();
+      const { activeDocumentId } = state;
+
+      if (!activeDocumentId) return 0;
+
+      const timeline = state.timelines.get(activeDocumentId);
+      if (!timeline) return 0;
+
+      // The element as it is in the editor, which may be ahead of the
+      // snapshot kept for the current state
+      const graphStore = useGraphStore.getState();
+      const source =
+        kind === "actor"
+          ? graphStore.nodes.find((node) => node.id === elementId)
+          : kind === "relation"
+            ? graphStore.edges.find((edge) => edge.id === elementId)
+            : graphStore.groups.find((group) => group.id === elementId);
+      if (!source) {
+        console.error(`Cannot propagate: ${kind} ${elementId} not found`);
+        return 0;
+      }
+
+      // Never write into the state on screen, which lives in the graph store,
+      // nor into locked states
+      const targets = planPropagation(
+        stateIds
+          .filter((id) => id !== timeline.currentStateId)
+          .map((id) => timeline.states.get(id))
+          .filter((target): target is ConstellationState => !!target && !target.locked),
+        kind,
+        elementId,
+        source.data,
+        fields,
+      ).filter((target) => target.fields.length > 0);
+
+      if (targets.length === 0) return 0;
+
+      const kindLabel = kind === "actor" ? "Actor" : kind === "relation" ? "Relation" : "Group";
+      pushDocumentHistory(
+        activeDocumentId,
+        `Apply ${kindLabel} Change to ${targets.length} ${targets.length === 1 ? "State" : "States"}`,
+      );
+
+      set((state) => {
+        const newTimelines = new Map(state.timelines);
+        const timeline = newTimelines.get(activeDocumentId)!;
+        const newStates = new Map(timeline.states);
+        const now = new Date().toISOString();
+
+        targets.forEach(({ stateId }) => {
+          const target = newStates.get(stateId)!;
+          newStates.set(stateId, {
+            ...target,
+            graph: applyElementData(target.graph, kind, elementId, source.data, fields),
+            updatedAt: now,
+          });
+        });
+
+        newTimelines.set(activeDocumentId, {
+          ...timeline,
+          states: newStates,
+        });
+
+        return { timelines: newTimelines };
+      });
+
+      // Mark document as dirty
+      useWorkspaceStore.getState().markDocumentDirty(activeDocumentId);
+
+      return targets.length;
+    },
+
     getState: (stateId: StateId) => {
       const state = get();
       const { activeDocumentId } = state;
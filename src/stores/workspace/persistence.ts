@@ -3,6 +3,7 @@ import type { WorkspaceState, DocumentMetadata } from './types';
 import { validateDocument } from './documentUtils';
 import { safeStringify, safeParse } from '../../utils/safeStringify';
 import { migrateDocumentParentRefs } from '../../utils/parentRefMigration';
+import { migrateDocumentNodeEncoding, type LegacyDocumentMetadata } from '../../utils/nodeEncodingMigration';
 
 /**
  * Workspace Persistence
@@ -151,6 +152,13 @@ export function loadAllDocumentMetadata(): Map<string, DocumentMetadata> {
         const documentId = key.replace(WORKSPACE_STORAGE_KEYS.DOCUMENT_METADATA_PREFIX, '');
         const metadata = loadDocumentMetadata(documentId);
         if (metadata) {
+          // Older metadata still holds the node encoding - move it into the document
+          if ((metadata as LegacyDocumentMetadata).nodeEncoding) {
+            const document = loadDocumentFromStorage(documentId);
+            migrateDocumentNodeEncoding(document, metadata);
+            if (document) saveDocumentToStorage(documentId, document);
+            saveDocumentMetadata(documentId, metadata);
+          }
           metadataMap.set(documentId, metadata);
         }
       }
@@ -1,5 +1,8 @@
 import type { ConstellationDocument } from '../persistence/types';
 import type { NodeTypeConfig, EdgeTypeConfig, LabelConfig, TangibleConfig } from '../../types';
+import type { NodeEncoding } from '../../utils/nodeEncoding';
+import type { DocumentFileFormat } from '../persistence/fileIO';
+import type { ImportedGraph } from '../../utils/csvImport';
 
 /**
  * Workspace Types
@@ -62,6 +65,8 @@ export interface WorkspaceActions {
   createDocumentFromTemplate: (sourceDocumentId: string, title?: string) => string;
   /** Opens the worked example analysis as a new document. */
   createExampleDocument: () => string;
+  /** Opens imported actors and relations, with their types and labels, as a new document. */
+  createDocumentFromImport: (title: string, graph: ImportedGraph) => string;
   loadDocument: (documentId: string) => Promise<void>;
   unloadDocument: (documentId: string) => void;
   closeDocument: (documentId: string) => boolean;
@@ -75,7 +80,7 @@ export interface WorkspaceActions {
 
   // File operations
   importDocumentFromFile: () => Promise<string | null>;
-  exportDocument: (documentId: string) => void;
+  exportDocument: (documentId: string, format?: DocumentFileFormat) => void;
   exportAllDocumentsAsZip: () => Promise<void>;
 
   // Workspace operations
@@ -117,6 +122,9 @@ export interface WorkspaceActions {
   // Presentation mode operations
   setDocumentPresentationPreference: (documentId: string, enabled: boolean) => void;
 
+  // Canvas encoding operations
+  setDocumentNodeEncoding: (documentId: string, encoding: NodeEncoding | null) => void;
+
   // Transaction helper (internal utility for atomic operations)
   executeTypeTransaction: <T>(
     operation: () => T,
@@ -5,8 +5,10 @@ import {
   loadDocumentFromStorage,
   clearWorkspaceStorage,
 } from "./workspace/persistence";
+import { exportDocumentToFile, selectFileForImport } from "./persistence/fileIO";
 import { mockNodeTypes, mockEdgeTypes } from "../test-utils/mocks";
 import type { TangibleConfig } from "../types";
+import type { ConstellationDocument } from "./persistence/types";
 
 // Create a mock showToast that we can track
 const mockShowToast = vi.fn();
@@ -67,6 +69,14 @@ vi.mock("./bibliographyStore", () => ({
   clearBibliographyForDocumentSwitch: vi.fn(),
 }));
 
+// Keep the real file handling, but capture what would be downloaded and
+// hand back what would be picked
+vi.mock("./persistence/fileIO", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./persistence/fileIO")>()),
+  exportDocumentToFile: vi.fn(),
+  selectFileForImport: vi.fn(),
+}));
+
 describe("workspaceStore", () => {
   beforeEach(() => {
     // Clear localStorage
@@ -289,6 +299,34 @@ describe("workspaceStore", () => {
         expect(result).toBe("");
       });
     });
+
+    describe("createDocumentFromImport", () => {
+      it("should open the imported graph with the default and imported types", () => {
+        const { createDocumentFromImport } = useWorkspaceStore.getState();
+
+        const documentId = createDocumentFromImport("Partners", {
+          nodeTypes: [{ id: "committee", label: "Committee", color: "#f59e0b", shape: "circle" }],
+          edgeTypes: [],
+          labels: [{ id: "donor", name: "Donor", color: "#ef4444", appliesTo: "actors" }],
+          actors: [
+            { id: "a", type: "custom", position: { x: 0, y: 0 }, data: { label: "Board", type: "committee" } },
+          ],
+          relations: [],
+        });
+
+        const state = useWorkspaceStore.getState();
+        const document = state.documents.get(documentId);
+        const current = document!.timeline.states[document!.timeline.currentStateId];
+        expect(state.activeDocumentId).toBe(documentId);
+        expect(state.documentMetadata.get(documentId)?.title).toBe("Partners");
+        expect(document?.nodeTypes.map((type) => type.id)).toEqual([
+          ...mockNodeTypes.map((type) => type.id),
+          "committee",
+        ]);
+        expect(document?.labels).toHaveLength(1);
+        expect(current.graph.nodes).toMatchObject([{ id: "a", data: { label: "Board" } }]);
+      });
+    });
   });
 
   describe("Document Navigation", () => {
@@ -589,6 +627,61 @@ describe("workspaceStore", () => {
     });
   });
 
+  describe("Node Encoding", () => {
+    it("should save the node encoding in the document", () => {
+      const { createDocument, setDocumentNodeEncoding } = useWorkspaceStore.getState();
+
+      const docId = createDocument("Test");
+      const encoding = { metric: "betweenness" as const, size: true, color: false };
+
+      setDocumentNodeEncoding(docId, encoding);
+
+      expect(useWorkspaceStore.getState().documents.get(docId)?.nodeEncoding).toEqual(encoding);
+      expect(loadDocumentFromStorage(docId)?.nodeEncoding).toEqual(encoding);
+    });
+
+    it("should clear the node encoding", () => {
+      const { createDocument, setDocumentNodeEncoding } = useWorkspaceStore.getState();
+
+      const docId = createDocument("Test");
+      setDocumentNodeEncoding(docId, { metric: "degree", size: true, color: true });
+      setDocumentNodeEncoding(docId, null);
+
+      expect(useWorkspaceStore.getState().documents.get(docId)?.nodeEncoding).toBeUndefined();
+      expect(loadDocumentFromStorage(docId)?.nodeEncoding).toBeUndefined();
+    });
+
+    it("should carry the node encoding into a duplicate", () => {
+      const { createDocument, setDocumentNodeEncoding, duplicateDocument } =
+        useWorkspaceStore.getState();
+
+      const docId = createDocument("Test");
+      setDocumentNodeEncoding(docId, { metric: "pageRank", size: false, color: true });
+      const copyId = duplicateDocument(docId);
+
+      expect(useWorkspaceStore.getState().documents.get(copyId)?.nodeEncoding?.metric).toBe("pageRank");
+    });
+
+    it("should keep the node encoding through an export and import", async () => {
+      const { createDocument, setDocumentNodeEncoding, exportDocument, importDocumentFromFile } =
+        useWorkspaceStore.getState();
+
+      const docId = createDocument("Test");
+      const encoding = { metric: "metadata" as const, metadataKey: "budget", size: true, color: true };
+      setDocumentNodeEncoding(docId, encoding);
+
+      exportDocument(docId);
+      const exported = vi.mocked(exportDocumentToFile).mock.calls[0][0];
+      vi.mocked(selectFileForImport).mockImplementationOnce((onSuccess) =>
+        onSuccess(JSON.parse(JSON.stringify(exported)) as ConstellationDocument)
+      );
+      const importedId = await importDocumentFromFile();
+
+      expect(importedId).not.toBe(docId);
+      expect(useWorkspaceStore.getState().documents.get(importedId!)?.nodeEncoding).toEqual(encoding);
+    });
+  });
+
   describe("Workspace Operations", () => {
     describe("saveWorkspace", () => {
       it("should persist workspace state", () => {
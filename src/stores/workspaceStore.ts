@@ -1,9 +1,17 @@
 import { create } from 'zustand';
 import type { ConstellationDocument } from './persistence/types';
 import type { Workspace, WorkspaceActions, DocumentMetadata, WorkspaceSettings } from './workspace/types';
+import type { NodeEncoding } from '../utils/nodeEncoding';
+import type { ImportedGraph } from '../utils/csvImport';
 import type { Actor, Relation } from '../types';
-import { createDocument as createDocumentHelper } from './workspace/documentUtils';
-import { selectFileForImport, exportDocumentToFile } from './persistence/fileIO';
+import { createDocument as createDocumentHelper, serializeActors, serializeRelations } from './workspace/documentUtils';
+import {
+  selectFileForImport,
+  exportDocumentToFile,
+  exportDocumentToGraphML,
+  exportDocumentToHTML,
+  type DocumentFileFormat,
+} from './persistence/fileIO';
 import {
   generateWorkspaceId,
   generateDocumentId,
@@ -363,6 +371,74 @@ export const useWorkspaceStore = create<Workspace & WorkspaceActions>((set, get)
     return documentId;
   },
 
+  // Create new document holding imported actors and relations
+  createDocumentFromImport: (title: string, graph: ImportedGraph) => {
+    const state = get();
+    const documentId = generateDocumentId();
+    const now = new Date().toISOString();
+
+    // The default types, plus those the import brought along
+    const nodeTypes = [...state.settings.defaultNodeTypes.map(nt => ({ ...nt })), ...graph.nodeTypes];
+    const edgeTypes = [...state.settings.defaultEdgeTypes.map(et => ({ ...et })), ...graph.edgeTypes];
+
+    const newDoc = createDocumentHelper(
+      serializeActors(graph.actors),
+      serializeRelations(graph.relations),
+      nodeTypes,
+      edgeTypes,
+      graph.labels
+    );
+    newDoc.metadata.documentId = documentId;
+    newDoc.metadata.title = title;
+    newDoc.bibliography = {  // Initialize with empty bibliography
+      references: [],
+      metadata: {},
+      settings: { defaultStyle: 'apa', sortOrder: 'author' },
+    };
+
+    const metadata: DocumentMetadata = {
+      id: documentId,
+      title,
+      isDirty: false,
+      lastModified: now,
+    };
+
+    // Save document
+    saveDocumentToStorage(documentId, newDoc);
+    saveDocumentMetadata(documentId, metadata);
+
+    // Load the timeline from the newly created document into timelineStore
+    useTimelineStore.getState().loadTimeline(documentId, newDoc.timeline as unknown as Timeline);
+
+    // Update workspace
+    set((state) => {
+      const newDocuments = new Map(state.documents);
+      newDocuments.set(documentId, newDoc);
+
+      const newMetadata = new Map(state.documentMetadata);
+      newMetadata.set(documentId, metadata);
+
+      const newOrder = [...state.documentOrder, documentId];
+
+      saveWorkspaceState({
+        workspaceId: state.workspaceId,
+        workspaceName: state.workspaceName,
+        documentOrder: newOrder,
+        activeDocumentId: documentId,
+        settings: state.settings,
+      });
+
+      return {
+        documents: newDocuments,
+        documentMetadata: newMetadata,
+        documentOrder: newOrder,
+        activeDocumentId: documentId,
+      };
+    });
+
+    return documentId;
+  },
+
   // Load document from storage (if not already loaded)
   loadDocument: async (documentId: string) => {
     const state = get();
@@ -773,7 +849,7 @@ export const useWorkspaceStore = create<Workspace & WorkspaceActions>((set, get)
   },
 
   // Export document to file
-  exportDocument: (documentId: string) => {
+  exportDocument: (documentId: string, format: DocumentFileFormat = 'json') => {
     const doc = get().documents.get(documentId);
     if (!doc) {
       console.error(`Document ${documentId} not found`);
@@ -811,7 +887,13 @@ export const useWorkspaceStore = create<Workspace & WorkspaceActions>((set, get)
       // Export the complete document with all timeline states.
       // Success is announced by the browser's own download UI; only the
       // failure path needs a toast.
-      exportDocumentToFile(doc);
+      if (format === 'graphml') {
+        exportDocumentToGraphML(doc);
+      } else if (format === 'html') {
+        exportDocumentToHTML(doc);
+      } else {
+        exportDocumentToFile(doc);
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       useToastStore.getState().showToast(`Failed to export document: ${message}`, 'error', 5000);
@@ -1104,6 +1186,19 @@ export const useWorkspaceStore = create<Workspace & WorkspaceActions>((set, get)
     });
   },
 
+  // Set (or clear, with null) the metric encoding of actors on the canvas
+  setDocumentNodeEncoding: (documentId: string, encoding: NodeEncoding | null) => {
+    set((state) => {
+      const doc = state.documents.get(documentId);
+      if (doc) {
+        doc.nodeEncoding = encoding || undefined;
+        saveDocumentToStorage(documentId, doc);
+        return { documents: new Map(state.documents) };
+      }
+      return {};
+    });
+  },
+
   // ============================================================================
   // TYPE MANAGEMENT - DOCUMENT-LEVEL OPERATIONS WITH TRANSACTIONS
   // ============================================================================
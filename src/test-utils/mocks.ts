@@ -1,6 +1,12 @@
 import { vi } from 'vitest';
-import type { ConstellationDocument } from '../stores/persistence/types';
-import type { NodeTypeConfig, EdgeTypeConfig, LabelConfig } from '../types';
+import type {
+  ConstellationDocument,
+  SerializedActor,
+  SerializedGroup,
+  SerializedRelation,
+} from '../stores/persistence/types';
+import type { ConstellationState } from '../types/timeline';
+import type { NodeTypeConfig, EdgeTypeConfig, LabelConfig, ActorData, RelationData, GroupData } from '../types';
 
 /**
  * Test Mocks and Utilities
@@ -72,6 +78,74 @@ export function createMockDocument(overrides?: Partial<ConstellationDocument>):
   };
 }
 
+// Timestamp for fixtures whose dates do not matter
+export const MOCK_TIMESTAMP = '2024-01-01T00:00:00.000Z';
+
+// Create a stored actor: a person labelled with its ID, at the origin
+export function createMockActor(
+  id: string,
+  data: Partial<ActorData> = {},
+  overrides: Partial<SerializedActor> = {}
+): SerializedActor {
+  return {
+    id,
+    type: 'custom',
+    position: { x: 0, y: 0 },
+    data: { label: id, type: 'person', ...data },
+    ...overrides,
+  };
+}
+
+// Create a stored relation of type 'knows'
+export function createMockRelation(
+  id: string,
+  source: string,
+  target: string,
+  data: Partial<RelationData> = {},
+  overrides: Partial<SerializedRelation> = {}
+): SerializedRelation {
+  return {
+    id,
+    source,
+    target,
+    data: { type: 'knows', ...data },
+    ...overrides,
+  };
+}
+
+// Create a stored group labelled with its ID, at the origin
+export function createMockGroup(
+  id: string,
+  actorIds: string[],
+  data: Partial<GroupData> = {},
+  overrides: Partial<SerializedGroup> = {}
+): SerializedGroup {
+  return {
+    id,
+    type: 'group',
+    position: { x: 0, y: 0 },
+    data: { label: id, color: '#fff', actorIds, ...data },
+    ...overrides,
+  };
+}
+
+// Create a timeline state labelled with its ID; the graph is empty unless given
+export function createMockState(
+  id: string,
+  graph: Partial<ConstellationState['graph']> = {},
+  overrides: Partial<ConstellationState> = {}
+): ConstellationState {
+  const createdAt = overrides.createdAt ?? MOCK_TIMESTAMP;
+  return {
+    id,
+    label: id,
+    graph: { nodes: [], edges: [], groups: [], ...graph },
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
 // Mock toast store
 export function mockToastStore() {
   return {
@@ -1,4 +1,5 @@
 import type { SerializedActor, SerializedRelation, SerializedGroup } from '../stores/persistence/types';
+import type { PropagatedElementKind } from '../utils/propagateEdit';
 
 /**
  * Timeline Types
@@ -17,6 +18,8 @@ export interface ConstellationState {
   label: string;              // User-defined label (e.g., "Jan 2024", "Strategy A")
   description?: string;       // Optional detailed description
   parentStateId?: string;     // Parent state (null/undefined = root state)
+  mergedFromStateId?: string; // Second parent, when the state was made by merging two branches
+  locked?: boolean;           // Graph cannot be edited while this is the current state
 
   // Graph snapshot (nodes, edges, and groups - types are global per document)
   graph: {
@@ -70,14 +73,17 @@ export interface TimelineActions {
   setActiveDocument: (documentId: string) => void;
 
   // Create new state
-  createState: (label: string, description?: string, cloneFromCurrent?: boolean) => StateId;
+  createState: (label: string, description?: string, cloneFromCurrent?: boolean, metadata?: ConstellationState['metadata']) => StateId;
 
-  // Switch to different state
-  switchToState: (stateId: StateId, fromTangible?: boolean) => void;
+  // Switch to different state (recordHistory: false leaves no undo entry, for playback)
+  switchToState: (stateId: StateId, fromTangible?: boolean, options?: { recordHistory?: boolean }) => void;
 
   // Update state metadata
   updateState: (stateId: StateId, updates: Partial<Pick<ConstellationState, 'label' | 'description' | 'metadata'>>) => void;
 
+  // Lock or unlock a state against graph edits
+  setStateLocked: (stateId: StateId, locked: boolean) => void;
+
   // Delete state
   deleteState: (stateId: StateId) => boolean;
 
@@ -87,6 +93,20 @@ export interface TimelineActions {
   // Duplicate state as child (series - original becomes parent)
   duplicateStateAsChild: (stateId: StateId, newLabel?: string) => StateId;
 
+  // Create a child of the first state holding the merge of it and a second
+  // state (see utils/stateMerge), and switch to it
+  createMergedState: (stateId: StateId, mergedFromStateId: StateId, graph: ConstellationState['graph'], label: string) => StateId;
+
+  // Copy the given fields of an actor, relation or group as it is in the
+  // editor into other states that contain it (one undo step); locked states
+  // are skipped. Returns how many states were updated
+  propagateElementToStates: (
+    kind: PropagatedElementKind,
+    elementId: string,
+    stateIds: StateId[],
+    fields: string[],
+  ) => number;
+
   // Get state by ID
   getState: (stateId: StateId) => ConstellationState | null;
 
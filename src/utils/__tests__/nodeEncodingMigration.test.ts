@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { migrateDocumentNodeEncoding, type LegacyDocumentMetadata } from '../nodeEncodingMigration';
+import { createMockDocument } from '../../test-utils/mocks';
+
+const metadata = (extra: Partial<LegacyDocumentMetadata> = {}): LegacyDocumentMetadata => ({
+  id: 'doc-1',
+  title: 'Test',
+  isDirty: false,
+  lastModified: '2024-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+describe('migrateDocumentNodeEncoding', () => {
+  it('moves the encoding from the metadata into the document', () => {
+    const document = createMockDocument();
+    const legacy = metadata({ nodeEncoding: { metric: 'degree', size: true, color: false } });
+
+    migrateDocumentNodeEncoding(document, legacy);
+
+    expect(document.nodeEncoding).toEqual({ metric: 'degree', size: true, color: false });
+    expect(legacy.nodeEncoding).toBeUndefined();
+  });
+
+  it('keeps an encoding the document already has', () => {
+    const document = createMockDocument();
+    document.nodeEncoding = { metric: 'pageRank', size: false, color: true };
+    const legacy = metadata({ nodeEncoding: { metric: 'degree', size: true, color: false } });
+
+    migrateDocumentNodeEncoding(document, legacy);
+
+    expect(document.nodeEncoding?.metric).toBe('pageRank');
+    expect(legacy.nodeEncoding).toBeUndefined();
+  });
+
+  it('drops the stale metadata copy when the document is missing', () => {
+    const legacy = metadata({ nodeEncoding: { metric: 'degree', size: true, color: false } });
+
+    migrateDocumentNodeEncoding(null, legacy);
+
+    expect(legacy.nodeEncoding).toBeUndefined();
+  });
+
+  it('leaves documents without a legacy encoding alone', () => {
+    const document = createMockDocument();
+
+    migrateDocumentNodeEncoding(document, metadata());
+
+    expect(document.nodeEncoding).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { actorHistory, hasChanges } from './actorHistory';
+import { createMockActor, createMockRelation, createMockState } from '../test-utils/mocks';
+
+describe('actorHistory', () => {
+  it('lists the states containing the actor, branch by branch', () => {
+    // root ─ a ─ a1
+    //      └ b
+    const states = [
+      createMockState('root', { nodes: [createMockActor('x')] }),
+      createMockState(
+        'b',
+        { nodes: [createMockActor('x')] },
+        { parentStateId: 'root', createdAt: '2024-01-03T00:00:00.000Z' }
+      ),
+      createMockState('a', {}, { parentStateId: 'root', createdAt: '2024-01-02T00:00:00.000Z' }),
+      createMockState(
+        'a1',
+        { nodes: [createMockActor('x')] },
+        { parentStateId: 'a', createdAt: '2024-01-04T00:00:00.000Z' }
+      ),
+    ];
+
+    const history = actorHistory(states, 'root', 'x');
+
+    expect(history.map((entry) => [entry.stateId, entry.previousStateId])).toEqual([
+      ['root', null],
+      ['a1', 'root'], // Skips 'a', which has no 'x'
+      ['b', 'root'],
+    ]);
+  });
+
+  it('describes the actor and its relations in each state', () => {
+    const states = [
+      createMockState(
+        'root',
+        {
+          nodes: [createMockActor('x', { type: 'org', labels: ['l1'] }), createMockActor('y')],
+          edges: [
+            createMockRelation('x-y-knows', 'x', 'y'),
+            createMockRelation('y-x-funds', 'y', 'x', { type: 'funds' }),
+          ],
+        }
+      ),
+    ];
+
+    const [entry] = actorHistory(states, 'root', 'x');
+
+    expect(entry).toMatchObject({ type: 'org', label: 'x', labels: ['l1'], degree: 2, changes: null });
+    expect(entry.relations).toEqual([
+      { key: 'outgoing:knows:y', type: 'knows', direction: 'outgoing', otherActorId: 'y' },
+      { key: 'incoming:funds:y', type: 'funds', direction: 'incoming', otherActorId: 'y' },
+    ]);
+  });
+
+  it('reports what changed since the earlier state', () => {
+    const states = [
+      createMockState(
+        'root',
+        {
+          nodes: [createMockActor('x', { labels: ['l1'] }), createMockActor('y'), createMockActor('z')],
+          edges: [createMockRelation('x-y-knows', 'x', 'y')],
+        }
+      ),
+      createMockState(
+        'next',
+        {
+          nodes: [createMockActor('x', { type: 'org', labels: ['l2'] }), createMockActor('y'), createMockActor('z')],
+          edges: [createMockRelation('x-z-knows', 'x', 'z')],
+        },
+        { parentStateId: 'root' }
+      ),
+    ];
+
+    const [first, second] = actorHistory(states, 'root', 'x');
+
+    expect(hasChanges(first.changes)).toBe(false);
+    expect(second.changes).toEqual({
+      type: true,
+      label: false,
+      labelsAdded: ['l2'],
+      labelsRemoved: ['l1'],
+      degreeChange: 0,
+      relationsAdded: ['outgoing:knows:z'],
+      relationsRemoved: [{ key: 'outgoing:knows:y', type: 'knows', direction: 'outgoing', otherActorId: 'y' }],
+    });
+    expect(hasChanges(second.changes)).toBe(true);
+  });
+
+  it('returns nothing for an unknown root', () => {
+    expect(actorHistory([createMockState('root', { nodes: [createMockActor('x')] })], 'missing', 'x')).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+import { descendantStates, pathToState } from './timelineTree';
+
+/**
+ * Actor History Utilities
+ *
+ * Follows one actor through the timeline: its type, labels and relations in
+ * every state that contains it. Each state is compared with the closest
+ * earlier state on its own branch that contains the actor, so sibling
+ * branches are never compared with each other.
+ */
+
+export interface ActorHistoryRelation {
+  key: string; // Same relation across states: `${direction}:${type}:${otherActorId}`
+  type: string;
+  direction: 'outgoing' | 'incoming';
+  otherActorId: string;
+}
+
+export interface ActorHistoryChanges {
+  type: boolean;
+  label: boolean;
+  labelsAdded: string[];
+  labelsRemoved: string[];
+  degreeChange: number;
+  relationsAdded: string[]; // Relation keys
+  relationsRemoved: ActorHistoryRelation[]; // No longer in this state, so kept whole
+}
+
+export interface ActorHistoryEntry {
+  stateId: StateId;
+  type: string;
+  label: string;
+  labels: string[];
+  degree: number;
+  relations: ActorHistoryRelation[];
+  previousStateId: StateId | null; // The state this one is compared with
+  changes: ActorHistoryChanges | null; // Null where the actor first appears
+}
+
+function actorRelations(graph: ConstellationState['graph'], actorId: string): ActorHistoryRelation[] {
+  return graph.edges
+    .filter((relation) => relation.source === actorId || relation.target === actorId)
+    .map((relation) => {
+      const direction = relation.source === actorId ? 'outgoing' : 'incoming';
+      const otherActorId = direction === 'outgoing' ? relation.target : relation.source;
+      const type = relation.data?.type ?? '';
+      return { key: `${direction}:${type}:${otherActorId}`, type, direction, otherActorId };
+    });
+}
+
+function compareEntries(
+  previous: Omit<ActorHistoryEntry, 'previousStateId' | 'changes'>,
+  current: Omit<ActorHistoryEntry, 'previousStateId' | 'changes'>
+): ActorHistoryChanges {
+  const previousKeys = new Set(previous.relations.map((relation) => relation.key));
+  const currentKeys = new Set(current.relations.map((relation) => relation.key));
+  return {
+    type: previous.type !== current.type,
+    label: previous.label !== current.label,
+    labelsAdded: current.labels.filter((id) => !previous.labels.includes(id)),
+    labelsRemoved: previous.labels.filter((id) => !current.labels.includes(id)),
+    degreeChange: current.degree - previous.degree,
+    relationsAdded: current.relations.filter((r) => !previousKeys.has(r.key)).map((r) => r.key),
+    relationsRemoved: previous.relations.filter((r) => !currentKeys.has(r.key)),
+  };
+}
+
+/**
+ * Whether anything about the actor changed since the state it is compared with
+ */
+export function hasChanges(changes: ActorHistoryChanges | null): boolean {
+  return (
+    !!changes &&
+    (changes.type ||
+      changes.label ||
+      changes.labelsAdded.length > 0 ||
+      changes.labelsRemoved.length > 0 ||
+      changes.degreeChange !== 0 ||
+      changes.relationsAdded.length > 0 ||
+      changes.relationsRemoved.length > 0)
+  );
+}
+
+/**
+ * The actor in every state that contains it, from the root state down,
+ * branch by branch
+ */
+export function actorHistory(
+  states: ConstellationState[],
+  rootStateId: StateId,
+  actorId: string
+): ActorHistoryEntry[] {
+  const root = states.find((state) => state.id === rootStateId);
+  if (!root) return [];
+
+  const ordered = [root, ...descendantStates(states, rootStateId)];
+  const snapshots = new Map<StateId, Omit<ActorHistoryEntry, 'previousStateId' | 'changes'>>();
+  ordered.forEach((state) => {
+    const actor = state.graph.nodes.find((node) => node.id === actorId);
+    if (!actor) return;
+    const relations = actorRelations(state.graph, actorId);
+    snapshots.set(state.id, {
+      stateId: state.id,
+      type: actor.data.type,
+      label: actor.data.label,
+      labels: actor.data.labels ?? [],
+      degree: relations.length,
+      relations,
+    });
+  });
+
+  return ordered.flatMap((state) => {
+    const snapshot = snapshots.get(state.id);
+    if (!snapshot) return [];
+    const previousStateId =
+      pathToState(states, state.id)
+        .slice(0, -1)
+        .reverse()
+        .find((id) => snapshots.has(id)) ?? null;
+    return [
+      {
+        ...snapshot,
+        previousStateId,
+        changes: previousStateId ? compareEntries(snapshots.get(previousStateId)!, snapshot) : null,
+      },
+    ];
+  });
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { calendarTicks, DAY_MS, layoutCalendar, parseStateDate, CALENDAR_NODE_WIDTH } from './calendarLayout';
+import { createMockState } from '../test-utils/mocks';
+
+describe('parseStateDate', () => {
+  it('reads plain and full ISO dates', () => {
+    expect(parseStateDate('2024-03-05')).toBe(Date.UTC(2024, 2, 5));
+    expect(parseStateDate('2024-03-05T12:00:00.000Z')).toBe(Date.UTC(2024, 2, 5, 12));
+  });
+
+  it('returns null for missing or unreadable dates', () => {
+    expect(parseStateDate(undefined)).toBeNull();
+    expect(parseStateDate('')).toBeNull();
+    expect(parseStateDate('someday')).toBeNull();
+  });
+});
+
+describe('layoutCalendar', () => {
+  it('places dated states in date order along the axis', () => {
+    const layout = layoutCalendar([
+      createMockState('late', {}, { metadata: { date: '2024-03-01' } }),
+      createMockState('early', {}, { metadata: { date: '2024-01-01' } }),
+      createMockState('mid', {}, { metadata: { date: '2024-02-01' } }),
+    ]);
+
+    expect(layout.origin).toBe(Date.UTC(2024, 0, 1));
+    expect(layout.positions.get('early')!.x).toBe(0);
+    expect(layout.positions.get('mid')!.x).toBeGreaterThan(0);
+    expect(layout.positions.get('late')!.x).toBeGreaterThan(layout.positions.get('mid')!.x);
+    expect(layout.undatedLaneY).toBeNull();
+  });
+
+  it('keeps distances proportional to time', () => {
+    const layout = layoutCalendar([
+      createMockState('a', {}, { metadata: { date: '2024-01-01' } }),
+      createMockState('b', {}, { metadata: { date: '2024-01-11' } }),
+      createMockState('c', {}, { metadata: { date: '2024-01-31' } }),
+    ]);
+
+    expect(layout.positions.get('b')!.x).toBeCloseTo(10 * layout.pxPerDay);
+    expect(layout.positions.get('c')!.x).toBeCloseTo(30 * layout.pxPerDay);
+  });
+
+  it('stacks states too close to sit side by side', () => {
+    const layout = layoutCalendar([
+      createMockState('a', {}, { metadata: { date: '2020-01-01' } }),
+      createMockState('b', {}, { metadata: { date: '2020-01-01' }, createdAt: '2024-01-02T00:00:00.000Z' }),
+      createMockState('c', {}, { metadata: { date: '2024-01-01' } }),
+    ]);
+
+    expect(layout.positions.get('a')!.y).toBe(0);
+    expect(layout.positions.get('b')!.y).toBeGreaterThan(0);
+    expect(layout.positions.get('c')!.y).toBe(0);
+  });
+
+  it('parks undated states in their own lane below', () => {
+    const layout = layoutCalendar([
+      createMockState('dated', {}, { metadata: { date: '2024-01-01' } }),
+      createMockState('second', {}, { createdAt: '2024-02-01T00:00:00.000Z' }),
+      createMockState('first', {}, { createdAt: '2024-01-01T00:00:00.000Z' }),
+    ]);
+
+    expect(layout.undatedLaneY).toBeGreaterThan(layout.positions.get('dated')!.y);
+    expect(layout.positions.get('first')).toEqual({ x: 0, y: layout.undatedLaneY });
+    expect(layout.positions.get('second')!.x).toBeGreaterThanOrEqual(CALENDAR_NODE_WIDTH);
+  });
+
+  it('starts the undated lane at the top when nothing is dated', () => {
+    const layout = layoutCalendar([
+      createMockState('a'),
+      createMockState('b', {}, { metadata: { date: 'not a date' } }),
+    ]);
+
+    expect(layout.undatedLaneY).toBe(0);
+    expect(layout.positions.size).toBe(2);
+  });
+
+  it('spreads dates wider with the time zoom', () => {
+    const states = [
+      createMockState('a', {}, { metadata: { date: '2024-01-01' } }),
+      createMockState('b', {}, { metadata: { date: '2024-06-01' } }),
+    ];
+
+    expect(layoutCalendar(states, 2).pxPerDay).toBeCloseTo(layoutCalendar(states).pxPerDay * 2);
+  });
+});
+
+describe('calendarTicks', () => {
+  const start = Date.UTC(2024, 0, 1);
+
+  it('shows days when there is room for them', () => {
+    const ticks = calendarTicks(start, start + 3 * DAY_MS, 100);
+
+    expect(ticks.map((tick) => tick.unit)).toEqual(['day', 'day', 'day', 'day']);
+    expect(ticks[0].label).toBe('Jan 1');
+  });
+
+  it('falls back to months, then quarters', () => {
+    const months = calendarTicks(start, Date.UTC(2024, 11, 31), 3);
+    expect(months).toHaveLength(12);
+    expect(months[1]).toMatchObject({ time: Date.UTC(2024, 1, 1), unit: 'month', label: 'Feb 2024' });
+
+    const quarters = calendarTicks(start, Date.UTC(2024, 11, 31), 1);
+    expect(quarters.map((tick) => new Date(tick.time).getUTCMonth())).toEqual([0, 3, 6, 9]);
+  });
+
+  it('falls back to years, skipping some when crowded', () => {
+    const years = calendarTicks(Date.UTC(2000, 0, 1), Date.UTC(2010, 0, 1), 0.2);
+    expect(years.every((tick) => tick.unit === 'year')).toBe(true);
+    expect(years[0].label).toBe('2000');
+
+    const decades = calendarTicks(Date.UTC(1900, 0, 1), Date.UTC(2000, 0, 1), 0.01);
+    expect(decades.map((tick) => tick.label)).toEqual(
+      ['1900', '1920', '1940', '1960', '1980', '2000']
+    );
+  });
+
+  it('only lists ticks inside the range', () => {
+    const ticks = calendarTicks(Date.UTC(2024, 1, 15), Date.UTC(2024, 4, 15), 3);
+
+    expect(ticks.every((tick) => tick.time >= Date.UTC(2024, 1, 15))).toBe(true);
+    expect(ticks[0].label).toBe('Mar 2024');
+  });
+
+  it('returns nothing for an empty range', () => {
+    expect(calendarTicks(start, start, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+
+/**
+ * Calendar layout for the timeline
+ *
+ * Places dated states on a time axis by `metadata.date`, and parks undated
+ * ones in a lane of their own below. States whose dates are too close to sit
+ * side by side are stacked in rows. Dates are read in UTC, which is how the
+ * plain dates of the date picker are parsed.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// States are centred on their date; the widest a state node gets
+export const CALENDAR_NODE_WIDTH = 180;
+const NODE_GAP = 20;
+const ROW_HEIGHT = 90;
+const UNDATED_LANE_GAP = 40;
+
+// Width the dated states are spread over before the time zoom is applied
+const MIN_AXIS_WIDTH = 600;
+const AXIS_WIDTH_PER_STATE = 220;
+
+export interface CalendarLayout {
+  positions: Map<StateId, { x: number; y: number }>; // Centre-top of each state node
+  origin: number; // Time (ms) at x = 0
+  pxPerDay: number; // Horizontal scale of the axis
+  undatedLaneY: number | null; // Top of the undated lane, when there are undated states
+}
+
+/**
+ * The date of a state as a timestamp, or null when it has none (or an unreadable one)
+ */
+export function parseStateDate(date?: string): number | null {
+  if (!date) return null;
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? null : time;
+}
+
+const byCreation = (a: ConstellationState, b: ConstellationState) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Lay states out on the calendar
+ * @param timeZoom - Multiplies the horizontal scale: 2 spreads the same dates twice as wide
+ */
+export function layoutCalendar(states: ConstellationState[], timeZoom = 1): CalendarLayout {
+  const dated = states
+    .map((state) => ({ state, time: parseStateDate(state.metadata?.date) }))
+    .filter((entry): entry is { state: ConstellationState; time: number } => entry.time !== null)
+    .sort((a, b) => a.time - b.time || byCreation(a.state, b.state));
+  const undated = states.filter((state) => parseStateDate(state.metadata?.date) === null).sort(byCreation);
+
+  const positions = new Map<StateId, { x: number; y: number }>();
+  const origin = dated.length > 0 ? dated[0].time : 0;
+  const spanDays = dated.length > 0 ? (dated[dated.length - 1].time - origin) / DAY_MS : 0;
+  const axisWidth = Math.max(MIN_AXIS_WIDTH, dated.length * AXIS_WIDTH_PER_STATE);
+  const pxPerDay = (spanDays > 0 ? axisWidth / spanDays : 1) * timeZoom;
+
+  // Stack states in the first row with room at their date
+  const rowEnds: number[] = [];
+  dated.forEach(({ state, time }) => {
+    const x = ((time - origin) / DAY_MS) * pxPerDay;
+    const left = x - CALENDAR_NODE_WIDTH / 2;
+    let row = rowEnds.findIndex((end) => end <= left);
+    if (row === -1) {
+      row = rowEnds.length;
+      rowEnds.push(0);
+    }
+    rowEnds[row] = x + CALENDAR_NODE_WIDTH / 2 + NODE_GAP;
+    positions.set(state.id, { x, y: row * ROW_HEIGHT });
+  });
+
+  const undatedLaneY = undated.length > 0 ? rowEnds.length * ROW_HEIGHT + (rowEnds.length > 0 ? UNDATED_LANE_GAP : 0) : null;
+  undated.forEach((state, index) => {
+    positions.set(state.id, { x: index * (CALENDAR_NODE_WIDTH + NODE_GAP), y: undatedLaneY! });
+  });
+
+  return { positions, origin, pxPerDay, undatedLaneY };
+}
+
+export type TickUnit = 'day' | 'month' | 'year';
+
+export interface CalendarTick {
+  time: number;
+  label: string;
+  unit: TickUnit;
+}
+
+// Least room between two ticks, in screen pixels
+const MIN_TICK_SPACING = 56;
+const MONTH_STEPS = [1, 3, 6];
+const YEAR_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+const MAX_TICKS = 400;
+
+const formatTick = (time: number, options: Intl.DateTimeFormatOptions) =>
+  new Date(time).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+/**
+ * Ticks for the visible stretch of the axis: days when zoomed in far enough,
+ * then months (or quarters and half years), then years
+ * @param pxPerDay - Screen pixels per day, view zoom included
+ */
+export function calendarTicks(start: number, end: number, pxPerDay: number): CalendarTick[] {
+  const ticks: CalendarTick[] = [];
+  if (!(end > start) || !(pxPerDay > 0)) return ticks;
+
+  if (pxPerDay >= MIN_TICK_SPACING) {
+    let time = Math.floor(start / DAY_MS) * DAY_MS;
+    while (time <= end && ticks.length < MAX_TICKS) {
+      ticks.push({ time, label: formatTick(time, { month: 'short', day: 'numeric' }), unit: 'day' });
+      time += DAY_MS;
+    }
+    return ticks;
+  }
+
+  const monthStep = MONTH_STEPS.find((step) => step * 30 * pxPerDay >= MIN_TICK_SPACING);
+  if (monthStep) {
+    const first = new Date(start);
+    let year = first.getUTCFullYear();
+    let month = Math.floor(first.getUTCMonth() / monthStep) * monthStep;
+    let time = Date.UTC(year, month, 1);
+    while (time <= end && ticks.length < MAX_TICKS) {
+      if (time >= start) {
+        ticks.push({ time, label: formatTick(time, { month: 'short', year: 'numeric' }), unit: 'month' });
+      }
+      month += monthStep;
+      if (month >= 12) {
+        year += 1;
+        month -= 12;
+      }
+      time = Date.UTC(year, month, 1);
+    }
+    return ticks;
+  }
+
+  const yearStep =
+    YEAR_STEPS.find((step) => step * 365 * pxPerDay >= MIN_TICK_SPACING) ?? YEAR_STEPS[YEAR_STEPS.length - 1];
+  let year = Math.floor(new Date(start).getUTCFullYear() / yearStep) * yearStep;
+  let time = Date.UTC(year, 0, 1);
+  while (time <= end && ticks.length < MAX_TICKS) {
+    if (time >= start) ticks.push({ time, label: String(year), unit: 'year' });
+    year += yearStep;
+    time = Date.UTC(year, 0, 1);
+  }
+  return ticks;
+}
@@ -13,7 +13,7 @@ const getLuminance = (r: number, g: number, b: number): number => {
 /**
  * Parses a hex color string to RGB values
  */
-const hexToRgb = (hex: string): { r: number; g: number; b: number } | null => {
+export const hexToRgb = (hex: string): { r: number; g: number; b: number } | null => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   return result
     ? {
@@ -63,3 +63,36 @@ export const adjustColorBrightness = (color: string, percent: number): string =>
 
   return `#${r}${g}${b}`;
 };
+
+/**
+ * Distinct colours for categories with no colour of their own,
+ * such as detected communities
+ */
+export const CATEGORICAL_COLORS = [
+  '#3b82f6', // Blue
+  '#10b981', // Green
+  '#f59e0b', // Orange
+  '#8b5cf6', // Purple
+  '#ec4899', // Pink
+  '#14b8a6', // Teal
+  '#ef4444', // Red
+  '#84cc16', // Lime
+];
+
+/**
+ * Colour for the nth category, cycling once the palette runs out
+ */
+export const getCategoricalColor = (index: number): string =>
+  CATEGORICAL_COLORS[index % CATEGORICAL_COLORS.length];
+
+/**
+ * Converts a hex color to an rgba() string with the given opacity
+ *
+ * @param color - Hex color string
+ * @param alpha - Opacity from 0 to 1
+ */
+export const hexToRgba = (color: string, alpha: number): string => {
+  const rgb = hexToRgb(color);
+  if (!rgb) return color;
+  return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${alpha})`;
+};
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { buildCsvImport, guessActorMapping, guessRelationMapping, parseCsv } from './csvImport';
+import type { Actor } from '../types';
+
+const context = {
+  nodeTypes: [{ id: 'person', label: 'Person', color: '#3b82f6', shape: 'circle' as const }],
+  edgeTypes: [{ id: 'funds', label: 'Funds', color: '#10b981' }],
+  labels: [{ id: 'key', name: 'Key player', color: '#ef4444', appliesTo: 'both' as const }],
+  actors: [] as Actor[],
+};
+
+describe('parseCsv', () => {
+  it('reads quoted cells, doubled quotes and line breaks inside quotes', () => {
+    const table = parseCsv('\uFEFFname,notes\r\n"Smith, Ada","said ""hi""\nthen left"\r\n\r\nBen,\n');
+
+    expect(table.headers).toEqual(['name', 'notes']);
+    expect(table.rows).toEqual([
+      ['Smith, Ada', 'said "hi"\nthen left'],
+      ['Ben', ''],
+    ]);
+  });
+
+  it('detects semicolon and tab separated files', () => {
+    expect(parseCsv('name;type\nAda;Person').rows).toEqual([['Ada', 'Person']]);
+    expect(parseCsv('name\ttype\nAda\tPerson').rows).toEqual([['Ada', 'Person']]);
+  });
+
+  it('refuses a file without a header row', () => {
+    expect(() => parseCsv('\n \n')).toThrow('no header row');
+  });
+});
+
+describe('guessing the column mapping', () => {
+  it('maps actor columns by header and keeps the rest as metadata', () => {
+    expect(guessActorMapping(['ID', 'Name', 'Category', 'Tags', 'Founded'])).toEqual({
+      id: 0,
+      label: 1,
+      type: 2,
+      labels: 3,
+      metadata: [4],
+    });
+  });
+
+  it('maps relation columns by header, or takes the first two as source and target', () => {
+    expect(guessRelationMapping(['from', 'to', 'weight', 'relation_type'])).toEqual({
+      source: 0,
+      target: 1,
+      strength: 2,
+      type: 3,
+    });
+    expect(guessRelationMapping(['Giver', 'Receiver'])).toEqual({ source: 0, target: 1 });
+  });
+});
+
+describe('buildCsvImport', () => {
+  it('creates actors with their fields, matching types and labels by name', () => {
+    const table = parseCsv('name,type,tags,founded\nAda,person,Key player; Donor,1990\nBoard,Committee,,');
+    const result = buildCsvImport({ actors: { table, mapping: guessActorMapping(table.headers) } }, context);
+
+    expect(result.actors.map((actor) => actor.data)).toEqual([
+      { label: 'Ada', type: 'person', labels: ['key', 'donor'], metadata: { founded: '1990' } },
+      { label: 'Board', type: 'committee' },
+    ]);
+    expect(result.nodeTypes).toMatchObject([{ id: 'committee', label: 'Committee' }]);
+    expect(result.labels).toMatchObject([{ id: 'donor', name: 'Donor', appliesTo: 'actors' }]);
+  });
+
+  it('connects relations by ID, then by name, creating actors named only there', () => {
+    const actors = parseCsv('id,name\n1,Ada\n2,Ben');
+    const relations = parseCsv('source,target,type,direction,strength\n1,Ben,Funds,mutual,"2,5"\nBen,Cleo,Advises,,\n,Ada,,,');
+    const result = buildCsvImport(
+      {
+        actors: { table: actors, mapping: guessActorMapping(actors.headers) },
+        relations: { table: relations, mapping: guessRelationMapping(relations.headers) },
+      },
+      context
+    );
+
+    const [ada, ben, cleo] = result.actors;
+    expect(cleo.data).toEqual({ label: 'Cleo', type: 'person' });
+    expect(result.relations).toMatchObject([
+      { source: ada.id, target: ben.id, data: { type: 'funds', directionality: 'bidirectional', strength: 2.5 } },
+      { source: ben.id, target: cleo.id, data: { type: 'advises' } },
+    ]);
+    expect(result.edgeTypes).toMatchObject([{ id: 'advises', label: 'Advises' }]);
+    expect(result.skipped).toEqual(['Relations row 4: no source']);
+  });
+
+  it('uses actors already on the canvas and places new ones below them', () => {
+    const existing: Actor = { id: 'a', type: 'custom', position: { x: 50, y: 300 }, data: { label: 'Ada', type: 'person' } };
+    const table = parseCsv('source,target\nAda,Ben');
+    const result = buildCsvImport(
+      { relations: { table, mapping: guessRelationMapping(table.headers) } },
+      { ...context, actors: [existing] }
+    );
+
+    expect(result.actors.map((actor) => actor.data.label)).toEqual(['Ben']);
+    expect(result.actors[0].position).toEqual({ x: 50, y: 480 });
+    expect(result.relations[0]).toMatchObject({ source: 'a', target: result.actors[0].id });
+  });
+
+  it('skips actor rows without a name or repeating one', () => {
+    const table = parseCsv('name,type\nAda,person\n,person\nada,person');
+    const result = buildCsvImport({ actors: { table, mapping: guessActorMapping(table.headers) } }, context);
+
+    expect(result.actors).toHaveLength(1);
+    expect(result.skipped).toEqual(['Actors row 3: no name', 'Actors row 4: “ada” appears more than once']);
+  });
+});
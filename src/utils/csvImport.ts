@@ -0,0 +1,431 @@
+import type {
+  Actor,
+  EdgeDirectionality,
+  EdgeTypeConfig,
+  LabelConfig,
+  LabelScope,
+  NodeTypeConfig,
+  Relation,
+} from '../types';
+import { generateNodeId } from './nodeUtils';
+import { generateEdgeId } from './edgeUtils';
+import { getCategoricalColor } from './colorUtils';
+
+/**
+ * CSV Import
+ *
+ * Reads a node list and an edge list from spreadsheet exports. The user maps
+ * columns to actor and relation fields; every row becomes an actor or a
+ * relation. Types and labels are matched by name, ignoring case, and the
+ * ones the document lacks are created. Relations find their actors by the
+ * ID column, then by name, then among the actors already on the canvas;
+ * names found nowhere become new actors, so an edge list works on its own.
+ */
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Column index per actor field; undefined leaves the field out */
+export interface ActorColumnMapping {
+  id?: number;
+  label?: number;
+  type?: number;
+  description?: number;
+  labels?: number;
+  metadata: number[]; // Kept under their header as metadata keys
+}
+
+/** Column index per relation field; undefined leaves the field out */
+export interface RelationColumnMapping {
+  source?: number;
+  target?: number;
+  type?: number;
+  directionality?: number;
+  strength?: number;
+  label?: number;
+  labels?: number;
+}
+
+export interface CsvImportInput {
+  actors?: { table: CsvTable; mapping: ActorColumnMapping };
+  relations?: { table: CsvTable; mapping: RelationColumnMapping };
+}
+
+/** What the import goes into */
+export interface CsvImportContext {
+  nodeTypes: NodeTypeConfig[];
+  edgeTypes: EdgeTypeConfig[];
+  labels: LabelConfig[];
+  actors: Actor[];
+}
+
+/** Elements to add, with the types and labels the document lacks */
+export interface ImportedGraph {
+  nodeTypes: NodeTypeConfig[];
+  edgeTypes: EdgeTypeConfig[];
+  labels: LabelConfig[];
+  actors: Actor[];
+  relations: Relation[];
+}
+
+export interface CsvImportResult extends ImportedGraph {
+  skipped: string[]; // One line per row left out, saying why
+}
+
+// Layout grid for the new actors
+const GRID_SPACING = 180;
+
+const DELIMITERS = [',', ';', '\t'];
+
+const DIRECTIONALITY_WORDS: Record<string, EdgeDirectionality> = {
+  directed: 'directed',
+  yes: 'directed',
+  true: 'directed',
+  '1': 'directed',
+  '->': 'directed',
+  undirected: 'undirected',
+  no: 'undirected',
+  false: 'undirected',
+  '0': 'undirected',
+  none: 'undirected',
+  '-': 'undirected',
+  bidirectional: 'bidirectional',
+  mutual: 'bidirectional',
+  both: 'bidirectional',
+  '<->': 'bidirectional',
+};
+
+// Header names recognised for each field, compared after normalizeHeader
+const ACTOR_HEADERS: Record<Exclude<keyof ActorColumnMapping, 'metadata'>, string[]> = {
+  id: ['id', 'key', 'node id', 'actor id'],
+  label: ['label', 'name', 'actor', 'node', 'title'],
+  type: ['type', 'actor type', 'node type', 'category', 'kind'],
+  description: ['description', 'notes', 'note', 'comment'],
+  labels: ['labels', 'tags', 'tag'],
+};
+
+const RELATION_HEADERS: Record<keyof RelationColumnMapping, string[]> = {
+  source: ['source', 'from', 'source id', 'actor 1'],
+  target: ['target', 'to', 'target id', 'actor 2'],
+  type: ['type', 'relation type', 'edge type', 'relation', 'kind'],
+  directionality: ['directionality', 'direction', 'directed'],
+  strength: ['strength', 'weight', 'value'],
+  label: ['label', 'name'],
+  labels: ['labels', 'tags', 'tag'],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+const splitList = (value: string): string[] =>
+  value.split(/[,;|]/).map((item) => item.trim()).filter(Boolean);
+
+const toId = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * The delimiter occurring most often in the header line, outside quotes
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = DELIMITERS.map((delimiter) => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? DELIMITERS[best] : ',';
+}
+
+/**
+ * Parse CSV text into a header row and data rows
+ *
+ * Handles quoted cells with delimiters, doubled quotes and line breaks, the
+ * byte order mark Excel writes, and semicolon or tab separated files.
+ * Empty rows are dropped.
+ *
+ * @throws Error when the text holds no header row
+ */
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  const nonEmpty = rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('The file has no header row');
+  }
+
+  const [headers, ...data] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows: data };
+}
+
+const findColumn = (headers: string[], names: string[], taken: Set<number>): number | undefined => {
+  const normalized = headers.map(normalizeHeader);
+  for (const name of names) {
+    const index = normalized.indexOf(name);
+    if (index !== -1 && !taken.has(index)) return index;
+  }
+  return undefined;
+};
+
+/**
+ * Map actor columns by their headers; the columns left over are kept as metadata
+ */
+export function guessActorMapping(headers: string[]): ActorColumnMapping {
+  const taken = new Set<number>();
+  const mapping: ActorColumnMapping = { metadata: [] };
+  (Object.keys(ACTOR_HEADERS) as (keyof typeof ACTOR_HEADERS)[]).forEach((field) => {
+    const index = findColumn(headers, ACTOR_HEADERS[field], taken);
+    if (index !== undefined) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  });
+  // Without a name column, the first column is most likely the name
+  if (mapping.label === undefined && mapping.id === undefined && headers.length > 0 && !taken.has(0)) {
+    mapping.label = 0;
+    taken.add(0);
+  }
+  mapping.metadata = headers.map((_, index) => index).filter((index) => !taken.has(index) && headers[index]);
+  return mapping;
+}
+
+/**
+ * Map relation columns by their headers, falling back to the first two
+ * columns for source and target
+ */
+export function guessRelationMapping(headers: string[]): RelationColumnMapping {
+  const taken = new Set<number>();
+  const mapping: RelationColumnMapping = {};
+  (Object.keys(RELATION_HEADERS) as (keyof RelationColumnMapping)[]).forEach((field) => {
+    const index = findColumn(headers, RELATION_HEADERS[field], taken);
+    if (index !== undefined) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  });
+  if (mapping.source === undefined && headers.length > 1 && !taken.has(0)) {
+    mapping.source = 0;
+    taken.add(0);
+  }
+  if (mapping.target === undefined && headers.length > 1 && !taken.has(1)) {
+    mapping.target = 1;
+  }
+  return mapping;
+}
+
+/**
+ * Turn mapped CSV rows into actors and relations for the given document
+ *
+ * New actors are laid out on a grid, below any actors already on the canvas.
+ */
+export function buildCsvImport(input: CsvImportInput, context: CsvImportContext): CsvImportResult {
+  const result: CsvImportResult = { nodeTypes: [], edgeTypes: [], labels: [], actors: [], relations: [], skipped: [] };
+
+  const uniqueId = (name: string, taken: { id: string }[]) => {
+    const base = toId(name) || 'type';
+    let id = base;
+    for (let suffix = 2; taken.some((item) => item.id === id); suffix++) id = `${base}-${suffix}`;
+    return id;
+  };
+
+  const nodeTypeFor = (name: string): string => {
+    const all = [...context.nodeTypes, ...result.nodeTypes];
+    const trimmed = name.trim() || (all.length > 0 ? '' : 'Actor');
+    if (!trimmed) return all[0].id;
+    const existing = all.find((type) => sameName(type.label, trimmed) || type.id === trimmed);
+    if (existing) return existing.id;
+    const nodeType: NodeTypeConfig = {
+      id: uniqueId(trimmed, all),
+      label: trimmed,
+      color: getCategoricalColor(all.length),
+      shape: 'circle',
+    };
+    result.nodeTypes.push(nodeType);
+    return nodeType.id;
+  };
+
+  const edgeTypeFor = (name: string): string => {
+    const all = [...context.edgeTypes, ...result.edgeTypes];
+    const trimmed = name.trim() || (all.length > 0 ? '' : 'Relation');
+    if (!trimmed) return all[0].id;
+    const existing = all.find((type) => sameName(type.label, trimmed) || type.id === trimmed);
+    if (existing) return existing.id;
+    const edgeType: EdgeTypeConfig = {
+      id: uniqueId(trimmed, all),
+      label: trimmed,
+      color: getCategoricalColor(all.length),
+      style: 'solid',
+    };
+    result.edgeTypes.push(edgeType);
+    return edgeType.id;
+  };
+
+  const labelsFor = (value: string, scope: Exclude<LabelScope, 'both'>): string[] | undefined => {
+    const names = splitList(value);
+    if (names.length === 0) return undefined;
+    return names.map((name) => {
+      const existing = context.labels.find((label) => sameName(label.name, name));
+      if (existing) return existing.id;
+      let label = result.labels.find((created) => sameName(created.name, name));
+      if (!label) {
+        const all = [...context.labels, ...result.labels];
+        label = { id: uniqueId(name, all), name, color: getCategoricalColor(all.length), appliesTo: scope };
+        result.labels.push(label);
+      } else if (label.appliesTo !== scope) {
+        label.appliesTo = 'both';
+      }
+      return label.id;
+    });
+  };
+
+  // New actors start below the lowest actor already there
+  const origin = context.actors.length > 0
+    ? {
+        x: Math.min(...context.actors.map((actor) => actor.position.x)),
+        y: Math.max(...context.actors.map((actor) => actor.position.y)) + GRID_SPACING,
+      }
+    : { x: 0, y: 0 };
+
+  // Imported actors by their ID cell and by name, for relations to find
+  const byKey = new Map<string, Actor>();
+  const byName = new Map<string, Actor>();
+
+  const addActor = (label: string, type: string, extra: Partial<Actor['data']> = {}): Actor => {
+    const actor: Actor = {
+      id: generateNodeId(),
+      type: 'custom',
+      position: { x: 0, y: 0 },
+      data: { label, type: nodeTypeFor(type), ...extra },
+    };
+    result.actors.push(actor);
+    if (!byName.has(label.toLowerCase())) byName.set(label.toLowerCase(), actor);
+    return actor;
+  };
+
+  if (input.actors) {
+    const { table, mapping } = input.actors;
+    const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] ?? '').trim());
+
+    table.rows.forEach((row, rowIndex) => {
+      const line = rowIndex + 2; // Spreadsheet row number, after the header
+      const key = cell(row, mapping.id);
+      const label = cell(row, mapping.label) || key;
+      if (!label) {
+        result.skipped.push(`Actors row ${line}: no name`);
+        return;
+      }
+      const lookup = (key || label).toLowerCase();
+      if (byKey.has(lookup)) {
+        result.skipped.push(`Actors row ${line}: “${key || label}” appears more than once`);
+        return;
+      }
+
+      const description = cell(row, mapping.description);
+      const labels = labelsFor(cell(row, mapping.labels), 'actors');
+      const metadata = Object.fromEntries(
+        mapping.metadata
+          .map((index) => [table.headers[index], cell(row, index)])
+          .filter(([, value]) => value !== '')
+      );
+      const actor = addActor(label, cell(row, mapping.type), {
+        ...(description && { description }),
+        ...(labels && { labels }),
+        ...(Object.keys(metadata).length > 0 && { metadata }),
+      });
+      byKey.set(lookup, actor);
+    });
+  }
+
+  if (input.relations) {
+    const { table, mapping } = input.relations;
+    const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] ?? '').trim());
+
+    const findActor = (value: string): string => {
+      const lookup = value.toLowerCase();
+      const found =
+        byKey.get(lookup) ??
+        byName.get(lookup) ??
+        context.actors.find((actor) => sameName(actor.data.label, value));
+      if (found) return found.id;
+      // Named only in the relations: becomes an actor of the default type
+      const actor = addActor(value, '');
+      byKey.set(lookup, actor);
+      return actor.id;
+    };
+
+    table.rows.forEach((row, rowIndex) => {
+      const line = rowIndex + 2;
+      const sourceName = cell(row, mapping.source);
+      const targetName = cell(row, mapping.target);
+      if (!sourceName || !targetName) {
+        result.skipped.push(`Relations row ${line}: no ${sourceName ? 'target' : 'source'}`);
+        return;
+      }
+
+      const source = findActor(sourceName);
+      const target = findActor(targetName);
+      const label = cell(row, mapping.label);
+      const directionality = DIRECTIONALITY_WORDS[cell(row, mapping.directionality).toLowerCase()];
+      const strengthCell = cell(row, mapping.strength);
+      const strength = strengthCell === '' ? undefined : Number(strengthCell.replace(',', '.'));
+      const labels = labelsFor(cell(row, mapping.labels), 'relations');
+
+      result.relations.push({
+        id: generateEdgeId(source, target),
+        source,
+        target,
+        type: 'custom',
+        data: {
+          type: edgeTypeFor(cell(row, mapping.type)),
+          ...(label && { label }),
+          ...(directionality && { directionality }),
+          ...(strength !== undefined && Number.isFinite(strength) && { strength }),
+          ...(labels && { labels }),
+        },
+      });
+    });
+  }
+
+  const columns = Math.max(1, Math.ceil(Math.sqrt(result.actors.length)));
+  result.actors.forEach((actor, index) => {
+    actor.position = {
+      x: origin.x + (index % columns) * GRID_SPACING,
+      y: origin.y + Math.floor(index / columns) * GRID_SPACING,
+    };
+  });
+
+  return result;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { actorTable, adjacencyMatrix, dataTables, flattenMetadata, relationTable } from './dataExport';
+import type { ConstellationState } from '../types/timeline';
+import { createMockActor, createMockGroup, createMockRelation, createMockState } from '../test-utils/mocks';
+
+const options = {
+  nodeTypes: [{ id: 'person', label: 'Person', color: '#3b82f6', shape: 'circle' as const }],
+  edgeTypes: [
+    { id: 'funds', label: 'Funds', color: '#10b981' },
+    { id: 'knows', label: 'Knows', color: '#f59e0b', defaultDirectionality: 'undirected' as const },
+  ],
+  labels: [{ id: 'key', name: 'Key player', color: '#ef4444', appliesTo: 'both' as const }],
+};
+
+const graph: ConstellationState['graph'] = {
+  nodes: [
+    createMockActor(
+      'a',
+      {
+        label: 'Ada',
+        labels: ['key'],
+        citations: ['smith2020', 'lee2021'],
+        metadata: { founded: 1990, address: { city: 'Berlin' } },
+      },
+      { position: { x: 10, y: 20 }, parentId: 'g' }
+    ),
+    createMockActor('b', { label: 'Ben' }, { position: { x: 300, y: 0 } }),
+  ],
+  edges: [
+    createMockRelation('e1', 'a', 'b', { type: 'funds', strength: 3 }),
+    createMockRelation('e2', 'a', 'b', { type: 'funds' }),
+    createMockRelation('e3', 'b', 'a', { type: 'knows', strength: 2 }),
+  ],
+  groups: [createMockGroup('g', ['a'], { label: 'Board', color: '#000' }, { position: { x: 100, y: 100 } })],
+};
+
+describe('flattenMetadata', () => {
+  it('turns nested objects into dotted keys and joins lists', () => {
+    expect(flattenMetadata({ a: 1, b: { c: 'x', d: ['y', 'z'] }, e: null, f: true })).toEqual({
+      a: 1,
+      'b.c': 'x',
+      'b.d': 'y, z',
+      f: 'true',
+    });
+  });
+});
+
+describe('actorTable', () => {
+  it('resolves names, keeps citation keys and adds a column per metadata key', () => {
+    const [headers, ada, ben] = actorTable([createMockState('State 1', graph)], options);
+
+    expect(headers).toEqual([
+      'ID', 'Label', 'Type', 'Description', 'Labels', 'Citations', 'Group', 'X', 'Y',
+      'metadata.founded', 'metadata.address.city',
+    ]);
+    expect(ada).toEqual(['a', 'Ada', 'Person', undefined, 'Key player', 'smith2020, lee2021', 'Board', 110, 120, 1990, 'Berlin']);
+    expect(ben.slice(0, 3)).toEqual(['b', 'Ben', 'Person']);
+    expect(ben.slice(-2)).toEqual([undefined, undefined]);
+  });
+
+  it('adds a State column when there are several states', () => {
+    const later = createMockState('State 2', { nodes: graph.nodes.slice(1) });
+    const rows = actorTable([createMockState('State 1', graph), later], options);
+
+    expect(rows[0][0]).toBe('State');
+    expect(rows.slice(1).map((row) => [row[0], row[1]])).toEqual([
+      ['State 1', 'a'],
+      ['State 1', 'b'],
+      ['State 2', 'b'],
+    ]);
+  });
+});
+
+describe('relationTable', () => {
+  it('names both ends and falls back to the type’s directionality', () => {
+    const [headers, , , knows] = relationTable([createMockState('State 1', graph)], options);
+
+    expect(headers.slice(0, 9)).toEqual([
+      'ID', 'Source ID', 'Source', 'Target ID', 'Target', 'Type', 'Directionality', 'Strength', 'Label',
+    ]);
+    expect(knows.slice(0, 8)).toEqual(['e3', 'b', 'Ben', 'a', 'Ada', 'Knows', 'undirected', 2]);
+  });
+});
+
+describe('adjacencyMatrix', () => {
+  it('sums strengths, counting undirected relations both ways', () => {
+    expect(adjacencyMatrix(graph, options.edgeTypes)).toEqual([
+      ['', 'Ada', 'Ben'],
+      ['Ada', 0, 6], // 3 + 1 funding, plus knowing
+      ['Ben', 2, 0],
+    ]);
+  });
+
+  it('tells apart actors sharing a name', () => {
+    const twins = { nodes: [graph.nodes[1], { ...graph.nodes[1], id: 'c' }], edges: [] };
+    expect(adjacencyMatrix(twins, options.edgeTypes)[0]).toEqual(['', 'Ben (b)', 'Ben (c)']);
+  });
+});
+
+describe('dataTables', () => {
+  it('gives each state its own matrix', () => {
+    const tables = dataTables([createMockState('State 1', graph), createMockState('State 2', graph)], options);
+    expect(tables.map((table) => table.name)).toEqual(['Actors', 'Relations', 'Matrix 1 State 1', 'Matrix 2 State 2']);
+    expect(dataTables([createMockState('State 1', graph)], options).map((table) => table.name)).toEqual([
+      'Actors',
+      'Relations',
+      'Adjacency Matrix',
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import JSZip from 'jszip';
+import type { EdgeTypeConfig, LabelConfig, NodeTypeConfig } from '../types';
+import type { ConstellationState } from '../types/timeline';
+import { toCsv, downloadTextFile, type CsvCell } from './reportExport';
+import { buildXlsx } from './xlsx';
+
+/**
+ * Data Export
+ *
+ * Writes the network as tables for statistics in R or Excel: one row per
+ * actor, one row per relation, and an adjacency matrix. Type and label IDs
+ * are resolved to their names, citations are given by their keys, and
+ * metadata is flattened into a column per key.
+ *
+ * Exporting several states puts them all in the same actor and relation
+ * tables, in long format with a State column first, and gives each state
+ * its own matrix.
+ */
+
+export type DataExportFormat = 'csv' | 'xlsx';
+
+export interface DataExportOptions {
+  nodeTypes: NodeTypeConfig[];
+  edgeTypes: EdgeTypeConfig[];
+  labels: LabelConfig[];
+}
+
+export interface DataTable {
+  name: string;
+  rows: CsvCell[][];
+}
+
+// Joins list values (labels, citations) within one cell
+const LIST_SEPARATOR = ', ';
+
+const METADATA_PREFIX = 'metadata.';
+
+/**
+ * Flatten nested metadata into dotted keys; lists are joined, other values
+ * written as they are
+ */
+export function flattenMetadata(metadata: Record<string, unknown> | undefined, prefix = ''): Record<string, CsvCell> {
+  const flat: Record<string, CsvCell> = {};
+  Object.entries(metadata ?? {}).forEach(([key, value]) => {
+    const name = `${prefix}${key}`;
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+      flat[name] = value.map((item) => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(LIST_SEPARATOR);
+    } else if (typeof value === 'object') {
+      Object.assign(flat, flattenMetadata(value as Record<string, unknown>, `${name}.`));
+    } else if (typeof value === 'number') {
+      flat[name] = value;
+    } else {
+      flat[name] = String(value);
+    }
+  });
+  return flat;
+}
+
+/**
+ * Build a table from base columns plus one column per metadata key, in the
+ * order the keys first appear
+ */
+function withMetadata(
+  headers: string[],
+  entries: { cells: CsvCell[]; metadata?: Record<string, unknown> }[]
+): CsvCell[][] {
+  const flattened = entries.map((entry) => flattenMetadata(entry.metadata));
+  const keys: string[] = [];
+  flattened.forEach((values) => Object.keys(values).forEach((key) => keys.includes(key) || keys.push(key)));
+  return [
+    [...headers, ...keys.map((key) => `${METADATA_PREFIX}${key}`)],
+    ...entries.map((entry, index) => [...entry.cells, ...keys.map((key) => flattened[index][key])]),
+  ];
+}
+
+const listNames = (ids: string[] | undefined, names: Map<string, string>): string =>
+  (ids ?? []).map((id) => names.get(id) ?? id).join(LIST_SEPARATOR);
+
+/**
+ * One row per actor in each state, with its canvas position
+ */
+export function actorTable(states: ConstellationState[], options: DataExportOptions): CsvCell[][] {
+  const withState = states.length > 1;
+  const typeNames = new Map(options.nodeTypes.map((type) => [type.id, type.label]));
+  const labelNames = new Map(options.labels.map((label) => [label.id, label.name]));
+
+  const entries = states.flatMap((state) => {
+    const groups = new Map((state.graph.groups ?? []).map((group) => [group.id, group]));
+    return state.graph.nodes.map((actor) => {
+      // Members are placed relative to their group
+      const group = actor.parentId ? groups.get(actor.parentId) : undefined;
+      return {
+        cells: [
+          ...(withState ? [state.label] : []),
+          actor.id,
+          actor.data.label,
+          typeNames.get(actor.data.type) ?? actor.data.type,
+          actor.data.description,
+          listNames(actor.data.labels, labelNames),
+          (actor.data.citations ?? []).join(LIST_SEPARATOR),
+          group?.data.label,
+          Math.round(actor.position.x + (group?.position.x ?? 0)),
+          Math.round(actor.position.y + (group?.position.y ?? 0)),
+        ],
+        metadata: actor.data.metadata,
+      };
+    });
+  });
+
+  return withMetadata(
+    [...(withState ? ['State'] : []), 'ID', 'Label', 'Type', 'Description', 'Labels', 'Citations', 'Group', 'X', 'Y'],
+    entries
+  );
+}
+
+/**
+ * One row per relation in each state, naming both ends
+ */
+export function relationTable(states: ConstellationState[], options: DataExportOptions): CsvCell[][] {
+  const withState = states.length > 1;
+  const edgeTypes = new Map(options.edgeTypes.map((type) => [type.id, type]));
+  const labelNames = new Map(options.labels.map((label) => [label.id, label.name]));
+
+  const entries = states.flatMap((state) => {
+    const actorNames = new Map(state.graph.nodes.map((actor) => [actor.id, actor.data.label]));
+    return state.graph.edges.map((relation) => {
+      const edgeType = relation.data ? edgeTypes.get(relation.data.type) : undefined;
+      return {
+        cells: [
+          ...(withState ? [state.label] : []),
+          relation.id,
+          relation.source,
+          actorNames.get(relation.source),
+          relation.target,
+          actorNames.get(relation.target),
+          edgeType?.label ?? relation.data?.type,
+          relation.data?.directionality ?? edgeType?.defaultDirectionality ?? 'directed',
+          relation.data?.strength,
+          relation.data?.label,
+          listNames(relation.data?.labels, labelNames),
+          (relation.data?.citations ?? []).join(LIST_SEPARATOR),
+        ],
+        metadata: relation.data?.metadata,
+      };
+    });
+  });
+
+  return withMetadata(
+    [
+      ...(withState ? ['State'] : []),
+      'ID',
+      'Source ID',
+      'Source',
+      'Target ID',
+      'Target',
+      'Type',
+      'Directionality',
+      'Strength',
+      'Label',
+      'Labels',
+      'Citations',
+    ],
+    entries
+  );
+}
+
+/**
+ * Adjacency matrix of one state, rows sending and columns receiving
+ *
+ * Each cell sums the strength of the relations between the two actors,
+ * counting a relation without strength as 1. Undirected and bidirectional
+ * relations count both ways. Actors sharing a name are told apart by ID.
+ */
+export function adjacencyMatrix(
+  graph: ConstellationState['graph'],
+  edgeTypes: EdgeTypeConfig[]
+): CsvCell[][] {
+  const actors = graph.nodes;
+  const index = new Map(actors.map((actor, position) => [actor.id, position]));
+  const defaults = new Map(edgeTypes.map((type) => [type.id, type.defaultDirectionality]));
+  const weights = actors.map(() => actors.map(() => 0));
+
+  graph.edges.forEach((relation) => {
+    const from = index.get(relation.source);
+    const to = index.get(relation.target);
+    if (from === undefined || to === undefined) return;
+    const weight = relation.data?.strength ?? 1;
+    const directionality =
+      relation.data?.directionality ?? (relation.data && defaults.get(relation.data.type)) ?? 'directed';
+    weights[from][to] += weight;
+    if (directionality !== 'directed' && from !== to) weights[to][from] += weight;
+  });
+
+  const names = actors.map((actor) => actor.data.label || actor.id);
+  const headings = actors.map((actor, position) =>
+    names.indexOf(names[position]) !== names.lastIndexOf(names[position]) ? `${names[position]} (${actor.id})` : names[position]
+  );
+
+  return [['', ...headings], ...weights.map((row, position) => [headings[position], ...row])];
+}
+
+/**
+ * Every table for the given states: actors, relations, and one matrix per state
+ */
+export function dataTables(states: ConstellationState[], options: DataExportOptions): DataTable[] {
+  return [
+    { name: 'Actors', rows: actorTable(states, options) },
+    { name: 'Relations', rows: relationTable(states, options) },
+    ...states.map((state, position) => ({
+      name: states.length > 1 ? `Matrix ${position + 1} ${state.label}` : 'Adjacency Matrix',
+      rows: adjacencyMatrix(state.graph, options.edgeTypes),
+    })),
+  ];
+}
+
+const toFileName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Download the tables as a workbook, or as a ZIP of CSV files
+ */
+export async function downloadDataTables(tables: DataTable[], format: DataExportFormat, fileName: string): Promise<void> {
+  if (format === 'xlsx') {
+    const blob = await buildXlsx(tables).generateAsync({
+      type: 'blob',
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+    downloadTextFile([blob], fileName, 'xlsx', blob.type);
+    return;
+  }
+
+  const zip = new JSZip();
+  tables.forEach((table) => {
+    // The byte order mark makes Excel read the files as UTF-8
+    zip.file(`${toFileName(table.name)}.csv`, `\uFEFF${toCsv(table.rows)}`);
+  });
+  const blob = await zip.generateAsync({ type: 'blob' });
+  downloadTextFile([blob], fileName, 'zip', 'application/zip');
+}
@@ -5,7 +5,9 @@ import {
   groupParallelEdges,
   generateEdgeId,
   getFloatingEdgeParams,
+  withUnshownRelations,
 } from './edgeUtils';
+import { createMockRelation } from '../test-utils/mocks';
 import type { Relation } from '../types';
 import type { Node } from '@xyflow/react';
 
@@ -383,4 +385,30 @@ describe('edgeUtils', () => {
       // Control points create a slight curve (not necessarily above or below)
     });
   });
+
+  describe('withUnshownRelations', () => {
+    it('keeps relations hidden by the ego view when another relation is edited', () => {
+      const stored = [
+        createMockRelation('r1', 'a', 'b'),
+        createMockRelation('r2', 'b', 'c'),
+        createMockRelation('r3', 'a', 'c'),
+      ];
+      // The ego view leaves r2 off the canvas; r3 gets a new label there
+      const shown = [stored[0], { ...stored[2], data: { type: 'knows', label: 'Old friends' } }];
+
+      const synced = withUnshownRelations(shown, stored);
+
+      expect(synced.map((relation) => relation.id)).toEqual(['r1', 'r2', 'r3']);
+      expect(synced[1]).toBe(stored[1]);
+      expect(synced[2].data?.label).toBe('Old friends');
+    });
+
+    it('adds relations that are only on the canvas at the end', () => {
+      const stored = [createMockRelation('r1', 'a', 'b')];
+
+      const synced = withUnshownRelations([createMockRelation('r2', 'b', 'a'), stored[0]], stored);
+
+      expect(synced.map((relation) => relation.id)).toEqual(['r1', 'r2']);
+    });
+  });
 });
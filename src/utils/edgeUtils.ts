@@ -121,6 +121,21 @@ export function groupParallelEdges(edges: Relation[]): Map<string, EdgeGroup> {
   return parallelGroups;
 }
 
+/**
+ * Relations as the store should have them after a change on the canvas
+ * Relations the canvas leaves out (hidden by the ego view, or inside a
+ * minimized group) stay as the store has them; relations only on the canvas
+ * come last.
+ */
+export function withUnshownRelations(shown: Relation[], stored: Relation[]): Relation[] {
+  const shownById = new Map(shown.map((relation) => [relation.id, relation]));
+  const storedIds = new Set(stored.map((relation) => relation.id));
+  return [
+    ...stored.map((relation) => shownById.get(relation.id) ?? relation),
+    ...shown.filter((relation) => !storedIds.has(relation.id)),
+  ];
+}
+
 /**
  * Calculate intersection point with a circle
  * Returns both the intersection point and the normal vector (outward direction)
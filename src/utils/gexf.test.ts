@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { timelineToGEXF } from './gexf';
+import { createMockActor, createMockRelation, createMockState } from '../test-utils/mocks';
+
+const options = {
+  nodeTypes: [
+    { id: 'person', label: 'Person', color: '#3b82f6', shape: 'circle' as const },
+    { id: 'org', label: 'Organisation', color: '#10b981', shape: 'rectangle' as const },
+  ],
+  edgeTypes: [{ id: 'funds', label: 'Funds', color: '#f59e0b' }],
+  labels: [],
+};
+
+// The lines written for one element, from its opening tag to its closing one
+const element = (gexf: string, tag: string, id: string) =>
+  gexf.slice(gexf.indexOf(`<${tag} id="${id}"`), gexf.indexOf(`</${tag}>`, gexf.indexOf(`<${tag} id="${id}"`)));
+
+describe('timelineToGEXF', () => {
+  it('gives each element spells for the states it is in, counted by position', () => {
+    const gexf = timelineToGEXF(
+      [
+        createMockState('1', { nodes: [createMockActor('a'), createMockActor('b')] }, { label: 'State 1' }),
+        createMockState('2', { nodes: [createMockActor('a')] }, { label: 'State 2' }),
+        createMockState('3', { nodes: [createMockActor('a'), createMockActor('b')] }, { label: 'State 3' }),
+      ],
+      options
+    );
+
+    expect(gexf).toContain('timeformat="integer"');
+    expect(element(gexf, 'node', 'a')).toContain('<spell start="0" end="3"/>');
+    expect(element(gexf, 'node', 'b')).toContain('<spell start="0" end="1"/>');
+    expect(element(gexf, 'node', 'b')).toContain('<spell start="2" end="3"/>');
+  });
+
+  it('ends each numbered spell where the next state begins', () => {
+    const gexf = timelineToGEXF(
+      [
+        createMockState('1', { nodes: [createMockActor('a')] }, { label: 'State 1' }),
+        createMockState('2', { nodes: [createMockActor('a', { type: 'org' })] }, { label: 'State 2' }),
+        createMockState('3', { nodes: [createMockActor('a', { type: 'org' })] }, { label: 'State 3' }),
+      ],
+      options
+    );
+
+    const node = element(gexf, 'node', 'a');
+    expect(node).toContain('<attvalue for="type" value="Person" start="0" end="1"/>');
+    expect(node).toContain('<attvalue for="type" value="Organisation" start="1" end="3"/>');
+    expect(node).toContain('<spell start="0" end="3"/>');
+  });
+
+  it('uses the states’ dates when every state has one and they run forward', () => {
+    const gexf = timelineToGEXF(
+      [
+        createMockState('1', { nodes: [createMockActor('a')] }, { label: 'State 1', metadata: { date: '2024-01-01' } }),
+        createMockState('2', { nodes: [createMockActor('a')] }, { label: 'State 2', metadata: { date: '2024-03-01' } }),
+      ],
+      options
+    );
+
+    expect(gexf).toContain('timeformat="date"');
+    // The first state lasts until the day before the second; the last never ends
+    expect(element(gexf, 'node', 'a')).toContain('<spell start="2024-01-01"/>');
+    expect(gexf).toContain('2024-01-01: State 1; 2024-03-01: State 2');
+  });
+
+  it('falls back to positions when dates are missing or out of order', () => {
+    const undated = timelineToGEXF(
+      [
+        createMockState('1', {}, { label: 'State 1', metadata: { date: '2024-01-01' } }),
+        createMockState('2', {}, { label: 'State 2' }),
+      ],
+      options
+    );
+    const backwards = timelineToGEXF(
+      [
+        createMockState('1', {}, { label: 'State 1', metadata: { date: '2024-03-01' } }),
+        createMockState('2', {}, { label: 'State 2', metadata: { date: '2024-01-01' } }),
+      ],
+      options
+    );
+
+    expect(undated).toContain('timeformat="integer"');
+    expect(backwards).toContain('timeformat="integer"');
+  });
+
+  it('keeps type changes and strengths as dynamic attributes, with the last colour, position and weight', () => {
+    const gexf = timelineToGEXF(
+      [
+        createMockState(
+          '1',
+          {
+            nodes: [createMockActor('a'), createMockActor('b')],
+            edges: [createMockRelation('e', 'a', 'b', { type: 'funds', strength: 1 })],
+          },
+          { label: 'State 1' }
+        ),
+        createMockState(
+          '2',
+          {
+            nodes: [createMockActor('a', { type: 'org' }, { position: { x: 10, y: 20 } }), createMockActor('b')],
+            edges: [createMockRelation('e', 'a', 'b', { type: 'funds', strength: 3 })],
+          },
+          { label: 'State 2' }
+        ),
+      ],
+      options
+    );
+
+    const node = element(gexf, 'node', 'a');
+    expect(node).toContain('<attvalue for="type" value="Person" start="0" end="1"/>');
+    expect(node).toContain('<attvalue for="type" value="Organisation" start="1" end="2"/>');
+    expect(node).toContain('<viz:color r="16" g="185" b="129"/>');
+    expect(node).toContain('<viz:position x="10" y="-20" z="0"/>');
+
+    const edge = element(gexf, 'edge', 'e');
+    expect(edge).toContain('weight="3"');
+    expect(edge).toContain('<attvalue for="strength" value="1" start="0" end="1"/>');
+    expect(edge).toContain('<attvalue for="strength" value="3" start="1" end="2"/>');
+  });
+});
@@ -0,0 +1,227 @@
+import type { EdgeTypeConfig, LabelConfig, NodeTypeConfig } from '../types';
+import type { SerializedActor, SerializedRelation } from '../stores/persistence/types';
+import type { ConstellationState } from '../types/timeline';
+import { parseStateDate } from './calendarLayout';
+import { hexToRgb } from './colorUtils';
+import { escapeXml } from './graphml';
+
+/**
+ * GEXF Export
+ *
+ * GEXF is Gephi's own format and, unlike GraphML, knows about time. A
+ * sequence of timeline states goes out as one dynamic graph: every actor and
+ * relation gets spells, the stretches of the sequence it is present in, and
+ * its type, labels and strength become dynamic attributes, so Gephi's
+ * timeline can play the constellation's development.
+ *
+ * Time is the states' dates when every state has one and they run forward,
+ * otherwise the state's place in the sequence (0, 1, 2, ...). A dated state
+ * lasts until the day before the next one begins, and the last has no end; a
+ * numbered state lasts until the next number, so spells run on without gaps.
+ *
+ * Colours, positions, names and edge weights cannot change over time in
+ * Gephi; they are taken from the last state an element appears in.
+ */
+
+export interface GexfExportOptions {
+  nodeTypes: NodeTypeConfig[];
+  edgeTypes: EdgeTypeConfig[];
+  labels: LabelConfig[];
+  title?: string;
+}
+
+interface TimeScale {
+  format: 'date' | 'integer';
+  starts: string[];
+  ends: (string | undefined)[];
+}
+
+interface Run<T> {
+  from: number;
+  to: number;
+  value: T;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Dates when every state has one and each falls on a later day than the
+ * one before, otherwise positions
+ */
+function timeScale(sequence: ConstellationState[]): TimeScale {
+  const times = sequence.map((state) => parseStateDate(state.metadata?.date));
+  const days = times.map((time) => (time === null ? null : toDay(time)));
+  const dated = days.every((day, index) => day !== null && (index === 0 || day > days[index - 1]!));
+
+  if (dated) {
+    return {
+      format: 'date',
+      starts: days as string[],
+      ends: days.map((_, index) =>
+        index < days.length - 1 ? toDay(Date.parse(days[index + 1]!) - DAY) : undefined
+      ),
+    };
+  }
+  // Each state ends where the next begins; the last ends one step on
+  return {
+    format: 'integer',
+    starts: sequence.map((_, index) => String(index)),
+    ends: sequence.map((_, index) => String(index + 1)),
+  };
+}
+
+/**
+ * Stretches of consecutive states with the same value; undefined means absent
+ */
+function runs<T>(values: (T | undefined)[]): Run<T>[] {
+  const result: Run<T>[] = [];
+  values.forEach((value, index) => {
+    if (value === undefined) return;
+    const last = result[result.length - 1];
+    if (last && last.to === index - 1 && last.value === value) {
+      last.to = index;
+    } else {
+      result.push({ from: index, to: index, value });
+    }
+  });
+  return result;
+}
+
+function lastOf<T>(values: (T | undefined)[]): T {
+  return values.filter((value) => value !== undefined).pop()!;
+}
+
+const vizColor = (color: string | undefined, indent: string): string[] => {
+  const rgb = color ? hexToRgb(color) : null;
+  return rgb ? [`${indent}<viz:color r="${rgb.r}" g="${rgb.g}" b="${rgb.b}"/>`] : [];
+};
+
+/**
+ * Write a sequence of states, in order, as one dynamic GEXF graph
+ */
+export function timelineToGEXF(sequence: ConstellationState[], options: GexfExportOptions): string {
+  const scale = timeScale(sequence);
+  const interval = ({ from, to }: { from: number; to: number }) => {
+    const end = scale.ends[to];
+    return `start="${scale.starts[from]}"${end !== undefined ? ` end="${end}"` : ''}`;
+  };
+
+  const nodeTypes = new Map(options.nodeTypes.map((type) => [type.id, type]));
+  const edgeTypes = new Map(options.edgeTypes.map((type) => [type.id, type]));
+  const labelNames = new Map(options.labels.map((label) => [label.id, label.name]));
+  const listLabels = (ids?: string[]) => ids?.map((id) => labelNames.get(id) ?? id).join(', ') || undefined;
+
+  // Each element as it is in every state of the sequence
+  const actors = new Map<string, ({ actor: SerializedActor; x: number; y: number } | undefined)[]>();
+  const relations = new Map<string, (SerializedRelation | undefined)[]>();
+  sequence.forEach((state, index) => {
+    const groups = new Map((state.graph.groups ?? []).map((group) => [group.id, group]));
+    state.graph.nodes.forEach((actor) => {
+      // Members are placed relative to their group; Gephi gets the canvas position
+      const group = actor.parentId ? groups.get(actor.parentId) : undefined;
+      const states = actors.get(actor.id) ?? new Array(sequence.length).fill(undefined);
+      states[index] = {
+        actor,
+        x: actor.position.x + (group?.position.x ?? 0),
+        y: actor.position.y + (group?.position.y ?? 0),
+      };
+      actors.set(actor.id, states);
+    });
+    state.graph.edges.forEach((relation) => {
+      const states = relations.get(relation.id) ?? new Array(sequence.length).fill(undefined);
+      states[index] = relation;
+      relations.set(relation.id, states);
+    });
+  });
+
+  const attvalues = (attributes: Record<string, (string | number | undefined)[]>, indent: string): string[] => {
+    const lines = Object.entries(attributes).flatMap(([id, values]) =>
+      runs(values).map(
+        (run) => `${indent}  <attvalue for="${id}" value="${escapeXml(String(run.value))}" ${interval(run)}/>`
+      )
+    );
+    return lines.length > 0 ? [`${indent}<attvalues>`, ...lines, `${indent}</attvalues>`] : [];
+  };
+
+  const spells = (presence: unknown[], indent: string): string[] => [
+    `${indent}<spells>`,
+    ...runs(presence.map((value) => (value ? true : undefined))).map(
+      (run) => `${indent}  <spell ${interval(run)}/>`
+    ),
+    `${indent}</spells>`,
+  ];
+
+  const nodeLines = Array.from(actors, ([id, states]) => {
+    const { actor, x, y } = lastOf(states);
+    return [
+      `      <node id="${escapeXml(id)}" label="${escapeXml(actor.data.label || id)}">`,
+      ...attvalues(
+        {
+          type: states.map((entry) => entry && (nodeTypes.get(entry.actor.data.type)?.label ?? entry.actor.data.type)),
+          labels: states.map((entry) => entry && listLabels(entry.actor.data.labels)),
+        },
+        '        '
+      ),
+      ...spells(states, '        '),
+      ...vizColor(nodeTypes.get(actor.data.type)?.color, '        '),
+      // Gephi's y axis points up, the canvas's down
+      `        <viz:position x="${x}" y="${-y}" z="0"/>`,
+      '      </node>',
+    ];
+  }).flat();
+
+  const edgeLines = Array.from(relations, ([id, states]) => {
+    const relation = lastOf(states);
+    const edgeType = relation.data ? edgeTypes.get(relation.data.type) : undefined;
+    const directionality = relation.data?.directionality ?? edgeType?.defaultDirectionality ?? 'directed';
+    return [
+      `      <edge id="${escapeXml(id)}" source="${escapeXml(relation.source)}" target="${escapeXml(relation.target)}" type="${
+        directionality === 'undirected' ? 'undirected' : directionality === 'bidirectional' ? 'mutual' : 'directed'
+      }" weight="${relation.data?.strength ?? 1}"${relation.data?.label ? ` label="${escapeXml(relation.data.label)}"` : ''}>`,
+      ...attvalues(
+        {
+          type: states.map((entry) => entry && (edgeTypes.get(entry.data?.type ?? '')?.label ?? entry.data?.type)),
+          strength: states.map((entry) => entry?.data?.strength),
+          labels: states.map((entry) => entry && listLabels(entry.data?.labels)),
+        },
+        '        '
+      ),
+      ...spells(states, '        '),
+      ...vizColor(edgeType?.color, '        '),
+      '      </edge>',
+    ];
+  }).flat();
+
+  // Gephi shows no state names, so the description says which time is which
+  const key = sequence.map((state, index) => `${scale.starts[index]}: ${state.label}`).join('; ');
+  const description = options.title ? `${options.title}. ${key}` : key;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://gexf.net/1.3 http://gexf.net/1.3/gexf.xsd" version="1.3">',
+    `  <meta lastmodifieddate="${toDay(Date.now())}">`,
+    '    <creator>Constellation Analyzer</creator>',
+    `    <description>${escapeXml(description)}</description>`,
+    '  </meta>',
+    `  <graph mode="dynamic" defaultedgetype="directed" timeformat="${scale.format}" timerepresentation="interval">`,
+    '    <attributes class="node" mode="dynamic">',
+    '      <attribute id="type" title="Type" type="string"/>',
+    '      <attribute id="labels" title="Labels" type="string"/>',
+    '    </attributes>',
+    '    <attributes class="edge" mode="dynamic">',
+    '      <attribute id="type" title="Type" type="string"/>',
+    '      <attribute id="strength" title="Strength" type="double"/>',
+    '      <attribute id="labels" title="Labels" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+    ...nodeLines,
+    '    </nodes>',
+    '    <edges>',
+    ...edgeLines,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    '',
+  ].join('\n');
+}
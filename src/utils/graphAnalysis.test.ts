@@ -0,0 +1,827 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBetweennessCentrality,
+  calculateClosenessCentrality,
+  calculateEigenvectorCentrality,
+  calculatePageRank,
+  calculateActorCentralities,
+  calculateGraphMetrics,
+  rankActorsBy,
+  getRelationDirectionality,
+  getRelationStrength,
+  calculateActorFlows,
+  calculateDirectedDensity,
+  calculateReciprocity,
+  detectCommunities,
+  findShortestPath,
+  findAllPaths,
+  findArticulationPoints,
+  findBridges,
+  calculateCoreNumbers,
+  calculateConstraint,
+  calculateEffectiveSize,
+  calculateBrokerageRoles,
+  calculateActorBrokerage,
+  rankBrokers,
+  buildMixingMatrix,
+  calculateAssortativity,
+  calculateTypeEIIndex,
+  calculateLabelEIIndex,
+  calculateHomophilyReport,
+  findEgoNetwork,
+  calculateTriadCensus,
+  calculateDyadCensus,
+  calculateLocalClustering,
+  calculateStructureReport,
+  TRIAD_TYPES,
+  type TriadType,
+} from './graphAnalysis';
+import type { Actor, Relation, EdgeTypeConfig, LabelConfig } from '../types';
+
+function createActor(id: string, type: string = 'person'): Actor {
+  return {
+    id,
+    type: 'custom',
+    position: { x: 0, y: 0 },
+    data: { type, label: id.toUpperCase() },
+  };
+}
+
+function createRelation(source: string, target: string, data: Partial<Relation['data']> = {}): Relation {
+  return {
+    id: `${source}-${target}`,
+    source,
+    target,
+    type: 'custom',
+    data: { type: 'collaborates', ...data },
+  };
+}
+
+// a - b - c - d - e : a path, with c in the middle
+const pathNodes = ['a', 'b', 'c', 'd', 'e'].map((id) => createActor(id));
+const pathEdges = [
+  createRelation('a', 'b'),
+  createRelation('b', 'c'),
+  createRelation('c', 'd'),
+  createRelation('d', 'e'),
+];
+
+// hub at the centre of four spokes
+const starNodes = ['hub', 's1', 's2', 's3', 's4'].map((id) => createActor(id));
+const starEdges = ['s1', 's2', 's3', 's4'].map((spoke) => createRelation('hub', spoke));
+
+describe('graphAnalysis', () => {
+  describe('calculateBetweennessCentrality', () => {
+    it('gives the hub of a star every shortest path', () => {
+      const betweenness = calculateBetweennessCentrality(starNodes, starEdges);
+
+      expect(betweenness.get('hub')).toBeCloseTo(1);
+      expect(betweenness.get('s1')).toBe(0);
+    });
+
+    it('peaks in the middle of a path and vanishes at the ends', () => {
+      const betweenness = calculateBetweennessCentrality(pathNodes, pathEdges);
+
+      // c lies between 4 of the 6 pairs that exclude it
+      expect(betweenness.get('c')).toBeCloseTo(4 / 6);
+      expect(betweenness.get('b')).toBeCloseTo(3 / 6);
+      expect(betweenness.get('a')).toBe(0);
+    });
+
+    it('splits credit between parallel shortest paths', () => {
+      // a square: a-b-d and a-c-d are equally short
+      const nodes = ['a', 'b', 'c', 'd'].map((id) => createActor(id));
+      const edges = [
+        createRelation('a', 'b'),
+        createRelation('a', 'c'),
+        createRelation('b', 'd'),
+        createRelation('c', 'd'),
+      ];
+      const betweenness = calculateBetweennessCentrality(nodes, edges);
+
+      expect(betweenness.get('b')).toBeCloseTo(betweenness.get('c')!);
+      expect(betweenness.get('b')).toBeCloseTo(0.5 / 3);
+    });
+
+    it('ignores self-loops and relations to missing actors', () => {
+      const edges = [...starEdges, createRelation('hub', 'hub'), createRelation('hub', 'ghost')];
+      const betweenness = calculateBetweennessCentrality(starNodes, edges);
+
+      expect(betweenness.get('hub')).toBeCloseTo(1);
+      expect(betweenness.has('ghost')).toBe(false);
+    });
+  });
+
+  describe('calculateClosenessCentrality', () => {
+    it('rates the hub of a star as reaching everyone in one step', () => {
+      const closeness = calculateClosenessCentrality(starNodes, starEdges);
+
+      expect(closeness.get('hub')).toBeCloseTo(1);
+      expect(closeness.get('s1')).toBeCloseTo(4 / 7);
+    });
+
+    it('does not reward actors for sitting in a small island', () => {
+      const nodes = [...pathNodes, createActor('x'), createActor('y')];
+      const edges = [...pathEdges, createRelation('x', 'y')];
+      const closeness = calculateClosenessCentrality(nodes, edges);
+
+      // x reaches its only neighbour in one step, but only one of six others
+      expect(closeness.get('x')).toBeCloseTo(1 / 6);
+      expect(closeness.get('c')!).toBeGreaterThan(closeness.get('x')!);
+    });
+
+    it('scores isolated actors as zero', () => {
+      const closeness = calculateClosenessCentrality([createActor('a'), createActor('b')], []);
+
+      expect(closeness.get('a')).toBe(0);
+    });
+  });
+
+  describe('calculateEigenvectorCentrality', () => {
+    it('scales the most central actor to 1', () => {
+      const eigenvector = calculateEigenvectorCentrality(starNodes, starEdges);
+
+      expect(eigenvector.get('hub')).toBeCloseTo(1);
+      expect(eigenvector.get('s1')!).toBeLessThan(1);
+      expect(eigenvector.get('s1')).toBeCloseTo(eigenvector.get('s4')!);
+    });
+
+    it('converges on bipartite graphs instead of oscillating', () => {
+      const nodes = ['a', 'b'].map((id) => createActor(id));
+      const eigenvector = calculateEigenvectorCentrality(nodes, [createRelation('a', 'b')]);
+
+      expect(eigenvector.get('a')).toBeCloseTo(1);
+      expect(eigenvector.get('b')).toBeCloseTo(1);
+    });
+
+    it('scores everyone zero when nothing is connected', () => {
+      const eigenvector = calculateEigenvectorCentrality(pathNodes, []);
+
+      pathNodes.forEach((node) => expect(eigenvector.get(node.id)).toBe(0));
+    });
+  });
+
+  describe('calculatePageRank', () => {
+    it('sums to 1 across all actors', () => {
+      const nodes = [...starNodes, createActor('loner')];
+      const ranks = calculatePageRank(nodes, starEdges);
+      const total = Array.from(ranks.values()).reduce((sum, rank) => sum + rank, 0);
+
+      expect(total).toBeCloseTo(1);
+    });
+
+    it('ranks the hub above the spokes', () => {
+      const ranks = calculatePageRank(starNodes, starEdges);
+
+      expect(ranks.get('hub')!).toBeGreaterThan(ranks.get('s1')!);
+    });
+
+    it('returns an empty map for an empty graph', () => {
+      expect(calculatePageRank([], []).size).toBe(0);
+    });
+  });
+
+  describe('rankActorsBy', () => {
+    it('orders by the chosen measure and honours the limit', () => {
+      const centralities = calculateActorCentralities(pathNodes, pathEdges);
+      const ranked = rankActorsBy(centralities, 'betweenness', 2);
+
+      expect(ranked.map((actor) => actor.actorId)).toEqual(['c', 'b']);
+    });
+
+    it('breaks ties by label so the order is stable', () => {
+      const centralities = calculateActorCentralities(starNodes, starEdges);
+      const ranked = rankActorsBy(centralities, 'degree');
+
+      expect(ranked.map((actor) => actor.actorId)).toEqual(['hub', 's1', 's2', 's3', 's4']);
+    });
+  });
+
+  describe('getRelationDirectionality', () => {
+    const edgeTypes: EdgeTypeConfig[] = [
+      { id: 'collaborates', label: 'Collaborates', color: '#000', defaultDirectionality: 'bidirectional' },
+    ];
+
+    it('prefers the relation over its type default', () => {
+      const edge = createRelation('a', 'b', { directionality: 'undirected' });
+
+      expect(getRelationDirectionality(edge, edgeTypes)).toBe('undirected');
+    });
+
+    it('falls back to the type default, then to one-way', () => {
+      expect(getRelationDirectionality(createRelation('a', 'b'), edgeTypes)).toBe('bidirectional');
+      expect(getRelationDirectionality(createRelation('a', 'b'))).toBe('directed');
+    });
+  });
+
+  describe('getRelationStrength', () => {
+    it('treats missing or invalid strength as 1', () => {
+      expect(getRelationStrength(createRelation('a', 'b', { strength: 3 }))).toBe(3);
+      expect(getRelationStrength(createRelation('a', 'b'))).toBe(1);
+      expect(getRelationStrength(createRelation('a', 'b', { strength: NaN }))).toBe(1);
+    });
+  });
+
+  describe('calculateActorFlows', () => {
+    it('separates incoming from outgoing one-way relations', () => {
+      const flows = calculateActorFlows(starNodes, starEdges);
+      const hub = flows.find((flow) => flow.actorId === 'hub')!;
+      const spoke = flows.find((flow) => flow.actorId === 's1')!;
+
+      expect(hub.outDegree).toBe(4);
+      expect(hub.inDegree).toBe(0);
+      expect(spoke.inDegree).toBe(1);
+      expect(spoke.outDegree).toBe(0);
+    });
+
+    it('counts two-way relations in both directions', () => {
+      const nodes = [createActor('a'), createActor('b')];
+      const flows = calculateActorFlows(nodes, [createRelation('a', 'b', { directionality: 'bidirectional' })]);
+
+      expect(flows[1].inDegree).toBe(1);
+      expect(flows[1].outDegree).toBe(1);
+    });
+
+    it('sums strength for the weighted degrees', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b', { strength: 2.5 }), createRelation('c', 'a')];
+      const a = calculateActorFlows(nodes, edges)[0];
+
+      expect(a.weightedOutDegree).toBe(2.5);
+      expect(a.weightedInDegree).toBe(1);
+      expect(a.weightedDegree).toBe(3.5);
+    });
+  });
+
+  describe('calculateDirectedDensity', () => {
+    it('tops out at half for one-way relations in both orders of a pair', () => {
+      const nodes = [createActor('a'), createActor('b')];
+
+      expect(calculateDirectedDensity(nodes, [createRelation('a', 'b')])).toBeCloseTo(0.5);
+      expect(
+        calculateDirectedDensity(nodes, [createRelation('a', 'b', { directionality: 'undirected' })])
+      ).toBeCloseTo(1);
+    });
+
+    it('counts parallel relations only once', () => {
+      const nodes = [createActor('a'), createActor('b')];
+      const edges = [createRelation('a', 'b'), { ...createRelation('a', 'b'), id: 'again' }];
+
+      expect(calculateDirectedDensity(nodes, edges)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('calculateReciprocity', () => {
+    it('is the share of one-way ties that are answered', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('b', 'a'), createRelation('a', 'c')];
+
+      expect(calculateReciprocity(nodes, edges)).toBeCloseTo(2 / 3);
+    });
+
+    it('treats two-way relations as returned and empty graphs as zero', () => {
+      const nodes = [createActor('a'), createActor('b')];
+
+      expect(calculateReciprocity(nodes, [createRelation('a', 'b', { directionality: 'bidirectional' })])).toBe(1);
+      expect(calculateReciprocity(nodes, [])).toBe(0);
+    });
+  });
+
+  describe('detectCommunities', () => {
+    // two triangles joined by a single bridge c-d
+    const barbellNodes = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => createActor(id));
+    const barbellEdges = [
+      createRelation('a', 'b'),
+      createRelation('b', 'c'),
+      createRelation('a', 'c'),
+      createRelation('d', 'e'),
+      createRelation('e', 'f'),
+      createRelation('d', 'f'),
+      createRelation('c', 'd'),
+    ];
+
+    it('splits two triangles joined by a bridge', () => {
+      const { communities, modularity } = detectCommunities(barbellNodes, barbellEdges);
+
+      expect(communities.map((community) => community.actorIds)).toEqual([
+        ['a', 'b', 'c'],
+        ['d', 'e', 'f'],
+      ]);
+      // 2 * (3/7 - (7/14)^2)
+      expect(modularity).toBeCloseTo(5 / 14);
+    });
+
+    it('lets strength pull actors together', () => {
+      // a weak tie inside, a strong tie across: c belongs with d
+      const nodes = ['a', 'b', 'c', 'd'].map((id) => createActor(id));
+      const edges = [
+        createRelation('a', 'b', { strength: 5 }),
+        createRelation('b', 'c', { strength: 0.1 }),
+        createRelation('c', 'd', { strength: 5 }),
+      ];
+      const { communities } = detectCommunities(nodes, edges);
+
+      expect(communities.map((community) => community.actorIds)).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('leaves unconnected actors alone, largest communities first', () => {
+      const nodes = [createActor('loner'), ...barbellNodes];
+      const { communities } = detectCommunities(nodes, barbellEdges);
+
+      expect(communities).toHaveLength(3);
+      expect(communities[2].actorIds).toEqual(['loner']);
+    });
+
+    it('gives every actor its own community when nothing is connected', () => {
+      const { communities, modularity } = detectCommunities(pathNodes, []);
+
+      expect(communities).toHaveLength(5);
+      expect(modularity).toBe(0);
+    });
+  });
+
+  describe('findShortestPath', () => {
+    it('follows the path and lists the relations it crosses', () => {
+      const path = findShortestPath(pathNodes, pathEdges, 'a', 'e');
+
+      expect(path?.actorIds).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(path?.relationIds).toEqual(['a-b', 'b-c', 'c-d', 'd-e']);
+      expect(path?.cost).toBe(4);
+    });
+
+    it('does not walk one-way relations backwards unless told to', () => {
+      expect(findShortestPath(pathNodes, pathEdges, 'e', 'a')).toBeNull();
+      expect(findShortestPath(pathNodes, pathEdges, 'e', 'a', { followDirection: false })?.actorIds).toEqual([
+        'e', 'd', 'c', 'b', 'a',
+      ]);
+    });
+
+    it('walks two-way relations in both directions', () => {
+      const edges = [createRelation('a', 'b', { directionality: 'bidirectional' })];
+
+      expect(findShortestPath(pathNodes, edges, 'b', 'a')?.actorIds).toEqual(['b', 'a']);
+    });
+
+    it('takes a longer, stronger route when preferring strong relations', () => {
+      // a-d directly but weakly, or a-b-d strongly
+      const nodes = ['a', 'b', 'd'].map((id) => createActor(id));
+      const edges = [
+        createRelation('a', 'd', { strength: 0.2 }),
+        createRelation('a', 'b', { strength: 4 }),
+        createRelation('b', 'd', { strength: 4 }),
+      ];
+
+      expect(findShortestPath(nodes, edges, 'a', 'd')?.actorIds).toEqual(['a', 'd']);
+      expect(findShortestPath(nodes, edges, 'a', 'd', { preferStrong: true })?.actorIds).toEqual(['a', 'b', 'd']);
+    });
+  });
+
+  describe('findAllPaths', () => {
+    // a square with a diagonal: a→b→d, a→c→d, a→d
+    const squareNodes = ['a', 'b', 'c', 'd'].map((id) => createActor(id));
+    const squareEdges = [
+      createRelation('a', 'b'),
+      createRelation('b', 'd'),
+      createRelation('a', 'c'),
+      createRelation('c', 'd'),
+      createRelation('a', 'd'),
+    ];
+
+    it('lists every simple path, shortest first', () => {
+      const { paths, truncated } = findAllPaths(squareNodes, squareEdges, 'a', 'd');
+
+      expect(paths.map((path) => path.actorIds.join(''))).toEqual(['ad', 'abd', 'acd']);
+      expect(truncated).toBe(false);
+    });
+
+    it('honours the length limit', () => {
+      const { paths } = findAllPaths(squareNodes, squareEdges, 'a', 'd', { maxLength: 1 });
+
+      expect(paths).toHaveLength(1);
+    });
+
+    it('stops at the path limit and says so', () => {
+      const { paths, truncated } = findAllPaths(squareNodes, squareEdges, 'a', 'd', { limit: 2 });
+
+      expect(paths).toHaveLength(2);
+      expect(truncated).toBe(true);
+    });
+
+    it('keeps the cheapest paths, not the first ones found', () => {
+      // The long way round comes first in the relation list, so it is walked first
+      const nodes = ['a', 'b', 'c', 'd'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('b', 'c'), createRelation('c', 'd'), createRelation('a', 'd')];
+
+      const { paths, truncated } = findAllPaths(nodes, edges, 'a', 'd', { limit: 1 });
+
+      expect(paths.map((path) => path.actorIds.join(''))).toEqual(['ad']);
+      expect(truncated).toBe(true);
+    });
+
+    it('keeps the strongest paths when preferring strong relations', () => {
+      const edges = [
+        createRelation('a', 'b', { strength: 1 }),
+        createRelation('b', 'd', { strength: 1 }),
+        createRelation('a', 'c', { strength: 4 }),
+        createRelation('c', 'd', { strength: 4 }),
+        createRelation('a', 'd', { strength: 1 }),
+      ];
+
+      const { paths } = findAllPaths(squareNodes, edges, 'a', 'd', { preferStrong: true, limit: 2 });
+
+      expect(paths.map((path) => path.actorIds.join(''))).toEqual(['acd', 'ad']);
+    });
+
+    it('never revisits an actor', () => {
+      const { paths } = findAllPaths(squareNodes, squareEdges, 'b', 'c', { followDirection: false, maxLength: 6 });
+
+      expect(paths.map((path) => path.actorIds.join(''))).toEqual(['bac', 'bdc', 'badc', 'bdac']);
+    });
+  });
+
+  describe('findArticulationPoints', () => {
+    it('finds every inner actor of a path', () => {
+      const critical = findArticulationPoints(pathNodes, pathEdges);
+
+      expect(critical.map((actor) => actor.actorId)).toEqual(['b', 'c', 'd']);
+    });
+
+    it('counts the pieces a hub leaves behind', () => {
+      const [hub] = findArticulationPoints(starNodes, starEdges);
+
+      expect(hub.actorId).toBe('hub');
+      expect(hub.splitsInto).toBe(4);
+    });
+
+    it('finds nothing in a cycle', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('b', 'c'), createRelation('c', 'a')];
+
+      expect(findArticulationPoints(nodes, edges)).toEqual([]);
+    });
+  });
+
+  describe('findBridges', () => {
+    it('finds the one relation joining two triangles', () => {
+      const nodes = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => createActor(id));
+      const edges = [
+        createRelation('a', 'b'),
+        createRelation('b', 'c'),
+        createRelation('c', 'a'),
+        createRelation('c', 'd'),
+        createRelation('d', 'e'),
+        createRelation('e', 'f'),
+        createRelation('f', 'd'),
+      ];
+
+      expect(findBridges(nodes, edges)).toEqual(['c-d']);
+    });
+
+    it('does not treat a doubled relation as a bridge', () => {
+      const nodes = [createActor('a'), createActor('b')];
+      const edges = [createRelation('a', 'b'), { ...createRelation('b', 'a'), id: 'again' }];
+
+      expect(findBridges(nodes, edges)).toEqual([]);
+    });
+  });
+
+  describe('calculateCoreNumbers', () => {
+    it('puts a clique with a tail in a higher core than the tail', () => {
+      // a, b, c, d fully connected; e hangs off d
+      const nodes = ['a', 'b', 'c', 'd', 'e'].map((id) => createActor(id));
+      const edges = [
+        createRelation('a', 'b'),
+        createRelation('a', 'c'),
+        createRelation('a', 'd'),
+        createRelation('b', 'c'),
+        createRelation('b', 'd'),
+        createRelation('c', 'd'),
+        createRelation('d', 'e'),
+      ];
+      const cores = calculateCoreNumbers(nodes, edges);
+
+      expect(cores.get('a')).toBe(3);
+      expect(cores.get('d')).toBe(3);
+      expect(cores.get('e')).toBe(1);
+    });
+
+    it('gives unconnected actors core 0', () => {
+      expect(calculateCoreNumbers([createActor('a')], []).get('a')).toBe(0);
+    });
+  });
+
+  describe('calculateConstraint', () => {
+    it('leaves the hub of a star least constrained', () => {
+      const constraint = calculateConstraint(starNodes, starEdges);
+
+      expect(constraint.get('hub')).toBeCloseTo(0.25);
+      expect(constraint.get('s1')).toBeCloseTo(1);
+    });
+
+    it('constrains actors whose contacts know each other', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('b', 'c'), createRelation('c', 'a')];
+
+      // (1/2 + 1/2 * 1/2)^2 for each of two contacts
+      expect(calculateConstraint(nodes, edges).get('a')).toBeCloseTo(1.125);
+    });
+
+    it('has no constraint for actors without relations', () => {
+      expect(calculateConstraint([createActor('a')], []).get('a')).toBeNull();
+    });
+  });
+
+  describe('calculateEffectiveSize', () => {
+    it('counts unconnected contacts in full', () => {
+      expect(calculateEffectiveSize(starNodes, starEdges).get('hub')).toBeCloseTo(4);
+    });
+
+    it('discounts contacts who know each other', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('b', 'c'), createRelation('c', 'a')];
+
+      // 2 contacts - 2 * 1 tie / 2 contacts
+      expect(calculateEffectiveSize(nodes, edges).get('a')).toBeCloseTo(1);
+    });
+  });
+
+  describe('calculateBrokerageRoles', () => {
+    const broker = (sourceType: string, brokerType: string, targetType: string) => {
+      const nodes = [createActor('a', sourceType), createActor('b', brokerType), createActor('c', targetType)];
+      const edges = [createRelation('a', 'b'), createRelation('b', 'c')];
+      return calculateBrokerageRoles(nodes, edges).get('b')!;
+    };
+
+    it('classifies the broker by who shares whose type', () => {
+      expect(broker('x', 'x', 'x').coordinator).toBe(1);
+      expect(broker('x', 'y', 'x').itinerant).toBe(1);
+      expect(broker('x', 'x', 'y').representative).toBe(1);
+      expect(broker('y', 'x', 'x').gatekeeper).toBe(1);
+      expect(broker('x', 'y', 'z').liaison).toBe(1);
+    });
+
+    it('does not count brokerage when the two ends are tied directly', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('b', 'c'), createRelation('a', 'c')];
+
+      expect(calculateBrokerageRoles(nodes, edges).get('b')!.coordinator).toBe(0);
+    });
+
+    it('follows direction', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('b', 'a'), createRelation('b', 'c')];
+
+      expect(calculateBrokerageRoles(nodes, edges).get('b')!.coordinator).toBe(0);
+    });
+  });
+
+  describe('rankBrokers', () => {
+    it('ranks constraint lowest first and skips actors without relations', () => {
+      const nodes = [...starNodes, createActor('loner')];
+      const ranked = rankBrokers(calculateActorBrokerage(nodes, starEdges), 'constraint');
+
+      expect(ranked[0].actorId).toBe('hub');
+      expect(ranked.map((actor) => actor.actorId)).not.toContain('loner');
+    });
+
+    it('skips actors that never play the role', () => {
+      const ranked = rankBrokers(calculateActorBrokerage(pathNodes, pathEdges), 'coordinator');
+
+      expect(ranked.map((actor) => actor.actorId)).toEqual(['b', 'c', 'd']);
+    });
+  });
+
+  describe('homophily', () => {
+    // a, b are people; c, d organisations
+    const mixedNodes = [
+      createActor('a', 'person'),
+      createActor('b', 'person'),
+      createActor('c', 'organization'),
+      createActor('d', 'organization'),
+    ];
+
+    it('counts relations from source type to target type', () => {
+      const matrix = buildMixingMatrix(mixedNodes, [
+        createRelation('a', 'b'),
+        createRelation('a', 'c'),
+        createRelation('a', 'a'),
+        createRelation('a', 'missing'),
+      ]);
+
+      expect(matrix.types).toEqual(['person', 'organization']);
+      expect(matrix.counts).toEqual([
+        [1, 1],
+        [0, 0],
+      ]);
+    });
+
+    it('scores relations only within types as fully assortative', () => {
+      const matrix = buildMixingMatrix(mixedNodes, [createRelation('a', 'b'), createRelation('c', 'd')]);
+
+      expect(calculateAssortativity(matrix)).toBeCloseTo(1);
+    });
+
+    it('scores relations only across types as fully disassortative', () => {
+      const matrix = buildMixingMatrix(mixedNodes, [createRelation('a', 'c'), createRelation('d', 'b')]);
+
+      expect(calculateAssortativity(matrix)).toBeCloseTo(-1);
+    });
+
+    it('leaves assortativity undefined without relations or with a single type', () => {
+      expect(calculateAssortativity(buildMixingMatrix(mixedNodes, []))).toBeNull();
+      expect(calculateAssortativity(buildMixingMatrix(pathNodes, pathEdges))).toBeNull();
+    });
+
+    it('calculates the E-I index across actor types', () => {
+      const ei = calculateTypeEIIndex(mixedNodes, [
+        createRelation('a', 'b'),
+        createRelation('c', 'd'),
+        createRelation('a', 'c'),
+      ]);
+
+      expect(ei.internal).toBe(2);
+      expect(ei.external).toBe(1);
+      expect(ei.index).toBeCloseTo(-1 / 3);
+    });
+
+    it('calculates the E-I index for a label, ignoring relations between non-members', () => {
+      const nodes = mixedNodes.map((node) =>
+        ['a', 'b'].includes(node.id) ? { ...node, data: { ...node.data, labels: ['l1'] } } : node
+      );
+      const ei = calculateLabelEIIndex(
+        nodes,
+        [createRelation('a', 'b'), createRelation('a', 'c'), createRelation('c', 'd')],
+        'l1'
+      );
+
+      expect(ei).toEqual({ labelId: 'l1', memberCount: 2, internal: 1, external: 1, index: 0 });
+    });
+
+    it('reports only labels that apply to actors', () => {
+      const labels: LabelConfig[] = [
+        { id: 'l1', name: 'Funded', color: '#000', appliesTo: 'actors' },
+        { id: 'l2', name: 'Formal', color: '#000', appliesTo: 'relations' },
+        { id: 'l3', name: 'Key', color: '#000', appliesTo: 'both' },
+      ];
+      const report = calculateHomophilyReport(mixedNodes, [createRelation('a', 'c')], labels);
+
+      expect(report.labelEI.map((label) => label.labelId)).toEqual(['l1', 'l3']);
+      expect(report.actorsByType.get('person')).toBe(2);
+      expect(report.relationsByType.get('collaborates')).toBe(1);
+    });
+  });
+
+  describe('findEgoNetwork', () => {
+    it('collects actors within the hop radius, ego first', () => {
+      const network = findEgoNetwork(pathNodes, pathEdges, 'c', 1);
+
+      expect(network.actorIds).toEqual(['c', 'b', 'd']);
+      expect(network.relationIds).toEqual(['b-c', 'c-d']);
+      expect(network.distances.get('b')).toBe(1);
+    });
+
+    it('ignores direction and widens with more hops', () => {
+      const network = findEgoNetwork(pathNodes, pathEdges, 'e', 3);
+
+      expect(network.actorIds).toEqual(['e', 'd', 'c', 'b']);
+      expect(network.relationIds).toEqual(['b-c', 'c-d', 'd-e']);
+    });
+
+    it('keeps relations between two neighbours', () => {
+      const nodes = ['a', 'b', 'c'].map((id) => createActor(id));
+      const edges = [createRelation('a', 'b'), createRelation('a', 'c'), createRelation('b', 'c')];
+
+      expect(findEgoNetwork(nodes, edges, 'a', 1).relationIds).toEqual(['a-b', 'a-c', 'b-c']);
+    });
+
+    it('follows only the given relation types', () => {
+      const edges = [
+        createRelation('a', 'b'),
+        createRelation('b', 'c', { type: 'funds' }),
+        createRelation('c', 'd', { type: 'funds' }),
+      ];
+      const network = findEgoNetwork(pathNodes, edges, 'b', 2, ['funds']);
+
+      expect(network.actorIds).toEqual(['b', 'c', 'd']);
+      expect(network.relationIds).toEqual(['b-c', 'c-d']);
+    });
+
+    it('is empty for an unknown actor', () => {
+      expect(findEgoNetwork(pathNodes, pathEdges, 'missing', 2).actorIds).toEqual([]);
+    });
+  });
+
+  describe('triad census', () => {
+    const abc = ['a', 'b', 'c'].map((id) => createActor(id));
+    const mutual = { directionality: 'bidirectional' as const };
+
+    // Census of three actors, reduced to the one type it contains
+    const typeOf = (edges: Relation[]): TriadType => {
+      const census = calculateTriadCensus(abc, edges);
+      return TRIAD_TYPES.find((type) => census[type] === 1)!;
+    };
+
+    it('classifies each kind of triad', () => {
+      expect(typeOf([])).toBe('003');
+      expect(typeOf([createRelation('a', 'b')])).toBe('012');
+      expect(typeOf([createRelation('a', 'b', mutual)])).toBe('102');
+      expect(typeOf([createRelation('a', 'b'), createRelation('a', 'c')])).toBe('021D');
+      expect(typeOf([createRelation('a', 'c'), createRelation('b', 'c')])).toBe('021U');
+      expect(typeOf([createRelation('a', 'b'), createRelation('b', 'c')])).toBe('021C');
+      expect(typeOf([createRelation('a', 'b', mutual), createRelation('c', 'a')])).toBe('111D');
+      expect(typeOf([createRelation('a', 'b', mutual), createRelation('a', 'c')])).toBe('111U');
+      expect(typeOf([createRelation('a', 'b'), createRelation('b', 'c'), createRelation('a', 'c')])).toBe('030T');
+      expect(typeOf([createRelation('a', 'b'), createRelation('b', 'c'), createRelation('c', 'a')])).toBe('030C');
+      expect(typeOf([createRelation('a', 'b', mutual), createRelation('a', 'c', mutual)])).toBe('201');
+      expect(
+        typeOf([createRelation('a', 'b', mutual), createRelation('c', 'a'), createRelation('c', 'b')])
+      ).toBe('120D');
+      expect(
+        typeOf([createRelation('a', 'b', mutual), createRelation('a', 'c'), createRelation('b', 'c')])
+      ).toBe('120U');
+      expect(
+        typeOf([createRelation('a', 'b', mutual), createRelation('a', 'c'), createRelation('c', 'b')])
+      ).toBe('120C');
+      expect(
+        typeOf([createRelation('a', 'b', mutual), createRelation('a', 'c', mutual), createRelation('b', 'c')])
+      ).toBe('210');
+      expect(
+        typeOf([
+          createRelation('a', 'b', mutual),
+          createRelation('a', 'c', mutual),
+          createRelation('b', 'c', mutual),
+        ])
+      ).toBe('300');
+    });
+
+    it('accounts for every triple of actors', () => {
+      const census = calculateTriadCensus(pathNodes, pathEdges);
+      const total = TRIAD_TYPES.reduce((sum, type) => sum + census[type], 0);
+
+      expect(total).toBe(10); // 5 choose 3
+      expect(census['021C']).toBe(3); // a→b→c, b→c→d, c→d→e
+      expect(census['012']).toBe(6); // each relation with the two actors away from it
+      expect(census['003']).toBe(1); // a, c, e
+    });
+
+    it('counts mutual, one-way and empty pairs', () => {
+      const edges = [createRelation('a', 'b', { directionality: 'undirected' }), createRelation('b', 'c')];
+
+      expect(calculateDyadCensus(abc, edges)).toEqual({ mutual: 1, asymmetric: 1, null: 1 });
+    });
+  });
+
+  describe('clustering', () => {
+    // Triangle a-b-c with a tail c-d
+    const nodes = ['a', 'b', 'c', 'd'].map((id) => createActor(id));
+    const edges = [
+      createRelation('a', 'b'),
+      createRelation('b', 'c'),
+      createRelation('a', 'c'),
+      createRelation('c', 'd'),
+    ];
+
+    it('calculates local clustering per actor', () => {
+      const clustering = calculateLocalClustering(nodes, edges);
+
+      expect(clustering.find((actor) => actor.actorId === 'a')?.clustering).toBe(1);
+      expect(clustering.find((actor) => actor.actorId === 'c')?.clustering).toBeCloseTo(1 / 3);
+      expect(clustering.find((actor) => actor.actorId === 'd')?.clustering).toBeNull();
+    });
+
+    it('reports open and closed triads with global clustering', () => {
+      const report = calculateStructureReport(nodes, edges);
+
+      expect(report.closedTriads).toBe(1);
+      expect(report.openTriads).toBe(2); // a-c-d and b-c-d
+      expect(report.globalClustering).toBeCloseTo(3 / 5);
+      expect(report.averageLocalClustering).toBeCloseTo((1 + 1 + 1 / 3) / 3);
+    });
+
+    it('counts feed-forward loops and cycles from the census', () => {
+      const report = calculateStructureReport(nodes, edges);
+
+      expect(report.feedForwardLoops).toBe(1); // a→b, b→c, a→c
+      expect(report.cycles).toBe(0);
+    });
+
+    it('leaves clustering undefined without connected triples', () => {
+      const report = calculateStructureReport(starNodes.slice(0, 2), starEdges.slice(0, 1));
+
+      expect(report.globalClustering).toBeNull();
+      expect(report.averageLocalClustering).toBeNull();
+    });
+  });
+
+  describe('calculateGraphMetrics', () => {
+    it('includes a centrality entry for every actor', () => {
+      const metrics = calculateGraphMetrics(pathNodes, pathEdges);
+
+      expect(metrics.actorCentralities).toHaveLength(5);
+      expect(metrics.actorCentralities.find((actor) => actor.actorId === 'c')?.degree).toBe(2);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import type { Actor, Relation } from '../types';
+import type { Actor, Relation, EdgeDirectionality, EdgeTypeConfig, LabelConfig } from '../types';
 
 /**
  * Graph Analysis Utilities
@@ -13,6 +13,155 @@ export interface ActorDegree {
   degree: number;
 }
 
+/**
+ * Centrality scores for a single actor.
+ *
+ * All scores except degree are normalised to 0.0 - 1.0 so they can be compared
+ * across documents of different sizes.
+ */
+export interface ActorCentrality {
+  actorId: string;
+  actorLabel: string;
+  degree: number;
+  betweenness: number; // Share of shortest paths between others that pass through this actor
+  closeness: number; // How few steps this actor needs to reach everyone it can reach
+  eigenvector: number; // Connected to actors who are themselves well connected (max = 1)
+  pageRank: number; // Share of attention a random walk spends on this actor (sums to 1)
+}
+
+/**
+ * Direction- and strength-aware connection counts for a single actor.
+ *
+ * Two-way and mutual relations count as flowing both ways, so they add to
+ * both the in- and the out-side of each end.
+ */
+export interface ActorFlow {
+  actorId: string;
+  actorLabel: string;
+  inDegree: number;
+  outDegree: number;
+  weightedInDegree: number;
+  weightedOutDegree: number;
+  weightedDegree: number; // Sum of strength over every relation touching the actor
+}
+
+export interface CriticalActor {
+  actorId: string;
+  actorLabel: string;
+  splitsInto: number; // Pieces its island falls into without it
+}
+
+export type BrokerageRole = 'coordinator' | 'itinerant' | 'representative' | 'gatekeeper' | 'liaison';
+
+export interface ActorBrokerage {
+  actorId: string;
+  actorLabel: string;
+  constraint: number | null; // Burt's constraint; null for actors with no relations
+  effectiveSize: number; // Burt's effective size of the actor's network
+  roles: Record<BrokerageRole, number>; // Gould-Fernandez brokerage counts
+  totalBrokerage: number; // Sum over all roles
+}
+
+export type BrokerageRanking = 'constraint' | 'effectiveSize' | 'totalBrokerage' | BrokerageRole;
+
+/**
+ * The 16 directed triad types (Holland & Leinhardt). The digits count mutual,
+ * asymmetric and null pairs; the letter tells apart triads with the same
+ * counts: D(own), U(p), C(yclic), T(ransitive).
+ */
+export type TriadType =
+  | '003' | '012' | '102' | '021D' | '021U' | '021C' | '111D' | '111U'
+  | '030T' | '030C' | '201' | '120D' | '120U' | '120C' | '210' | '300';
+
+export const TRIAD_TYPES: TriadType[] = [
+  '003', '012', '102', '021D', '021U', '021C', '111D', '111U',
+  '030T', '030C', '201', '120D', '120U', '120C', '210', '300',
+];
+
+export interface DyadCensus {
+  mutual: number; // Pairs tied both ways
+  asymmetric: number; // Pairs tied one way only
+  null: number; // Pairs not tied at all
+}
+
+export interface ActorClustering {
+  actorId: string;
+  actorLabel: string;
+  triangles: number; // Closed triads the actor is part of
+  clustering: number | null; // Share of neighbour pairs that are tied; null with fewer than two neighbours
+}
+
+export interface StructureReport {
+  triadCensus: Record<TriadType, number>;
+  dyadCensus: DyadCensus;
+  feedForwardLoops: number; // Triads of type 030T: A→B, B→C and A→C, nothing back
+  cycles: number; // Triads of type 030C: A→B, B→C and C→A, nothing back
+  closedTriads: number; // Three actors all tied to each other, direction ignored
+  openTriads: number; // Three actors with exactly two of the three ties
+  globalClustering: number | null; // Transitivity: share of connected triples that are closed
+  averageLocalClustering: number | null; // Mean over actors with at least two neighbours
+  localClustering: ActorClustering[];
+}
+
+export interface EgoNetwork {
+  actorIds: string[]; // The ego first, then everyone within reach
+  relationIds: string[]; // Relations of the allowed types between two of those actors
+  distances: Map<string, number>; // Hops from the ego, ignoring direction
+}
+
+export interface MixingMatrix {
+  types: string[]; // Actor type IDs, in the order countActorsByType finds them
+  counts: number[][]; // counts[i][j]: relations drawn from type i to type j
+}
+
+export interface EIIndex {
+  internal: number; // Relations within the group
+  external: number; // Relations crossing its boundary
+  index: number | null; // (E - I) / (E + I), -1 all inward to +1 all outward; null without relations
+}
+
+export interface LabelHomophily extends EIIndex {
+  labelId: string;
+  memberCount: number; // Actors carrying the label
+}
+
+export interface HomophilyReport {
+  actorsByType: Map<string, number>;
+  relationsByType: Map<string, number>;
+  mixingMatrix: MixingMatrix;
+  assortativity: number | null; // -1 to 1; null when it cannot be defined (e.g. one type only)
+  typeEI: EIIndex;
+  labelEI: LabelHomophily[];
+}
+
+export interface Community {
+  actorIds: string[]; // In node order
+}
+
+export interface CommunityDetectionResult {
+  communities: Community[]; // Largest first
+  modularity: number; // -0.5 to 1.0, how much denser communities are inside than chance
+}
+
+export interface ActorPath {
+  actorIds: string[]; // From source to target
+  relationIds: string[]; // One per step
+  cost: number; // Steps, or summed 1/strength when preferring strong relations
+}
+
+export interface PathOptions {
+  edgeTypes?: EdgeTypeConfig[];
+  followDirection?: boolean; // Only walk one-way relations forwards (default: true)
+  preferStrong?: boolean; // Make strong relations cheaper to cross (default: false)
+}
+
+export interface PathSearchResult {
+  paths: ActorPath[]; // Cheapest first
+  truncated: boolean; // More paths exist than were returned
+}
+
+export type CentralityMeasure = 'degree' | 'betweenness' | 'closeness' | 'eigenvector' | 'pageRank';
+
 export interface GraphMetrics {
   // Basic counts
   actorCount: number;
@@ -25,9 +174,26 @@ export interface GraphMetrics {
   // Top actors
   mostConnectedActors: ActorDegree[];
 
+  // Per-actor centrality, in node order
+  actorCentralities: ActorCentrality[];
+
+  // Direction and strength
+  directedDensity: number; // 0.0 to 1.0, counting A→B and B→A as separate ties
+  reciprocity: number; // 0.0 to 1.0, share of directed ties that are returned
+  averageStrength: number; // Mean strength per relation
+  averageWeightedConnections: number; // Mean summed strength per actor
+  actorFlows: ActorFlow[];
+
+  // Structural holes and brokerage
+  actorBrokerage: ActorBrokerage[];
+
   // Graph structure
   isolatedActorCount: number;
   connectedComponentCount: number;
+  criticalActors: CriticalActor[]; // Articulation points, most disruptive first
+  criticalRelationIds: string[]; // Bridges, in relation order
+  coreNumbers: Map<string, number>; // Actor ID -> k-core number
+  maxCoreNumber: number;
 
   // Breakdown by type (optional enhancement)
   actorsByType: Map<string, number>;
@@ -121,6 +287,1248 @@ export function findConnectedComponents(nodes: Actor[], edges: Relation[]): numb
   return componentCount;
 }
 
+/**
+ * Walk the graph depth-first and record, for every actor, when it was reached
+ * and the earliest actor reachable from its subtree without going back along
+ * the relation that led to it (Tarjan's low-link). Parallel relations count
+ * separately, so two relations between the same pair protect each other.
+ */
+function computeLowLinks(nodes: Actor[], edges: Relation[]) {
+  const incident = new Map<string, { neighborId: string; relationId: string }[]>();
+  nodes.forEach(node => incident.set(node.id, []));
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!incident.has(edge.source) || !incident.has(edge.target)) return;
+    incident.get(edge.source)!.push({ neighborId: edge.target, relationId: edge.id });
+    incident.get(edge.target)!.push({ neighborId: edge.source, relationId: edge.id });
+  });
+
+  const discovery = new Map<string, number>();
+  const low = new Map<string, number>();
+  const splitsInto = new Map<string, number>();
+  const bridges = new Set<string>();
+
+  const dfs = (actorId: string, viaRelationId: string | null) => {
+    discovery.set(actorId, discovery.size);
+    low.set(actorId, discovery.get(actorId)!);
+    // A non-root keeps the piece it hangs from; a root starts with none
+    let pieces = viaRelationId === null ? 0 : 1;
+
+    incident.get(actorId)!.forEach(({ neighborId, relationId }) => {
+      if (relationId === viaRelationId) return;
+      if (discovery.has(neighborId)) {
+        low.set(actorId, Math.min(low.get(actorId)!, discovery.get(neighborId)!));
+        return;
+      }
+      dfs(neighborId, relationId);
+      low.set(actorId, Math.min(low.get(actorId)!, low.get(neighborId)!));
+      if (low.get(neighborId)! >= discovery.get(actorId)!) pieces++;
+      if (low.get(neighborId)! > discovery.get(actorId)!) bridges.add(relationId);
+    });
+
+    splitsInto.set(actorId, pieces);
+  };
+
+  nodes.forEach(node => {
+    if (!discovery.has(node.id)) dfs(node.id, null);
+  });
+
+  return { splitsInto, bridges };
+}
+
+/**
+ * Find articulation points: actors whose removal splits their island into
+ * more pieces. Most disruptive first, then by label.
+ */
+export function findArticulationPoints(nodes: Actor[], edges: Relation[]): CriticalActor[] {
+  const { splitsInto } = computeLowLinks(nodes, edges);
+
+  return nodes
+    .filter(node => (splitsInto.get(node.id) || 0) > 1)
+    .map(node => ({
+      actorId: node.id,
+      actorLabel: node.data?.label || node.id,
+      splitsInto: splitsInto.get(node.id)!,
+    }))
+    .sort((a, b) => b.splitsInto - a.splitsInto || a.actorLabel.localeCompare(b.actorLabel));
+}
+
+/**
+ * Find bridges: relations whose removal disconnects their two actors.
+ * Returns relation IDs in the order the relations are given.
+ */
+export function findBridges(nodes: Actor[], edges: Relation[]): string[] {
+  const { bridges } = computeLowLinks(nodes, edges);
+  return edges.filter(edge => bridges.has(edge.id)).map(edge => edge.id);
+}
+
+/**
+ * Calculate k-core numbers (Batagelj-Zaversnik)
+ * An actor's core number is the largest k such that it belongs to a group in
+ * which everyone has at least k relations to others in the group.
+ */
+export function calculateCoreNumbers(nodes: Actor[], edges: Relation[]): Map<string, number> {
+  const adjacency = buildUndirectedAdjacency(nodes, edges);
+  const degree = new Map<string, number>();
+  adjacency.forEach((neighbors, id) => degree.set(id, neighbors.length));
+
+  const cores = new Map<string, number>();
+  const remaining = new Set(adjacency.keys());
+
+  // Repeatedly peel the actor with the fewest remaining relations
+  while (remaining.size > 0) {
+    let next: string | null = null;
+    for (const id of remaining) {
+      if (next === null || degree.get(id)! < degree.get(next)!) next = id;
+    }
+    const current = next!;
+    remaining.delete(current);
+    cores.set(current, degree.get(current)!);
+
+    adjacency.get(current)!.forEach(neighborId => {
+      if (remaining.has(neighborId) && degree.get(neighborId)! > degree.get(current)!) {
+        degree.set(neighborId, degree.get(neighborId)! - 1);
+      }
+    });
+  }
+
+  return cores;
+}
+
+/**
+ * Build an undirected neighbour list for every actor.
+ * Self-loops and parallel relations collapse away - centrality is about who
+ * reaches whom, not how many lines are drawn between them.
+ */
+function buildUndirectedAdjacency(nodes: Actor[], edges: Relation[]): Map<string, string[]> {
+  const sets = new Map<string, Set<string>>();
+  nodes.forEach(node => {
+    sets.set(node.id, new Set());
+  });
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!sets.has(edge.source) || !sets.has(edge.target)) return;
+    sets.get(edge.source)!.add(edge.target);
+    sets.get(edge.target)!.add(edge.source);
+  });
+
+  const adjacency = new Map<string, string[]>();
+  sets.forEach((neighbors, id) => adjacency.set(id, Array.from(neighbors)));
+  return adjacency;
+}
+
+/**
+ * Breadth-first distances from one actor to every actor it can reach
+ */
+function shortestPathLengths(adjacency: Map<string, string[]>, sourceId: string): Map<string, number> {
+  const distances = new Map<string, number>([[sourceId, 0]]);
+  const queue: string[] = [sourceId];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    const distance = distances.get(current)!;
+    (adjacency.get(current) || []).forEach(neighborId => {
+      if (!distances.has(neighborId)) {
+        distances.set(neighborId, distance + 1);
+        queue.push(neighborId);
+      }
+    });
+  }
+
+  return distances;
+}
+
+/**
+ * Calculate betweenness centrality (Brandes' algorithm)
+ * Normalised by the number of actor pairs that do not include the actor,
+ * so 1.0 means every shortest path in the graph runs through it.
+ */
+export function calculateBetweennessCentrality(nodes: Actor[], edges: Relation[]): Map<string, number> {
+  const adjacency = buildUndirectedAdjacency(nodes, edges);
+  const betweenness = new Map<string, number>();
+  nodes.forEach(node => betweenness.set(node.id, 0));
+
+  nodes.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const pathCounts = new Map<string, number>([[source.id, 1]]);
+    const distances = new Map<string, number>([[source.id, 0]]);
+    const queue: string[] = [source.id];
+
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i];
+      stack.push(current);
+      (adjacency.get(current) || []).forEach(neighborId => {
+        if (!distances.has(neighborId)) {
+          distances.set(neighborId, distances.get(current)! + 1);
+          queue.push(neighborId);
+        }
+        if (distances.get(neighborId) === distances.get(current)! + 1) {
+          pathCounts.set(neighborId, (pathCounts.get(neighborId) || 0) + pathCounts.get(current)!);
+          if (!predecessors.has(neighborId)) predecessors.set(neighborId, []);
+          predecessors.get(neighborId)!.push(current);
+        }
+      });
+    }
+
+    // Accumulate dependencies in reverse order of discovery
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      (predecessors.get(current) || []).forEach(predecessorId => {
+        const share = (pathCounts.get(predecessorId)! / pathCounts.get(current)!) *
+          (1 + (dependency.get(current) || 0));
+        dependency.set(predecessorId, (dependency.get(predecessorId) || 0) + share);
+      });
+      if (current !== source.id) {
+        betweenness.set(current, betweenness.get(current)! + (dependency.get(current) || 0));
+      }
+    }
+  });
+
+  // Every undirected pair was counted from both ends
+  const n = nodes.length;
+  const pairCount = ((n - 1) * (n - 2)) / 2;
+  betweenness.forEach((value, id) => {
+    betweenness.set(id, pairCount > 0 ? value / 2 / pairCount : 0);
+  });
+
+  return betweenness;
+}
+
+/**
+ * Calculate closeness centrality
+ * Uses the Wasserman-Faust correction so that actors in small islands are not
+ * rated as central just because their few neighbours are close by.
+ */
+export function calculateClosenessCentrality(nodes: Actor[], edges: Relation[]): Map<string, number> {
+  const adjacency = buildUndirectedAdjacency(nodes, edges);
+  const closeness = new Map<string, number>();
+  const n = nodes.length;
+
+  nodes.forEach(node => {
+    const distances = shortestPathLengths(adjacency, node.id);
+    const reachable = distances.size - 1;
+    let totalDistance = 0;
+    distances.forEach(distance => {
+      totalDistance += distance;
+    });
+
+    if (reachable === 0 || totalDistance === 0 || n <= 1) {
+      closeness.set(node.id, 0);
+      return;
+    }
+
+    closeness.set(node.id, (reachable / totalDistance) * (reachable / (n - 1)));
+  });
+
+  return closeness;
+}
+
+/**
+ * Calculate eigenvector centrality by power iteration
+ * Scaled so the most central actor scores 1.0. Iterates on (A + I) so that
+ * bipartite constellations converge instead of oscillating.
+ */
+export function calculateEigenvectorCentrality(
+  nodes: Actor[],
+  edges: Relation[],
+  maxIterations: number = 100,
+  tolerance: number = 1e-6
+): Map<string, number> {
+  const adjacency = buildUndirectedAdjacency(nodes, edges);
+  let scores = new Map<string, number>();
+  nodes.forEach(node => scores.set(node.id, 1));
+
+  const hasEdges = Array.from(adjacency.values()).some(neighbors => neighbors.length > 0);
+  if (!hasEdges) {
+    nodes.forEach(node => scores.set(node.id, 0));
+    return scores;
+  }
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Map<string, number>();
+    nodes.forEach(node => {
+      let sum = scores.get(node.id)!;
+      adjacency.get(node.id)!.forEach(neighborId => {
+        sum += scores.get(neighborId)!;
+      });
+      next.set(node.id, sum);
+    });
+
+    const max = Math.max(...next.values());
+    next.forEach((value, id) => next.set(id, value / max));
+
+    let change = 0;
+    next.forEach((value, id) => {
+      change += Math.abs(value - scores.get(id)!);
+    });
+    scores = next;
+    if (change < tolerance) break;
+  }
+
+  // An actor with no relations has no neighbours to borrow importance from
+  adjacency.forEach((neighbors, id) => {
+    if (neighbors.length === 0) scores.set(id, 0);
+  });
+
+  return scores;
+}
+
+/**
+ * Calculate PageRank
+ * Relations are walked in both directions. Actors with no relations hand
+ * their share back to everyone equally, so the scores always sum to 1.
+ */
+export function calculatePageRank(
+  nodes: Actor[],
+  edges: Relation[],
+  damping: number = 0.85,
+  maxIterations: number = 100,
+  tolerance: number = 1e-6
+): Map<string, number> {
+  const adjacency = buildUndirectedAdjacency(nodes, edges);
+  const n = nodes.length;
+  let ranks = new Map<string, number>();
+  if (n === 0) return ranks;
+
+  nodes.forEach(node => ranks.set(node.id, 1 / n));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let danglingSum = 0;
+    adjacency.forEach((neighbors, id) => {
+      if (neighbors.length === 0) danglingSum += ranks.get(id)!;
+    });
+
+    const base = (1 - damping) / n + (damping * danglingSum) / n;
+    const next = new Map<string, number>();
+    nodes.forEach(node => next.set(node.id, base));
+
+    adjacency.forEach((neighbors, id) => {
+      if (neighbors.length === 0) return;
+      const share = (damping * ranks.get(id)!) / neighbors.length;
+      neighbors.forEach(neighborId => {
+        next.set(neighborId, next.get(neighborId)! + share);
+      });
+    });
+
+    let change = 0;
+    next.forEach((value, id) => {
+      change += Math.abs(value - ranks.get(id)!);
+    });
+    ranks = next;
+    if (change < tolerance) break;
+  }
+
+  return ranks;
+}
+
+/**
+ * Calculate every centrality measure for every actor
+ */
+export function calculateActorCentralities(nodes: Actor[], edges: Relation[]): ActorCentrality[] {
+  const degrees = calculateActorDegrees(nodes, edges);
+  const betweenness = calculateBetweennessCentrality(nodes, edges);
+  const closeness = calculateClosenessCentrality(nodes, edges);
+  const eigenvector = calculateEigenvectorCentrality(nodes, edges);
+  const pageRank = calculatePageRank(nodes, edges);
+
+  return degrees.map(actor => ({
+    actorId: actor.actorId,
+    actorLabel: actor.actorLabel,
+    degree: actor.degree,
+    betweenness: betweenness.get(actor.actorId) || 0,
+    closeness: closeness.get(actor.actorId) || 0,
+    eigenvector: eigenvector.get(actor.actorId) || 0,
+    pageRank: pageRank.get(actor.actorId) || 0,
+  }));
+}
+
+/**
+ * Rank actors by one centrality measure, highest first
+ * Ties keep label order so the ranking does not jump around between renders.
+ */
+export function rankActorsBy(
+  centralities: ActorCentrality[],
+  measure: CentralityMeasure,
+  limit?: number
+): ActorCentrality[] {
+  const ranked = [...centralities].sort(
+    (a, b) => b[measure] - a[measure] || a.actorLabel.localeCompare(b.actorLabel)
+  );
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
+
+/**
+ * Resolve a relation's directionality the same way the canvas draws it:
+ * its own setting, then its type's default, then one-way.
+ */
+export function getRelationDirectionality(
+  edge: Relation,
+  edgeTypes: EdgeTypeConfig[] = []
+): EdgeDirectionality {
+  if (edge.data?.directionality) return edge.data.directionality;
+  const edgeType = edgeTypes.find(et => et.id === edge.data?.type);
+  return edgeType?.defaultDirectionality || 'directed';
+}
+
+/**
+ * A relation's strength, or 1 when none has been recorded
+ */
+export function getRelationStrength(edge: Relation): number {
+  const strength = edge.data?.strength;
+  return typeof strength === 'number' && Number.isFinite(strength) ? strength : 1;
+}
+
+/**
+ * Calculate in-, out- and strength-weighted degree for each actor
+ */
+export function calculateActorFlows(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): ActorFlow[] {
+  const flows = new Map<string, ActorFlow>();
+  nodes.forEach(node => {
+    flows.set(node.id, {
+      actorId: node.id,
+      actorLabel: node.data?.label || node.id,
+      inDegree: 0,
+      outDegree: 0,
+      weightedInDegree: 0,
+      weightedOutDegree: 0,
+      weightedDegree: 0,
+    });
+  });
+
+  edges.forEach(edge => {
+    const source = flows.get(edge.source);
+    const target = flows.get(edge.target);
+    const strength = getRelationStrength(edge);
+    const flowsBothWays = getRelationDirectionality(edge, edgeTypes) !== 'directed';
+
+    if (source) {
+      source.outDegree += 1;
+      source.weightedOutDegree += strength;
+      source.weightedDegree += strength;
+      if (flowsBothWays) {
+        source.inDegree += 1;
+        source.weightedInDegree += strength;
+      }
+    }
+    if (target) {
+      target.inDegree += 1;
+      target.weightedInDegree += strength;
+      target.weightedDegree += strength;
+      if (flowsBothWays) {
+        target.outDegree += 1;
+        target.weightedOutDegree += strength;
+      }
+    }
+  });
+
+  return nodes.map(node => flows.get(node.id)!);
+}
+
+/**
+ * Collect the distinct ordered actor pairs (A→B) that the relations establish.
+ * Two-way and mutual relations establish both A→B and B→A.
+ */
+function collectDirectedTies(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[]
+): Set<string> {
+  const actorIds = new Set(nodes.map(node => node.id));
+  const ties = new Set<string>();
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!actorIds.has(edge.source) || !actorIds.has(edge.target)) return;
+    ties.add(`${edge.source}->${edge.target}`);
+    if (getRelationDirectionality(edge, edgeTypes) !== 'directed') {
+      ties.add(`${edge.target}->${edge.source}`);
+    }
+  });
+
+  return ties;
+}
+
+/**
+ * Calculate direction-aware density
+ * Density = distinct_directed_ties / (n * (n - 1))
+ *
+ * Unlike calculateDensity, A→B and B→A are separate possible ties, so a graph
+ * drawn entirely with one-way relations can reach at most 50%.
+ */
+export function calculateDirectedDensity(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): number {
+  const n = nodes.length;
+  if (n <= 1) return 0;
+  return collectDirectedTies(nodes, edges, edgeTypes).size / (n * (n - 1));
+}
+
+/**
+ * Calculate reciprocity
+ * Share of directed ties A→B for which B→A also exists. Two-way and mutual
+ * relations are reciprocated by definition.
+ */
+export function calculateReciprocity(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): number {
+  const ties = collectDirectedTies(nodes, edges, edgeTypes);
+  if (ties.size === 0) return 0;
+
+  let reciprocated = 0;
+  ties.forEach(tie => {
+    const [source, target] = tie.split('->');
+    if (ties.has(`${target}->${source}`)) reciprocated++;
+  });
+
+  return reciprocated / ties.size;
+}
+
+/**
+ * Weighted, undirected graph over integer indices, as Louvain works on it.
+ * Self-loop weight stands for relations folded inside an aggregated node.
+ */
+interface LouvainGraph {
+  neighbors: Map<number, number>[];
+  selfLoops: number[];
+}
+
+/**
+ * One Louvain level: move each node into the neighbouring community with the
+ * best modularity gain until nothing moves. Returns a community index per node.
+ */
+function louvainLocalMoves(graph: LouvainGraph, totalWeight: number): number[] {
+  const n = graph.selfLoops.length;
+  const degrees = graph.neighbors.map((neighbors, i) => {
+    let degree = 2 * graph.selfLoops[i];
+    neighbors.forEach(weight => (degree += weight));
+    return degree;
+  });
+  const community = degrees.map((_, i) => i);
+  const communityTotals = [...degrees];
+
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (let i = 0; i < n; i++) {
+      const current = community[i];
+      communityTotals[current] -= degrees[i];
+
+      // Weight from i into each neighbouring community
+      const weightTo = new Map<number, number>([[current, 0]]);
+      graph.neighbors[i].forEach((weight, j) => {
+        weightTo.set(community[j], (weightTo.get(community[j]) || 0) + weight);
+      });
+
+      // Gain of joining c, up to a constant: k_i,in - tot_c * k_i / 2m.
+      // Staying put wins ties so the pass terminates.
+      let best = current;
+      let bestGain = weightTo.get(current)! - (communityTotals[current] * degrees[i]) / totalWeight;
+      weightTo.forEach((weight, c) => {
+        const gain = weight - (communityTotals[c] * degrees[i]) / totalWeight;
+        if (gain > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain;
+        }
+      });
+
+      communityTotals[best] += degrees[i];
+      if (best !== current) {
+        community[i] = best;
+        moved = true;
+      }
+    }
+  }
+
+  return community;
+}
+
+/**
+ * Modularity of a partition: the share of relation weight falling inside
+ * communities, minus the share expected if relations were placed at random.
+ */
+function calculateModularity(graph: LouvainGraph, community: number[], totalWeight: number): number {
+  if (totalWeight === 0) return 0;
+  const inside = new Map<number, number>();
+  const totals = new Map<number, number>();
+
+  graph.neighbors.forEach((neighbors, i) => {
+    const c = community[i];
+    let degree = 2 * graph.selfLoops[i];
+    let internal = 2 * graph.selfLoops[i];
+    neighbors.forEach((weight, j) => {
+      degree += weight;
+      if (community[j] === c) internal += weight;
+    });
+    totals.set(c, (totals.get(c) || 0) + degree);
+    inside.set(c, (inside.get(c) || 0) + internal);
+  });
+
+  let modularity = 0;
+  totals.forEach((total, c) => {
+    modularity += inside.get(c)! / totalWeight - Math.pow(total / totalWeight, 2);
+  });
+  return modularity;
+}
+
+/**
+ * Detect communities with the Louvain method
+ * Relations are treated as undirected and weighted by strength; self-loops,
+ * relations to missing actors and relations without positive strength are
+ * ignored. Nodes are visited in order, so the same graph always gives the same
+ * communities. Unconnected actors each end up in a community of their own.
+ */
+export function detectCommunities(nodes: Actor[], edges: Relation[]): CommunityDetectionResult {
+  const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+  const original: LouvainGraph = {
+    neighbors: nodes.map(() => new Map<number, number>()),
+    selfLoops: nodes.map(() => 0),
+  };
+
+  edges.forEach(edge => {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    const strength = getRelationStrength(edge);
+    if (source === undefined || target === undefined || source === target || strength <= 0) return;
+    original.neighbors[source].set(target, (original.neighbors[source].get(target) || 0) + strength);
+    original.neighbors[target].set(source, (original.neighbors[target].get(source) || 0) + strength);
+  });
+
+  // 2m: every relation counted from both ends
+  let totalWeight = 0;
+  original.neighbors.forEach(neighbors => neighbors.forEach(weight => (totalWeight += weight)));
+
+  // membership[i] is the aggregated node that original actor i currently sits in
+  let membership = nodes.map((_, i) => i);
+  let graph = original;
+
+  while (totalWeight > 0) {
+    const community = louvainLocalMoves(graph, totalWeight);
+
+    // Renumber communities densely, in order of first appearance
+    const renumbered = new Map<number, number>();
+    community.forEach(c => {
+      if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+    });
+    if (renumbered.size === graph.selfLoops.length) break;
+
+    // Fold each community into a single node for the next level
+    const aggregated: LouvainGraph = {
+      neighbors: Array.from({ length: renumbered.size }, () => new Map<number, number>()),
+      selfLoops: new Array(renumbered.size).fill(0),
+    };
+    graph.neighbors.forEach((neighbors, i) => {
+      const ci = renumbered.get(community[i])!;
+      aggregated.selfLoops[ci] += graph.selfLoops[i];
+      neighbors.forEach((weight, j) => {
+        const cj = renumbered.get(community[j])!;
+        if (ci === cj) {
+          aggregated.selfLoops[ci] += weight / 2; // Seen from both ends
+        } else {
+          aggregated.neighbors[ci].set(cj, (aggregated.neighbors[ci].get(cj) || 0) + weight);
+        }
+      });
+    });
+
+    membership = membership.map(node => renumbered.get(community[node])!);
+    graph = aggregated;
+  }
+
+  const byCommunity = new Map<number, string[]>();
+  nodes.forEach((node, i) => {
+    const actorIds = byCommunity.get(membership[i]) || [];
+    actorIds.push(node.id);
+    byCommunity.set(membership[i], actorIds);
+  });
+
+  // Largest first; the stable sort keeps first-appearance order among equals
+  const communities = Array.from(byCommunity.values())
+    .sort((a, b) => b.length - a.length)
+    .map(actorIds => ({ actorIds }));
+
+  return {
+    communities,
+    modularity: calculateModularity(original, membership, totalWeight),
+  };
+}
+
+/**
+ * The relations an actor can step across, keyed by the actor each leads to.
+ * Between any ordered pair only the cheapest relation is kept, so parallel
+ * relations do not multiply the paths.
+ */
+function buildSteps(
+  nodes: Actor[],
+  edges: Relation[],
+  options: PathOptions
+): Map<string, Map<string, { relationId: string; cost: number }>> {
+  const { edgeTypes = [], followDirection = true, preferStrong = false } = options;
+  const steps = new Map<string, Map<string, { relationId: string; cost: number }>>();
+  nodes.forEach(node => steps.set(node.id, new Map()));
+
+  const addStep = (from: string, to: string, relationId: string, cost: number) => {
+    const existing = steps.get(from)!.get(to);
+    if (!existing || cost < existing.cost) {
+      steps.get(from)!.set(to, { relationId, cost });
+    }
+  };
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!steps.has(edge.source) || !steps.has(edge.target)) return;
+
+    const strength = getRelationStrength(edge);
+    if (preferStrong && strength <= 0) return;
+    const cost = preferStrong ? 1 / strength : 1;
+
+    addStep(edge.source, edge.target, edge.id, cost);
+    if (!followDirection || getRelationDirectionality(edge, edgeTypes) !== 'directed') {
+      addStep(edge.target, edge.source, edge.id, cost);
+    }
+  });
+
+  return steps;
+}
+
+/**
+ * Find the cheapest path from one actor to another (Dijkstra)
+ * Without preferStrong every step costs 1, so this is the path with the
+ * fewest relations. With it, a step costs 1/strength.
+ * Returns null when the target cannot be reached.
+ */
+export function findShortestPath(
+  nodes: Actor[],
+  edges: Relation[],
+  sourceId: string,
+  targetId: string,
+  options: PathOptions = {}
+): ActorPath | null {
+  const steps = buildSteps(nodes, edges, options);
+  if (!steps.has(sourceId) || !steps.has(targetId)) return null;
+
+  const costs = new Map<string, number>([[sourceId, 0]]);
+  const previous = new Map<string, { actorId: string; relationId: string }>();
+  const settled = new Set<string>();
+
+  while (!settled.has(targetId)) {
+    // Cheapest unsettled actor; graphs here are small enough to scan
+    let cheapest: string | null = null;
+    for (const [actorId, cost] of costs) {
+      if (!settled.has(actorId) && (cheapest === null || cost < costs.get(cheapest)!)) {
+        cheapest = actorId;
+      }
+    }
+    if (cheapest === null) return null;
+
+    const current = cheapest;
+    settled.add(current);
+    steps.get(current)!.forEach(({ relationId, cost }, to) => {
+      const candidate = costs.get(current)! + cost;
+      if (!settled.has(to) && candidate < (costs.get(to) ?? Infinity)) {
+        costs.set(to, candidate);
+        previous.set(to, { actorId: current, relationId });
+      }
+    });
+  }
+
+  const actorIds = [targetId];
+  const relationIds: string[] = [];
+  let cursor = targetId;
+  while (cursor !== sourceId) {
+    const step = previous.get(cursor)!;
+    relationIds.unshift(step.relationId);
+    actorIds.unshift(step.actorId);
+    cursor = step.actorId;
+  }
+
+  return { actorIds, relationIds, cost: costs.get(targetId)! };
+}
+
+/**
+ * Find every simple path (no actor visited twice) from one actor to another,
+ * up to maxLength relations long. Keeps only the `limit` cheapest, since
+ * dense graphs have far more paths than anyone can read.
+ */
+export function findAllPaths(
+  nodes: Actor[],
+  edges: Relation[],
+  sourceId: string,
+  targetId: string,
+  options: PathOptions & { maxLength?: number; limit?: number } = {}
+): PathSearchResult {
+  const { maxLength = 4, limit = 100 } = options;
+  const steps = buildSteps(nodes, edges, options);
+  const paths: ActorPath[] = []; // Cheapest first, never more than limit
+  let truncated = false;
+
+  if (!steps.has(sourceId) || !steps.has(targetId) || sourceId === targetId) {
+    return { paths, truncated };
+  }
+
+  const cheaperFirst = (a: ActorPath, b: ActorPath) =>
+    a.cost - b.cost || a.relationIds.length - b.relationIds.length;
+
+  const keep = (path: ActorPath) => {
+    const index = paths.findIndex((kept) => cheaperFirst(path, kept) < 0);
+    paths.splice(index === -1 ? paths.length : index, 0, path);
+    if (paths.length > limit) {
+      paths.pop();
+      truncated = true;
+    }
+  };
+
+  const actorIds = [sourceId];
+  const relationIds: string[] = [];
+  const visited = new Set([sourceId]);
+
+  const walk = (from: string, cost: number) => {
+    steps.get(from)!.forEach((step, to) => {
+      if (visited.has(to)) return;
+
+      if (to === targetId) {
+        keep({
+          actorIds: [...actorIds, to],
+          relationIds: [...relationIds, step.relationId],
+          cost: cost + step.cost,
+        });
+        return;
+      }
+
+      if (relationIds.length + 1 >= maxLength) return;
+      // Once a path has been dropped, a branch already as costly as the worst
+      // kept path can only add more of them: every step costs something
+      const worst = paths[paths.length - 1];
+      if (truncated && (!worst || cost + step.cost >= worst.cost)) return;
+
+      visited.add(to);
+      actorIds.push(to);
+      relationIds.push(step.relationId);
+      walk(to, cost + step.cost);
+      relationIds.pop();
+      actorIds.pop();
+      visited.delete(to);
+    });
+  };
+  walk(sourceId, 0);
+
+  return { paths, truncated };
+}
+
+/**
+ * Undirected tie weights for Burt's measures: the summed strength of every
+ * relation between two actors, whichever way it points. Self-loops, relations
+ * to missing actors and relations without positive strength are ignored.
+ */
+function buildTieWeights(nodes: Actor[], edges: Relation[]): Map<string, Map<string, number>> {
+  const weights = new Map<string, Map<string, number>>();
+  nodes.forEach(node => weights.set(node.id, new Map()));
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!weights.has(edge.source) || !weights.has(edge.target)) return;
+    const strength = getRelationStrength(edge);
+    if (strength <= 0) return;
+    const forward = weights.get(edge.source)!;
+    const backward = weights.get(edge.target)!;
+    forward.set(edge.target, (forward.get(edge.target) || 0) + strength);
+    backward.set(edge.source, (backward.get(edge.source) || 0) + strength);
+  });
+
+  return weights;
+}
+
+/**
+ * Proportional tie strength p_ij: the share of i's relational investment that
+ * goes to j
+ */
+function tieProportions(weights: Map<string, Map<string, number>>): Map<string, Map<string, number>> {
+  const proportions = new Map<string, Map<string, number>>();
+  weights.forEach((ties, id) => {
+    const total = Array.from(ties.values()).reduce((sum, weight) => sum + weight, 0);
+    const shares = new Map<string, number>();
+    ties.forEach((weight, otherId) => shares.set(otherId, weight / total));
+    proportions.set(id, shares);
+  });
+  return proportions;
+}
+
+/**
+ * Calculate Burt's constraint
+ * c_i = sum over contacts j of (p_ij + sum over q of p_iq * p_qj)^2
+ *
+ * High constraint means the actor's contacts are tied to each other, so the
+ * actor has little room to broker. Low constraint marks structural holes.
+ * Actors with no relations have no constraint (null).
+ */
+export function calculateConstraint(nodes: Actor[], edges: Relation[]): Map<string, number | null> {
+  const proportions = tieProportions(buildTieWeights(nodes, edges));
+  const constraint = new Map<string, number | null>();
+
+  proportions.forEach((shares, i) => {
+    if (shares.size === 0) {
+      constraint.set(i, null);
+      return;
+    }
+    let total = 0;
+    shares.forEach((pij, j) => {
+      let indirect = 0;
+      shares.forEach((piq, q) => {
+        if (q !== j) indirect += piq * (proportions.get(q)!.get(j) || 0);
+      });
+      total += Math.pow(pij + indirect, 2);
+    });
+    constraint.set(i, total);
+  });
+
+  return constraint;
+}
+
+/**
+ * Calculate Burt's effective size
+ * ES_i = sum over contacts j of (1 - sum over q of p_iq * m_jq), where m_jq is
+ * j's tie to q relative to j's strongest tie.
+ *
+ * Counts contacts, minus the redundancy among them. Without strengths this is
+ * contacts - 2 * (ties among contacts) / contacts.
+ */
+export function calculateEffectiveSize(nodes: Actor[], edges: Relation[]): Map<string, number> {
+  const weights = buildTieWeights(nodes, edges);
+  const proportions = tieProportions(weights);
+  const strongest = new Map<string, number>();
+  weights.forEach((ties, id) => strongest.set(id, Math.max(0, ...ties.values())));
+
+  const effectiveSize = new Map<string, number>();
+  proportions.forEach((shares, i) => {
+    let size = 0;
+    shares.forEach((_, j) => {
+      let redundancy = 0;
+      shares.forEach((piq, q) => {
+        if (q !== j) redundancy += piq * ((weights.get(j)!.get(q) || 0) / strongest.get(j)!);
+      });
+      size += 1 - redundancy;
+    });
+    effectiveSize.set(i, size);
+  });
+
+  return effectiveSize;
+}
+
+/**
+ * Count Gould-Fernandez brokerage roles, partitioning actors by type
+ * For every open two-step A→B→C (A has no tie to C), B brokers. Its role
+ * depends on who shares whose type:
+ * - coordinator: all three share a type
+ * - itinerant: A and C share a type, B is an outsider
+ * - representative: A shares B's type and B passes on to another type
+ * - gatekeeper: C shares B's type and B lets in another type
+ * - liaison: all three types differ
+ * Direction matters: two-way and mutual relations count as ties both ways.
+ */
+export function calculateBrokerageRoles(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): Map<string, Record<BrokerageRole, number>> {
+  const typeOf = new Map(nodes.map(node => [node.id, node.data?.type || 'unknown']));
+  const ties = collectDirectedTies(nodes, edges, edgeTypes);
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, string[]>();
+  nodes.forEach(node => {
+    incoming.set(node.id, []);
+    outgoing.set(node.id, []);
+  });
+  ties.forEach(tie => {
+    const [source, target] = tie.split('->');
+    outgoing.get(source)!.push(target);
+    incoming.get(target)!.push(source);
+  });
+
+  const roles = new Map<string, Record<BrokerageRole, number>>();
+  nodes.forEach(node => {
+    const counts: Record<BrokerageRole, number> = {
+      coordinator: 0,
+      itinerant: 0,
+      representative: 0,
+      gatekeeper: 0,
+      liaison: 0,
+    };
+    const b = typeOf.get(node.id)!;
+
+    incoming.get(node.id)!.forEach(a => {
+      outgoing.get(node.id)!.forEach(c => {
+        if (a === c || ties.has(`${a}->${c}`)) return;
+        const typeA = typeOf.get(a)!;
+        const typeC = typeOf.get(c)!;
+        if (typeA === b && typeC === b) counts.coordinator++;
+        else if (typeA === typeC) counts.itinerant++;
+        else if (typeA === b) counts.representative++;
+        else if (typeC === b) counts.gatekeeper++;
+        else counts.liaison++;
+      });
+    });
+
+    roles.set(node.id, counts);
+  });
+
+  return roles;
+}
+
+/**
+ * Calculate constraint, effective size and brokerage roles for each actor
+ */
+export function calculateActorBrokerage(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): ActorBrokerage[] {
+  const constraint = calculateConstraint(nodes, edges);
+  const effectiveSize = calculateEffectiveSize(nodes, edges);
+  const roles = calculateBrokerageRoles(nodes, edges, edgeTypes);
+
+  return nodes.map(node => {
+    const actorRoles = roles.get(node.id)!;
+    return {
+      actorId: node.id,
+      actorLabel: node.data?.label || node.id,
+      constraint: constraint.get(node.id) ?? null,
+      effectiveSize: effectiveSize.get(node.id) || 0,
+      roles: actorRoles,
+      totalBrokerage: Object.values(actorRoles).reduce((sum, count) => sum + count, 0),
+    };
+  });
+}
+
+/**
+ * Rank actors as brokers. Constraint ranks lowest first (least constrained is
+ * best placed to broker) and skips actors with no relations; every other
+ * measure ranks highest first and skips actors scoring zero.
+ */
+export function rankBrokers(
+  brokerage: ActorBrokerage[],
+  ranking: BrokerageRanking,
+  limit?: number
+): ActorBrokerage[] {
+  const valueOf = (actor: ActorBrokerage): number | null => {
+    if (ranking === 'constraint') return actor.constraint;
+    if (ranking === 'effectiveSize' || ranking === 'totalBrokerage') return actor[ranking];
+    return actor.roles[ranking];
+  };
+
+  const ranked = brokerage
+    .filter(actor => {
+      const value = valueOf(actor);
+      return value !== null && (ranking === 'constraint' || value > 0);
+    })
+    .sort((a, b) => {
+      const difference = valueOf(a)! - valueOf(b)!;
+      return (ranking === 'constraint' ? difference : -difference) || a.actorLabel.localeCompare(b.actorLabel);
+    });
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
+
+/**
+ * Triad type for each 6-bit code of the ties among three actors v, u, w:
+ * v→u = 1, u→v = 2, v→w = 4, w→v = 8, u→w = 16, w→u = 32
+ */
+const TRIAD_CODES: TriadType[] = [
+  1, 2, 2, 3, 2, 4, 6, 8, 2, 6, 5, 7, 3, 8, 7, 11,
+  2, 6, 4, 8, 5, 9, 9, 13, 6, 10, 9, 14, 7, 14, 12, 15,
+  2, 5, 6, 7, 6, 9, 10, 14, 4, 9, 9, 12, 8, 13, 14, 15,
+  3, 7, 8, 11, 7, 12, 14, 15, 8, 14, 13, 15, 11, 15, 15, 16,
+].map(type => TRIAD_TYPES[type - 1]);
+
+/**
+ * Calculate the directed triad census: how many actor triples fall into each
+ * of the 16 triad types
+ * Direction comes from each relation's directionality; two-way and mutual
+ * relations tie both ways. Uses the Batagelj-Mrvar algorithm, which only
+ * visits connected triads and derives the empty ones from the total.
+ */
+export function calculateTriadCensus(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): Record<TriadType, number> {
+  const census = Object.fromEntries(TRIAD_TYPES.map(type => [type, 0])) as Record<TriadType, number>;
+  const n = nodes.length;
+  if (n < 3) return census;
+
+  const ties = collectDirectedTies(nodes, edges, edgeTypes);
+  const hasTie = (from: string, to: string) => ties.has(`${from}->${to}`);
+  const order = new Map(nodes.map((node, index) => [node.id, index]));
+  const adjacency = new Map(
+    Array.from(buildUndirectedAdjacency(nodes, edges).entries()).map(([id, neighbors]) => [id, new Set(neighbors)])
+  );
+
+  const tricode = (v: string, u: string, w: string): number =>
+    (hasTie(v, u) ? 1 : 0) +
+    (hasTie(u, v) ? 2 : 0) +
+    (hasTie(v, w) ? 4 : 0) +
+    (hasTie(w, v) ? 8 : 0) +
+    (hasTie(u, w) ? 16 : 0) +
+    (hasTie(w, u) ? 32 : 0);
+
+  nodes.forEach(({ id: v }) => {
+    const vIndex = order.get(v)!;
+    const vNeighbors = adjacency.get(v)!;
+
+    vNeighbors.forEach(u => {
+      const uIndex = order.get(u)!;
+      if (uIndex <= vIndex) return;
+
+      const uNeighbors = adjacency.get(u)!;
+      const union = new Set([...vNeighbors, ...uNeighbors]);
+      union.delete(u);
+      union.delete(v);
+
+      // Triads of this pair with an actor tied to neither
+      const dyadType: TriadType = hasTie(v, u) && hasTie(u, v) ? '102' : '012';
+      census[dyadType] += n - union.size - 2;
+
+      // Each connected triad is counted once, from its lowest-ordered pair
+      union.forEach(w => {
+        const wIndex = order.get(w)!;
+        if (uIndex < wIndex || (vIndex < wIndex && wIndex < uIndex && !vNeighbors.has(w))) {
+          census[TRIAD_CODES[tricode(v, u, w)]]++;
+        }
+      });
+    });
+  });
+
+  const total = (n * (n - 1) * (n - 2)) / 6;
+  const counted = TRIAD_TYPES.reduce((sum, type) => sum + census[type], 0);
+  census['003'] = total - counted;
+
+  return census;
+}
+
+/**
+ * Calculate the dyad census: mutual, asymmetric and null actor pairs
+ */
+export function calculateDyadCensus(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): DyadCensus {
+  const ties = collectDirectedTies(nodes, edges, edgeTypes);
+  let reciprocated = 0;
+  ties.forEach(tie => {
+    const [source, target] = tie.split('->');
+    if (ties.has(`${target}->${source}`)) reciprocated++;
+  });
+
+  const mutual = reciprocated / 2;
+  const asymmetric = ties.size - reciprocated;
+  const pairs = (nodes.length * (nodes.length - 1)) / 2;
+
+  return { mutual, asymmetric, null: pairs - mutual - asymmetric };
+}
+
+/**
+ * Calculate each actor's local clustering coefficient: of the pairs among its
+ * neighbours, the share that are tied themselves. Direction is ignored.
+ */
+export function calculateLocalClustering(nodes: Actor[], edges: Relation[]): ActorClustering[] {
+  const adjacency = buildUndirectedAdjacency(nodes, edges);
+  const neighborSets = new Map(Array.from(adjacency.entries()).map(([id, neighbors]) => [id, new Set(neighbors)]));
+
+  return nodes.map(node => {
+    const neighbors = adjacency.get(node.id)!;
+    let triangles = 0;
+    for (let i = 0; i < neighbors.length; i++) {
+      for (let j = i + 1; j < neighbors.length; j++) {
+        if (neighborSets.get(neighbors[i])!.has(neighbors[j])) triangles++;
+      }
+    }
+    const pairs = (neighbors.length * (neighbors.length - 1)) / 2;
+
+    return {
+      actorId: node.id,
+      actorLabel: node.data?.label || node.id,
+      triangles,
+      clustering: pairs === 0 ? null : triangles / pairs,
+    };
+  });
+}
+
+/**
+ * Build the structure report: triad and dyad census, common motifs, and
+ * clustering
+ */
+export function calculateStructureReport(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): StructureReport {
+  const triadCensus = calculateTriadCensus(nodes, edges, edgeTypes);
+  const localClustering = calculateLocalClustering(nodes, edges);
+
+  // Every triangle is counted once at each of its three corners
+  const closedTriads = localClustering.reduce((sum, actor) => sum + actor.triangles, 0) / 3;
+  const connectedTriples = Array.from(buildUndirectedAdjacency(nodes, edges).values())
+    .reduce((sum, neighbors) => sum + (neighbors.length * (neighbors.length - 1)) / 2, 0);
+  const clustered = localClustering.filter(actor => actor.clustering !== null);
+
+  return {
+    triadCensus,
+    dyadCensus: calculateDyadCensus(nodes, edges, edgeTypes),
+    feedForwardLoops: triadCensus['030T'],
+    cycles: triadCensus['030C'],
+    closedTriads,
+    openTriads: connectedTriples - closedTriads * 3,
+    globalClustering: connectedTriples === 0 ? null : (closedTriads * 3) / connectedTriples,
+    averageLocalClustering: clustered.length === 0
+      ? null
+      : clustered.reduce((sum, actor) => sum + actor.clustering!, 0) / clustered.length,
+    localClustering,
+  };
+}
+
+/**
+ * Find an actor's neighbourhood: everyone within the given number of hops,
+ * and the relations among them
+ * Direction is ignored. When relation types are given, only relations of
+ * those types are followed and kept.
+ */
+export function findEgoNetwork(
+  nodes: Actor[],
+  edges: Relation[],
+  egoId: string,
+  hops: number,
+  relationTypes: string[] = []
+): EgoNetwork {
+  if (!nodes.some(node => node.id === egoId)) {
+    return { actorIds: [], relationIds: [], distances: new Map() };
+  }
+
+  const allowed = relationTypes.length === 0
+    ? edges
+    : edges.filter(edge => relationTypes.includes(edge.data?.type || ''));
+
+  const distances = new Map<string, number>();
+  shortestPathLengths(buildUndirectedAdjacency(nodes, allowed), egoId).forEach((distance, actorId) => {
+    if (distance <= hops) distances.set(actorId, distance);
+  });
+
+  return {
+    actorIds: Array.from(distances.keys()),
+    relationIds: allowed
+      .filter(edge => distances.has(edge.source) && distances.has(edge.target))
+      .map(edge => edge.id),
+    distances,
+  };
+}
+
 /**
  * Count actors by type
  */
@@ -149,11 +1557,140 @@ export function countRelationsByType(edges: Relation[]): Map<string, number> {
   return counts;
 }
 
+/**
+ * Build the type-by-type mixing matrix
+ * Each relation counts once, in the row of its source's type and the column
+ * of its target's type. Self-loops and relations to missing actors are ignored.
+ */
+export function buildMixingMatrix(nodes: Actor[], edges: Relation[]): MixingMatrix {
+  const types = Array.from(countActorsByType(nodes).keys());
+  const index = new Map(types.map((type, i) => [type, i]));
+  const typeOf = new Map(nodes.map(node => [node.id, node.data?.type || 'unknown']));
+  const counts = types.map(() => types.map(() => 0));
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    const sourceType = typeOf.get(edge.source);
+    const targetType = typeOf.get(edge.target);
+    if (sourceType === undefined || targetType === undefined) return;
+    counts[index.get(sourceType)!][index.get(targetType)!]++;
+  });
+
+  return { types, counts };
+}
+
+/**
+ * Calculate Newman's assortativity coefficient from a mixing matrix
+ * r = (sum e_ii - sum a_i b_i) / (1 - sum a_i b_i)
+ *
+ * The matrix is made symmetric first, so direction does not matter. 1 means
+ * every relation stays within a type, 0 means types mix as chance would have
+ * it, negative values mean types seek each other out. Null when undefined:
+ * no relations, or every relation inside one single type.
+ */
+export function calculateAssortativity(matrix: MixingMatrix): number | null {
+  const n = matrix.types.length;
+  const total = matrix.counts.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+  if (total === 0) return null;
+
+  let trace = 0;
+  let expected = 0;
+  for (let i = 0; i < n; i++) {
+    let share = 0;
+    for (let j = 0; j < n; j++) {
+      share += (matrix.counts[i][j] + matrix.counts[j][i]) / (2 * total);
+    }
+    trace += matrix.counts[i][i] / total;
+    expected += share * share;
+  }
+
+  if (expected >= 1) return null;
+  return (trace - expected) / (1 - expected);
+}
+
+/**
+ * Krackhardt's E-I index from internal and external relation counts
+ */
+function eiIndex(internal: number, external: number): EIIndex {
+  const total = internal + external;
+  return { internal, external, index: total === 0 ? null : (external - internal) / total };
+}
+
+/**
+ * Calculate the E-I index across actor types: relations between different
+ * types against relations within one
+ */
+export function calculateTypeEIIndex(nodes: Actor[], edges: Relation[]): EIIndex {
+  const { counts } = buildMixingMatrix(nodes, edges);
+  let internal = 0;
+  let external = 0;
+  counts.forEach((row, i) =>
+    row.forEach((count, j) => {
+      if (i === j) internal += count;
+      else external += count;
+    })
+  );
+  return eiIndex(internal, external);
+}
+
+/**
+ * Calculate the E-I index for the actors carrying one label: relations
+ * between two carriers against relations from a carrier to anyone else.
+ * Relations between two non-carriers do not count.
+ */
+export function calculateLabelEIIndex(nodes: Actor[], edges: Relation[], labelId: string): LabelHomophily {
+  const actorIds = new Set(nodes.map(node => node.id));
+  const members = new Set(
+    nodes.filter(node => node.data?.labels?.includes(labelId)).map(node => node.id)
+  );
+  let internal = 0;
+  let external = 0;
+
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!actorIds.has(edge.source) || !actorIds.has(edge.target)) return;
+    const sourceIn = members.has(edge.source);
+    const targetIn = members.has(edge.target);
+    if (sourceIn && targetIn) internal++;
+    else if (sourceIn || targetIn) external++;
+  });
+
+  return { labelId, memberCount: members.size, ...eiIndex(internal, external) };
+}
+
+/**
+ * Build the homophily report: do actors connect within their own type or
+ * label, or across?
+ * Only labels that can be attached to actors are included.
+ */
+export function calculateHomophilyReport(
+  nodes: Actor[],
+  edges: Relation[],
+  labels: LabelConfig[] = []
+): HomophilyReport {
+  const mixingMatrix = buildMixingMatrix(nodes, edges);
+
+  return {
+    actorsByType: countActorsByType(nodes),
+    relationsByType: countRelationsByType(edges),
+    mixingMatrix,
+    assortativity: calculateAssortativity(mixingMatrix),
+    typeEI: calculateTypeEIIndex(nodes, edges),
+    labelEI: labels
+      .filter(label => label.appliesTo !== 'relations')
+      .map(label => calculateLabelEIIndex(nodes, edges, label.id)),
+  };
+}
+
 /**
  * Calculate all graph metrics at once
  * Main entry point for the GraphMetrics component
  */
-export function calculateGraphMetrics(nodes: Actor[], edges: Relation[]): GraphMetrics {
+export function calculateGraphMetrics(
+  nodes: Actor[],
+  edges: Relation[],
+  edgeTypes: EdgeTypeConfig[] = []
+): GraphMetrics {
   const actorDegrees = calculateActorDegrees(nodes, edges);
 
   // Sort by degree descending and take top 5
@@ -174,6 +1711,17 @@ export function calculateGraphMetrics(nodes: Actor[], edges: Relation[]): GraphM
   // Find connected components
   const componentCount = findConnectedComponents(nodes, edges);
 
+  // Centrality for every actor
+  const actorCentralities = calculateActorCentralities(nodes, edges);
+
+  // Critical points and cores
+  const coreNumbers = calculateCoreNumbers(nodes, edges);
+
+  // Direction and strength
+  const actorFlows = calculateActorFlows(nodes, edges, edgeTypes);
+  const totalStrength = edges.reduce((sum, edge) => sum + getRelationStrength(edge), 0);
+  const totalWeightedConnections = actorFlows.reduce((sum, flow) => sum + flow.weightedDegree, 0);
+
   // Count by type
   const actorsByType = countActorsByType(nodes);
   const relationsByType = countRelationsByType(edges);
@@ -184,8 +1732,19 @@ export function calculateGraphMetrics(nodes: Actor[], edges: Relation[]): GraphM
     density,
     averageConnections,
     mostConnectedActors: mostConnected,
+    actorCentralities,
+    directedDensity: calculateDirectedDensity(nodes, edges, edgeTypes),
+    reciprocity: calculateReciprocity(nodes, edges, edgeTypes),
+    averageStrength: edges.length > 0 ? totalStrength / edges.length : 0,
+    averageWeightedConnections: nodes.length > 0 ? totalWeightedConnections / nodes.length : 0,
+    actorFlows,
+    actorBrokerage: calculateActorBrokerage(nodes, edges, edgeTypes),
     isolatedActorCount: isolatedCount,
     connectedComponentCount: componentCount,
+    criticalActors: findArticulationPoints(nodes, edges),
+    criticalRelationIds: findBridges(nodes, edges),
+    coreNumbers,
+    maxCoreNumber: Math.max(0, ...coreNumbers.values()),
     actorsByType,
     relationsByType,
   };
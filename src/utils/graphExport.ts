@@ -20,9 +20,11 @@ export interface ExportOptions {
   quality?: number;
   /** File name (without extension) */
   fileName?: string;
+  /** Element drawn below the graph, such as the metric encoding legend */
+  legend?: HTMLElement | null;
 }
 
-const DEFAULT_OPTIONS: Required<Omit<ExportOptions, 'fileName'>> = {
+const DEFAULT_OPTIONS: Required<Omit<ExportOptions, 'fileName' | 'legend'>> = {
   backgroundColor: '#ffffff',
   padding: 10,
   quality: 4, // ~300 DPI for standard screen-to-print conversion
@@ -38,6 +40,90 @@ function downloadImage(dataUrl: string, fileName: string, extension: string) {
   a.click();
 }
 
+/**
+ * Styles for capturing a canvas overlay on its own: it is positioned over the
+ * canvas on screen, but sits in normal flow below the graph in the image
+ */
+const LEGEND_CAPTURE_STYLE = {
+  position: 'static',
+  margin: '0',
+  boxShadow: 'none',
+};
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image for export'));
+    image.src = src;
+  });
+}
+
+/**
+ * Append a legend below a PNG graph image, left-aligned with the padding
+ */
+async function appendLegendToPng(
+  graphUrl: string,
+  legend: HTMLElement,
+  backgroundColor: string,
+  padding: number,
+  pixelRatio: number
+): Promise<string> {
+  const legendUrl = await toPng(legend, {
+    backgroundColor,
+    pixelRatio,
+    cacheBust: true,
+    style: LEGEND_CAPTURE_STYLE,
+  });
+  const [graph, legendImage] = await Promise.all([loadImage(graphUrl), loadImage(legendUrl)]);
+  const gap = padding * pixelRatio;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(graph.width, legendImage.width + gap * 2);
+  canvas.height = graph.height + legendImage.height + gap;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  context.fillStyle = backgroundColor;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(graph, 0, 0);
+  context.drawImage(legendImage, gap, graph.height);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Append a legend below an SVG graph image by nesting both in one SVG
+ */
+async function appendLegendToSvg(
+  graphUrl: string,
+  legend: HTMLElement,
+  backgroundColor: string,
+  padding: number,
+  width: number,
+  height: number
+): Promise<string> {
+  const legendUrl = await toSvg(legend, {
+    backgroundColor,
+    style: LEGEND_CAPTURE_STYLE,
+  });
+  const legendWidth = legend.offsetWidth;
+  const legendHeight = legend.offsetHeight;
+  const totalWidth = Math.max(width, legendWidth + padding * 2);
+  const totalHeight = height + legendHeight + padding;
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${totalHeight}" viewBox="0 0 ${totalWidth} ${totalHeight}">` +
+    `<rect width="100%" height="100%" fill="${backgroundColor}"/>` +
+    `<image href="${graphUrl}" x="0" y="0" width="${width}" height="${height}"/>` +
+    `<image href="${legendUrl}" x="${padding}" y="${height}" width="${legendWidth}" height="${legendHeight}"/>` +
+    `</svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
 /**
  * Calculate the viewport bounds for capturing the entire graph
  *
@@ -95,6 +181,7 @@ export async function exportGraphAsPNG(
     padding,
     quality,
     fileName = 'constellation-graph',
+    legend,
   } = { ...DEFAULT_OPTIONS, ...options };
 
   if (nodes.length === 0) {
@@ -104,7 +191,7 @@ export async function exportGraphAsPNG(
   const { width, height, transform } = calculateImageBounds(nodes, padding);
 
   try {
-    const dataUrl = await toPng(viewportElement, {
+    let dataUrl = await toPng(viewportElement, {
       backgroundColor,
       width: width,
       height: height,
@@ -117,6 +204,10 @@ export async function exportGraphAsPNG(
       },
     });
 
+    if (legend) {
+      dataUrl = await appendLegendToPng(dataUrl, legend, backgroundColor, padding, quality);
+    }
+
     downloadImage(dataUrl, fileName, 'png');
   } catch (error) {
     console.error('PNG export failed:', error);
@@ -140,6 +231,7 @@ export async function exportGraphAsSVG(
     backgroundColor,
     padding,
     fileName = 'constellation-graph',
+    legend,
   } = { ...DEFAULT_OPTIONS, ...options };
 
   if (nodes.length === 0) {
@@ -149,7 +241,7 @@ export async function exportGraphAsSVG(
   const { width, height, transform } = calculateImageBounds(nodes, padding);
 
   try {
-    const dataUrl = await toSvg(viewportElement, {
+    let dataUrl = await toSvg(viewportElement, {
       backgroundColor,
       width,
       height,
@@ -160,9 +252,35 @@ export async function exportGraphAsSVG(
       },
     });
 
+    if (legend) {
+      dataUrl = await appendLegendToSvg(dataUrl, legend, backgroundColor, padding, width, height);
+    }
+
     downloadImage(dataUrl, fileName, 'svg');
   } catch (error) {
     console.error('SVG export failed:', error);
     throw new Error('Failed to export graph as SVG');
   }
 }
+
+/**
+ * Export any element on screen as PNG, such as a chart
+ *
+ * @param element - The DOM element to capture, as it is drawn
+ * @param options - Export options (padding and legend are not used)
+ */
+export async function exportElementAsPNG(element: HTMLElement, options: ExportOptions = {}): Promise<void> {
+  const { backgroundColor, quality, fileName = 'constellation-chart' } = { ...DEFAULT_OPTIONS, ...options };
+
+  try {
+    const dataUrl = await toPng(element, {
+      backgroundColor,
+      pixelRatio: quality,
+      cacheBust: true,
+    });
+    downloadImage(dataUrl, fileName, 'png');
+  } catch (error) {
+    console.error('PNG export failed:', error);
+    throw new Error('Failed to export chart as PNG');
+  }
+}
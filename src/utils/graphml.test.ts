@@ -0,0 +1,166 @@
+// @vitest-environment jsdom
+// happy-dom's XML parser rejects attribute names with dots, such as GraphML's attr.name
+import { describe, it, expect } from 'vitest';
+import { documentToGraphML, graphMLToDocument } from './graphml';
+import type { ConstellationDocument } from '../stores/persistence/types';
+import { createMockActor, createMockGroup, createMockRelation, createMockState } from '../test-utils/mocks';
+
+const document: ConstellationDocument = {
+  metadata: {
+    version: '1.0.0',
+    appName: 'constellation-analyzer',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    lastSavedBy: 'browser',
+    title: 'Partners',
+  },
+  nodeTypes: [{ id: 'person', label: 'Person', color: '#3b82f6', shape: 'circle' }],
+  edgeTypes: [{ id: 'funds', label: 'Funds', color: '#10b981', style: 'dashed' }],
+  labels: [
+    { id: 'key', name: 'Key player', color: '#ef4444', appliesTo: 'both' },
+    { id: 'formal', name: 'Formal', color: '#8b5cf6', appliesTo: 'relations' },
+  ],
+  timeline: {
+    states: {
+      before: createMockState(
+        'before',
+        { nodes: [createMockActor('a', { label: 'Ada & Co' }), createMockActor('b', { label: 'Ben' })] },
+        { label: 'Before' }
+      ),
+      after: createMockState(
+        'after',
+        {
+          nodes: [
+            createMockActor(
+              'a',
+              { label: 'Ada & Co', labels: ['key'] },
+              { position: { x: 20, y: 30 }, parentId: 'g', extent: 'parent' }
+            ),
+            createMockActor('b', { label: 'Ben' }, { position: { x: 400, y: 0 } }),
+          ],
+          edges: [
+            createMockRelation(
+              'e',
+              'a',
+              'b',
+              { type: 'funds', directionality: 'bidirectional', strength: 3, labels: ['key', 'formal'] },
+              { type: 'custom' }
+            ),
+          ],
+          groups: [
+            createMockGroup(
+              'g',
+              ['a'],
+              { label: 'Board', color: '#f59e0b' },
+              { position: { x: 100, y: 100 }, width: 300, height: 200 }
+            ),
+          ],
+        },
+        {
+          label: 'After',
+          parentStateId: 'before',
+          metadata: { tags: ['observed', 'draft'] },
+          mergedFromStateId: 'before',
+          locked: true,
+        }
+      ),
+    },
+    currentStateId: 'after',
+    rootStateId: 'before',
+  },
+};
+
+describe('documentToGraphML', () => {
+  it('writes one graph per state, the current one first, with escaped values', () => {
+    const xml = documentToGraphML(document);
+
+    expect(xml.indexOf('<graph id="after"')).toBeLessThan(xml.indexOf('<graph id="before"'));
+    expect(xml).toContain('<data key="n_label">Ada &amp; Co</data>');
+    expect(xml).toContain('<data key="e_labels">Key player, Formal</data>');
+    // The member's canvas position, not its place inside the group
+    expect(xml).toContain('<data key="n_x">120</data>');
+  });
+});
+
+describe('graphMLToDocument', () => {
+  it('reads back states, types, labels, groups and relations', () => {
+    const imported = graphMLToDocument(documentToGraphML(document), 'Partners');
+    const states = Object.values(imported.timeline.states);
+    const after = imported.timeline.states[imported.timeline.currentStateId];
+    const before = imported.timeline.states[imported.timeline.rootStateId];
+
+    expect(imported.metadata.title).toBe('Partners');
+    expect(states).toHaveLength(2);
+    expect(after.label).toBe('After');
+    expect(after.parentStateId).toBe(before.id);
+    expect(after.metadata?.tags).toEqual(['observed', 'draft']);
+    expect(after.mergedFromStateId).toBe(before.id);
+    expect(after.locked).toBe(true);
+    expect(before.locked).toBeUndefined();
+
+    expect(imported.nodeTypes).toEqual([{ id: 'person', label: 'Person', color: '#3b82f6', shape: 'circle' }]);
+    expect(imported.edgeTypes).toEqual([{ id: 'funds', label: 'Funds', color: '#10b981', style: 'dashed' }]);
+    expect(imported.labels?.map((label) => [label.name, label.appliesTo])).toEqual([
+      ['Key player', 'both'],
+      ['Formal', 'relations'],
+    ]);
+
+    // Actors keep their IDs across states and their place in the group
+    expect(before.graph.nodes.map((node) => node.id)).toEqual(['a', 'b']);
+    const member = after.graph.nodes.find((node) => node.id === 'a')!;
+    expect(member.parentId).toBe('g');
+    expect(member.position).toEqual({ x: 20, y: 30 });
+    expect(member.data.label).toBe('Ada & Co');
+    expect(after.graph.groups).toMatchObject([
+      { id: 'g', position: { x: 100, y: 100 }, width: 300, height: 200, data: { label: 'Board', actorIds: ['a'] } },
+    ]);
+
+    expect(after.graph.edges).toMatchObject([
+      {
+        id: 'e',
+        source: 'a',
+        target: 'b',
+        data: { type: 'funds', directionality: 'bidirectional', strength: 3, labels: ['key-player', 'formal'] },
+      },
+    ]);
+  });
+
+  it('reads files from other tools by attribute name', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="label" attr.type="string"/>
+  <key id="d1" for="node" attr.name="r" attr.type="int"/>
+  <key id="d2" for="node" attr.name="g" attr.type="int"/>
+  <key id="d3" for="node" attr.name="b" attr.type="int"/>
+  <graph id="G" edgedefault="undirected">
+    <node id="n0"><data key="d0">Ada</data><data key="d1">255</data><data key="d2">0</data><data key="d3">0</data></node>
+    <node id="n1"><data key="d0">Ben</data></node>
+    <edge source="n0" target="n1"/>
+    <edge source="n0" target="missing"/>
+  </graph>
+  <graph id="H" edgedefault="directed">
+    <node id="n0"/>
+  </graph>
+</graphml>`;
+
+    const imported = graphMLToDocument(xml);
+    const first = imported.timeline.states[imported.timeline.currentStateId];
+    const second = Object.values(imported.timeline.states).find((other) => other !== first)!;
+
+    expect(imported.nodeTypes).toMatchObject([{ id: 'actor', label: 'Actor', color: '#ff0000' }]);
+    expect(first.graph.nodes.map((node) => node.data.label)).toEqual(['Ada', 'Ben']);
+    expect(first.graph.nodes[1].position).not.toEqual(first.graph.nodes[0].position); // Laid out on a grid
+    expect(first.graph.edges).toHaveLength(1);
+    expect(first.graph.edges[0].data?.directionality).toBe('undirected');
+
+    // Graphs without parent states follow one another
+    expect(second.parentStateId).toBe(first.id);
+    expect(second.graph.nodes[0].data.label).toBe('n0');
+  });
+
+  it('refuses files that are not GraphML', () => {
+    expect(() => graphMLToDocument('<graphml><graph>')).toThrow('not valid GraphML');
+    expect(() => graphMLToDocument('<svg/>')).toThrow('not valid GraphML');
+    expect(() => graphMLToDocument('<graphml/>')).toThrow('contains no graph');
+  });
+});
@@ -0,0 +1,540 @@
+import type {
+  EdgeDirectionality,
+  EdgeTypeConfig,
+  LabelConfig,
+  NodeShape,
+  NodeTypeConfig,
+} from '../types';
+import type {
+  ConstellationDocument,
+  SerializedActor,
+  SerializedGroup,
+  SerializedRelation,
+} from '../stores/persistence/types';
+import type { ConstellationState } from '../types/timeline';
+import { APP_NAME, SCHEMA_VERSION } from '../stores/persistence/constants';
+import { getCategoricalColor } from './colorUtils';
+import { generateEdgeId } from './edgeUtils';
+
+/**
+ * GraphML Import and Export
+ *
+ * GraphML is the XML graph format read by Gephi, yEd, Cytoscape and NetworkX.
+ * A document goes out as one <graph> per timeline state, the state on screen
+ * first because most tools only read the first graph. Groups are nodes holding
+ * a nested graph with their members.
+ *
+ * Types and labels travel by name: every actor and relation carries its type's
+ * name, colour and look, and the names of its labels, and the importer rebuilds
+ * the types and labels from those. Icons, descriptions of types, citations and
+ * tangibles have no place in GraphML and are left out.
+ *
+ * Node and edge IDs are prefixed with their state's ID, since GraphML wants
+ * them unique in the whole file. The importer strips the prefix again, so an
+ * actor keeps one ID across states.
+ */
+
+const GRAPHML_NAMESPACE = 'http://graphml.graphdrawing.org/xmlns';
+
+interface GraphMLKey {
+  id: string;
+  for: 'graph' | 'node' | 'edge';
+  name: string;
+  type: 'string' | 'double' | 'boolean';
+}
+
+// Attribute names are plain words, so other tools show them as they are
+const KEYS: GraphMLKey[] = [
+  { id: 'g_label', for: 'graph', name: 'label', type: 'string' },
+  { id: 'g_description', for: 'graph', name: 'description', type: 'string' },
+  { id: 'g_parent', for: 'graph', name: 'parentState', type: 'string' },
+  { id: 'g_merged', for: 'graph', name: 'mergedFromState', type: 'string' },
+  { id: 'g_date', for: 'graph', name: 'date', type: 'string' },
+  { id: 'g_tags', for: 'graph', name: 'tags', type: 'string' },
+  { id: 'g_color', for: 'graph', name: 'color', type: 'string' },
+  { id: 'g_locked', for: 'graph', name: 'locked', type: 'boolean' },
+  { id: 'n_label', for: 'node', name: 'label', type: 'string' },
+  { id: 'n_type', for: 'node', name: 'type', type: 'string' },
+  { id: 'n_color', for: 'node', name: 'color', type: 'string' },
+  { id: 'n_shape', for: 'node', name: 'shape', type: 'string' },
+  { id: 'n_description', for: 'node', name: 'description', type: 'string' },
+  { id: 'n_labels', for: 'node', name: 'labels', type: 'string' },
+  { id: 'n_x', for: 'node', name: 'x', type: 'double' },
+  { id: 'n_y', for: 'node', name: 'y', type: 'double' },
+  { id: 'n_width', for: 'node', name: 'width', type: 'double' },
+  { id: 'n_height', for: 'node', name: 'height', type: 'double' },
+  { id: 'n_minimized', for: 'node', name: 'minimized', type: 'boolean' },
+  { id: 'e_label', for: 'edge', name: 'label', type: 'string' },
+  { id: 'e_type', for: 'edge', name: 'type', type: 'string' },
+  { id: 'e_color', for: 'edge', name: 'color', type: 'string' },
+  { id: 'e_style', for: 'edge', name: 'style', type: 'string' },
+  { id: 'e_directionality', for: 'edge', name: 'directionality', type: 'string' },
+  { id: 'e_strength', for: 'edge', name: 'strength', type: 'double' },
+  { id: 'e_labels', for: 'edge', name: 'labels', type: 'string' },
+];
+
+// Lists (tags, labels) are written as one comma-separated value
+const LIST_SEPARATOR = ', ';
+
+const NODE_SHAPES: NodeShape[] = ['rectangle', 'circle', 'roundedRectangle', 'ellipse', 'pill'];
+const EDGE_STYLES: NonNullable<EdgeTypeConfig['style']>[] = ['solid', 'dashed', 'dotted'];
+const DIRECTIONALITIES: EdgeDirectionality[] = ['directed', 'bidirectional', 'undirected'];
+
+// Spacing of the grid actors without a position are laid out on
+const GRID_SPACING = 180;
+// Room left around the members of a group without a size of its own
+const GROUP_PADDING = 40;
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * <data> elements for the given values, skipping empty ones
+ */
+function dataElements(values: Record<string, string | number | boolean | undefined>, indent: string): string[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${indent}<data key="${key}">${escapeXml(String(value))}</data>`);
+}
+
+/**
+ * Write a document, with all its timeline states, as GraphML
+ */
+export function documentToGraphML(document: ConstellationDocument): string {
+  const { timeline } = document;
+  const nodeTypes = new Map(document.nodeTypes.map((type) => [type.id, type]));
+  const edgeTypes = new Map(document.edgeTypes.map((type) => [type.id, type]));
+  const labelNames = new Map((document.labels ?? []).map((label) => [label.id, label.name]));
+  const listLabels = (ids?: string[]) =>
+    ids?.map((id) => labelNames.get(id) ?? id).join(LIST_SEPARATOR);
+
+  const states = Object.values(timeline.states);
+  const current = timeline.states[timeline.currentStateId];
+  const ordered = current ? [current, ...states.filter((state) => state !== current)] : states;
+
+  const writeState = (state: ConstellationState): string[] => {
+    const prefix = `${state.id}::`;
+    const groups = state.graph.groups ?? [];
+    const groupsById = new Map(groups.map((group) => [group.id, group]));
+
+    const writeActor = (actor: SerializedActor, indent: string): string[] => {
+      const nodeType = nodeTypes.get(actor.data.type);
+      // Members are placed relative to their group; GraphML gets the canvas position
+      const group = actor.parentId ? groupsById.get(actor.parentId) : undefined;
+      return [
+        `${indent}<node id="${escapeXml(prefix + actor.id)}">`,
+        ...dataElements(
+          {
+            n_label: actor.data.label,
+            n_type: nodeType?.label ?? actor.data.type,
+            n_color: nodeType?.color,
+            n_shape: nodeType?.shape,
+            n_description: actor.data.description,
+            n_labels: listLabels(actor.data.labels),
+            n_x: actor.position.x + (group?.position.x ?? 0),
+            n_y: actor.position.y + (group?.position.y ?? 0),
+          },
+          `${indent}  `
+        ),
+        `${indent}</node>`,
+      ];
+    };
+
+    const members = (group: SerializedGroup) =>
+      state.graph.nodes.filter((actor) => actor.parentId === group.id);
+
+    return [
+      `  <graph id="${escapeXml(state.id)}" edgedefault="directed">`,
+      ...dataElements(
+        {
+          g_label: state.label,
+          g_description: state.description,
+          g_parent: state.parentStateId,
+          g_merged: state.mergedFromStateId,
+          g_date: state.metadata?.date,
+          g_tags: state.metadata?.tags?.join(LIST_SEPARATOR),
+          g_color: state.metadata?.color,
+          g_locked: state.locked,
+        },
+        '    '
+      ),
+      ...groups.flatMap((group) => [
+        `    <node id="${escapeXml(prefix + group.id)}">`,
+        ...dataElements(
+          {
+            n_label: group.data.label,
+            n_color: group.data.color,
+            n_description: group.data.description,
+            n_x: group.position.x,
+            n_y: group.position.y,
+            n_width: group.width ?? group.style?.width,
+            n_height: group.height ?? group.style?.height,
+            n_minimized: group.data.minimized,
+          },
+          '      '
+        ),
+        `      <graph id="${escapeXml(`${prefix}${group.id}:`)}" edgedefault="directed">`,
+        ...members(group).flatMap((actor) => writeActor(actor, '        ')),
+        '      </graph>',
+        '    </node>',
+      ]),
+      ...state.graph.nodes
+        .filter((actor) => !actor.parentId || !groupsById.has(actor.parentId))
+        .flatMap((actor) => writeActor(actor, '    ')),
+      ...state.graph.edges.flatMap((relation) => {
+        const edgeType = relation.data ? edgeTypes.get(relation.data.type) : undefined;
+        const directionality = relation.data?.directionality ?? edgeType?.defaultDirectionality ?? 'directed';
+        return [
+          `    <edge id="${escapeXml(prefix + relation.id)}" source="${escapeXml(prefix + relation.source)}" target="${escapeXml(prefix + relation.target)}"${
+            directionality === 'undirected' ? ' directed="false"' : ''
+          }>`,
+          ...dataElements(
+            {
+              e_label: relation.data?.label,
+              e_type: edgeType?.label ?? relation.data?.type,
+              e_color: edgeType?.color,
+              e_style: edgeType?.style,
+              e_directionality: directionality,
+              e_strength: relation.data?.strength,
+              e_labels: listLabels(relation.data?.labels),
+            },
+            '      '
+          ),
+          '    </edge>',
+        ];
+      }),
+      '  </graph>',
+    ];
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml xmlns="${GRAPHML_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${GRAPHML_NAMESPACE} ${GRAPHML_NAMESPACE}/1.0/graphml.xsd">`,
+    ...KEYS.map(
+      (key) => `  <key id="${key.id}" for="${key.for}" attr.name="${key.name}" attr.type="${key.type}"/>`
+    ),
+    ...ordered.flatMap(writeState),
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+const childElements = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter((child) => child.localName === name);
+
+const splitList = (value?: string): string[] =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+const toId = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
+
+const isHexColor = (value?: string): value is string => !!value && /^#[0-9a-f]{6}$/i.test(value);
+
+const toNumber = (value?: string): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Gephi writes colours as separate r, g and b attributes
+ */
+function readColor(data: Record<string, string>): string | undefined {
+  if (isHexColor(data.color)) return data.color;
+  const channels = [data.r, data.g, data.b].map(toNumber);
+  if (channels.some((channel) => channel === undefined)) return undefined;
+  return `#${channels.map((channel) => Math.round(channel!).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function generateStateId(): string {
+  return `state_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Read a GraphML file as a new document
+ *
+ * Every <graph> becomes a timeline state. States written by this app come
+ * back in their branches; graphs from other tools follow one another in file
+ * order. Attributes are matched by name (label, type, color, x, y, ...), so
+ * files from Gephi, yEd and NetworkX load with whatever of those they carry.
+ *
+ * @throws Error when the file is not GraphML or holds no graph
+ */
+export function graphMLToDocument(xml: string, title?: string): ConstellationDocument {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = parsed.documentElement;
+  if (parsed.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'graphml') {
+    throw new Error('Invalid file format: File is not valid GraphML');
+  }
+
+  // Attribute names and defaults by key ID
+  const keys = new Map<string, { name: string; for: string }>();
+  const defaults: Record<string, Record<string, string>> = { graph: {}, node: {}, edge: {} };
+  childElements(root, 'key').forEach((key) => {
+    const name = key.getAttribute('attr.name');
+    const id = key.getAttribute('id');
+    if (!name || !id) return; // e.g. yEd's graphics keys
+    const domain = key.getAttribute('for') ?? 'all';
+    keys.set(id, { name, for: domain });
+    const fallback = childElements(key, 'default')[0]?.textContent;
+    if (fallback != null) {
+      (domain === 'all' ? ['graph', 'node', 'edge'] : [domain]).forEach((forDomain) => {
+        if (defaults[forDomain]) defaults[forDomain][name] = fallback;
+      });
+    }
+  });
+
+  const readData = (element: Element, domain: 'graph' | 'node' | 'edge'): Record<string, string> => {
+    const values = { ...defaults[domain] };
+    childElements(element, 'data').forEach((data) => {
+      const key = keys.get(data.getAttribute('key') ?? '');
+      if (key) values[key.name] = data.textContent ?? '';
+    });
+    return values;
+  };
+
+  const graphs = childElements(root, 'graph');
+  if (graphs.length === 0) {
+    throw new Error('Invalid file format: GraphML file contains no graph');
+  }
+
+  // Types and labels, rebuilt from the names found on actors and relations
+  const nodeTypes: NodeTypeConfig[] = [];
+  const edgeTypes: EdgeTypeConfig[] = [];
+  const labels: LabelConfig[] = [];
+
+  const uniqueId = (name: string, taken: { id: string }[]) => {
+    const base = toId(name) || 'type';
+    let id = base;
+    for (let suffix = 2; taken.some((item) => item.id === id); suffix++) id = `${base}-${suffix}`;
+    return id;
+  };
+
+  const nodeTypeFor = (data: Record<string, string>): string => {
+    const name = data.type?.trim() || 'Actor';
+    let nodeType = nodeTypes.find((type) => type.label === name);
+    if (!nodeType) {
+      nodeType = {
+        id: uniqueId(name, nodeTypes),
+        label: name,
+        color: readColor(data) ?? getCategoricalColor(nodeTypes.length),
+        shape: NODE_SHAPES.includes(data.shape as NodeShape) ? (data.shape as NodeShape) : 'circle',
+      };
+      nodeTypes.push(nodeType);
+    }
+    return nodeType.id;
+  };
+
+  const edgeTypeFor = (data: Record<string, string>): string => {
+    const name = data.type?.trim() || 'Relation';
+    let edgeType = edgeTypes.find((type) => type.label === name);
+    if (!edgeType) {
+      const style = data.style as EdgeTypeConfig['style'];
+      edgeType = {
+        id: uniqueId(name, edgeTypes),
+        label: name,
+        color: readColor(data) ?? getCategoricalColor(edgeTypes.length),
+        style: style && EDGE_STYLES.includes(style) ? style : 'solid',
+      };
+      edgeTypes.push(edgeType);
+    }
+    return edgeType.id;
+  };
+
+  const labelsFor = (value: string | undefined, scope: 'actors' | 'relations'): string[] | undefined => {
+    const names = splitList(value);
+    if (names.length === 0) return undefined;
+    return names.map((name) => {
+      let label = labels.find((existing) => existing.name === name);
+      if (!label) {
+        label = { id: uniqueId(name, labels), name, color: getCategoricalColor(labels.length), appliesTo: scope };
+        labels.push(label);
+      } else if (label.appliesTo !== scope) {
+        label.appliesTo = 'both';
+      }
+      return label.id;
+    });
+  };
+
+  const graphIds = graphs.map((graph, index) => graph.getAttribute('id') || `graph-${index}`);
+  const stateIds = new Map(graphIds.map((graphId) => [graphId, generateStateId()]));
+  const hasParentKey = Array.from(keys.values()).some((key) => key.name === 'parentState');
+  const now = new Date().toISOString();
+
+  const states = graphs.map((graph, index): ConstellationState => {
+    const graphId = graphIds[index];
+    const localId = (id: string) => (id.startsWith(`${graphId}::`) ? id.slice(graphId.length + 2) : id);
+    const stateData = readData(graph, 'graph');
+
+    const nodes: SerializedActor[] = [];
+    const groups: SerializedGroup[] = [];
+    const unplaced: SerializedActor[] = [];
+
+    // Nodes with a nested graph become groups; deeper nesting is flattened
+    // into the outermost group, as groups do not nest
+    const readNodes = (container: Element, group?: SerializedGroup) => {
+      childElements(container, 'node').forEach((node) => {
+        const data = readData(node, 'node');
+        const id = localId(node.getAttribute('id') ?? '');
+        const nested = childElements(node, 'graph')[0];
+        const x = toNumber(data.x);
+        const y = toNumber(data.y);
+
+        if (nested && !group) {
+          const newGroup: SerializedGroup = {
+            id,
+            type: 'group',
+            position: { x: x ?? 0, y: y ?? 0 },
+            data: {
+              label: data.label || id,
+              color: readColor(data) ?? getCategoricalColor(groups.length),
+              actorIds: [],
+              ...(data.description && { description: data.description }),
+              ...(data.minimized === 'true' && { minimized: true }),
+            },
+            width: toNumber(data.width),
+            height: toNumber(data.height),
+          };
+          groups.push(newGroup);
+          readNodes(nested, newGroup);
+          return;
+        }
+
+        // yEd keeps the visible name in its own graphics markup
+        const yedLabel = node.getElementsByTagNameNS('*', 'NodeLabel')[0]?.textContent?.trim();
+        const actorLabels = labelsFor(data.labels, 'actors');
+        const actor: SerializedActor = {
+          id,
+          type: 'custom',
+          position: { x: x ?? 0, y: y ?? 0 },
+          data: {
+            label: data.label || data.name || yedLabel || id,
+            type: nodeTypeFor(data),
+            ...(data.description && { description: data.description }),
+            ...(actorLabels && { labels: actorLabels }),
+          },
+          ...(group && { parentId: group.id, extent: 'parent' as const }),
+        };
+        if (group) group.data.actorIds.push(id);
+        if (x === undefined || y === undefined) unplaced.push(actor);
+        nodes.push(actor);
+        if (nested) readNodes(nested, group);
+      });
+    };
+    readNodes(graph);
+
+    // Actors without a position go on a grid
+    const columns = Math.ceil(Math.sqrt(unplaced.length));
+    unplaced.forEach((actor, index) => {
+      actor.position = { x: (index % columns) * GRID_SPACING, y: Math.floor(index / columns) * GRID_SPACING };
+    });
+
+    // Members were read at canvas positions; the editor wants them relative to their group
+    groups.forEach((group) => {
+      const members = nodes.filter((actor) => actor.parentId === group.id);
+      if (members.length > 0 && (group.width === undefined || group.height === undefined)) {
+        const xs = members.map((actor) => actor.position.x);
+        const ys = members.map((actor) => actor.position.y);
+        group.position = { x: Math.min(...xs) - GROUP_PADDING, y: Math.min(...ys) - GROUP_PADDING };
+        group.width = Math.max(...xs) - Math.min(...xs) + GRID_SPACING;
+        group.height = Math.max(...ys) - Math.min(...ys) + GRID_SPACING;
+      }
+      members.forEach((actor) => {
+        actor.position = { x: actor.position.x - group.position.x, y: actor.position.y - group.position.y };
+      });
+    });
+
+    // Relations may sit in any graph of the state; only those between actors are kept
+    const actorIds = new Set(nodes.map((actor) => actor.id));
+    const edgeDefault = graph.getAttribute('edgedefault') ?? 'directed';
+    const edges: SerializedRelation[] = Array.from(graph.getElementsByTagNameNS('*', 'edge'))
+      .map((edge): SerializedRelation | null => {
+        const source = localId(edge.getAttribute('source') ?? '');
+        const target = localId(edge.getAttribute('target') ?? '');
+        if (!actorIds.has(source) || !actorIds.has(target)) return null;
+        const data = readData(edge, 'edge');
+        const directed = (edge.getAttribute('directed') ?? String(edgeDefault === 'directed')) === 'true';
+        const directionality = DIRECTIONALITIES.includes(data.directionality as EdgeDirectionality)
+          ? (data.directionality as EdgeDirectionality)
+          : directed ? 'directed' : 'undirected';
+        const edgeId = edge.getAttribute('id');
+        const strength = toNumber(data.strength);
+        const relationLabels = labelsFor(data.labels, 'relations');
+        return {
+          id: edgeId ? localId(edgeId) : generateEdgeId(source, target),
+          source,
+          target,
+          type: 'custom',
+          data: {
+            type: edgeTypeFor(data),
+            directionality,
+            ...(data.label && { label: data.label }),
+            ...(strength !== undefined && { strength }),
+            ...(relationLabels && { labels: relationLabels }),
+          },
+        };
+      })
+      .filter((edge): edge is SerializedRelation => edge !== null);
+
+    const parentGraphId = hasParentKey ? stateData.parentState : graphIds[index - 1];
+    const mergedGraphId = stateData.mergedFromState;
+    const tags = splitList(stateData.tags);
+    const metadata = {
+      ...(stateData.date && { date: stateData.date }),
+      ...(tags.length > 0 && { tags }),
+      ...(isHexColor(stateData.color) && { color: stateData.color }),
+    };
+
+    return {
+      id: stateIds.get(graphId)!,
+      label: stateData.label || (graphs.length > 1 ? `State ${index + 1}` : 'Initial State'),
+      ...(stateData.description && { description: stateData.description }),
+      ...(parentGraphId && stateIds.has(parentGraphId) && { parentStateId: stateIds.get(parentGraphId) }),
+      ...(mergedGraphId && stateIds.has(mergedGraphId) && { mergedFromStateId: stateIds.get(mergedGraphId) }),
+      ...(stateData.locked === 'true' && { locked: true }),
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+      graph: { nodes, edges, groups },
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+
+  // The first graph is the one on screen; the root is the state without a parent
+  const rootState = states.find((state) => !state.parentStateId) ?? states[0];
+  if (rootState.parentStateId) delete rootState.parentStateId;
+
+  return {
+    metadata: {
+      version: SCHEMA_VERSION,
+      appName: APP_NAME,
+      createdAt: now,
+      updatedAt: now,
+      lastSavedBy: 'browser',
+      ...(title && { title }),
+    },
+    nodeTypes,
+    edgeTypes,
+    labels,
+    timeline: {
+      states: Object.fromEntries(states.map((state) => [state.id, state])),
+      currentStateId: states[0].id,
+      rootStateId: rootState.id,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { documentToHTML } from './htmlViewer';
+import type { ConstellationDocument } from '../stores/persistence/types';
+import { createMockActor, createMockRelation, createMockState } from '../test-utils/mocks';
+
+const document: ConstellationDocument = {
+  metadata: {
+    version: '1.0.0',
+    appName: 'constellation-analyzer',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    lastSavedBy: 'browser',
+    title: 'Partners <& Friends>',
+  },
+  nodeTypes: [
+    { id: 'person', label: 'Person', color: '#3b82f6', shape: 'circle' },
+    { id: 'org', label: 'Organisation', color: '#fde68a', shape: 'rectangle' },
+  ],
+  edgeTypes: [{ id: 'funds', label: 'Funds', color: '#10b981', style: 'dashed' }],
+  labels: [{ id: 'key', name: 'Key player', color: '#ef4444', appliesTo: 'both' }],
+  timeline: {
+    states: {
+      before: createMockState('before', { nodes: [createMockActor('a', { label: 'Ada' })] }, { label: 'Before' }),
+      after: createMockState(
+        'after',
+        {
+          nodes: [
+            createMockActor('a', { label: 'Ada', labels: ['key'] }),
+            createMockActor(
+              'b',
+              { label: '</script><b>Bank</b>', type: 'org', description: 'Lends money' },
+              { position: { x: 400, y: 0 } }
+            ),
+          ],
+          edges: [createMockRelation('e1', 'b', 'a', { type: 'funds', strength: 3 })],
+        },
+        { label: 'After', parentStateId: 'before', createdAt: '2024-01-02T00:00:00.000Z' }
+      ),
+    },
+    currentStateId: 'after',
+    rootStateId: 'before',
+  },
+};
+
+/**
+ * Load the exported page into the test DOM and run its script
+ */
+function openViewer(html: string) {
+  const page = new DOMParser().parseFromString(html, 'text/html');
+  window.document.body.innerHTML = page.body.innerHTML;
+  const script = Array.from(window.document.querySelectorAll('script')).find((element) => !element.type)!;
+  new Function(script.textContent!)();
+}
+
+const actorIds = () =>
+  Array.from(window.document.querySelectorAll('#viewport .actor')).map((element) => element.getAttribute('data-id'));
+
+describe('documentToHTML', () => {
+  beforeEach(() => {
+    window.document.body.innerHTML = '';
+  });
+
+  it('embeds the document so it reads back unchanged and cannot close its script early', () => {
+    const html = documentToHTML(document);
+    const page = new DOMParser().parseFromString(html, 'text/html');
+
+    expect(html.match(/<\/script>/g)).toHaveLength(2);
+    expect(page.title).toBe('Partners <& Friends>');
+    expect(JSON.parse(page.getElementById('constellation-data')!.textContent!).document).toEqual(document);
+  });
+
+  it('loads nothing from elsewhere, so it works offline', () => {
+    const html = documentToHTML(document);
+
+    expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+    expect(html).not.toMatch(/url\(\s*['"]?https?:/);
+  });
+
+  it('opens on the current state with the legend counted and the state switcher filled', () => {
+    openViewer(documentToHTML(document));
+
+    expect(actorIds()).toEqual(['a', 'b']);
+    expect(window.document.querySelectorAll('#viewport .relation')).toHaveLength(1);
+    expect(window.document.querySelector('#viewport .actor[data-id="b"] text')!.textContent).toBe('</script><b>Bank</b>');
+    expect((window.document.getElementById('state') as HTMLSelectElement).value).toBe('1');
+    expect(window.document.getElementById('stats')!.textContent).toBe('2 actors, 1 relation');
+    expect(
+      Array.from(window.document.querySelectorAll('#legend label')).map((label) => label.textContent)
+    ).toEqual(['Person1', 'Organisation1', 'Funds1', 'Key player1']);
+  });
+
+  it('switches states and filters by type and label', () => {
+    openViewer(documentToHTML(document));
+    const select = window.document.getElementById('state') as HTMLSelectElement;
+    const checkbox = (name: string) =>
+      Array.from(window.document.querySelectorAll('#legend label'))
+        .find((label) => label.textContent!.startsWith(name))!
+        .querySelector('input')!;
+
+    checkbox('Organisation').click();
+    expect(actorIds()).toEqual(['a']);
+    expect(window.document.querySelectorAll('#viewport .relation')).toHaveLength(0);
+
+    checkbox('Organisation').click();
+    checkbox('Key player').click();
+    expect(window.document.querySelectorAll('#viewport .faded')).toHaveLength(2);
+
+    select.value = '0';
+    select.dispatchEvent(new Event('change'));
+    expect(actorIds()).toEqual(['a']);
+    expect(window.document.getElementById('stats')!.textContent).toBe('1 actor, 0 relations');
+  });
+});
@@ -0,0 +1,647 @@
+import type { ConstellationDocument } from '../stores/persistence/types';
+import { getContrastColor } from './colorUtils';
+import { escapeXml } from './graphml';
+import { MINIMIZED_GROUP_HEIGHT, MINIMIZED_GROUP_WIDTH, ROUNDED_RECTANGLE_RADIUS } from '../constants';
+
+/**
+ * Standalone HTML Viewer
+ *
+ * Writes a document as one HTML file that anyone can open in a browser,
+ * offline and straight from disk: the document is embedded as JSON and a
+ * small script draws it as SVG. Nothing is loaded from anywhere else.
+ *
+ * The viewer is read-only. It pans and zooms, shows an element's details on
+ * hover, lists types and labels as a legend that doubles as a filter,
+ * searches actor names, and switches between timeline states.
+ *
+ * The script is plain JavaScript kept in a string, so it must not use
+ * template literals; all text from the document goes in via textContent.
+ */
+
+/**
+ * Embed JSON in a <script> element without letting its text end the element
+ */
+function embedJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+const VIEWER_STYLE = String.raw`
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; }
+body { display: flex; flex-direction: column; }
+header { display: flex; align-items: center; gap: 12px; padding: 8px 16px; border-bottom: 1px solid #e5e7eb; background: #fff; }
+header h1 { font-size: 16px; font-weight: 600; margin: 0; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+header .spacer { flex: 1; }
+header select, header input { font: inherit; font-size: 13px; padding: 4px 6px; border: 1px solid #d1d5db; border-radius: 4px; background: #fff; }
+button { font: inherit; font-size: 13px; padding: 4px 8px; border: 1px solid #d1d5db; border-radius: 4px; background: #fff; cursor: pointer; }
+button:hover { background: #f3f4f6; }
+button:disabled { opacity: 0.4; cursor: default; }
+main { flex: 1; display: flex; min-height: 0; }
+aside { width: 240px; overflow-y: auto; border-right: 1px solid #e5e7eb; padding: 12px 16px; background: #f9fafb; font-size: 13px; }
+aside h2 { font-size: 11px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin: 16px 0 6px; }
+aside h2:first-child { margin-top: 0; }
+aside label { display: flex; align-items: center; gap: 6px; padding: 2px 0; cursor: pointer; }
+aside .count { margin-left: auto; color: #9ca3af; font-size: 12px; }
+aside .hint { color: #6b7280; font-size: 12px; margin: 0 0 4px; }
+.swatch { width: 12px; height: 12px; border-radius: 3px; flex-shrink: 0; }
+.line-swatch { width: 16px; height: 0; border-top-width: 3px; flex-shrink: 0; }
+#canvas { flex: 1; position: relative; overflow: hidden; background: #fff; }
+#canvas svg { width: 100%; height: 100%; display: block; cursor: grab; }
+#canvas svg.dragging { cursor: grabbing; }
+#zoom { position: absolute; right: 12px; bottom: 12px; display: flex; gap: 4px; }
+#stats { position: absolute; left: 12px; bottom: 12px; font-size: 12px; color: #6b7280; }
+#tooltip { position: fixed; pointer-events: none; max-width: 320px; background: #fff; border: 1px solid #e5e7eb; border-radius: 6px; box-shadow: 0 4px 12px rgb(0 0 0 / 0.15); padding: 8px 10px; font-size: 12px; display: none; z-index: 10; }
+#tooltip .title { font-weight: 600; font-size: 13px; margin-bottom: 2px; }
+#tooltip .muted { color: #6b7280; }
+#tooltip .row { margin-top: 4px; }
+.faded { opacity: 0.15; }
+.actor { cursor: default; }
+.actor text, .relation text { pointer-events: none; }
+footer { padding: 4px 16px; font-size: 11px; color: #9ca3af; border-top: 1px solid #e5e7eb; }
+`;
+
+const VIEWER_SCRIPT = String.raw`
+(function () {
+  'use strict';
+  var SVG_NS = 'http://www.w3.org/2000/svg';
+  var data = JSON.parse(document.getElementById('constellation-data').textContent);
+  var doc = data.document;
+  var settings = data.settings;
+
+  var byId = function (list) {
+    var map = {};
+    (list || []).forEach(function (item) { map[item.id] = item; });
+    return map;
+  };
+  var nodeTypes = byId(doc.nodeTypes);
+  var edgeTypes = byId(doc.edgeTypes);
+  var labels = byId(doc.labels);
+  var references = byId(doc.bibliography && doc.bibliography.references);
+
+  var hiddenNodeTypes = {};
+  var hiddenEdgeTypes = {};
+  var chosenLabels = {};
+  var query = '';
+  var view = { x: 0, y: 0, scale: 1 };
+
+  // States depth-first from the first one, siblings in order of creation
+  var states = (function () {
+    var all = Object.keys(doc.timeline.states).map(function (id) { return doc.timeline.states[id]; });
+    var ordered = [];
+    var visit = function (state, depth) {
+      ordered.push({ state: state, depth: depth });
+      all.filter(function (child) { return child.parentStateId === state.id; })
+        .sort(function (a, b) { return String(a.createdAt).localeCompare(String(b.createdAt)); })
+        .forEach(function (child) { visit(child, depth + 1); });
+    };
+    var root = doc.timeline.states[doc.timeline.rootStateId];
+    if (root) visit(root, 0);
+    all.forEach(function (state) {
+      if (!ordered.some(function (entry) { return entry.state === state; })) ordered.push({ state: state, depth: 0 });
+    });
+    return ordered;
+  })();
+  var stateIndex = Math.max(0, states.findIndex(function (entry) { return entry.state.id === doc.timeline.currentStateId; }));
+
+  var svg = document.getElementById('graph');
+  var viewport = document.getElementById('viewport');
+  var tooltip = document.getElementById('tooltip');
+  var stateSelect = document.getElementById('state');
+
+  var svgElement = function (name, attributes, parent) {
+    var element = document.createElementNS(SVG_NS, name);
+    Object.keys(attributes).forEach(function (key) { element.setAttribute(key, attributes[key]); });
+    if (parent) parent.appendChild(element);
+    return element;
+  };
+  var htmlElement = function (name, className, text, parent) {
+    var element = document.createElement(name);
+    if (className) element.className = className;
+    if (text !== undefined) element.textContent = text;
+    if (parent) parent.appendChild(element);
+    return element;
+  };
+
+  // ---- Geometry --------------------------------------------------------
+
+  var shapeOf = function (actor) { return (nodeTypes[actor.data.type] || {}).shape || 'rectangle'; };
+
+  var sizeOf = function (actor) {
+    var textWidth = Math.min(String(actor.data.label || '').length, 24) * 7.5 + 32;
+    switch (shapeOf(actor)) {
+      case 'circle': var diameter = Math.max(100, textWidth); return { width: diameter, height: diameter };
+      case 'ellipse': return { width: Math.max(140, textWidth + 16), height: 80 };
+      default: return { width: Math.max(120, textWidth), height: 48 };
+    }
+  };
+
+  // Where the line from the centre towards (dx, dy) leaves the actor's outline
+  var boundaryOffset = function (box, dx, dy) {
+    var length = Math.sqrt(dx * dx + dy * dy) || 1;
+    var ux = dx / length;
+    var uy = dy / length;
+    var a = box.width / 2;
+    var b = box.height / 2;
+    var t = box.round
+      ? 1 / Math.sqrt((ux * ux) / (a * a) + (uy * uy) / (b * b))
+      : Math.min(ux ? a / Math.abs(ux) : Infinity, uy ? b / Math.abs(uy) : Infinity);
+    return { x: ux * t, y: uy * t };
+  };
+
+  // Boxes on the canvas for every visible actor, and for minimized groups
+  // standing in for their members
+  var layout = function (graph) {
+    var groups = byId(graph.groups);
+    var boxes = {};
+    graph.nodes.forEach(function (actor) {
+      var group = actor.parentId ? groups[actor.parentId] : null;
+      if (group && group.data.minimized) {
+        boxes[actor.id] = { group: group.id };
+        return;
+      }
+      var size = sizeOf(actor);
+      var x = actor.position.x + (group ? group.position.x : 0);
+      var y = actor.position.y + (group ? group.position.y : 0);
+      var shape = shapeOf(actor);
+      boxes[actor.id] = {
+        x: x, y: y, width: size.width, height: size.height,
+        cx: x + size.width / 2, cy: y + size.height / 2,
+        round: shape === 'circle' || shape === 'ellipse',
+      };
+    });
+    (graph.groups || []).forEach(function (group) {
+      if (!group.data.minimized) return;
+      var width = settings.minimizedGroupWidth;
+      var height = settings.minimizedGroupHeight;
+      boxes[group.id] = {
+        x: group.position.x, y: group.position.y, width: width, height: height,
+        cx: group.position.x + width / 2, cy: group.position.y + height / 2, round: false,
+      };
+    });
+    var resolve = function (id) {
+      var box = boxes[id];
+      return box && box.group ? boxes[box.group] : box;
+    };
+    return { boxes: boxes, resolve: resolve };
+  };
+
+  var groupBounds = function (group, graph, boxes) {
+    if (group.data.minimized) return boxes[group.id];
+    var width = group.width || (group.style && group.style.width);
+    var height = group.height || (group.style && group.style.height);
+    if (width && height) return { x: group.position.x, y: group.position.y, width: width, height: height };
+    var members = graph.nodes.filter(function (actor) { return actor.parentId === group.id; }).map(function (actor) { return boxes[actor.id]; });
+    if (members.length === 0) return { x: group.position.x, y: group.position.y, width: 200, height: 120 };
+    var left = Math.min.apply(null, members.map(function (box) { return box.x; })) - 20;
+    var top = Math.min.apply(null, members.map(function (box) { return box.y; })) - 40;
+    var right = Math.max.apply(null, members.map(function (box) { return box.x + box.width; })) + 20;
+    var bottom = Math.max.apply(null, members.map(function (box) { return box.y + box.height; })) + 20;
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  };
+
+  // ---- Filters ---------------------------------------------------------
+
+  var anyChosenLabel = function () { return Object.keys(chosenLabels).some(function (id) { return chosenLabels[id]; }); };
+  var hasChosenLabel = function (element) {
+    return (element.data.labels || []).some(function (id) { return chosenLabels[id]; });
+  };
+  var matchesQuery = function (actor) {
+    if (!query) return true;
+    var text = (String(actor.data.label || '') + ' ' + String(actor.data.description || '')).toLowerCase();
+    return text.indexOf(query) !== -1;
+  };
+
+  // ---- Tooltip ---------------------------------------------------------
+
+  var addRow = function (label, value) {
+    if (value === undefined || value === null || value === '') return;
+    var row = htmlElement('div', 'row', undefined, tooltip);
+    htmlElement('span', 'muted', label + ': ', row);
+    htmlElement('span', '', String(value), row);
+  };
+  var labelNames = function (ids) {
+    return (ids || []).map(function (id) { return labels[id] ? labels[id].name : id; }).join(', ');
+  };
+  var sourceNames = function (ids) {
+    return (ids || []).map(function (id) { return references[id] && references[id].title ? references[id].title : id; }).join('; ');
+  };
+  var addMetadata = function (metadata) {
+    Object.keys(metadata || {}).forEach(function (key) {
+      var value = metadata[key];
+      addRow(key, typeof value === 'object' ? JSON.stringify(value) : value);
+    });
+  };
+
+  var showTooltip = function (event, fill) {
+    tooltip.textContent = '';
+    fill();
+    tooltip.style.display = 'block';
+    moveTooltip(event);
+  };
+  var moveTooltip = function (event) {
+    var x = Math.min(event.clientX + 14, window.innerWidth - tooltip.offsetWidth - 8);
+    var y = Math.min(event.clientY + 14, window.innerHeight - tooltip.offsetHeight - 8);
+    tooltip.style.left = x + 'px';
+    tooltip.style.top = y + 'px';
+  };
+  var hideTooltip = function () { tooltip.style.display = 'none'; };
+
+  var actorDetails = function (actor) {
+    return function () {
+      htmlElement('div', 'title', actor.data.label, tooltip);
+      htmlElement('div', 'muted', (nodeTypes[actor.data.type] || {}).label || actor.data.type, tooltip);
+      addRow('Description', actor.data.description);
+      addRow('Labels', labelNames(actor.data.labels));
+      addRow('Sources', sourceNames(actor.data.citations));
+      addMetadata(actor.data.metadata);
+    };
+  };
+
+  var relationDetails = function (relation, actorsById) {
+    return function () {
+      var data = relation.data || {};
+      var type = edgeTypes[data.type] || {};
+      var directionality = data.directionality || type.defaultDirectionality || 'directed';
+      var arrow = directionality === 'directed' ? ' → ' : directionality === 'bidirectional' ? ' ↔ ' : ' — ';
+      var name = function (id) { return actorsById[id] ? actorsById[id].data.label : id; };
+      htmlElement('div', 'title', name(relation.source) + arrow + name(relation.target), tooltip);
+      htmlElement('div', 'muted', type.label || data.type || 'Relation', tooltip);
+      addRow('Label', data.label);
+      addRow('Strength', data.strength);
+      addRow('Labels', labelNames(data.labels));
+      addRow('Sources', sourceNames(data.citations));
+      addMetadata(data.metadata);
+    };
+  };
+
+  var hover = function (element, fill) {
+    element.addEventListener('mouseenter', function (event) { showTooltip(event, fill); });
+    element.addEventListener('mousemove', moveTooltip);
+    element.addEventListener('mouseleave', hideTooltip);
+  };
+
+  // ---- Drawing ---------------------------------------------------------
+
+  var markers = {};
+  var defs = svgElement('defs', {}, svg);
+  var markerFor = function (color) {
+    if (!markers[color]) {
+      var id = 'arrow-' + Object.keys(markers).length;
+      var marker = svgElement('marker', {
+        id: id, viewBox: '0 0 10 10', refX: '9', refY: '5',
+        markerWidth: '8', markerHeight: '8', orient: 'auto-start-reverse',
+      }, defs);
+      svgElement('path', { d: 'M 0 0 L 10 5 L 0 10 z', fill: color }, marker);
+      markers[color] = 'url(#' + id + ')';
+    }
+    return markers[color];
+  };
+
+  var drawActor = function (actor, box, layer) {
+    var type = nodeTypes[actor.data.type] || {};
+    var color = type.color || '#6b7280';
+    var element = svgElement('g', { class: 'actor', 'data-id': actor.id }, layer);
+    var outline = { fill: color, stroke: color, 'stroke-width': '3' };
+    switch (shapeOf(actor)) {
+      case 'circle':
+      case 'ellipse':
+        outline.cx = box.cx; outline.cy = box.cy; outline.rx = box.width / 2; outline.ry = box.height / 2;
+        svgElement('ellipse', outline, element);
+        break;
+      default:
+        var radius = { rectangle: 8, roundedRectangle: settings.roundedRadius, pill: box.height / 2 }[shapeOf(actor)] || 8;
+        outline.x = box.x; outline.y = box.y; outline.width = box.width; outline.height = box.height;
+        outline.rx = radius; outline.ry = radius;
+        svgElement('rect', outline, element);
+    }
+    var text = svgElement('text', {
+      x: box.cx, y: box.cy, 'text-anchor': 'middle', 'dominant-baseline': 'central',
+      'font-size': '14', 'font-weight': '500', fill: settings.textColors[actor.data.type] || 'white',
+    }, element);
+    var label = String(actor.data.label || '');
+    text.textContent = label.length > 24 ? label.slice(0, 23) + '…' : label;
+    return element;
+  };
+
+  var drawRelation = function (relation, from, to, offset, layer, actorsById) {
+    var data = relation.data || {};
+    var type = edgeTypes[data.type] || {};
+    var color = type.color || '#6b7280';
+    var directionality = data.directionality || type.defaultDirectionality || 'directed';
+    var element = svgElement('g', { class: 'relation', 'data-id': relation.id }, layer);
+
+    // Parallel relations bow out to either side of the straight line
+    var dx = to.cx - from.cx;
+    var dy = to.cy - from.cy;
+    var length = Math.sqrt(dx * dx + dy * dy) || 1;
+    var controlX = (from.cx + to.cx) / 2 - (dy / length) * offset;
+    var controlY = (from.cy + to.cy) / 2 + (dx / length) * offset;
+    var start = boundaryOffset(from, controlX - from.cx, controlY - from.cy);
+    var end = boundaryOffset(to, controlX - to.cx, controlY - to.cy);
+    var d = 'M ' + (from.cx + start.x) + ' ' + (from.cy + start.y) +
+      ' Q ' + controlX + ' ' + controlY + ' ' + (to.cx + end.x) + ' ' + (to.cy + end.y);
+
+    var dash = { dashed: '8 4', dotted: '2 4' }[type.style] || '';
+    var path = { d: d, fill: 'none', stroke: color, 'stroke-width': '2', 'stroke-dasharray': dash };
+    if (directionality !== 'undirected') path['marker-end'] = markerFor(color);
+    if (directionality === 'bidirectional') path['marker-start'] = markerFor(color);
+    svgElement('path', path, element);
+    // A wider invisible stroke makes thin relations easy to hover
+    svgElement('path', { d: d, fill: 'none', stroke: 'transparent', 'stroke-width': '12' }, element);
+
+    if (data.label) {
+      var text = svgElement('text', {
+        x: (from.cx + to.cx + 2 * controlX) / 4, y: (from.cy + to.cy + 2 * controlY) / 4,
+        'text-anchor': 'middle', 'dominant-baseline': 'central', 'font-size': '12', fill: '#374151',
+        stroke: 'white', 'stroke-width': '4', 'paint-order': 'stroke',
+      }, element);
+      text.textContent = data.label;
+    }
+    hover(element, relationDetails(relation, actorsById));
+    return element;
+  };
+
+  var currentGraph = function () { return states[stateIndex].state.graph; };
+
+  var render = function () {
+    var graph = currentGraph();
+    var positions = layout(graph);
+    var actorsById = byId(graph.nodes);
+    var filtering = anyChosenLabel();
+    viewport.textContent = '';
+    var groupLayer = svgElement('g', {}, viewport);
+    var relationLayer = svgElement('g', {}, viewport);
+    var actorLayer = svgElement('g', {}, viewport);
+
+    (graph.groups || []).forEach(function (group) {
+      var bounds = groupBounds(group, graph, positions.boxes);
+      var color = group.data.color || '#9ca3af';
+      var element = svgElement('g', { class: 'group' }, groupLayer);
+      svgElement('rect', {
+        x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height, rx: 8, ry: 8,
+        fill: color, 'fill-opacity': group.data.minimized ? '0.35' : '0.08', stroke: color, 'stroke-width': '2',
+      }, element);
+      var text = svgElement('text', {
+        x: bounds.x + 10, y: bounds.y + 20, 'font-size': '13', 'font-weight': '600', fill: '#374151',
+      }, element);
+      text.textContent = group.data.label || '';
+    });
+
+    var visibleActors = {};
+    var shownActors = 0;
+    graph.nodes.forEach(function (actor) {
+      if (hiddenNodeTypes[actor.data.type]) return;
+      visibleActors[actor.id] = true;
+      shownActors++;
+      var box = positions.boxes[actor.id];
+      if (box.group) return; // Inside a minimized group
+      var element = drawActor(actor, box, actorLayer);
+      if ((filtering && !hasChosenLabel(actor)) || !matchesQuery(actor)) element.classList.add('faded');
+      hover(element, actorDetails(actor));
+    });
+
+    // Count the relations between each pair, to spread parallel ones apart
+    var pairKey = function (relation) { return [relation.source, relation.target].sort().join('|'); };
+    var visibleRelations = graph.edges.filter(function (relation) {
+      var type = relation.data ? relation.data.type : '';
+      return !hiddenEdgeTypes[type] && visibleActors[relation.source] && visibleActors[relation.target];
+    });
+    var pairCounts = {};
+    visibleRelations.forEach(function (relation) { pairCounts[pairKey(relation)] = (pairCounts[pairKey(relation)] || 0) + 1; });
+    var pairSeen = {};
+    visibleRelations.forEach(function (relation) {
+      var from = positions.resolve(relation.source);
+      var to = positions.resolve(relation.target);
+      if (!from || !to || from === to) return;
+      var key = pairKey(relation);
+      var position = pairSeen[key] = (pairSeen[key] || 0) + 1;
+      var offset = (position - 1 - (pairCounts[key] - 1) / 2) * 40;
+      // Keep the bow on the same side whichever way the relation runs
+      if (relation.source > relation.target) offset = -offset;
+      var element = drawRelation(relation, from, to, offset, relationLayer, actorsById);
+      if (filtering && !hasChosenLabel(relation)) element.classList.add('faded');
+    });
+
+    document.getElementById('stats').textContent =
+      shownActors + (shownActors === 1 ? ' actor, ' : ' actors, ') +
+      visibleRelations.length + (visibleRelations.length === 1 ? ' relation' : ' relations');
+    renderLegend(graph);
+  };
+
+  // ---- Legend and filters -----------------------------------------------
+
+  var legendItem = function (parent, swatch, name, count, checked, onChange) {
+    var label = htmlElement('label', '', undefined, parent);
+    var input = htmlElement('input', '', undefined, label);
+    input.type = 'checkbox';
+    input.checked = checked;
+    input.addEventListener('change', function () { onChange(input.checked); });
+    label.appendChild(swatch);
+    htmlElement('span', '', name, label);
+    htmlElement('span', 'count', String(count), label);
+  };
+
+  var renderLegend = function (graph) {
+    var legend = document.getElementById('legend');
+    legend.textContent = '';
+    var countBy = function (list, key) {
+      var counts = {};
+      list.forEach(function (item) { var value = key(item); counts[value] = (counts[value] || 0) + 1; });
+      return counts;
+    };
+
+    htmlElement('h2', '', 'Actor types', legend);
+    var actorCounts = countBy(graph.nodes, function (actor) { return actor.data.type; });
+    (doc.nodeTypes || []).forEach(function (type) {
+      var swatch = htmlElement('span', 'swatch');
+      swatch.style.background = type.color;
+      if (type.shape === 'circle' || type.shape === 'ellipse' || type.shape === 'pill') swatch.style.borderRadius = '6px';
+      legendItem(legend, swatch, type.label, actorCounts[type.id] || 0, !hiddenNodeTypes[type.id], function (checked) {
+        hiddenNodeTypes[type.id] = !checked;
+        render();
+      });
+    });
+
+    htmlElement('h2', '', 'Relation types', legend);
+    var relationCounts = countBy(graph.edges, function (relation) { return relation.data ? relation.data.type : ''; });
+    (doc.edgeTypes || []).forEach(function (type) {
+      var swatch = htmlElement('span', 'line-swatch');
+      swatch.style.borderTopColor = type.color;
+      swatch.style.borderTopStyle = type.style || 'solid';
+      legendItem(legend, swatch, type.label, relationCounts[type.id] || 0, !hiddenEdgeTypes[type.id], function (checked) {
+        hiddenEdgeTypes[type.id] = !checked;
+        render();
+      });
+    });
+
+    if ((doc.labels || []).length > 0) {
+      htmlElement('h2', '', 'Labels', legend);
+      htmlElement('p', 'hint', 'Tick labels to bring out what carries them.', legend);
+      var labelCounts = {};
+      graph.nodes.concat(graph.edges).forEach(function (element) {
+        ((element.data && element.data.labels) || []).forEach(function (id) { labelCounts[id] = (labelCounts[id] || 0) + 1; });
+      });
+      doc.labels.forEach(function (label) {
+        var swatch = htmlElement('span', 'swatch');
+        swatch.style.background = label.color;
+        swatch.style.borderRadius = '6px';
+        legendItem(legend, swatch, label.name, labelCounts[label.id] || 0, !!chosenLabels[label.id], function (checked) {
+          chosenLabels[label.id] = checked;
+          render();
+        });
+      });
+    }
+  };
+
+  // ---- Pan and zoom ----------------------------------------------------
+
+  var applyView = function () {
+    viewport.setAttribute('transform', 'translate(' + view.x + ' ' + view.y + ') scale(' + view.scale + ')');
+  };
+
+  var fitView = function () {
+    var graph = currentGraph();
+    var positions = layout(graph);
+    var boxes = Object.keys(positions.boxes).map(function (id) { return positions.boxes[id]; })
+      .filter(function (box) { return !box.group; });
+    (graph.groups || []).forEach(function (group) { boxes.push(groupBounds(group, graph, positions.boxes)); });
+    var rect = svg.getBoundingClientRect();
+    var width = rect.width || 800;
+    var height = rect.height || 600;
+    if (boxes.length === 0) {
+      view = { x: width / 2, y: height / 2, scale: 1 };
+    } else {
+      var left = Math.min.apply(null, boxes.map(function (box) { return box.x; }));
+      var top = Math.min.apply(null, boxes.map(function (box) { return box.y; }));
+      var right = Math.max.apply(null, boxes.map(function (box) { return box.x + box.width; }));
+      var bottom = Math.max.apply(null, boxes.map(function (box) { return box.y + box.height; }));
+      var scale = Math.min(1.5, (width - 80) / Math.max(1, right - left), (height - 80) / Math.max(1, bottom - top));
+      view = {
+        scale: scale,
+        x: width / 2 - ((left + right) / 2) * scale,
+        y: height / 2 - ((top + bottom) / 2) * scale,
+      };
+    }
+    applyView();
+  };
+
+  var zoomBy = function (factor, centerX, centerY) {
+    var scale = Math.min(4, Math.max(0.1, view.scale * factor));
+    view.x = centerX - (centerX - view.x) * (scale / view.scale);
+    view.y = centerY - (centerY - view.y) * (scale / view.scale);
+    view.scale = scale;
+    applyView();
+  };
+
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var rect = svg.getBoundingClientRect();
+    zoomBy(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX - rect.left, event.clientY - rect.top);
+  }, { passive: false });
+
+  var drag = null;
+  svg.addEventListener('pointerdown', function (event) {
+    drag = { x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y };
+    svg.classList.add('dragging');
+    if (svg.setPointerCapture) svg.setPointerCapture(event.pointerId);
+  });
+  svg.addEventListener('pointermove', function (event) {
+    if (!drag) return;
+    view.x = drag.viewX + event.clientX - drag.x;
+    view.y = drag.viewY + event.clientY - drag.y;
+    applyView();
+  });
+  var endDrag = function () { drag = null; svg.classList.remove('dragging'); };
+  svg.addEventListener('pointerup', endDrag);
+  svg.addEventListener('pointercancel', endDrag);
+
+  var zoomAtCenter = function (factor) {
+    var rect = svg.getBoundingClientRect();
+    zoomBy(factor, rect.width / 2, rect.height / 2);
+  };
+  document.getElementById('zoom-in').addEventListener('click', function () { zoomAtCenter(1.25); });
+  document.getElementById('zoom-out').addEventListener('click', function () { zoomAtCenter(0.8); });
+  document.getElementById('zoom-fit').addEventListener('click', fitView);
+
+  // ---- States ----------------------------------------------------------
+
+  var showState = function (index) {
+    stateIndex = index;
+    stateSelect.value = String(index);
+    document.getElementById('previous').disabled = index === 0;
+    document.getElementById('next').disabled = index === states.length - 1;
+    render();
+    fitView();
+  };
+
+  states.forEach(function (entry, index) {
+    var option = htmlElement('option', '', undefined, stateSelect);
+    option.value = String(index);
+    var date = entry.state.metadata && entry.state.metadata.date;
+    option.textContent = new Array(entry.depth + 1).join('\u00a0\u00a0') + entry.state.label + (date ? ' (' + date + ')' : '');
+  });
+  stateSelect.addEventListener('change', function () { showState(Number(stateSelect.value)); });
+  document.getElementById('previous').addEventListener('click', function () { showState(stateIndex - 1); });
+  document.getElementById('next').addEventListener('click', function () { showState(stateIndex + 1); });
+  if (states.length < 2) document.getElementById('states').style.display = 'none';
+
+  document.getElementById('search').addEventListener('input', function (event) {
+    query = event.target.value.trim().toLowerCase();
+    render();
+  });
+
+  window.addEventListener('resize', fitView);
+  showState(stateIndex);
+})();
+`;
+
+/**
+ * Write a document as a self-contained, read-only HTML viewer
+ */
+export function documentToHTML(document: ConstellationDocument): string {
+  const title = document.metadata.title || 'Constellation';
+  const textColors = Object.fromEntries(document.nodeTypes.map((type) => [type.id, getContrastColor(type.color)]));
+  const settings = {
+    textColors,
+    roundedRadius: ROUNDED_RECTANGLE_RADIUS,
+    minimizedGroupWidth: MINIMIZED_GROUP_WIDTH,
+    minimizedGroupHeight: MINIMIZED_GROUP_HEIGHT,
+  };
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="generator" content="Constellation Analyzer">',
+    `<title>${escapeXml(title)}</title>`,
+    `<style>${VIEWER_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `<h1>${escapeXml(title)}</h1>`,
+    '<span id="states"><button id="previous" title="Previous state">&#8249;</button> <select id="state" aria-label="Timeline state"></select> <button id="next" title="Next state">&#8250;</button></span>',
+    '<span class="spacer"></span>',
+    '<input id="search" type="search" placeholder="Search actors" aria-label="Search actors">',
+    '</header>',
+    '<main>',
+    '<aside id="legend"></aside>',
+    '<div id="canvas">',
+    '<svg id="graph" xmlns="http://www.w3.org/2000/svg"><g id="viewport"></g></svg>',
+    '<div id="stats"></div>',
+    '<div id="zoom"><button id="zoom-in" title="Zoom in">+</button><button id="zoom-out" title="Zoom out">&#8722;</button><button id="zoom-fit" title="Fit to view">Fit</button></div>',
+    '</div>',
+    '</main>',
+    `<footer>Read-only view exported from Constellation Analyzer on ${new Date().toISOString().slice(0, 10)}. Hover over actors and relations for details; drag to pan, scroll to zoom.</footer>`,
+    '<div id="tooltip" role="tooltip"></div>',
+    `<script type="application/json" id="constellation-data">${embedJson({ document, settings })}</script>`,
+    `<script>${VIEWER_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
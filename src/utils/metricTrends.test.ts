@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { metricTrends, trendsToCsv } from './metricTrends';
+import { createMockActor, createMockRelation, createMockState } from '../test-utils/mocks';
+
+describe('metricTrends', () => {
+  const states = [
+    createMockState(
+      '1',
+      { nodes: [createMockActor('a'), createMockActor('b'), createMockActor('c')] },
+      { label: 'State 1', metadata: { date: '2024-03-01T00:00:00.000Z' } }
+    ),
+    createMockState(
+      '2',
+      {
+        nodes: [createMockActor('a'), createMockActor('b'), createMockActor('c')],
+        edges: [
+          createMockRelation('a-b', 'a', 'b'),
+          createMockRelation('b-c', 'b', 'c'),
+          createMockRelation('a-c', 'a', 'c'),
+        ],
+      },
+      { label: 'State 2' }
+    ),
+    createMockState(
+      '3',
+      { nodes: [createMockActor('b'), createMockActor('c')], edges: [createMockRelation('b-c', 'b', 'c')] },
+      { label: 'State 3' }
+    ),
+  ];
+
+  it('measures each state in order', () => {
+    const points = metricTrends(states);
+
+    expect(points.map((point) => point.stateId)).toEqual(['1', '2', '3']);
+    expect(points.map((point) => [point.actorCount, point.relationCount, point.componentCount])).toEqual([
+      [3, 0, 3],
+      [3, 3, 1],
+      [2, 1, 1],
+    ]);
+    expect(points.map((point) => point.density)).toEqual([0, 1, 1]);
+  });
+
+  it('follows the degree of chosen actors, null where they are missing', () => {
+    const points = metricTrends(states, ['a']);
+
+    expect(points.map((point) => point.degrees.a)).toEqual([0, 2, null]);
+  });
+});
+
+describe('trendsToCsv', () => {
+  it('writes one line per state with the chosen actors last', () => {
+    const points = metricTrends(
+      [
+        createMockState(
+          '1',
+          {
+            nodes: [createMockActor('a'), createMockActor('b'), createMockActor('c')],
+            edges: [createMockRelation('a-b', 'a', 'b')],
+          },
+          { label: 'State 1', metadata: { date: '2024-03-01T00:00:00.000Z' } }
+        ),
+        createMockState('2', { nodes: [createMockActor('b')] }, { label: 'State 2' }),
+      ],
+      ['a']
+    );
+
+    expect(trendsToCsv(points, [{ id: 'a', label: 'Acme, Inc.' }]).split('\r\n')).toEqual([
+      'State,Date,Actors,Relations,Density,Islands,"Degree: Acme, Inc."',
+      'State 1,2024-03-01,3,1,0.3333,2,1',
+      'State 2,,1,0,0,1,',
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { calculateActorDegrees, calculateDensity, findConnectedComponents } from './graphAnalysis';
+import { toCsv, type CsvCell } from './reportExport';
+import type { ConstellationState, StateId } from '../types/timeline';
+import type { Actor, Relation } from '../types';
+
+/**
+ * Metric Trend Utilities
+ *
+ * Runs the network measures over a sequence of timeline states, so they can
+ * be charted over time and exported for spreadsheets.
+ */
+
+export type TrendMetric = 'actorCount' | 'relationCount' | 'density' | 'componentCount';
+
+export const TREND_METRICS: { id: TrendMetric; label: string; description: string }[] = [
+  { id: 'actorCount', label: 'Actors', description: 'Number of actors' },
+  { id: 'relationCount', label: 'Relations', description: 'Number of relations' },
+  {
+    id: 'density',
+    label: 'Density',
+    description: 'Share of all possible pairs of actors that are related (0 to 1)',
+  },
+  {
+    id: 'componentCount',
+    label: 'Islands',
+    description: 'Groups of actors that reach each other but nobody outside (connected components)',
+  },
+];
+
+export interface TrendPoint extends Record<TrendMetric, number> {
+  stateId: StateId;
+  label: string;
+  date?: string;
+  degrees: Record<string, number | null>; // Actor ID -> degree; null where the actor is not in the state
+}
+
+/**
+ * The measures for each state, in the order given
+ */
+export function metricTrends(states: ConstellationState[], actorIds: string[] = []): TrendPoint[] {
+  return states.map((state) => {
+    const nodes = state.graph.nodes as unknown as Actor[];
+    const edges = state.graph.edges as unknown as Relation[];
+    const degreeById = new Map(calculateActorDegrees(nodes, edges).map((actor) => [actor.actorId, actor.degree]));
+    return {
+      stateId: state.id,
+      label: state.label,
+      date: state.metadata?.date,
+      actorCount: nodes.length,
+      relationCount: edges.length,
+      density: calculateDensity(nodes.length, edges.length),
+      componentCount: findConnectedComponents(nodes, edges),
+      degrees: Object.fromEntries(actorIds.map((id) => [id, degreeById.get(id) ?? null])),
+    };
+  });
+}
+
+/** Round for export without trailing float noise */
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * One line per state: its measures, then the degree of each chosen actor
+ */
+export function trendsToCsv(points: TrendPoint[], actors: { id: string; label: string }[]): string {
+  const rows: CsvCell[][] = [
+    ['State', 'Date', ...TREND_METRICS.map((metric) => metric.label), ...actors.map((actor) => `Degree: ${actor.label}`)],
+    ...points.map((point) => [
+      point.label,
+      point.date?.slice(0, 10),
+      ...TREND_METRICS.map((metric) => round(point[metric.id])),
+      ...actors.map((actor) => point.degrees[actor.id]),
+    ]),
+  ];
+  return toCsv(rows);
+}
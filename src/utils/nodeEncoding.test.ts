@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEncodingScale,
+  getEncodedColor,
+  getEncodedSize,
+  getNumericMetadataKeys,
+  ENCODING_GRADIENT,
+  ENCODING_SIZE_RANGE,
+} from './nodeEncoding';
+import type { Actor, Relation } from '../types';
+
+function createActor(id: string, metadata?: Record<string, unknown>): Actor {
+  return {
+    id,
+    type: 'custom',
+    position: { x: 0, y: 0 },
+    data: { type: 'person', label: id.toUpperCase(), metadata },
+  };
+}
+
+function createRelation(source: string, target: string): Relation {
+  return {
+    id: `${source}-${target}`,
+    source,
+    target,
+    type: 'custom',
+    data: { type: 'collaborates' },
+  };
+}
+
+// hub at the centre of three spokes
+const starNodes = ['hub', 's1', 's2', 's3'].map((id) => createActor(id));
+const starEdges = ['s1', 's2', 's3'].map((spoke) => createRelation('hub', spoke));
+
+describe('nodeEncoding', () => {
+  describe('getNumericMetadataKeys', () => {
+    it('lists fields holding a number on at least one actor', () => {
+      const nodes = [
+        createActor('a', { budget: 100, city: 'Berlin' }),
+        createActor('b', { staff: '12', note: '' }),
+        createActor('c'),
+      ];
+
+      expect(getNumericMetadataKeys(nodes)).toEqual(['budget', 'staff']);
+    });
+  });
+
+  describe('calculateEncodingScale', () => {
+    it('spreads actors between the lowest and highest degree', () => {
+      const scale = calculateEncodingScale(starNodes, starEdges, { metric: 'degree', size: true, color: true });
+
+      expect(scale.min).toBe(1);
+      expect(scale.max).toBe(3);
+      expect(scale.positions.hub).toBe(1);
+      expect(scale.positions.s1).toBe(0);
+    });
+
+    it('places everyone in the middle when all values are equal', () => {
+      const scale = calculateEncodingScale(starNodes, [], { metric: 'degree', size: true, color: true });
+
+      expect(Object.values(scale.positions)).toEqual([0.5, 0.5, 0.5, 0.5]);
+    });
+
+    it('leaves out actors without the metadata field', () => {
+      const nodes = [createActor('a', { budget: 10 }), createActor('b', { budget: '30' }), createActor('c')];
+      const scale = calculateEncodingScale(nodes, [], {
+        metric: 'metadata',
+        metadataKey: 'budget',
+        size: true,
+        color: false,
+      });
+
+      expect(scale.positions).toEqual({ a: 0, b: 1 });
+    });
+  });
+
+  describe('getEncodedColor', () => {
+    it('runs from the first to the last gradient stop', () => {
+      expect(getEncodedColor(0)).toBe(ENCODING_GRADIENT[0]);
+      expect(getEncodedColor(0.5)).toBe(ENCODING_GRADIENT[1]);
+      expect(getEncodedColor(1)).toBe(ENCODING_GRADIENT[ENCODING_GRADIENT.length - 1]);
+    });
+  });
+
+  describe('getEncodedSize', () => {
+    it('runs from the smallest to the largest scale factor', () => {
+      expect(getEncodedSize(0)).toBe(ENCODING_SIZE_RANGE[0]);
+      expect(getEncodedSize(1)).toBeCloseTo(ENCODING_SIZE_RANGE[1]);
+    });
+  });
+});
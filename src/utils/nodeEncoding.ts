@@ -0,0 +1,134 @@
+import type { Actor, Relation } from '../types';
+import {
+  calculateActorDegrees,
+  calculateBetweennessCentrality,
+  calculateClosenessCentrality,
+  calculateEigenvectorCentrality,
+  calculatePageRank,
+  type CentralityMeasure,
+} from './graphAnalysis';
+
+/**
+ * Node Encoding Utilities
+ *
+ * Maps a metric onto the size and colour of actors on the canvas.
+ * The encoding itself is saved with the document; the values it produces are
+ * recomputed from the graph whenever it changes.
+ */
+
+export interface NodeEncoding {
+  metric: CentralityMeasure | 'metadata';
+  metadataKey?: string; // Numeric metadata field, when metric is 'metadata'
+  size: boolean; // Scale actors with the metric
+  color: boolean; // Colour actors along the gradient
+}
+
+export interface EncodingScale {
+  min: number;
+  max: number;
+  positions: Record<string, number>; // Actor ID -> 0..1 between min and max; actors without a value are absent
+}
+
+/** Light to dark gradient, low values to high */
+export const ENCODING_GRADIENT = ['#fef3c7', '#f59e0b', '#b91c1c'];
+
+/** Smallest and largest scale factor applied to actors */
+export const ENCODING_SIZE_RANGE: [number, number] = [0.7, 1.6];
+
+/**
+ * Read a metadata entry as a number: finite numbers, or strings holding one
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Metadata fields holding a number on at least one actor, sorted by name
+ */
+export function getNumericMetadataKeys(nodes: Actor[]): string[] {
+  const keys = new Set<string>();
+  nodes.forEach(node => {
+    Object.entries(node.data?.metadata || {}).forEach(([key, value]) => {
+      if (toNumber(value) !== null) keys.add(key);
+    });
+  });
+  return Array.from(keys).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Raw metric value per actor; actors without a value are absent
+ */
+function metricValues(nodes: Actor[], edges: Relation[], encoding: NodeEncoding): Map<string, number> {
+  switch (encoding.metric) {
+    case 'degree':
+      return new Map(calculateActorDegrees(nodes, edges).map(actor => [actor.actorId, actor.degree]));
+    case 'betweenness':
+      return calculateBetweennessCentrality(nodes, edges);
+    case 'closeness':
+      return calculateClosenessCentrality(nodes, edges);
+    case 'eigenvector':
+      return calculateEigenvectorCentrality(nodes, edges);
+    case 'pageRank':
+      return calculatePageRank(nodes, edges);
+    case 'metadata': {
+      const values = new Map<string, number>();
+      if (!encoding.metadataKey) return values;
+      nodes.forEach(node => {
+        const value = toNumber(node.data?.metadata?.[encoding.metadataKey!]);
+        if (value !== null) values.set(node.id, value);
+      });
+      return values;
+    }
+  }
+}
+
+/**
+ * Place every actor on the scale of the chosen metric
+ * When all actors share one value, they all sit in the middle.
+ */
+export function calculateEncodingScale(nodes: Actor[], edges: Relation[], encoding: NodeEncoding): EncodingScale {
+  const values = metricValues(nodes, edges, encoding);
+  if (values.size === 0) return { min: 0, max: 0, positions: {} };
+
+  const all = Array.from(values.values());
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const positions: Record<string, number> = {};
+  values.forEach((value, actorId) => {
+    positions[actorId] = max === min ? 0.5 : (value - min) / (max - min);
+  });
+
+  return { min, max, positions };
+}
+
+/**
+ * Scale factor for an actor at the given position on the scale
+ */
+export function getEncodedSize(position: number): number {
+  const [smallest, largest] = ENCODING_SIZE_RANGE;
+  return smallest + (largest - smallest) * position;
+}
+
+const mixChannel = (from: string, to: string, offset: number, t: number): number =>
+  Math.round(parseInt(from.slice(offset, offset + 2), 16) * (1 - t) + parseInt(to.slice(offset, offset + 2), 16) * t);
+
+/**
+ * Colour for an actor at the given position on the gradient
+ */
+export function getEncodedColor(position: number): string {
+  const segments = ENCODING_GRADIENT.length - 1;
+  const clamped = Math.min(1, Math.max(0, position));
+  const segment = Math.min(segments - 1, Math.floor(clamped * segments));
+  const t = clamped * segments - segment;
+  const from = ENCODING_GRADIENT[segment];
+  const to = ENCODING_GRADIENT[segment + 1];
+
+  return `#${[1, 3, 5]
+    .map(offset => mixChannel(from, to, offset, t).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
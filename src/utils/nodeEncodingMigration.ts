@@ -0,0 +1,35 @@
+import type { ConstellationDocument } from '../stores/persistence/types';
+import type { DocumentMetadata } from '../stores/workspace/types';
+import type { NodeEncoding } from './nodeEncoding';
+
+/**
+ * Node encoding migration
+ *
+ * The metric encoding of actors was first kept in the workspace's document
+ * metadata, which never leaves the browser - so it was lost on export and
+ * whenever the document was opened elsewhere. It now lives in the document.
+ *
+ * Metadata written before the move still carries the field. It is moved into
+ * the document once, and removed from the metadata so a later "clear" in the
+ * document is not undone by the stale copy on the next load.
+ */
+
+export type LegacyDocumentMetadata = DocumentMetadata & { nodeEncoding?: NodeEncoding };
+
+/**
+ * Move a legacy encoding from the metadata into the document.
+ *
+ * Mutates both in place, matching the other load-time migrations; the caller
+ * writes both back. An encoding already in the document wins.
+ */
+export function migrateDocumentNodeEncoding(
+  document: ConstellationDocument | null,
+  metadata: LegacyDocumentMetadata
+): void {
+  if (!metadata.nodeEncoding) return;
+
+  if (document && !document.nodeEncoding) {
+    document.nodeEncoding = metadata.nodeEncoding;
+  }
+  delete metadata.nodeEncoding;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chronologicalOrder,
+  playbackSequence,
+  resolvePlaybackLeaf,
+  stepInSequence,
+} from './playbackSequence';
+import { createMockState } from '../test-utils/mocks';
+
+// root ─ a ─ a1
+//      │   └ a2 (created later)
+//      └ b
+const tree = [
+  createMockState('root', {}, { createdAt: '2024-01-01T00:00:00.000Z' }),
+  createMockState('a', {}, { parentStateId: 'root', createdAt: '2024-01-02T00:00:00.000Z' }),
+  createMockState('b', {}, { parentStateId: 'root', createdAt: '2024-01-03T00:00:00.000Z' }),
+  createMockState('a2', {}, { parentStateId: 'a', createdAt: '2024-01-05T00:00:00.000Z' }),
+  createMockState('a1', {}, { parentStateId: 'a', createdAt: '2024-01-04T00:00:00.000Z' }),
+];
+
+describe('resolvePlaybackLeaf', () => {
+  it('keeps a chosen leaf', () => {
+    expect(resolvePlaybackLeaf(tree, 'a2', 'root')).toBe('a2');
+  });
+
+  it('falls back to the first leaf below the current state', () => {
+    expect(resolvePlaybackLeaf(tree, null, 'root')).toBe('a1');
+    expect(resolvePlaybackLeaf(tree, 'a', 'b')).toBe('b'); // Not a leaf
+    expect(resolvePlaybackLeaf(tree, 'deleted', 'a')).toBe('a1');
+  });
+});
+
+describe('chronologicalOrder', () => {
+  it('orders by date, then undated states by creation', () => {
+    const states = [
+      createMockState('undated-late', {}, { createdAt: '2024-02-01T00:00:00.000Z' }),
+      createMockState('march', {}, { createdAt: '2024-01-01T00:00:00.000Z', metadata: { date: '2023-03-01' } }),
+      createMockState('undated-early', {}, { createdAt: '2024-01-15T00:00:00.000Z' }),
+      createMockState('january', {}, { createdAt: '2024-01-10T00:00:00.000Z', metadata: { date: '2023-01-01' } }),
+    ];
+
+    expect(chronologicalOrder(states)).toEqual(['january', 'march', 'undated-early', 'undated-late']);
+  });
+});
+
+describe('playbackSequence', () => {
+  it('plays the path or every state depending on the order', () => {
+    expect(playbackSequence(tree, 'path', 'b')).toEqual(['root', 'b']);
+    expect(playbackSequence(tree, 'chronological', 'b')).toHaveLength(tree.length);
+  });
+});
+
+describe('stepInSequence', () => {
+  const sequence = ['root', 'a', 'a1'];
+
+  it('steps forward and back', () => {
+    expect(stepInSequence(sequence, 'a', 1, false)).toBe('a1');
+    expect(stepInSequence(sequence, 'a', -1, false)).toBe('root');
+  });
+
+  it('stops at the ends unless looping', () => {
+    expect(stepInSequence(sequence, 'a1', 1, false)).toBeNull();
+    expect(stepInSequence(sequence, 'root', -1, false)).toBeNull();
+    expect(stepInSequence(sequence, 'a1', 1, true)).toBe('root');
+    expect(stepInSequence(sequence, 'root', -1, true)).toBe('a1');
+  });
+
+  it('starts over from a state outside the sequence', () => {
+    expect(stepInSequence(sequence, 'b', 1, false)).toBe('root');
+    expect(stepInSequence(sequence, undefined, -1, true)).toBe('root');
+  });
+
+  it('has nowhere to go in an empty or single-state sequence', () => {
+    expect(stepInSequence([], 'a', 1, true)).toBeNull();
+    expect(stepInSequence(['root'], 'root', 1, true)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+import { parseStateDate } from './calendarLayout';
+import { byCreation, firstLeafFrom, leafStates, pathToState } from './timelineTree';
+
+/**
+ * Playback Sequence Utilities
+ *
+ * Works out which states timeline playback walks through, and in what order:
+ * - 'path': from the root state down the branches to one leaf state
+ * - 'chronological': every state by its date; undated states come last,
+ *   in the order they were created
+ */
+
+export type PlaybackOrder = 'path' | 'chronological';
+
+/**
+ * The leaf to play to: the chosen one while it is still a leaf, otherwise
+ * the first leaf below the state on screen
+ */
+export function resolvePlaybackLeaf(
+  states: ConstellationState[],
+  chosenLeafId: StateId | null,
+  currentStateId: StateId
+): StateId {
+  if (chosenLeafId && leafStates(states).some((state) => state.id === chosenLeafId)) {
+    return chosenLeafId;
+  }
+  return firstLeafFrom(states, currentStateId);
+}
+
+/**
+ * Every state ordered by date, then by creation
+ */
+export function chronologicalOrder(states: ConstellationState[]): StateId[] {
+  const dated = states
+    .map((state) => ({ state, time: parseStateDate(state.metadata?.date) }))
+    .filter((entry): entry is { state: ConstellationState; time: number } => entry.time !== null)
+    .sort((a, b) => a.time - b.time || byCreation(a.state, b.state))
+    .map((entry) => entry.state.id);
+  const undated = states
+    .filter((state) => parseStateDate(state.metadata?.date) === null)
+    .sort(byCreation)
+    .map((state) => state.id);
+  return [...dated, ...undated];
+}
+
+export function playbackSequence(
+  states: ConstellationState[],
+  order: PlaybackOrder,
+  leafId: StateId
+): StateId[] {
+  return order === 'chronological' ? chronologicalOrder(states) : pathToState(states, leafId);
+}
+
+/**
+ * The state one step forward (1) or back (-1) in the sequence, or null at
+ * either end when not looping. From a state outside the sequence, playback
+ * starts over at its beginning.
+ */
+export function stepInSequence(
+  sequence: StateId[],
+  currentId: StateId | undefined,
+  direction: 1 | -1,
+  loop: boolean
+): StateId | null {
+  if (sequence.length === 0) return null;
+  const index = currentId ? sequence.indexOf(currentId) : -1;
+  if (index === -1) return sequence[0];
+
+  const next = index + direction;
+  if (next >= 0 && next < sequence.length) return sequence[next];
+  if (!loop || sequence.length === 1) return null;
+  return direction === 1 ? sequence[0] : sequence[sequence.length - 1];
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyElementData,
+  changedFields,
+  editedFields,
+  planPropagation,
+} from './propagateEdit';
+import { createMockActor, createMockGroup, createMockRelation, createMockState } from '../test-utils/mocks';
+
+describe('changedFields', () => {
+  it('names the content fields that differ', () => {
+    const before = { label: 'Acme', type: 'person' };
+    const after = { label: 'ACME', type: 'person', labels: ['l1'] };
+
+    expect(changedFields('actor', before, after)).toEqual([
+      'label',
+      'labels',
+    ]);
+  });
+
+  it('treats missing and undefined as the same', () => {
+    expect(changedFields('actor', { label: 'A', description: undefined }, { label: 'A' })).toEqual([]);
+  });
+
+  it('ignores fields that are not carried over', () => {
+    expect(changedFields('relation', { type: 'r', offsetMultiplier: 1 }, { type: 'r', offsetMultiplier: 2 })).toEqual(
+      []
+    );
+    expect(changedFields('group', { label: 'G', actorIds: ['a'] }, { label: 'G', actorIds: ['b'] })).toEqual([]);
+  });
+});
+
+describe('editedFields', () => {
+  it('names what differs from the parent state', () => {
+    const parent = createMockState('parent', {
+      nodes: [createMockActor('actor-1', { label: 'Acme', labels: ['l1'] })],
+    });
+
+    const edited = editedFields(parent, 'actor', 'actor-1', { label: 'ACME', type: 'person', labels: ['l1'] });
+
+    expect(edited).toEqual(['label']);
+  });
+
+  it('has nothing to go on without the element in a parent state', () => {
+    expect(editedFields(undefined, 'actor', 'actor-1', { label: 'ACME', type: 'person' })).toEqual([]);
+    expect(editedFields(createMockState('parent'), 'actor', 'actor-1', { label: 'ACME', type: 'person' })).toEqual([]);
+  });
+});
+
+describe('planPropagation', () => {
+  it('lists states containing the element with what would change', () => {
+    const states = [
+      createMockState('old', { nodes: [createMockActor('actor-1', { label: 'Acme' })] }),
+      createMockState('fixed', { nodes: [createMockActor('actor-1', { label: 'ACME' })] }),
+      createMockState('without'),
+    ];
+
+    expect(planPropagation(states, 'actor', 'actor-1', { label: 'ACME', type: 'person' })).toEqual([
+      { stateId: 'old', fields: ['label'] },
+      { stateId: 'fixed', fields: [] },
+    ]);
+  });
+
+  it('only reports the chosen fields', () => {
+    const states = [
+      createMockState('later', { nodes: [createMockActor('actor-1', { label: 'Acme', type: 'organisation' })] }),
+    ];
+
+    expect(planPropagation(states, 'actor', 'actor-1', { label: 'ACME', type: 'person' }, ['label'])).toEqual([
+      { stateId: 'later', fields: ['label'] },
+    ]);
+  });
+});
+
+describe('applyElementData', () => {
+  it('copies content fields and keeps position and other data', () => {
+    const graph = {
+      nodes: [
+        createMockActor(
+          'actor-1',
+          { label: 'Acme', description: 'Typo', metadata: { source: 'x' } },
+          { position: { x: 10, y: 20 } }
+        ),
+      ],
+      edges: [],
+    };
+
+    const result = applyElementData(graph, 'actor', 'actor-1', { label: 'ACME', type: 'person', labels: ['l1'] });
+
+    expect(result.nodes[0].position).toEqual({ x: 10, y: 20 });
+    expect(result.nodes[0].data).toEqual({ label: 'ACME', type: 'person', labels: ['l1'], metadata: { source: 'x' } });
+    expect(graph.nodes[0].data.label).toBe('Acme'); // Original untouched
+  });
+
+  it('keeps a later state’s own type when only the label is pushed', () => {
+    const graph = {
+      nodes: [createMockActor('actor-1', { label: 'Acme', type: 'organisation', labels: ['l2'] })],
+      edges: [],
+    };
+
+    const result = applyElementData(graph, 'actor', 'actor-1', { label: 'ACME', type: 'person' }, ['label']);
+
+    expect(result.nodes[0].data).toEqual({ label: 'ACME', type: 'organisation', labels: ['l2'] });
+  });
+
+  it('updates relations and groups', () => {
+    const graph = {
+      nodes: [],
+      edges: [createMockRelation('rel-1', 'a', 'b', { strength: 1 })],
+      groups: [createMockGroup('group-1', ['a'], { label: 'Team' })],
+    };
+
+    const withRelation = applyElementData(graph, 'relation', 'rel-1', { type: 'knows', strength: 3 });
+    expect(withRelation.edges[0].data?.strength).toBe(3);
+
+    const withGroup = applyElementData(graph, 'group', 'group-1', { label: 'Board', color: '#000', actorIds: [] });
+    expect(withGroup.groups![0].data).toEqual({ label: 'Board', color: '#000', actorIds: ['a'] });
+  });
+});
@@ -0,0 +1,113 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+
+/**
+ * Edit Propagation Utilities
+ *
+ * Every state holds its own copy of the graph, so fixing an actor in one
+ * state leaves the states that were duplicated from it with the old version.
+ * These helpers carry chosen fields of one actor, relation or group down to
+ * the descendant states that still contain it (matched by ID). Other fields,
+ * positions, connections and group membership stay as each state has them,
+ * since those per-state differences are what the timeline records.
+ */
+
+export type PropagatedElementKind = 'actor' | 'relation' | 'group';
+
+/** Data fields carried over for each kind of element */
+export const PROPAGATED_FIELDS: Record<PropagatedElementKind, string[]> = {
+  actor: ['type', 'label', 'description', 'showDescriptionInNode', 'labels', 'citations'],
+  relation: ['type', 'label', 'directionality', 'strength', 'labels', 'citations'],
+  group: ['label', 'description', 'color'],
+};
+
+export interface PropagationTarget {
+  stateId: StateId;
+  fields: string[]; // Fields that differ from the edited element; empty when already up to date
+}
+
+type ElementData = Record<string, unknown> | undefined;
+
+function findElementData(
+  graph: ConstellationState['graph'],
+  kind: PropagatedElementKind,
+  elementId: string
+): { found: boolean; data: ElementData } {
+  const list: { id: string; data?: ElementData }[] =
+    kind === 'actor' ? graph.nodes : kind === 'relation' ? graph.edges : graph.groups ?? [];
+  const element = list.find((item) => item.id === elementId);
+  return { found: !!element, data: element?.data };
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields whose value differs between two versions of an element
+ */
+export function changedFields(kind: PropagatedElementKind, before: ElementData, after: ElementData): string[] {
+  return PROPAGATED_FIELDS[kind].filter((field) => !sameValue(before?.[field], after?.[field]));
+}
+
+/**
+ * Fields edited in the current state: those that differ from the element as
+ * the parent state has it. Empty when there is no parent state or it does not
+ * contain the element, since then nothing tells an edit from what was there.
+ */
+export function editedFields(
+  parent: ConstellationState | undefined,
+  kind: PropagatedElementKind,
+  elementId: string,
+  data: ElementData
+): string[] {
+  if (!parent) return [];
+  const before = findElementData(parent.graph, kind, elementId);
+  return before.found ? changedFields(kind, before.data, data) : [];
+}
+
+/**
+ * The given states that contain the element, with what pushing the chosen
+ * fields would change
+ */
+export function planPropagation(
+  states: ConstellationState[],
+  kind: PropagatedElementKind,
+  elementId: string,
+  data: ElementData,
+  fields: string[] = PROPAGATED_FIELDS[kind]
+): PropagationTarget[] {
+  return states.flatMap((state) => {
+    const existing = findElementData(state.graph, kind, elementId);
+    if (!existing.found) return [];
+    const changed = changedFields(kind, existing.data, data).filter((field) => fields.includes(field));
+    return [{ stateId: state.id, fields: changed }];
+  });
+}
+
+/**
+ * A copy of the graph with the chosen fields of the element taken from
+ * `data`; chosen fields that `data` leaves unset are cleared
+ */
+export function applyElementData(
+  graph: ConstellationState['graph'],
+  kind: PropagatedElementKind,
+  elementId: string,
+  data: ElementData,
+  fields: string[] = PROPAGATED_FIELDS[kind]
+): ConstellationState['graph'] {
+  const update = <T extends { id: string; data?: ElementData }>(items: T[]): T[] =>
+    items.map((item) => {
+      if (item.id !== elementId) return item;
+      const next: Record<string, unknown> = { ...item.data };
+      PROPAGATED_FIELDS[kind].filter((field) => fields.includes(field)).forEach((field) => {
+        if (data?.[field] === undefined) {
+          delete next[field];
+        } else {
+          next[field] = JSON.parse(JSON.stringify(data[field]));
+        }
+      });
+      return { ...item, data: next };
+    });
+
+  if (kind === 'actor') return { ...graph, nodes: update(graph.nodes) };
+  if (kind === 'relation') return { ...graph, edges: update(graph.edges) };
+  return { ...graph, groups: update(graph.groups ?? []) };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toCsv,
+  homophilyReportToCsv,
+  structureReportToCsv,
+  structureReportToJson,
+} from './reportExport';
+import { calculateStructureReport, type HomophilyReport } from './graphAnalysis';
+import type { Actor, LabelConfig, NodeTypeConfig, Relation } from '../types';
+
+describe('reportExport', () => {
+  describe('toCsv', () => {
+    it('joins cells with commas and rows with line breaks', () => {
+      expect(toCsv([['a', 1], ['b', 2]])).toBe('a,1\r\nb,2');
+    });
+
+    it('quotes cells containing separators, quotes or line breaks', () => {
+      expect(toCsv([['a,b', 'say "hi"', 'two\nlines']])).toBe('"a,b","say ""hi""","two\nlines"');
+    });
+
+    it('leaves empty cells empty', () => {
+      expect(toCsv([[null, undefined, '']])).toBe(',,');
+    });
+  });
+
+  describe('homophilyReportToCsv', () => {
+    const report: HomophilyReport = {
+      actorsByType: new Map([['person', 2], ['organization', 1]]),
+      relationsByType: new Map([['collaborates', 2]]),
+      mixingMatrix: {
+        types: ['person', 'organization'],
+        counts: [
+          [1, 1],
+          [0, 0],
+        ],
+      },
+      assortativity: 1 / 3,
+      typeEI: { internal: 1, external: 1, index: 0 },
+      labelEI: [{ labelId: 'l1', memberCount: 2, internal: 1, external: 0, index: -1 }],
+    };
+    const nodeTypes: NodeTypeConfig[] = [
+      { id: 'person', label: 'Person', color: '#000', shape: 'rectangle' },
+      { id: 'organization', label: 'Organization', color: '#000', shape: 'rectangle' },
+    ];
+    const labels: LabelConfig[] = [{ id: 'l1', name: 'Funded', color: '#000', appliesTo: 'actors' }];
+
+    it('writes the mixing matrix with type names', () => {
+      const lines = homophilyReportToCsv(report, nodeTypes, labels).split('\r\n');
+
+      expect(lines[1]).toBe(',Person,Organization');
+      expect(lines[2]).toBe('Person,1,1');
+      expect(lines[3]).toBe('Organization,0,0');
+    });
+
+    it('writes one line per measure, with label names', () => {
+      const csv = homophilyReportToCsv(report, nodeTypes, labels);
+
+      expect(csv).toContain('Assortativity,Actor types,3,,,0.3333');
+      expect(csv).toContain('E-I index,Actor types,,1,1,0');
+      expect(csv).toContain('E-I index,Funded,2,1,0,-1');
+    });
+  });
+
+  describe('structure report', () => {
+    const nodes: Actor[] = ['a', 'b', 'c'].map((id) => ({
+      id,
+      type: 'custom',
+      position: { x: 0, y: 0 },
+      data: { type: 'person', label: id.toUpperCase() },
+    }));
+    const edges: Relation[] = [
+      { id: 'a-b', source: 'a', target: 'b', type: 'custom', data: { type: 'knows' } },
+      { id: 'b-c', source: 'b', target: 'c', type: 'custom', data: { type: 'knows' } },
+    ];
+    const report = calculateStructureReport(nodes, edges);
+
+    it('writes summary measures, the triad census and local clustering to CSV', () => {
+      const csv = structureReportToCsv(report);
+
+      expect(csv).toContain('One-way pairs,2');
+      expect(csv).toContain('Open triads,1');
+      expect(csv).toContain('Global clustering,0');
+      expect(csv).toContain('021C,1');
+      expect(csv).toContain('B,0,0');
+      expect(csv).toContain('A,0,\r\n');
+    });
+
+    it('keys local clustering by actor ID in JSON', () => {
+      const json = structureReportToJson(report);
+
+      expect(json.triadCensus['021C']).toBe(1);
+      expect(json.clustering.local.b).toEqual({ label: 'B', triangles: 0, clustering: 0 });
+      expect(json.clustering.local.a.clustering).toBeNull();
+    });
+  });
+});
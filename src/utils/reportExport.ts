@@ -0,0 +1,157 @@
+import { TRIAD_TYPES, type HomophilyReport, type StructureReport } from './graphAnalysis';
+import type { LabelConfig, NodeTypeConfig } from '../types';
+
+/**
+ * Report Export Utilities
+ *
+ * Turns analysis results into comma-separated text that opens in any
+ * spreadsheet, or JSON for statistics tools, and downloads it as a file.
+ */
+
+export type CsvCell = string | number | null | undefined;
+
+/**
+ * Quote a single cell when it contains a separator, quote or line break
+ * (RFC 4180). Empty cells stay empty.
+ */
+function escapeCsvCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Join rows of cells into CSV text, one line per row
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Download text as a file named `<fileName>-<yyyy-mm-dd>.<extension>`
+ */
+export function downloadTextFile(parts: BlobPart[], fileName: string, extension: string, type: string): void {
+  const blob = new Blob(parts, { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = window.document.createElement('a');
+  link.href = url;
+  const dateStr = new Date().toISOString().slice(0, 10);
+  link.download = `${fileName}-${dateStr}.${extension}`;
+
+  window.document.body.appendChild(link);
+  link.click();
+
+  window.document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download CSV text as a file named `<fileName>-<yyyy-mm-dd>.csv`
+ */
+export function downloadCsv(content: string, fileName: string): void {
+  // Leading byte order mark so spreadsheet apps read non-ASCII labels correctly
+  downloadTextFile(['\uFEFF', content], fileName, 'csv', 'text/csv;charset=utf-8');
+}
+
+/**
+ * Download data as pretty-printed JSON named `<fileName>-<yyyy-mm-dd>.json`
+ */
+export function downloadJson(data: unknown, fileName: string): void {
+  downloadTextFile([JSON.stringify(data, null, 2)], fileName, 'json', 'application/json');
+}
+
+/** Round for export without trailing float noise; null stays empty */
+const round = (value: number | null): CsvCell =>
+  value === null ? null : Math.round(value * 10000) / 10000;
+
+/**
+ * Flatten a homophily report into one CSV: the mixing matrix first, then one
+ * line per E-I index. Type and label IDs are replaced by their names.
+ */
+export function homophilyReportToCsv(
+  report: HomophilyReport,
+  nodeTypes: NodeTypeConfig[],
+  labels: LabelConfig[]
+): string {
+  const typeName = (typeId: string) => nodeTypes.find(t => t.id === typeId)?.label || typeId;
+  const labelName = (labelId: string) => labels.find(l => l.id === labelId)?.name || labelId;
+  const { types, counts } = report.mixingMatrix;
+  const actorCount = Array.from(report.actorsByType.values()).reduce((sum, count) => sum + count, 0);
+
+  const rows: CsvCell[][] = [
+    ['Mixing matrix (rows: source type, columns: target type)'],
+    ['', ...types.map(typeName)],
+    ...types.map((type, i) => [typeName(type), ...counts[i]]),
+    [],
+    ['Measure', 'Group', 'Actors', 'Internal relations', 'External relations', 'Value'],
+    ['Assortativity', 'Actor types', actorCount, null, null, round(report.assortativity)],
+    ['E-I index', 'Actor types', null, report.typeEI.internal, report.typeEI.external, round(report.typeEI.index)],
+    ...report.labelEI.map(label => [
+      'E-I index',
+      labelName(label.labelId),
+      label.memberCount,
+      label.internal,
+      label.external,
+      round(label.index),
+    ]),
+  ];
+
+  return toCsv(rows);
+}
+
+/**
+ * Flatten a structure report into one CSV: summary measures, the triad
+ * census, then local clustering per actor
+ */
+export function structureReportToCsv(report: StructureReport): string {
+  const rows: CsvCell[][] = [
+    ['Measure', 'Value'],
+    ['Mutual pairs', report.dyadCensus.mutual],
+    ['One-way pairs', report.dyadCensus.asymmetric],
+    ['Unconnected pairs', report.dyadCensus.null],
+    ['Feed-forward loops (030T)', report.feedForwardLoops],
+    ['Cycles (030C)', report.cycles],
+    ['Closed triads', report.closedTriads],
+    ['Open triads', report.openTriads],
+    ['Global clustering', round(report.globalClustering)],
+    ['Average local clustering', round(report.averageLocalClustering)],
+    [],
+    ['Triad type', 'Count'],
+    ...TRIAD_TYPES.map(type => [type, report.triadCensus[type]]),
+    [],
+    ['Actor', 'Triangles', 'Local clustering'],
+    ...report.localClustering.map(actor => [actor.actorLabel, actor.triangles, round(actor.clustering)]),
+  ];
+
+  return toCsv(rows);
+}
+
+/**
+ * Shape a structure report for JSON export, keyed by actor ID
+ */
+export function structureReportToJson(report: StructureReport) {
+  return {
+    dyadCensus: report.dyadCensus,
+    triadCensus: report.triadCensus,
+    motifs: {
+      feedForwardLoops: report.feedForwardLoops,
+      cycles: report.cycles,
+      closedTriads: report.closedTriads,
+      openTriads: report.openTriads,
+    },
+    clustering: {
+      global: report.globalClustering,
+      averageLocal: report.averageLocalClustering,
+      local: Object.fromEntries(
+        report.localClustering.map(actor => [
+          actor.actorId,
+          { label: actor.actorLabel, triangles: actor.triangles, clustering: actor.clustering },
+        ])
+      ),
+    },
+  };
+}
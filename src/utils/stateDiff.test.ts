@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { diffGraphs } from './stateDiff';
+import { createMockActor, createMockRelation } from '../test-utils/mocks';
+
+describe('diffGraphs', () => {
+  it('reports nothing for identical graphs', () => {
+    const graph = { nodes: [createMockActor('a'), createMockActor('b')], edges: [createMockRelation('r1', 'a', 'b')] };
+    const diff = diffGraphs(graph, graph);
+
+    expect(diff.actors).toEqual([]);
+    expect(diff.relations).toEqual([]);
+    expect(diff.actorStatus).toEqual({});
+    expect(diff.relationStatus).toEqual({});
+  });
+
+  it('finds added and removed actors and relations', () => {
+    const before = { nodes: [createMockActor('a'), createMockActor('b')], edges: [createMockRelation('r1', 'a', 'b')] };
+    const after = { nodes: [createMockActor('a'), createMockActor('c')], edges: [createMockRelation('r2', 'a', 'c')] };
+    const diff = diffGraphs(before, after);
+
+    expect(diff.actors.map(entry => [entry.id, entry.status])).toEqual([
+      ['c', 'added'],
+      ['b', 'removed'],
+    ]);
+    expect(diff.relations.map(entry => [entry.id, entry.status])).toEqual([
+      ['r2', 'added'],
+      ['r1', 'removed'],
+    ]);
+    expect(diff.actorStatus).toEqual({ c: 'added', b: 'removed' });
+    expect(diff.relationStatus).toEqual({ r2: 'added', r1: 'removed' });
+  });
+
+  it('keeps removed elements as they were, for drawing ghosts', () => {
+    const removed = createMockActor('b', {}, { position: { x: 120, y: 40 } });
+    const diff = diffGraphs({ nodes: [removed], edges: [] }, { nodes: [], edges: [] });
+
+    expect(diff.actors[0].element).toBe(removed);
+  });
+
+  it('marks actors whose type or labels changed', () => {
+    const before = {
+      nodes: [createMockActor('a', { labels: ['x'] }), createMockActor('b', { labels: ['x', 'y'] })],
+      edges: [],
+    };
+    const after = {
+      nodes: [createMockActor('a', { type: 'org', labels: ['x'] }), createMockActor('b', { labels: ['y'] })],
+      edges: [],
+    };
+    const diff = diffGraphs(before, after);
+
+    expect(diff.actors).toHaveLength(2);
+    expect(diff.actors[0]).toMatchObject({ id: 'a', status: 'changed', changes: ['type'] });
+    expect(diff.actors[0].previous?.data.type).toBe('person');
+    expect(diff.actors[1]).toMatchObject({ id: 'b', status: 'changed', changes: ['labels'] });
+  });
+
+  it('ignores moves, renames and label order', () => {
+    const before = { nodes: [createMockActor('a', { labels: ['x', 'y'] })], edges: [] };
+    const after = {
+      nodes: [createMockActor('a', { label: 'Renamed', labels: ['y', 'x'] }, { position: { x: 300, y: 300 } })],
+      edges: [],
+    };
+
+    expect(diffGraphs(before, after).actors).toEqual([]);
+  });
+
+  it('treats missing labels as no labels', () => {
+    const diff = diffGraphs(
+      { nodes: [createMockActor('a')], edges: [] },
+      { nodes: [createMockActor('a', { labels: [] })], edges: [] }
+    );
+
+    expect(diff.actors).toEqual([]);
+  });
+
+  it('marks relations whose type, labels or strength changed', () => {
+    const nodes = [createMockActor('a'), createMockActor('b')];
+    const before = {
+      nodes,
+      edges: [
+        createMockRelation('r1', 'a', 'b'),
+        createMockRelation('r2', 'a', 'b', { strength: 1 }),
+        createMockRelation('r3', 'a', 'b'),
+      ],
+    };
+    const after = {
+      nodes,
+      edges: [
+        createMockRelation('r1', 'a', 'b', { type: 'funds' }),
+        createMockRelation('r2', 'a', 'b', { strength: 3, labels: ['x'] }),
+        createMockRelation('r3', 'a', 'b', { label: 'renamed' }),
+      ],
+    };
+    const diff = diffGraphs(before, after);
+
+    expect(diff.relations).toHaveLength(2);
+    expect(diff.relations[0]).toMatchObject({ id: 'r1', status: 'changed', changes: ['type'] });
+    expect(diff.relations[1]).toMatchObject({ id: 'r2', status: 'changed', changes: ['labels', 'strength'] });
+    expect(diff.relationStatus).toEqual({ r1: 'changed', r2: 'changed' });
+  });
+
+  it('notices strength being set or cleared', () => {
+    const nodes = [createMockActor('a'), createMockActor('b')];
+    const diff = diffGraphs(
+      { nodes, edges: [createMockRelation('r1', 'a', 'b')] },
+      { nodes, edges: [createMockRelation('r1', 'a', 'b', { strength: 2 })] }
+    );
+
+    expect(diff.relations[0].changes).toEqual(['strength']);
+  });
+});
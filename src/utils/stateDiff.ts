@@ -0,0 +1,114 @@
+import type { SerializedActor, SerializedRelation } from '../stores/persistence/types';
+
+/**
+ * State Diff Utilities
+ *
+ * Compares the graphs of two timeline states. Actors and relations are
+ * matched by ID: states duplicated from one another share IDs, so an actor
+ * that lives on across states is recognised even when it moved or was renamed.
+ */
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+/** Properties whose change marks an element as changed */
+export type DiffField = 'type' | 'labels' | 'strength';
+
+// Only the parts of actors and relations the diff reads; fits both the
+// serialized graph of a state and the live graph in the editor
+export type DiffActor = Pick<SerializedActor, 'id' | 'position' | 'data' | 'parentId'>;
+export type DiffRelation = Pick<SerializedRelation, 'id' | 'source' | 'target' | 'data'>;
+
+export interface DiffEntry<T> {
+  id: string;
+  status: DiffStatus;
+  element: T; // As it is in the later state; as it was in the earlier one when removed
+  previous?: T; // As it was in the earlier state, when changed
+  changes: DiffField[]; // Empty unless changed
+}
+
+export interface StateDiff {
+  actors: DiffEntry<DiffActor>[];
+  relations: DiffEntry<DiffRelation>[];
+  actorStatus: Record<string, DiffStatus>; // Actor ID -> status; unchanged actors are absent
+  relationStatus: Record<string, DiffStatus>; // Relation ID -> status; unchanged relations are absent
+}
+
+export interface DiffableGraph {
+  nodes: DiffActor[];
+  edges: DiffRelation[];
+}
+
+const sameLabels = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every(labelId => b.includes(labelId));
+
+function actorChanges(before: DiffActor, after: DiffActor): DiffField[] {
+  const changes: DiffField[] = [];
+  if (before.data?.type !== after.data?.type) changes.push('type');
+  if (!sameLabels(before.data?.labels, after.data?.labels)) changes.push('labels');
+  return changes;
+}
+
+function relationChanges(before: DiffRelation, after: DiffRelation): DiffField[] {
+  const changes: DiffField[] = [];
+  if (before.data?.type !== after.data?.type) changes.push('type');
+  if (!sameLabels(before.data?.labels, after.data?.labels)) changes.push('labels');
+  if ((before.data?.strength ?? null) !== (after.data?.strength ?? null)) changes.push('strength');
+  return changes;
+}
+
+function diffElements<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  compare: (before: T, after: T) => DiffField[]
+): DiffEntry<T>[] {
+  const beforeById = new Map(before.map(element => [element.id, element]));
+  const afterIds = new Set(after.map(element => element.id));
+  const entries: DiffEntry<T>[] = [];
+
+  after.forEach(element => {
+    const previous = beforeById.get(element.id);
+    if (!previous) {
+      entries.push({ id: element.id, status: 'added', element, changes: [] });
+      return;
+    }
+    const changes = compare(previous, element);
+    if (changes.length > 0) {
+      entries.push({ id: element.id, status: 'changed', element, previous, changes });
+    }
+  });
+
+  before.forEach(element => {
+    if (!afterIds.has(element.id)) {
+      entries.push({ id: element.id, status: 'removed', element, changes: [] });
+    }
+  });
+
+  return entries;
+}
+
+const indexByStatus = <T>(entries: DiffEntry<T>[]): Record<string, DiffStatus> =>
+  Object.fromEntries(entries.map(entry => [entry.id, entry.status]));
+
+/**
+ * Everything that differs between an earlier and a later graph
+ * Entries are listed added and changed first, in the order of the later
+ * graph, then removed ones in the order of the earlier graph.
+ */
+export function diffGraphs(before: DiffableGraph, after: DiffableGraph): StateDiff {
+  const actors = diffElements(before.nodes, after.nodes, actorChanges);
+  const relations = diffElements(before.edges, after.edges, relationChanges);
+
+  return {
+    actors,
+    relations,
+    actorStatus: indexByStatus(actors),
+    relationStatus: indexByStatus(relations),
+  };
+}
+
+/** Colours of the diff overlay on the canvas */
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#f59e0b',
+};
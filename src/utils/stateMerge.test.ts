@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { mergeGraphs, resolveMerge } from './stateMerge';
+import type { ConstellationState } from '../types/timeline';
+import type { SerializedActor, SerializedGroup, SerializedRelation } from '../stores/persistence/types';
+import { createMockActor, createMockGroup, createMockRelation } from '../test-utils/mocks';
+
+const graph = (
+  nodes: SerializedActor[],
+  edges: SerializedRelation[] = [],
+  groups: SerializedGroup[] = []
+): ConstellationState['graph'] => ({ nodes, edges, groups });
+
+describe('mergeGraphs', () => {
+  const base = graph([createMockActor('a'), createMockActor('b')], [createMockRelation('r1', 'a', 'b')]);
+
+  it('takes additions from both sides', () => {
+    const ours = graph([...base.nodes, createMockActor('c')], base.edges);
+    const theirs = graph([...base.nodes, createMockActor('d')], [...base.edges, createMockRelation('r2', 'a', 'b')]);
+
+    const result = mergeGraphs(base, ours, theirs);
+    const merged = resolveMerge(result, {});
+
+    expect(result.conflicts).toEqual([]);
+    expect(merged.nodes.map((n) => n.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(merged.edges.map((e) => e.id)).toEqual(['r1', 'r2']);
+  });
+
+  it('takes changes to different properties from each side', () => {
+    const ours = graph([createMockActor('a', { label: 'Renamed' }), createMockActor('b')], base.edges);
+    const theirs = graph([createMockActor('a', {}, { position: { x: 50, y: 50 } }), createMockActor('b')], base.edges);
+
+    const merged = resolveMerge(mergeGraphs(base, ours, theirs), {});
+
+    expect(merged.nodes[0].data.label).toBe('Renamed');
+    expect(merged.nodes[0].position).toEqual({ x: 50, y: 50 });
+  });
+
+  it('applies deletions made on one side when the other left the element alone', () => {
+    const ours = graph([createMockActor('a'), createMockActor('b')], []);
+    const theirs = graph([createMockActor('a')], []);
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(resolveMerge(result, {}).nodes.map((n) => n.id)).toEqual(['a']);
+  });
+
+  it('reports the same property changed differently on both sides', () => {
+    const ours = graph(base.nodes, [createMockRelation('r1', 'a', 'b', { type: 'funds' })]);
+    const theirs = graph(base.nodes, [createMockRelation('r1', 'a', 'b', { type: 'opposes' })]);
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ key: 'relation:r1', reason: 'changed', fields: ['data.type'] });
+    expect(resolveMerge(result, {}).edges[0].data?.type).toBe('funds');
+    expect(resolveMerge(result, { 'relation:r1': 'theirs' }).edges[0].data?.type).toBe('opposes');
+  });
+
+  it('reports an element deleted on one side and changed on the other', () => {
+    const ours = graph([createMockActor('a'), createMockActor('b', { label: 'Changed' })], base.edges);
+    const theirs = graph([createMockActor('a')], []);
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts.map((c) => [c.key, c.reason])).toEqual([['actor:b', 'deleted']]);
+    expect(resolveMerge(result, {}).nodes.map((n) => n.id)).toEqual(['a', 'b']);
+
+    const withTheirs = resolveMerge(result, { 'actor:b': 'theirs' });
+    expect(withTheirs.nodes.map((n) => n.id)).toEqual(['a']);
+    expect(withTheirs.edges).toEqual([]); // Its relation goes with it
+  });
+
+  it('brings back what ours deleted when theirs is chosen', () => {
+    const ours = graph([createMockActor('a')], []);
+    const theirs = graph([createMockActor('a'), createMockActor('b', { label: 'Changed' })], base.edges);
+
+    const result = mergeGraphs(base, ours, theirs);
+    const merged = resolveMerge(result, { 'actor:b': 'theirs' });
+
+    expect(merged.nodes.map((n) => n.id)).toEqual(['a', 'b']);
+    expect(merged.edges).toEqual([]); // Theirs left the relation alone, so its deletion stands
+  });
+
+  it('reports the same ID added differently on both sides', () => {
+    const result = mergeGraphs(
+      graph([]),
+      graph([createMockActor('x', { label: 'One' })]),
+      graph([createMockActor('x', { label: 'Two' })])
+    );
+
+    expect(result.conflicts[0]).toMatchObject({ reason: 'added', fields: ['data.label'] });
+  });
+
+  it('ignores properties the editor works out itself', () => {
+    const ours = graph(base.nodes, [createMockRelation('r1', 'a', 'b', { offsetMultiplier: 1 })]);
+    const theirs = graph(base.nodes, [createMockRelation('r1', 'a', 'b', { offsetMultiplier: -1 })]);
+
+    expect(mergeGraphs(base, ours, theirs).conflicts).toEqual([]);
+  });
+
+  it('ignores and drops what React Flow adds to elements on the canvas', () => {
+    const ours = graph([
+      { ...createMockActor('a'), selected: true, measured: { width: 150, height: 80 } } as SerializedActor,
+      createMockActor('b'),
+    ]);
+    const theirs = graph([
+      { ...createMockActor('a'), dragging: false, width: 160 } as SerializedActor,
+      createMockActor('b'),
+    ]);
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.draft.nodes[0]).toEqual(createMockActor('a'));
+  });
+
+  it('drops memberships of groups and actors that are gone', () => {
+    const member = createMockActor('a', {}, { parentId: 'g', extent: 'parent' });
+    const team = createMockGroup('g', ['a', 'b']);
+    const withGroup = graph([member, createMockActor('b')], [], [team]);
+    const ours = graph([member], [], [team]);
+    const theirs = graph([member, createMockActor('b')], [], []);
+
+    const merged = resolveMerge(mergeGraphs(withGroup, ours, theirs), {});
+
+    expect(merged.groups).toEqual([]);
+    expect(merged.nodes).toHaveLength(1);
+    expect(merged.nodes[0].parentId).toBeUndefined();
+    expect(merged.nodes[0].extent).toBeUndefined();
+  });
+});
@@ -0,0 +1,264 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+
+/**
+ * State Merge Utilities
+ *
+ * Three-way merge of two timeline states against the state they both grew
+ * from. Actors, relations and groups are matched by ID; for each one, a
+ * property changed on one side only is taken from that side, and a property
+ * changed differently on both sides is a conflict for the user to resolve.
+ * Conflicts start out resolved in favour of the first state ("ours").
+ */
+
+type StateGraph = ConstellationState['graph'];
+
+export type MergeElementKind = 'actor' | 'relation' | 'group';
+
+export type MergeSide = 'ours' | 'theirs';
+
+// Any actor, relation or group as stored in a state
+interface MergeElement {
+  id: string;
+  data?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface MergeConflict {
+  key: string; // Unique across the merge: `${kind}:${id}`
+  kind: MergeElementKind;
+  id: string;
+  // 'changed': both sides changed the same properties differently
+  // 'deleted': one side deleted what the other changed
+  // 'added': both sides added an element with this ID, differently
+  reason: 'changed' | 'deleted' | 'added';
+  fields: string[]; // Conflicting properties, e.g. 'position' or 'data.type'; empty for 'deleted'
+  ours?: MergeElement; // Missing when ours deleted it
+  theirs?: MergeElement; // Missing when theirs deleted it
+}
+
+export interface MergeResult {
+  // Every conflict resolved in favour of ours; may still refer to actors or
+  // groups a resolution removes, so read the final graph from resolveMerge
+  draft: StateGraph;
+  conflicts: MergeConflict[];
+  ancestorId: StateId | null;
+}
+
+// Top-level properties that belong to the document. Anything else on a stored
+// element is React Flow's runtime state (selected, dragging, measured, hidden,
+// an actor's measured width and height) that the editor happened to copy in;
+// it is neither compared nor carried into the merge.
+const PERSISTED_FIELDS: Record<MergeElementKind, string[]> = {
+  actor: ['type', 'position', 'parentId', 'extent'],
+  relation: ['type', 'source', 'target', 'sourceHandle', 'targetHandle'],
+  group: ['type', 'position', 'width', 'height', 'style'],
+};
+
+// Properties worked out by the editor rather than by the user
+const DERIVED_FIELDS = new Set(['data.offsetMultiplier', 'data.parallelGroupSize', 'data.parallelGroupKey']);
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * An element with only its ID, data and persisted properties
+ */
+function persistedElement(kind: MergeElementKind, element: MergeElement): MergeElement {
+  const result: MergeElement = { id: element.id };
+  PERSISTED_FIELDS[kind].forEach((field) => {
+    if (element[field] !== undefined) result[field] = element[field];
+  });
+  if (element.data !== undefined) result.data = element.data;
+  return result;
+}
+
+function getField(element: MergeElement, field: string): unknown {
+  return field.startsWith('data.') ? element.data?.[field.slice(5)] : element[field];
+}
+
+function setField(element: MergeElement, field: string, value: unknown): void {
+  if (field.startsWith('data.')) {
+    const key = field.slice(5);
+    element.data = { ...element.data };
+    if (value === undefined) {
+      delete element.data[key];
+    } else {
+      element.data[key] = clone(value);
+    }
+  } else if (value === undefined) {
+    delete element[field];
+  } else {
+    element[field] = clone(value);
+  }
+}
+
+function fieldNames(...elements: (MergeElement | undefined)[]): string[] {
+  const names = new Set<string>();
+  elements.forEach((element) => {
+    if (!element) return;
+    Object.keys(element).forEach((key) => {
+      if (key !== 'id' && key !== 'data') names.add(key);
+    });
+    Object.keys(element.data ?? {}).forEach((key) => names.add(`data.${key}`));
+  });
+  return Array.from(names).filter((name) => !DERIVED_FIELDS.has(name));
+}
+
+/** Properties that differ between two versions of an element */
+export function differingFields(a: MergeElement, b: MergeElement): string[] {
+  return fieldNames(a, b).filter((field) => !same(getField(a, field), getField(b, field)));
+}
+
+function mergeElements(
+  kind: MergeElementKind,
+  base: MergeElement[],
+  ours: MergeElement[],
+  theirs: MergeElement[]
+): { merged: MergeElement[]; conflicts: MergeConflict[] } {
+  const byId = (list: MergeElement[]) =>
+    new Map(list.map((element): [string, MergeElement] => [element.id, persistedElement(kind, element)]));
+  const baseById = byId(base);
+  const oursById = byId(ours);
+  const theirsById = byId(theirs);
+
+  // Ours first, in its order, then what only theirs has
+  const ids = [...ours.map((element) => element.id), ...theirs.map((element) => element.id)].filter(
+    (id, index, all) => all.indexOf(id) === index
+  );
+
+  const merged: MergeElement[] = [];
+  const conflicts: MergeConflict[] = [];
+  const conflict = (id: string, reason: MergeConflict['reason'], fields: string[]) =>
+    conflicts.push({
+      key: `${kind}:${id}`,
+      kind,
+      id,
+      reason,
+      fields,
+      ours: oursById.get(id),
+      theirs: theirsById.get(id),
+    });
+
+  ids.forEach((id) => {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (o && t) {
+      const result = clone(o);
+      const conflicting: string[] = [];
+      fieldNames(b, o, t).forEach((field) => {
+        const baseValue = b ? getField(b, field) : undefined;
+        const ourValue = getField(o, field);
+        const theirValue = getField(t, field);
+        if (same(ourValue, theirValue)) return; // Both agree
+        if (b && same(theirValue, baseValue)) return; // Only ours changed it
+        if (b && same(ourValue, baseValue)) {
+          setField(result, field, theirValue); // Only theirs changed it
+          return;
+        }
+        conflicting.push(field);
+      });
+      merged.push(result);
+      if (conflicting.length > 0) conflict(id, b ? 'changed' : 'added', conflicting);
+      return;
+    }
+
+    const kept = (o ?? t)!;
+    if (!b) {
+      merged.push(clone(kept)); // Added on one side
+      return;
+    }
+    // Deleted on one side (both sides deleting it never gets here): fine if
+    // the other side left it alone
+    if (differingFields(b, kept).length > 0) {
+      if (o) merged.push(clone(o)); // Ours keeps it until resolved otherwise
+      conflict(id, 'deleted', []);
+    }
+  });
+
+  return { merged, conflicts };
+}
+
+/**
+ * Merge two state graphs against their common ancestor's
+ */
+export function mergeGraphs(
+  base: StateGraph,
+  ours: StateGraph,
+  theirs: StateGraph,
+  ancestorId: StateId | null = null
+): MergeResult {
+  const actors = mergeElements('actor', base.nodes as never, ours.nodes as never, theirs.nodes as never);
+  const relations = mergeElements('relation', base.edges as never, ours.edges as never, theirs.edges as never);
+  const groups = mergeElements(
+    'group',
+    (base.groups ?? []) as never,
+    (ours.groups ?? []) as never,
+    (theirs.groups ?? []) as never
+  );
+
+  return {
+    draft: {
+      nodes: actors.merged as never,
+      edges: relations.merged as never,
+      groups: groups.merged as never,
+    },
+    conflicts: [...actors.conflicts, ...relations.conflicts, ...groups.conflicts],
+    ancestorId,
+  };
+}
+
+/**
+ * Apply the chosen side of each conflict to a merge result. Conflicts
+ * without a choice stay resolved in favour of ours.
+ */
+export function resolveMerge(result: MergeResult, choices: Record<string, MergeSide>): StateGraph {
+  const graph = clone(result.draft);
+  const listFor = (kind: MergeElementKind): MergeElement[] =>
+    (kind === 'actor' ? graph.nodes : kind === 'relation' ? graph.edges : graph.groups ?? []) as never;
+
+  result.conflicts.forEach((conflict) => {
+    if (choices[conflict.key] !== 'theirs') return;
+    const list = listFor(conflict.kind);
+    const index = list.findIndex((element) => element.id === conflict.id);
+
+    if (!conflict.theirs) {
+      if (index !== -1) list.splice(index, 1); // Theirs deleted it
+      return;
+    }
+    if (index === -1) {
+      list.push(clone(conflict.theirs)); // Ours deleted it; theirs keeps it
+      return;
+    }
+    conflict.fields.forEach((field) => setField(list[index], field, getField(conflict.theirs!, field)));
+  });
+
+  return tidyGraph(graph);
+}
+
+/**
+ * Drop what the merge left dangling: relations to actors that are gone,
+ * and group memberships of groups or actors that are gone
+ */
+function tidyGraph(graph: StateGraph): StateGraph {
+  const actorIds = new Set(graph.nodes.map((actor) => actor.id));
+  const groups = (graph.groups ?? []).map((group) => ({
+    ...group,
+    data: { ...group.data, actorIds: (group.data.actorIds ?? []).filter((id) => actorIds.has(id)) },
+  }));
+  const groupIds = new Set(groups.map((group) => group.id));
+
+  return {
+    nodes: graph.nodes.map((actor) => {
+      if (!actor.parentId || groupIds.has(actor.parentId)) return actor;
+      const ungrouped = { ...actor };
+      delete ungrouped.parentId;
+      delete ungrouped.extent;
+      return ungrouped;
+    }),
+    edges: graph.edges.filter((relation) => actorIds.has(relation.source) && actorIds.has(relation.target)),
+    groups,
+  };
+}
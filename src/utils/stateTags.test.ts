@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { addTag, allStateTags, bridgeHiddenStates, hasTag } from './stateTags';
+import { createMockState } from '../test-utils/mocks';
+
+describe('addTag', () => {
+  it('trims and skips blanks and duplicates, whatever their case', () => {
+    expect(addTag(['Observed'], '  scenario ')).toEqual(['Observed', 'scenario']);
+    expect(addTag(['Observed'], 'observed')).toEqual(['Observed']);
+    expect(addTag(['Observed'], '   ')).toEqual(['Observed']);
+  });
+});
+
+describe('hasTag', () => {
+  it('matches without regard to case', () => {
+    expect(hasTag(createMockState('a', {}, { metadata: { tags: ['Scenario'] } }), 'scenario')).toBe(true);
+    expect(hasTag(createMockState('b'), 'scenario')).toBe(false);
+  });
+});
+
+describe('allStateTags', () => {
+  it('lists each tag once, alphabetically, in its first spelling', () => {
+    const states = [
+      createMockState('a', {}, { metadata: { tags: ['scenario', 'Observed'] } }),
+      createMockState('b', {}, { parentStateId: 'a', metadata: { tags: ['observed', 'draft'] } }),
+    ];
+
+    expect(allStateTags(states)).toEqual(['draft', 'Observed', 'scenario']);
+  });
+});
+
+describe('bridgeHiddenStates', () => {
+  // root ─ a ─ a1 ─ a2
+  //      └ b
+  const states = [
+    createMockState('root'),
+    createMockState('a', {}, { parentStateId: 'root' }),
+    createMockState('a1', {}, { parentStateId: 'a' }),
+    createMockState('a2', {}, { parentStateId: 'a1' }),
+    createMockState('b', {}, { parentStateId: 'root' }),
+  ];
+
+  it('links shown states across hidden ones to their closest shown ancestor', () => {
+    expect(bridgeHiddenStates(states, new Set(['root', 'a2', 'b']))).toEqual([{ source: 'root', target: 'a2' }]);
+  });
+
+  it('leaves states without a shown ancestor unlinked', () => {
+    expect(bridgeHiddenStates(states, new Set(['a1', 'b']))).toEqual([]);
+  });
+});
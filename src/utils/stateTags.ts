@@ -0,0 +1,55 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+
+/**
+ * State Tag Utilities
+ *
+ * Tags sort states into kinds, such as "scenario" or "observed", so the
+ * timeline can show or highlight one kind at a time. Tags compare without
+ * regard to case; the first spelling used is the one shown.
+ */
+
+const sameTag = (a: string, b: string) => a.toLocaleLowerCase() === b.toLocaleLowerCase();
+
+/**
+ * Add a tag unless it is blank or already there
+ */
+export function addTag(tags: string[], tag: string): string[] {
+  const trimmed = tag.trim();
+  if (!trimmed || tags.some((existing) => sameTag(existing, trimmed))) return tags;
+  return [...tags, trimmed];
+}
+
+export function hasTag(state: ConstellationState, tag: string): boolean {
+  return (state.metadata?.tags ?? []).some((existing) => sameTag(existing, tag));
+}
+
+/**
+ * Every tag used in the timeline, alphabetically
+ */
+export function allStateTags(states: ConstellationState[]): string[] {
+  return states
+    .flatMap((state) => state.metadata?.tags ?? [])
+    .reduce<string[]>(addTag, [])
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Links that keep a filtered timeline readable: each shown state whose
+ * parent is hidden is linked to its closest shown ancestor instead
+ */
+export function bridgeHiddenStates(
+  states: ConstellationState[],
+  shownIds: Set<StateId>
+): { source: StateId; target: StateId }[] {
+  const byId = new Map(states.map((state) => [state.id, state]));
+  return states.flatMap((state) => {
+    if (!shownIds.has(state.id) || !state.parentStateId || shownIds.has(state.parentStateId)) return [];
+    const seen = new Set<StateId>([state.id]);
+    let ancestor = byId.get(state.parentStateId);
+    while (ancestor && !shownIds.has(ancestor.id) && !seen.has(ancestor.id)) {
+      seen.add(ancestor.id);
+      ancestor = ancestor.parentStateId ? byId.get(ancestor.parentStateId) : undefined;
+    }
+    return ancestor && shownIds.has(ancestor.id) ? [{ source: ancestor.id, target: state.id }] : [];
+  });
+}
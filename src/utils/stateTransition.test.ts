@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { easeInOutCubic, interpolatePosition, planStateTransition } from './stateTransition';
+
+const node = (id: string, x: number, y: number, parentId?: string) => ({
+  id,
+  position: { x, y },
+  parentId,
+});
+
+describe('planStateTransition', () => {
+  it('moves nodes present in both states', () => {
+    const plan = planStateTransition([node('a', 0, 0), node('b', 10, 10)], [node('a', 100, 50), node('b', 10, 10)]);
+
+    expect(plan.moves.get('a')).toEqual({ from: { x: 0, y: 0 }, to: { x: 100, y: 50 } });
+    expect(plan.moves.has('b')).toBe(false); // Did not move
+    expect(plan.enteringIds.size).toBe(0);
+    expect(plan.leaving).toEqual([]);
+  });
+
+  it('fades in new nodes and keeps removed ones for fading out', () => {
+    const removed = node('b', 10, 10);
+    const plan = planStateTransition([node('a', 0, 0), removed], [node('a', 0, 0), node('c', 5, 5)]);
+
+    expect(Array.from(plan.enteringIds)).toEqual(['c']);
+    expect(plan.leaving).toEqual([removed]);
+    expect(plan.leaving[0]).toBe(removed);
+  });
+
+  it('does not glide nodes that joined or left a group', () => {
+    const plan = planStateTransition(
+      [node('a', 200, 200), node('b', 20, 20, 'group-1')],
+      [node('a', 20, 20, 'group-1'), node('b', 300, 300)]
+    );
+
+    expect(plan.moves.size).toBe(0);
+    expect(plan.enteringIds.size).toBe(0);
+    expect(plan.leaving).toEqual([]);
+  });
+
+  it('glides nodes moving within the same group', () => {
+    const plan = planStateTransition([node('a', 10, 10, 'group-1')], [node('a', 40, 10, 'group-1')]);
+
+    expect(plan.moves.get('a')?.to).toEqual({ x: 40, y: 10 });
+  });
+});
+
+describe('easeInOutCubic', () => {
+  it('starts at 0, ends at 1 and passes the middle halfway', () => {
+    expect(easeInOutCubic(0)).toBe(0);
+    expect(easeInOutCubic(0.5)).toBe(0.5);
+    expect(easeInOutCubic(1)).toBe(1);
+  });
+
+  it('starts and ends slowly', () => {
+    expect(easeInOutCubic(0.1)).toBeLessThan(0.1);
+    expect(easeInOutCubic(0.9)).toBeGreaterThan(0.9);
+  });
+});
+
+describe('interpolatePosition', () => {
+  it('blends between two positions', () => {
+    expect(interpolatePosition({ x: 0, y: 100 }, { x: 100, y: 0 }, 0.25)).toEqual({ x: 25, y: 75 });
+  });
+});
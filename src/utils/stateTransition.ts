@@ -0,0 +1,70 @@
+/**
+ * State Transition Utilities
+ *
+ * Plans the animation played when the editor switches timeline states:
+ * actors and groups present in both states glide to their new position,
+ * new ones fade in and removed ones fade out.
+ */
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+// Only the parts of React Flow nodes the plan reads
+interface TransitionNode {
+  id: string;
+  position: Position;
+  parentId?: string;
+}
+
+export interface StateTransitionPlan<T extends TransitionNode> {
+  moves: Map<string, { from: Position; to: Position }>; // Node ID -> start and end position
+  enteringIds: Set<string>; // Only in the new state
+  leaving: T[]; // Only in the old state, as they were
+}
+
+/**
+ * Compare the nodes on screen with the ones of the state being opened
+ * Positions of grouped nodes are relative to their group, so a node that
+ * joined or left a group jumps instead of gliding across the canvas.
+ */
+export function planStateTransition<T extends TransitionNode>(
+  previous: T[],
+  next: TransitionNode[]
+): StateTransitionPlan<T> {
+  const previousById = new Map(previous.map(node => [node.id, node]));
+  const nextIds = new Set(next.map(node => node.id));
+  const moves = new Map<string, { from: Position; to: Position }>();
+  const enteringIds = new Set<string>();
+
+  next.forEach(node => {
+    const before = previousById.get(node.id);
+    if (!before) {
+      enteringIds.add(node.id);
+      return;
+    }
+    const moved = before.position.x !== node.position.x || before.position.y !== node.position.y;
+    if (moved && before.parentId === node.parentId) {
+      moves.set(node.id, { from: before.position, to: node.position });
+    }
+  });
+
+  return {
+    moves,
+    enteringIds,
+    leaving: previous.filter(node => !nextIds.has(node.id)),
+  };
+}
+
+/** Slow start, slow end; t runs from 0 to 1 */
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+export function interpolatePosition(from: Position, to: Position, t: number): Position {
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { childStates, commonAncestor, descendantStates, firstLeafFrom, leafStates, pathToState } from './timelineTree';
+import { createMockState } from '../test-utils/mocks';
+
+// root ─ a ─ a1
+//      │   └ a2 (created later)
+//      └ b
+const tree = [
+  createMockState('root', {}, { createdAt: '2024-01-01T00:00:00.000Z' }),
+  createMockState('a', {}, { parentStateId: 'root', createdAt: '2024-01-02T00:00:00.000Z' }),
+  createMockState('b', {}, { parentStateId: 'root', createdAt: '2024-01-03T00:00:00.000Z' }),
+  createMockState('a2', {}, { parentStateId: 'a', createdAt: '2024-01-05T00:00:00.000Z' }),
+  createMockState('a1', {}, { parentStateId: 'a', createdAt: '2024-01-04T00:00:00.000Z' }),
+];
+
+describe('childStates', () => {
+  it('lists the states continuing directly from a state', () => {
+    expect(childStates(tree, 'root').map((s) => s.id)).toEqual(['a', 'b']);
+    expect(childStates(tree, 'b')).toEqual([]);
+  });
+});
+
+describe('descendantStates', () => {
+  it('lists every state below a state, branch by branch', () => {
+    expect(descendantStates(tree, 'root').map((s) => s.id)).toEqual(['a', 'a1', 'a2', 'b']);
+    expect(descendantStates(tree, 'a').map((s) => s.id)).toEqual(['a1', 'a2']);
+  });
+});
+
+describe('leafStates', () => {
+  it('lists states without children in creation order', () => {
+    expect(leafStates(tree).map((s) => s.id)).toEqual(['b', 'a1', 'a2']);
+  });
+});
+
+describe('pathToState', () => {
+  it('walks from the root down to the state', () => {
+    expect(pathToState(tree, 'a2')).toEqual(['root', 'a', 'a2']);
+    expect(pathToState(tree, 'root')).toEqual(['root']);
+  });
+
+  it('returns nothing for an unknown state', () => {
+    expect(pathToState(tree, 'missing')).toEqual([]);
+  });
+});
+
+describe('firstLeafFrom', () => {
+  it('follows the earliest child down to a leaf', () => {
+    expect(firstLeafFrom(tree, 'root')).toBe('a1');
+    expect(firstLeafFrom(tree, 'b')).toBe('b');
+  });
+});
+
+describe('commonAncestor', () => {
+  it('finds the latest shared state', () => {
+    expect(commonAncestor(tree, 'a1', 'a2')).toBe('a');
+    expect(commonAncestor(tree, 'a1', 'b')).toBe('root');
+  });
+
+  it('counts a state as its own descendant', () => {
+    expect(commonAncestor(tree, 'a', 'a2')).toBe('a');
+  });
+
+  it('returns null for unknown states', () => {
+    expect(commonAncestor(tree, 'a', 'missing')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import type { ConstellationState, StateId } from '../types/timeline';
+
+/**
+ * Timeline Tree Utilities
+ *
+ * States form a tree through their parentStateId. These helpers walk it:
+ * children and descendants of a state, the leaves, and the path from the
+ * root down to a state. Siblings are always taken in creation order.
+ */
+
+export const byCreation = (a: ConstellationState, b: ConstellationState) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * The states continuing directly from each state, in creation order
+ */
+export function childrenByParent(states: Iterable<ConstellationState>): Map<StateId, ConstellationState[]> {
+  const children = new Map<StateId, ConstellationState[]>();
+  for (const state of states) {
+    if (!state.parentStateId) continue;
+    const siblings = children.get(state.parentStateId) ?? [];
+    siblings.push(state);
+    children.set(state.parentStateId, siblings);
+  }
+  children.forEach((siblings) => siblings.sort(byCreation));
+  return children;
+}
+
+/**
+ * The states that continue directly from a state; each starts a branch
+ */
+export function childStates(states: Iterable<ConstellationState>, stateId: StateId): ConstellationState[] {
+  return childrenByParent(states).get(stateId) ?? [];
+}
+
+/**
+ * Every state below a state, depth first, in creation order among siblings
+ */
+export function descendantStates(states: Iterable<ConstellationState>, stateId: StateId): ConstellationState[] {
+  const children = childrenByParent(states);
+  const result: ConstellationState[] = [];
+  const visit = (id: StateId) => {
+    (children.get(id) ?? []).forEach((child) => {
+      if (result.includes(child)) return;
+      result.push(child);
+      visit(child.id);
+    });
+  };
+  visit(stateId);
+  return result;
+}
+
+/**
+ * States without children: the ends of the branches
+ */
+export function leafStates(states: ConstellationState[]): ConstellationState[] {
+  const children = childrenByParent(states);
+  return states.filter((state) => !children.has(state.id)).sort(byCreation);
+}
+
+/**
+ * State IDs from the root down to the given state
+ */
+export function pathToState(states: ConstellationState[], stateId: StateId): StateId[] {
+  const byId = new Map(states.map((state) => [state.id, state]));
+  const path: StateId[] = [];
+  let state = byId.get(stateId);
+  while (state && !path.includes(state.id)) {
+    path.unshift(state.id);
+    state = state.parentStateId ? byId.get(state.parentStateId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * The leaf reached from a state by always following its first child
+ */
+export function firstLeafFrom(states: ConstellationState[], stateId: StateId): StateId {
+  const children = childrenByParent(states);
+  let current = stateId;
+  const seen = new Set<StateId>();
+  while (children.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = children.get(current)![0].id;
+  }
+  return current;
+}
+
+/**
+ * The latest state both states descend from (a state counts as its own descendant)
+ */
+export function commonAncestor(states: ConstellationState[], stateIdA: StateId, stateIdB: StateId): StateId | null {
+  const pathA = pathToState(states, stateIdA);
+  const onPathB = new Set(pathToState(states, stateIdB));
+  for (let i = pathA.length - 1; i >= 0; i--) {
+    if (onPathB.has(pathA[i])) return pathA[i];
+  }
+  return null;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildXlsx, columnName } from './xlsx';
+
+describe('columnName', () => {
+  it('counts like spreadsheet columns', () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+});
+
+describe('buildXlsx', () => {
+  it('writes one sheet per table with numbers as numbers and text escaped', async () => {
+    const zip = buildXlsx([
+      { name: 'Actors', rows: [['Label', 'Founded'], ['Ada & Co', 1990], ['Ben', null]] },
+      { name: 'Actors', rows: [] },
+    ]);
+
+    const workbook = await zip.file('xl/workbook.xml')!.async('string');
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string');
+
+    expect(workbook).toContain('<sheet name="Actors" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain('<sheet name="Actors 2" sheetId="2" r:id="rId2"/>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ada &amp; Co</t></is></c><c r="B2"><v>1990</v></c>');
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Ben</t></is></c></row>');
+    expect(zip.file('xl/worksheets/sheet2.xml')).not.toBeNull();
+  });
+
+  it('keeps sheet names within Excel’s rules', async () => {
+    const zip = buildXlsx([{ name: 'Matrix 1 [Before/After]: a very long state name', rows: [] }]);
+    const workbook = await zip.file('xl/workbook.xml')!.async('string');
+
+    expect(workbook).toContain('<sheet name="Matrix 1 Before After a very lo" ');
+  });
+});
@@ -0,0 +1,143 @@
+import JSZip from 'jszip';
+import type { CsvCell } from './reportExport';
+import { escapeXml } from './graphml';
+
+/**
+ * XLSX Workbooks
+ *
+ * The smallest workbook Excel, LibreOffice and R's readxl open without
+ * complaint: one worksheet per table, strings written inline, numbers as
+ * numbers. No styles, formulas or shared strings.
+ */
+
+export interface XlsxSheet {
+  name: string;
+  rows: CsvCell[][];
+}
+
+// Excel's limit on sheet names, and the characters it refuses in them
+const MAX_SHEET_NAME = 31;
+const FORBIDDEN_IN_SHEET_NAME = /[[\]:*?/\\]/g;
+
+// Control characters are not allowed in XML 1.0, tab and line breaks aside
+// eslint-disable-next-line no-control-regex
+const XML_CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+/**
+ * Column letters for a zero-based index: A, B, ..., Z, AA, AB, ...
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Sheet names Excel accepts, made unique within the workbook
+ */
+function sheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const cleaned = name.replace(FORBIDDEN_IN_SHEET_NAME, ' ').replace(/\s+/g, ' ').trim();
+    const base = cleaned.slice(0, MAX_SHEET_NAME).trim() || 'Sheet';
+    let unique = base;
+    for (let suffix = 2; used.has(unique.toLowerCase()); suffix++) {
+      unique = `${base.slice(0, MAX_SHEET_NAME - String(suffix).length - 1)} ${suffix}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+function cellXml(cell: CsvCell, reference: string): string {
+  if (cell === null || cell === undefined || cell === '') return '';
+  if (typeof cell === 'number' && Number.isFinite(cell)) {
+    return `<c r="${reference}"><v>${cell}</v></c>`;
+  }
+  const text = escapeXml(String(cell).replace(XML_CONTROL_CHARACTERS, ''));
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function worksheetXml(rows: CsvCell[][]): string {
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) => cellXml(cell, `${columnName(columnIndex)}${rowIndex + 1}`)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<sheetData>${rowsXml.join('')}</sheetData>`,
+    '</worksheet>',
+  ].join('\n');
+}
+
+/**
+ * Build a workbook with one sheet per table
+ *
+ * Returns the archive; generate a Blob from it to download.
+ */
+export function buildXlsx(sheets: XlsxSheet[]): JSZip {
+  const names = sheetNames(sheets.map((sheet) => sheet.name));
+  const zip = new JSZip();
+
+  zip.file(
+    '[Content_Types].xml',
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+      ...sheets.map(
+        (_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ),
+      '</Types>',
+    ].join('\n')
+  );
+
+  zip.file(
+    '_rels/.rels',
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+      '</Relationships>',
+    ].join('\n')
+  );
+
+  zip.file(
+    'xl/workbook.xml',
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+      '<sheets>',
+      ...names.map(
+        (name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      ),
+      '</sheets>',
+      '</workbook>',
+    ].join('\n')
+  );
+
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      ...sheets.map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ),
+      '</Relationships>',
+    ].join('\n')
+  );
+
+  sheets.forEach((sheet, index) => {
+    zip.file(`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(sheet.rows));
+  });
+
+  return zip;
+}